@@ -1,3 +1,4 @@
+import { lazy } from "react";
 import { Toaster } from "@/components/ui/toaster";
 import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
@@ -9,14 +10,24 @@ import { TransactionProvider } from "@/contexts/TransactionContext";
 import { PrivacyProvider } from "@/contexts/PrivacyContext";
 import AppLayout from "@/components/layout/AppLayout";
 import Dashboard from "@/pages/Dashboard";
-import Transactions from "@/pages/Transactions";
-import TransactionForm from "@/pages/TransactionForm";
-import Investments from "@/pages/Investments";
-import Reminders from "@/pages/Reminders";
-import Loans from "@/pages/Loans";
 import Auth from "@/pages/Auth";
 import NotFound from "@/pages/NotFound";
 
+// Split out so the main bundle stays under the service worker's precache limit
+const Transactions = lazy(() => import("@/pages/Transactions"));
+const TransactionForm = lazy(() => import("@/pages/TransactionForm"));
+const Investments = lazy(() => import("@/pages/Investments"));
+const StockTax = lazy(() => import("@/pages/StockTax"));
+const Reminders = lazy(() => import("@/pages/Reminders"));
+const Loans = lazy(() => import("@/pages/Loans"));
+const Cards = lazy(() => import("@/pages/Cards"));
+const Installments = lazy(() => import("@/pages/Installments"));
+const Budgets = lazy(() => import("@/pages/Budgets"));
+const Envelopes = lazy(() => import("@/pages/Envelopes"));
+const Goals = lazy(() => import("@/pages/Goals"));
+const Forecast = lazy(() => import("@/pages/Forecast"));
+const NetWorth = lazy(() => import("@/pages/NetWorth"));
+
 const queryClient = new QueryClient();
 
 function ProtectedRoute({ children }: { children: React.ReactNode }) {
@@ -78,8 +89,16 @@ function AppRoutes() {
         <Route path="/transacoes/nova" element={<TransactionForm />} />
         <Route path="/transacoes/editar/:id" element={<TransactionForm />} />
         <Route path="/investimentos" element={<Investments />} />
+        <Route path="/investimentos/ir" element={<StockTax />} />
         <Route path="/lembretes" element={<Reminders />} />
         <Route path="/emprestimos" element={<Loans />} />
+        <Route path="/cartoes" element={<Cards />} />
+        <Route path="/parcelamentos" element={<Installments />} />
+        <Route path="/orcamentos" element={<Budgets />} />
+        <Route path="/envelopes" element={<Envelopes />} />
+        <Route path="/metas" element={<Goals />} />
+        <Route path="/previsao" element={<Forecast />} />
+        <Route path="/patrimonio" element={<NetWorth />} />
       </Route>
       <Route path="*" element={<NotFound />} />
     </Routes>
@@ -0,0 +1,59 @@
+import { Landmark, PiggyBank, Banknote, Smartphone, CreditCard } from 'lucide-react';
+import { useTransactions } from '@/contexts/TransactionContext';
+import { AccountType } from '@/types/account';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { cn } from '@/lib/utils';
+
+const iconMap: Record<AccountType, React.ElementType> = {
+  checking: Landmark,
+  savings: PiggyBank,
+  cash: Banknote,
+  wallet: Smartphone,
+  credit_card: CreditCard,
+};
+
+const NO_ACCOUNT = 'none';
+
+interface AccountSelectProps {
+  value?: string;
+  onChange: (accountId: string | undefined) => void;
+  className?: string;
+  allowEmpty?: boolean;
+  excludeId?: string;
+}
+
+export default function AccountSelect({ value, onChange, className, allowEmpty = true, excludeId }: AccountSelectProps) {
+  const { accounts } = useTransactions();
+  const options = accounts.filter((a) => !a.isArchived && a.id !== excludeId);
+
+  return (
+    <Select
+      value={value || NO_ACCOUNT}
+      onValueChange={(v) => onChange(v === NO_ACCOUNT ? undefined : v)}
+    >
+      <SelectTrigger className={cn('h-12', className)}>
+        <SelectValue placeholder="Selecione a conta" />
+      </SelectTrigger>
+      <SelectContent className="z-[70]">
+        {allowEmpty && <SelectItem value={NO_ACCOUNT}>Sem conta</SelectItem>}
+        {options.map((account) => {
+          const Icon = iconMap[account.type];
+          return (
+            <SelectItem key={account.id} value={account.id}>
+              <span className="flex items-center gap-2">
+                <Icon className="w-4 h-4 text-muted-foreground" />
+                {account.name}
+              </span>
+            </SelectItem>
+          );
+        })}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,106 @@
+import { useEffect, useState } from 'react';
+import { CloudUpload, FileText, Loader2, X } from 'lucide-react';
+import { useTransactions } from '@/contexts/TransactionContext';
+import { Attachment } from '@/types/attachment';
+import { formatFileSize, isImageAttachment } from '@/lib/attachments';
+import AttachmentInputs from '@/components/AttachmentInputs';
+
+interface AttachmentThumbnailProps {
+  attachment: Attachment;
+  onDelete?: () => void;
+}
+
+function AttachmentThumbnail({ attachment, onDelete }: AttachmentThumbnailProps) {
+  const { getAttachmentUrl } = useTransactions();
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    getAttachmentUrl(attachment).then((signed) => {
+      if (!cancelled) setUrl(signed);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [attachment, getAttachmentUrl]);
+
+  return (
+    <div className="relative aspect-square rounded-lg overflow-hidden bg-muted">
+      <a
+        href={url || undefined}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="absolute inset-0 flex flex-col items-center justify-center gap-1 p-2 text-center"
+        title={attachment.fileName}
+      >
+        {isImageAttachment(attachment.mimeType) && url ? (
+          <img src={url} alt={attachment.fileName} className="absolute inset-0 w-full h-full object-cover" />
+        ) : (
+          <>
+            <FileText className="w-6 h-6 text-muted-foreground" />
+            <span className="text-[10px] text-muted-foreground truncate w-full">{attachment.fileName}</span>
+            <span className="text-[10px] text-muted-foreground">{formatFileSize(attachment.size)}</span>
+          </>
+        )}
+      </a>
+      {attachment.localDataUrl && (
+        <CloudUpload className="absolute bottom-1 left-1 w-3.5 h-3.5 text-amber-500 animate-pulse" />
+      )}
+      {onDelete && (
+        <button
+          type="button"
+          onClick={onDelete}
+          className="absolute top-1 right-1 w-6 h-6 rounded-full bg-background/80 flex items-center justify-center"
+          aria-label={`Remover ${attachment.fileName}`}
+        >
+          <X className="w-3.5 h-3.5" />
+        </button>
+      )}
+    </div>
+  );
+}
+
+interface AttachmentGalleryProps {
+  transactionId: string;
+  editable?: boolean;
+}
+
+/** Thumbnails of a transaction's files; editable galleries upload and delete right away. */
+export default function AttachmentGallery({ transactionId, editable = false }: AttachmentGalleryProps) {
+  const { attachments, addAttachment, deleteAttachment } = useTransactions();
+  const [uploading, setUploading] = useState(0);
+
+  const files = attachments.filter((a) => a.transactionId === transactionId);
+
+  const handleSelect = async (selected: File[]) => {
+    setUploading((n) => n + selected.length);
+    for (const file of selected) {
+      await addAttachment(transactionId, file);
+      setUploading((n) => n - 1);
+    }
+  };
+
+  if (files.length === 0 && !editable) return null;
+
+  return (
+    <div className="space-y-2">
+      {(files.length > 0 || uploading > 0) && (
+        <div className="grid grid-cols-3 gap-2">
+          {files.map((attachment) => (
+            <AttachmentThumbnail
+              key={attachment.id}
+              attachment={attachment}
+              onDelete={editable ? () => deleteAttachment(attachment.id) : undefined}
+            />
+          ))}
+          {uploading > 0 && (
+            <div className="aspect-square rounded-lg bg-muted flex items-center justify-center">
+              <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+            </div>
+          )}
+        </div>
+      )}
+      {editable && <AttachmentInputs onSelect={handleSelect} disabled={uploading > 0} />}
+    </div>
+  );
+}
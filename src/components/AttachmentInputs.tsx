@@ -0,0 +1,65 @@
+import { useRef } from 'react';
+import { Camera, Paperclip } from 'lucide-react';
+import { ACCEPTED_ATTACHMENT_TYPES } from '@/lib/attachments';
+import { Button } from '@/components/ui/button';
+
+interface AttachmentInputsProps {
+  onSelect: (files: File[]) => void;
+  disabled?: boolean;
+}
+
+/** "Arquivo" and "Câmera" buttons; the camera one opens the rear camera on phones. */
+export default function AttachmentInputs({ onSelect, disabled }: AttachmentInputsProps) {
+  const fileRef = useRef<HTMLInputElement>(null);
+  const cameraRef = useRef<HTMLInputElement>(null);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    // Cleared so picking the same file again still fires onChange
+    e.target.value = '';
+    if (files.length > 0) onSelect(files);
+  };
+
+  return (
+    <div className="flex gap-2">
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        className="flex-1"
+        disabled={disabled}
+        onClick={() => fileRef.current?.click()}
+      >
+        <Paperclip className="w-4 h-4 mr-1" />
+        Arquivo
+      </Button>
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        className="flex-1"
+        disabled={disabled}
+        onClick={() => cameraRef.current?.click()}
+      >
+        <Camera className="w-4 h-4 mr-1" />
+        Câmera
+      </Button>
+      <input
+        ref={fileRef}
+        type="file"
+        accept={ACCEPTED_ATTACHMENT_TYPES}
+        multiple
+        className="hidden"
+        onChange={handleChange}
+      />
+      <input
+        ref={cameraRef}
+        type="file"
+        accept="image/*"
+        capture="environment"
+        className="hidden"
+        onChange={handleChange}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,34 @@
+import { FileText, Image, X } from 'lucide-react';
+import { formatFileSize, isImageAttachment } from '@/lib/attachments';
+import AttachmentInputs from '@/components/AttachmentInputs';
+
+interface AttachmentPickerProps {
+  value: File[];
+  onChange: (files: File[]) => void;
+}
+
+/** Files picked for an entry that doesn't exist yet; the form uploads them after saving. */
+export default function AttachmentPicker({ value, onChange }: AttachmentPickerProps) {
+  return (
+    <div className="space-y-2">
+      {value.map((file, index) => {
+        const Icon = isImageAttachment(file.type) ? Image : FileText;
+        return (
+          <div key={`${file.name}-${index}`} className="flex items-center gap-2 px-3 py-2 rounded-lg bg-muted/50">
+            <Icon className="w-4 h-4 text-muted-foreground shrink-0" />
+            <span className="flex-1 min-w-0 text-sm truncate">{file.name}</span>
+            <span className="text-xs text-muted-foreground shrink-0">{formatFileSize(file.size)}</span>
+            <button
+              type="button"
+              onClick={() => onChange(value.filter((_, i) => i !== index))}
+              aria-label={`Remover ${file.name}`}
+            >
+              <X className="w-4 h-4 text-muted-foreground" />
+            </button>
+          </div>
+        );
+      })}
+      <AttachmentInputs onSelect={(files) => onChange([...value, ...files])} />
+    </div>
+  );
+}
@@ -0,0 +1,116 @@
+import { Plus, X } from 'lucide-react';
+import { useTransactions } from '@/contexts/TransactionContext';
+import { TransactionType } from '@/types/transaction';
+import { getCategoriesForType, getCategoryPath } from '@/lib/categories';
+import { CurrencyCode } from '@/types/currency';
+import { SplitLineDraft, getSplitRemainder, parseSplitDrafts } from '@/lib/splits';
+import { formatMoney, getCurrencySymbol } from '@/lib/currency';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { cn } from '@/lib/utils';
+
+interface SplitLinesInputProps {
+  value: SplitLineDraft[];
+  onChange: (lines: SplitLineDraft[]) => void;
+  type: TransactionType;
+  total: number;
+  currency: CurrencyCode;
+}
+
+export default function SplitLinesInput({ value, onChange, type, total, currency }: SplitLinesInputProps) {
+  const { categories } = useTransactions();
+  const options = getCategoriesForType(categories, type);
+  const symbol = getCurrencySymbol(currency);
+
+  const parsed = parseSplitDrafts(value).map((s) => ({ ...s, amount: isNaN(s.amount) ? 0 : s.amount }));
+  const remainder = isNaN(total) ? 0 : getSplitRemainder(parsed, total);
+
+  const updateLine = (index: number, changes: Partial<SplitLineDraft>) => {
+    onChange(value.map((line, i) => (i === index ? { ...line, ...changes } : line)));
+  };
+
+  const addLine = () => {
+    onChange([
+      ...value,
+      {
+        category: options[0]?.key || 'other',
+        amount: remainder > 0 ? remainder.toFixed(2).replace('.', ',') : '',
+        note: '',
+      },
+    ]);
+  };
+
+  return (
+    <div className="space-y-2">
+      {value.map((line, index) => (
+        <div key={index} className="p-3 bg-muted/50 rounded-xl space-y-2">
+          <div className="flex gap-2">
+            <Select value={line.category} onValueChange={(v) => updateLine(index, { category: v })}>
+              <SelectTrigger className="flex-1 min-w-0 h-10">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="z-[70]">
+                {options.map((c) => (
+                  <SelectItem key={c.key} value={c.key}>
+                    {getCategoryPath(categories, c.key)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <div className="relative w-28 shrink-0">
+              <span className="absolute left-2.5 top-1/2 -translate-y-1/2 text-xs text-muted-foreground">
+                {symbol}
+              </span>
+              <Input
+                type="text"
+                inputMode="decimal"
+                value={line.amount}
+                onChange={(e) => updateLine(index, { amount: e.target.value })}
+                placeholder="0,00"
+                className={cn('h-10', symbol.length > 2 ? 'pl-10' : 'pl-8')}
+              />
+            </div>
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              className="h-10 w-10 shrink-0"
+              onClick={() => onChange(value.filter((_, i) => i !== index))}
+              aria-label="Remover linha"
+            >
+              <X className="w-4 h-4" />
+            </Button>
+          </div>
+          <Input
+            value={line.note}
+            onChange={(e) => updateLine(index, { note: e.target.value })}
+            placeholder="Observação (opcional)"
+            maxLength={255}
+            className="h-9 text-sm"
+          />
+        </div>
+      ))}
+
+      <div className="flex items-center justify-between gap-2">
+        <Button type="button" variant="outline" size="sm" onClick={addLine}>
+          <Plus className="w-4 h-4 mr-1" />
+          Adicionar linha
+        </Button>
+        <span className={cn('text-xs font-medium', remainder === 0 ? 'text-income' : 'text-expense')}>
+          {remainder === 0
+            ? 'Valor totalmente distribuído'
+            : remainder > 0
+              ? `Faltam ${formatMoney(remainder, currency)}`
+              : `Excede ${formatMoney(Math.abs(remainder), currency)}`}
+        </span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,82 @@
+import { useState } from 'react';
+import { Hash, X } from 'lucide-react';
+import { useTransactions } from '@/contexts/TransactionContext';
+import { normalizeTagName } from '@/lib/tags';
+import { Input } from '@/components/ui/input';
+import { cn } from '@/lib/utils';
+
+const MAX_SUGGESTIONS = 6;
+
+interface TagInputProps {
+  value: string[]; // tag names
+  onChange: (names: string[]) => void;
+  className?: string;
+}
+
+export default function TagInput({ value, onChange, className }: TagInputProps) {
+  const { tags } = useTransactions();
+  const [draft, setDraft] = useState('');
+
+  const query = normalizeTagName(draft);
+  const suggestions = tags
+    .filter((t) => !value.includes(t.name) && (!query || t.name.includes(query)))
+    .slice(0, MAX_SUGGESTIONS);
+
+  const addTag = (name: string) => {
+    const normalized = normalizeTagName(name);
+    if (normalized && !value.includes(normalized)) onChange([...value, normalized]);
+    setDraft('');
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',') {
+      e.preventDefault();
+      if (draft.trim()) addTag(draft);
+    } else if (e.key === 'Backspace' && !draft && value.length > 0) {
+      onChange(value.slice(0, -1));
+    }
+  };
+
+  return (
+    <div className={cn('space-y-2', className)}>
+      <div className="flex flex-wrap items-center gap-1.5 min-h-12 px-3 py-2 rounded-md border border-input bg-background">
+        {value.map((name) => (
+          <span
+            key={name}
+            className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full bg-primary/10 text-primary text-xs font-medium"
+          >
+            #{name}
+            <button type="button" onClick={() => onChange(value.filter((n) => n !== name))} aria-label={`Remover ${name}`}>
+              <X className="w-3 h-3" />
+            </button>
+          </span>
+        ))}
+        <Input
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={handleKeyDown}
+          onBlur={() => draft.trim() && addTag(draft)}
+          placeholder={value.length === 0 ? 'Ex: viagem-2026, reembolsável' : ''}
+          className="flex-1 min-w-[8rem] h-8 border-0 p-0 shadow-none focus-visible:ring-0 focus-visible:ring-offset-0"
+        />
+      </div>
+      {suggestions.length > 0 && (
+        <div className="flex flex-wrap gap-1.5">
+          {suggestions.map((tag) => (
+            <button
+              key={tag.id}
+              type="button"
+              // Keeps the input from committing the draft on blur before the click lands
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => addTag(tag.name)}
+              className="inline-flex items-center gap-0.5 px-2 py-1 rounded-full bg-muted text-muted-foreground text-xs hover:bg-muted/80"
+            >
+              <Hash className="w-3 h-3" />
+              {tag.name}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,146 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import { Landmark, PiggyBank, Banknote, Smartphone, CreditCard, Wallet, Settings2, Plus, LineChart, ChevronRight } from 'lucide-react';
+import { Account, AccountType, accountTypeColors } from '@/types/account';
+import { Transaction } from '@/types/transaction';
+import { CurrencyCode, ExchangeRate } from '@/types/currency';
+import { getAccountBalance, getUnassignedBalance } from '@/lib/transactions';
+import { convertToday, convertTransactions } from '@/lib/currency';
+import { PrivacyValue } from '@/components/ui/PrivacyValue';
+import AccountsModal from '@/components/modals/AccountsModal';
+import { cn } from '@/lib/utils';
+
+const iconMap: Record<AccountType, React.ElementType> = {
+  checking: Landmark,
+  savings: PiggyBank,
+  cash: Banknote,
+  wallet: Smartphone,
+  credit_card: CreditCard,
+};
+
+interface AccountBalancesProps {
+  accounts: Account[];
+  transactions: Transaction[];
+  baseCurrency: CurrencyCode;
+  exchangeRates: ExchangeRate[];
+}
+
+export default function AccountBalances({ accounts, transactions, baseCurrency, exchangeRates }: AccountBalancesProps) {
+  const [isModalOpen, setIsModalOpen] = useState(false);
+
+  const activeAccounts = accounts.filter((a) => !a.isArchived);
+  // Each account in its own currency; the total in the base currency at today's rate
+  const balances = activeAccounts.map((account) => {
+    const balance = getAccountBalance(account, transactions);
+    return { account, balance, converted: convertToday(balance, account.currency, baseCurrency, exchangeRates) };
+  });
+  const unassigned = getUnassignedBalance(accounts, convertTransactions(transactions, baseCurrency, exchangeRates));
+  const total = balances.reduce((sum, b) => sum + (b.converted ?? b.balance), 0);
+  const missingRates = Array.from(
+    new Set(balances.filter((b) => b.converted === null).map((b) => b.account.currency))
+  );
+
+  return (
+    <>
+      <motion.div
+        initial={{ opacity: 0, y: 10 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.1 }}
+        className="glass-card rounded-2xl p-4"
+      >
+        <div className="flex items-center justify-between mb-3">
+          <div className="flex items-center gap-2">
+            <div className="p-1.5 rounded-lg bg-primary/20">
+              <Wallet className="w-4 h-4 text-primary" />
+            </div>
+            <span className="text-sm font-medium">Contas</span>
+          </div>
+          <div className="flex items-center">
+            <Link
+              to="/previsao"
+              className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground transition-colors min-h-[32px] px-2"
+            >
+              <LineChart className="w-3.5 h-3.5" />
+              Previsão
+            </Link>
+            <button
+              onClick={() => setIsModalOpen(true)}
+              className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground transition-colors min-h-[32px] px-2"
+            >
+              <Settings2 className="w-3.5 h-3.5" />
+              Gerenciar
+            </button>
+          </div>
+        </div>
+
+        {balances.length === 0 ? (
+          <button
+            onClick={() => setIsModalOpen(true)}
+            className="w-full flex items-center justify-center gap-2 py-3 rounded-xl border border-dashed border-border text-sm text-muted-foreground hover:text-foreground transition-colors"
+          >
+            <Plus className="w-4 h-4" />
+            Adicionar conta
+          </button>
+        ) : (
+          <div className="space-y-2">
+            {balances.map(({ account, balance }) => {
+              const Icon = iconMap[account.type];
+              const color = accountTypeColors[account.type];
+              return (
+                <div key={account.id} className="flex items-center gap-3">
+                  <div
+                    className="w-8 h-8 rounded-lg flex items-center justify-center shrink-0"
+                    style={{ backgroundColor: `${color}20` }}
+                  >
+                    <Icon className="w-4 h-4" style={{ color }} />
+                  </div>
+                  <span className="flex-1 text-sm truncate">{account.name}</span>
+                  <PrivacyValue
+                    value={balance}
+                    currency={account.currency}
+                    showSign={balance < 0}
+                    className={cn('text-sm font-semibold', balance < 0 && 'text-expense')}
+                  />
+                </div>
+              );
+            })}
+
+            {Math.abs(unassigned) >= 0.01 && (
+              <div className="flex items-center gap-3 text-muted-foreground">
+                <div className="w-8 h-8 rounded-lg bg-muted flex items-center justify-center shrink-0">
+                  <Wallet className="w-4 h-4" />
+                </div>
+                <span className="flex-1 text-xs truncate">Sem conta vinculada</span>
+                <PrivacyValue value={unassigned} showSign={unassigned < 0} className="text-xs" />
+              </div>
+            )}
+
+            <div className="flex items-center justify-between pt-2 border-t border-border/50">
+              <span className="text-xs text-muted-foreground">Total em contas</span>
+              <PrivacyValue
+                value={total}
+                showSign={total < 0}
+                className={cn('text-base font-bold', total >= 0 ? 'text-income' : 'text-expense')}
+              />
+            </div>
+            {missingRates.length > 0 && (
+              <p className="text-[10px] text-muted-foreground">
+                Sem cotação de {missingRates.join(', ')} para {baseCurrency}: somado sem conversão.
+              </p>
+            )}
+            <Link
+              to="/patrimonio"
+              className="flex items-center justify-end gap-1 text-xs text-muted-foreground hover:text-foreground transition-colors min-h-[32px]"
+            >
+              Ver patrimônio líquido
+              <ChevronRight className="w-3.5 h-3.5" />
+            </Link>
+          </div>
+        )}
+      </motion.div>
+
+      <AccountsModal isOpen={isModalOpen} onClose={() => setIsModalOpen(false)} />
+    </>
+  );
+}
@@ -0,0 +1,120 @@
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import { Settings2 } from 'lucide-react';
+import { AllocationTargets, Investment } from '@/types/investment';
+import { getAllocation, splitContribution } from '@/lib/allocation';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { PrivacyValue } from '@/components/ui/PrivacyValue';
+import { cn } from '@/lib/utils';
+
+interface AllocationCardProps {
+  investments: Investment[];
+  targets: AllocationTargets;
+  onEditTargets: () => void;
+}
+
+/** Drift within this many points of the target is shown as on target. */
+const DRIFT_TOLERANCE = 0.02;
+
+const formatShare = (ratio: number) => `${(ratio * 100).toLocaleString('pt-BR', { maximumFractionDigits: 1 })}%`;
+
+export default function AllocationCard({ investments, targets, onEditTargets }: AllocationCardProps) {
+  const [contribution, setContribution] = useState('');
+  const rows = getAllocation(investments, targets);
+  const hasTargets = rows.some((r) => r.target !== undefined);
+  const amount = parseFloat(contribution.replace(/\./g, '').replace(',', '.'));
+  const split = hasTargets && amount > 0 ? splitContribution(investments, targets, amount) : [];
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.05 }}
+      className="glass-card rounded-xl p-4 sm:p-6"
+    >
+      <div className="flex items-center justify-between mb-3 sm:mb-4">
+        <h3 className="font-semibold text-sm sm:text-lg">Alocação alvo</h3>
+        <Button variant="ghost" size="sm" className="gap-1.5 h-8 text-xs" onClick={onEditTargets}>
+          <Settings2 className="w-4 h-4" />
+          {hasTargets ? 'Editar' : 'Definir metas'}
+        </Button>
+      </div>
+
+      {!hasTargets ? (
+        <p className="text-sm text-muted-foreground">
+          Defina quanto da carteira cada tipo ou classe deve ter para ver o desvio e como dividir os próximos aportes.
+        </p>
+      ) : (
+        <>
+          <div className="space-y-3">
+            {rows.map((row) => (
+              <div key={row.key} className="space-y-1">
+                <div className="flex items-center gap-2 text-xs">
+                  <span className="w-2 h-2 rounded-full shrink-0" style={{ backgroundColor: row.color }} />
+                  <span className="flex-1 truncate">{row.label}</span>
+                  <span className="text-muted-foreground">
+                    {formatShare(row.share)}
+                    {row.target !== undefined && ` / ${formatShare(row.target)}`}
+                  </span>
+                  {row.drift !== undefined && (
+                    <span
+                      className={cn(
+                        'w-14 text-right font-medium',
+                        Math.abs(row.drift) <= DRIFT_TOLERANCE ? 'text-muted-foreground' : row.drift > 0 ? 'text-warning' : 'text-expense'
+                      )}
+                    >
+                      {row.drift > 0 ? '+' : ''}
+                      {(row.drift * 100).toLocaleString('pt-BR', { maximumFractionDigits: 1 })} pp
+                    </span>
+                  )}
+                </div>
+                <div className="relative h-1.5 rounded-full bg-muted overflow-hidden">
+                  <div
+                    className="absolute inset-y-0 left-0 rounded-full"
+                    style={{ width: `${Math.min(100, row.share * 100)}%`, backgroundColor: row.color }}
+                  />
+                  {row.target !== undefined && (
+                    <div
+                      className="absolute inset-y-0 w-0.5 bg-foreground"
+                      style={{ left: `${Math.min(99.5, row.target * 100)}%` }}
+                    />
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {/* Contribution split */}
+          <div className="mt-4 pt-3 border-t border-border/50 space-y-2">
+            <div className="flex items-center gap-2">
+              <span className="text-xs text-muted-foreground flex-1">Próximo aporte</span>
+              <div className="relative w-36">
+                <span className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground text-sm">R$</span>
+                <Input
+                  type="text"
+                  inputMode="decimal"
+                  value={contribution}
+                  onChange={(e) => setContribution(e.target.value)}
+                  placeholder="0,00"
+                  className="pl-9 h-9"
+                />
+              </div>
+            </div>
+            {split.map((s) => (
+              <div key={s.key} className="flex items-center justify-between text-xs">
+                <span className="truncate text-muted-foreground">{s.label}</span>
+                <PrivacyValue value={s.amount} className="font-medium" />
+              </div>
+            ))}
+            {split.length > 0 && (
+              <p className="text-[11px] text-muted-foreground">
+                Sem vender nada: os aportes vão primeiro para as classes mais abaixo da meta.
+              </p>
+            )}
+          </div>
+        </>
+      )}
+    </motion.div>
+  );
+}
@@ -0,0 +1,54 @@
+import { Link } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import { PiggyBank, ChevronRight } from 'lucide-react';
+import { Budget } from '@/types/budget';
+import { Category } from '@/types/category';
+import { Transaction } from '@/types/transaction';
+import { getBudgetProgress, getMonthKey } from '@/lib/budgets';
+import { getCategory } from '@/lib/categories';
+import { cn } from '@/lib/utils';
+
+interface BudgetAlertsProps {
+  budgets: Budget[];
+  transactions: Transaction[]; // already in the base currency
+  categories: Category[];
+}
+
+/** Current month's budgets at 80% or more; also the way into the budgets page on mobile, so it always shows. */
+export default function BudgetAlerts({ budgets, transactions, categories }: BudgetAlertsProps) {
+  const month = getMonthKey(new Date());
+  const current = budgets.filter((b) => b.month === month);
+  const flagged = current
+    .map((b) => getBudgetProgress(b, budgets, transactions, categories))
+    .filter((p) => p.status !== 'ok')
+    .sort((a, b) => b.ratio - a.ratio);
+  const exceeded = flagged.some((p) => p.status === 'exceeded');
+
+  return (
+    <motion.div initial={{ opacity: 0, y: 10 }} animate={{ opacity: 1, y: 0 }} transition={{ delay: 0.1 }}>
+      <Link
+        to="/orcamentos"
+        className={cn(
+          'flex items-center gap-3 px-4 py-3 rounded-xl text-sm transition-colors',
+          flagged.length === 0
+            ? 'bg-muted/50 text-muted-foreground hover:text-foreground'
+            : exceeded
+              ? 'bg-expense/10 text-expense'
+              : 'bg-amber-500/10 text-amber-600 dark:text-amber-400'
+        )}
+      >
+        <PiggyBank className="w-4 h-4 shrink-0" />
+        <span className="flex-1 min-w-0 truncate">
+          {current.length === 0
+            ? 'Defina limites de gasto para o mês'
+            : flagged.length === 0
+              ? `${current.length} orçamento(s) do mês dentro do limite`
+              : flagged
+                  .map((p) => `${getCategory(categories, p.budget.category).name} ${Math.round(p.ratio * 100)}%`)
+                  .join(' • ')}
+        </span>
+        <ChevronRight className="w-4 h-4 shrink-0" />
+      </Link>
+    </motion.div>
+  );
+}
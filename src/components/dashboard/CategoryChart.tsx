@@ -1,7 +1,12 @@
 import { PieChart, Pie, Cell, ResponsiveContainer, Legend, Tooltip } from 'recharts';
-import { Transaction, categoryLabels, categoryColors } from '@/types/transaction';
+import { Transaction } from '@/types/transaction';
+import { useTransactions } from '@/contexts/TransactionContext';
 import { motion } from 'framer-motion';
 import { cn } from '@/lib/utils';
+import { isTransfer } from '@/lib/transactions';
+import { getRootCategory } from '@/lib/categories';
+import { getCategoryAmounts } from '@/lib/splits';
+import { formatMoney } from '@/lib/currency';
 
 interface CategoryChartProps {
   transactions: Transaction[];
@@ -9,19 +14,22 @@ interface CategoryChartProps {
 }
 
 export default function CategoryChart({ transactions, compact = false }: CategoryChartProps) {
-  const expenses = transactions.filter((t) => t.type === 'expense');
+  const { categories, baseCurrency } = useTransactions();
+  const expenses = transactions.filter((t) => t.type === 'expense' && !isTransfer(t));
   
-  const categoryTotals = expenses.reduce((acc, t) => {
-    acc[t.category] = (acc[t.category] || 0) + t.amount;
+  // Split lines count under their own category; subcategories roll up to
+  // their parent so the top 5 stays readable
+  const categoryTotals = expenses.flatMap(getCategoryAmounts).reduce((acc, line) => {
+    const root = getRootCategory(categories, line.category).key;
+    acc[root] = (acc[root] || 0) + line.amount;
     return acc;
   }, {} as Record<string, number>);
 
   const data = Object.entries(categoryTotals)
-    .map(([category, value]) => ({
-      name: categoryLabels[category as keyof typeof categoryLabels] || category,
-      value,
-      color: categoryColors[category as keyof typeof categoryColors] || 'hsl(215 20% 65%)',
-    }))
+    .map(([category, value]) => {
+      const { name, color } = getRootCategory(categories, category);
+      return { name, value, color };
+    })
     .sort((a, b) => b.value - a.value)
     .slice(0, 5);
 
@@ -68,9 +76,7 @@ export default function CategoryChart({ transactions, compact = false }: Categor
               ))}
             </Pie>
             <Tooltip
-              formatter={(value: number) =>
-                `R$ ${value.toLocaleString('pt-BR', { minimumFractionDigits: 2 })}`
-              }
+              formatter={(value: number) => formatMoney(value, baseCurrency)}
               contentStyle={{
                 backgroundColor: 'hsl(var(--card))',
                 border: '1px solid hsl(var(--border))',
@@ -0,0 +1,62 @@
+import { Link } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import { Mail, ChevronRight } from 'lucide-react';
+import { Category } from '@/types/category';
+import { Envelope, EnvelopeMovement } from '@/types/envelope';
+import { Transaction } from '@/types/transaction';
+import { getEnvelopeSummary } from '@/lib/envelopes';
+import { PrivacyValue } from '@/components/ui/PrivacyValue';
+import { cn } from '@/lib/utils';
+
+interface EnvelopeStatusProps {
+  startDate: string;
+  envelopes: Envelope[];
+  movements: EnvelopeMovement[];
+  transactions: Transaction[]; // already in the base currency
+  categories: Category[];
+}
+
+/** Money still to be assigned and envelopes in the red, shown while envelope mode is on. */
+export default function EnvelopeStatus({ startDate, envelopes, movements, transactions, categories }: EnvelopeStatusProps) {
+  const summary = getEnvelopeSummary(envelopes, movements, transactions, categories, startDate);
+  const negative = summary.envelopes.filter((e) => e.balance < 0).sort((a, b) => a.balance - b.balance);
+
+  return (
+    <motion.div initial={{ opacity: 0, y: 10 }} animate={{ opacity: 1, y: 0 }} transition={{ delay: 0.1 }}>
+      <Link
+        to="/envelopes"
+        className={cn(
+          'block glass-card rounded-2xl p-4 space-y-2 border transition-colors',
+          summary.toBeAssigned < 0 || negative.length > 0 ? 'border-expense/40' : 'border-income/30'
+        )}
+      >
+        <div className="flex items-center gap-3">
+          <div className="p-1.5 rounded-lg bg-primary/20">
+            <Mail className="w-4 h-4 text-primary" />
+          </div>
+          <span className="flex-1 text-sm font-medium">A distribuir</span>
+          <PrivacyValue
+            value={summary.toBeAssigned}
+            showSign={summary.toBeAssigned < 0}
+            className={cn('text-lg font-bold', summary.toBeAssigned < 0 ? 'text-expense' : 'text-income')}
+          />
+          <ChevronRight className="w-4 h-4 text-muted-foreground shrink-0" />
+        </div>
+
+        {negative.length > 0 && (
+          <div className="space-y-1">
+            {negative.map(({ envelope, balance }) => (
+              <div
+                key={envelope.id}
+                className="flex items-center justify-between px-2 py-1.5 rounded-lg bg-expense/10 text-sm text-expense"
+              >
+                <span className="truncate">{envelope.name}</span>
+                <PrivacyValue value={balance} showSign className="font-semibold shrink-0" />
+              </div>
+            ))}
+          </div>
+        )}
+      </Link>
+    </motion.div>
+  );
+}
@@ -9,10 +9,13 @@ import {
   Legend,
 } from 'recharts';
 import { Transaction } from '@/types/transaction';
+import { useTransactions } from '@/contexts/TransactionContext';
 import { motion } from 'framer-motion';
 import { format, subDays, startOfDay, endOfDay } from 'date-fns';
 import { ptBR } from 'date-fns/locale';
 import { cn } from '@/lib/utils';
+import { isTransfer } from '@/lib/transactions';
+import { formatMoney } from '@/lib/currency';
 
 interface EvolutionChartProps {
   transactions: Transaction[];
@@ -20,6 +23,7 @@ interface EvolutionChartProps {
 }
 
 export default function EvolutionChart({ transactions, compact = false }: EvolutionChartProps) {
+  const { baseCurrency } = useTransactions();
   // Get last 7 days data
   const last7Days = Array.from({ length: 7 }, (_, i) => {
     const date = subDays(new Date(), 6 - i);
@@ -28,7 +32,7 @@ export default function EvolutionChart({ transactions, compact = false }: Evolut
 
     const dayTransactions = transactions.filter((t) => {
       const tDate = new Date(t.date);
-      return tDate >= dayStart && tDate <= dayEnd;
+      return tDate >= dayStart && tDate <= dayEnd && !isTransfer(t);
     });
 
     const income = dayTransactions
@@ -78,9 +82,7 @@ export default function EvolutionChart({ transactions, compact = false }: Evolut
               width={compact ? 30 : 40}
             />
             <Tooltip
-              formatter={(value: number) =>
-                `R$ ${value.toLocaleString('pt-BR', { minimumFractionDigits: 2 })}`
-              }
+              formatter={(value: number) => formatMoney(value, baseCurrency)}
               contentStyle={{
                 backgroundColor: 'hsl(var(--card))',
                 border: '1px solid hsl(var(--border))',
@@ -0,0 +1,91 @@
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+} from 'recharts';
+import { motion } from 'framer-motion';
+import { format } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { Transaction } from '@/types/transaction';
+import { getFutureCommitments } from '@/lib/installments';
+import { PrivacyValue } from '@/components/ui/PrivacyValue';
+import { cn } from '@/lib/utils';
+
+interface FutureCommitmentsChartProps {
+  transactions: Transaction[];
+  months?: number;
+  compact?: boolean;
+}
+
+export default function FutureCommitmentsChart({ transactions, months = 12, compact = false }: FutureCommitmentsChartProps) {
+  const commitments = getFutureCommitments(transactions, months);
+  const total = commitments.reduce((sum, c) => sum + c.total, 0);
+  const data = commitments.map((c) => ({
+    name: format(new Date(`${c.month}-01T12:00:00`), 'MMM/yy', { locale: ptBR }),
+    Parcelas: c.total,
+  }));
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.1 }}
+      className={cn('glass-card rounded-xl', compact ? 'p-4' : 'p-6')}
+    >
+      <div className={cn('flex items-center justify-between', compact ? 'mb-3' : 'mb-4')}>
+        <h3 className={cn('font-semibold', compact ? 'text-sm' : 'text-lg')}>
+          Compromissos Futuros
+        </h3>
+        <span className="text-xs text-muted-foreground">
+          Total: <PrivacyValue value={total} className="font-semibold text-foreground" />
+        </span>
+      </div>
+      <div className={cn(compact ? 'h-40' : 'h-64')}>
+        <ResponsiveContainer width="100%" height="100%">
+          <BarChart data={data}>
+            <CartesianGrid
+              strokeDasharray="3 3"
+              stroke="hsl(217 33% 22%)"
+              vertical={false}
+            />
+            <XAxis
+              dataKey="name"
+              axisLine={false}
+              tickLine={false}
+              tick={{ fill: 'hsl(215 20% 65%)', fontSize: compact ? 10 : 12 }}
+            />
+            <YAxis
+              axisLine={false}
+              tickLine={false}
+              tick={{ fill: 'hsl(215 20% 65%)', fontSize: compact ? 10 : 12 }}
+              tickFormatter={(value) => `${value / 1000}k`}
+              width={compact ? 30 : 40}
+            />
+            <Tooltip
+              formatter={(value: number) =>
+                `R$ ${value.toLocaleString('pt-BR', { minimumFractionDigits: 2 })}`
+              }
+              contentStyle={{
+                backgroundColor: 'hsl(var(--card))',
+                border: '1px solid hsl(var(--border))',
+                borderRadius: '8px',
+                color: 'hsl(var(--card-foreground))',
+              }}
+              itemStyle={{ color: 'hsl(var(--card-foreground))' }}
+              labelStyle={{ color: 'hsl(var(--card-foreground))' }}
+            />
+            <Bar
+              dataKey="Parcelas"
+              fill="hsl(0 84% 60%)"
+              radius={[4, 4, 0, 0]}
+            />
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+    </motion.div>
+  );
+}
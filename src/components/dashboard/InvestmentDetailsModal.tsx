@@ -1,14 +1,32 @@
+import { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { X, TrendingUp, Calendar, Clock, Check, FileText, Landmark, PiggyBank, BarChart3, Bitcoin, Layers, Wallet, Coins, Pencil } from 'lucide-react';
-import { format, parseISO } from 'date-fns';
+import { X, TrendingUp, Calendar, Clock, Check, FileText, Landmark, PiggyBank, BarChart3, Bitcoin, Layers, Wallet, Coins, Pencil, Target, RefreshCw, Trash2, ArrowDownUp, AlertTriangle } from 'lucide-react';
+import { differenceInCalendarDays, format, parseISO } from 'date-fns';
 import { ptBR } from 'date-fns/locale';
+import { LineChart, Line, ResponsiveContainer, Tooltip, YAxis } from 'recharts';
 import { Badge } from '@/components/ui/badge';
-import { cn } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { useTransactions } from '@/contexts/TransactionContext';
+import { useToast } from '@/hooks/use-toast';
+import { getIndexation, projectFixedIncome } from '@/lib/fixedIncome';
+import { estimateTax, getIncomeTaxRate } from '@/lib/investmentTax';
+import { JCP_WITHHOLDING_RATE, getDefaultIncomeType, getTrailingIncome, getYieldOnCost } from '@/lib/investmentIncome';
+import { getMaturity } from '@/lib/maturities';
+import { formatPercent, getInvestmentReturn, getMovements, getPosition, getValuations, isHeldInUnits } from '@/lib/investments';
+import { cn, toLocalDateString } from '@/lib/utils';
 import {
+  IncomeType,
   Investment,
+  InvestmentMovementType,
   InvestmentType,
   investmentTypeLabels,
   investmentTypeColors,
+  movementTypeLabels,
+  incomeTypeLabels,
+  valuationSourceLabels,
+  rendaFixaProductLabels,
   TesouroDiretoDetails,
   AcoesDetails,
   CriptoDetails,
@@ -16,6 +34,7 @@ import {
   PoupancaDetails,
   FundosDetails,
 } from '@/types/investment';
+import { marketIndexLabels } from '@/types/marketIndex';
 
 interface InvestmentDetailsModalProps {
   investment: Investment | null;
@@ -33,8 +52,149 @@ const iconMap: Record<InvestmentType, React.ElementType> = {
   outros: Coins,
 };
 
-export default function InvestmentDetailsModal({ investment, onClose, onEdit }: InvestmentDetailsModalProps) {
-  if (!investment) return null;
+const formatBRL = (value: number) => value.toLocaleString('pt-BR', { minimumFractionDigits: 2 });
+
+const parseBRL = (text: string) => parseFloat(text.replace(/\./g, '').replace(',', '.'));
+
+const movementTypes: InvestmentMovementType[] = ['contribution', 'withdrawal', 'fee', 'income'];
+
+type Action = 'value' | 'movement';
+
+export default function InvestmentDetailsModal({ investment: selected, onClose, onEdit }: InvestmentDetailsModalProps) {
+  const {
+    goals,
+    investments,
+    investmentValuations,
+    investmentMovements,
+    indexRates,
+    addInvestmentValuation,
+    deleteInvestmentValuation,
+    addInvestmentMovement,
+    deleteInvestmentMovement,
+  } = useTransactions();
+  const { toast } = useToast();
+  const [action, setAction] = useState<Action | null>(null);
+  const [value, setValue] = useState('');
+  const [valueDate, setValueDate] = useState(toLocalDateString());
+  const [movementType, setMovementType] = useState<InvestmentMovementType>('contribution');
+  const [quantity, setQuantity] = useState('');
+  const [unitPrice, setUnitPrice] = useState('');
+  const [fees, setFees] = useState('');
+  const [incomeType, setIncomeType] = useState<IncomeType>('dividend');
+  const [createTransaction, setCreateTransaction] = useState(true);
+
+  useEffect(() => {
+    setAction(null);
+  }, [selected?.id]);
+
+  if (!selected) return null;
+
+  // The selection is a copy taken on click; read the live one so new values show up
+  const investment = investments.find((i) => i.id === selected.id) ?? selected;
+  const goal = goals.find((g) => g.id === investment.goalId);
+  const result = getInvestmentReturn(investment, investmentMovements);
+  const position = getPosition(investment, investmentMovements);
+  const valuations = getValuations(investmentValuations, investment.id);
+  const indexation = getIndexation(investment);
+  const projection = indexation ? projectFixedIncome(investment, investmentMovements, indexRates) : null;
+  const tax = estimateTax(investment, investmentMovements, investmentValuations, result.current);
+  const taxAtMaturity =
+    projection && indexation
+      ? estimateTax(investment, investmentMovements, investmentValuations, projection.atMaturity, indexation.maturity)
+      : null;
+  // Blended over the lots held when there is a gain; otherwise the table rate for the first application
+  const irRate =
+    tax.gain - tax.iof > 0
+      ? (tax.ir + tax.comeCotas) / (tax.gain - tax.iof)
+      : tax.regime === 'equityFund'
+        ? 0.15
+        : getIncomeTaxRate(differenceInCalendarDays(new Date(), parseISO(investment.dataInvestimento)));
+  const movements = getMovements(investmentMovements, investment.id).reverse();
+  // Quantity, unit price and fees apply to buying and selling units
+  const withUnits = isHeldInUnits(investment.tipo) && (movementType === 'contribution' || movementType === 'withdrawal');
+  // JCP is entered gross; the 15% withheld at source is shown and kept apart
+  const jcpWithheld =
+    movementType === 'income' && incomeType === 'jcp' && parseBRL(value) > 0 ? parseBRL(value) * JCP_WITHHOLDING_RATE : 0;
+  const trailingIncome = getTrailingIncome(investment.id, investmentMovements);
+  const maturity = getMaturity(investment, investmentMovements, investmentValuations, indexRates);
+  const yieldOnCost = trailingIncome > 0 ? getYieldOnCost(investment, investmentMovements) : null;
+
+  const openValuation = () => {
+    setValue(result.current.toFixed(2).replace('.', ','));
+    setValueDate(toLocalDateString());
+    setAction('value');
+  };
+
+  const openMovement = () => {
+    setMovementType('contribution');
+    setValue('');
+    setQuantity('');
+    setUnitPrice('');
+    setFees('');
+    setIncomeType(getDefaultIncomeType(investment.tipo));
+    setValueDate(toLocalDateString());
+    setCreateTransaction(true);
+    setAction('movement');
+  };
+
+  // A matured position is redeemed whole on its maturity date, at the projected value
+  const openRedemption = (gross: number, date: string) => {
+    openMovement();
+    setMovementType('withdrawal');
+    setValue(gross.toFixed(2).replace('.', ','));
+    setValueDate(date);
+  };
+
+  const handleValuation = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const parsed = parseBRL(value);
+    if (isNaN(parsed) || parsed < 0) {
+      toast({ title: 'Valor inválido', description: 'Digite o valor atual do investimento.', variant: 'destructive' });
+      return;
+    }
+    await addInvestmentValuation({ investmentId: investment.id, date: valueDate, value: parsed, source: 'manual' });
+    toast({ title: 'Valor atualizado', description: `${investment.nome}: R$ ${formatBRL(parsed)}` });
+    setAction(null);
+  };
+
+  const handleMovement = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const parsedQuantity = withUnits && quantity ? parseBRL(quantity) : undefined;
+    const parsedUnitPrice = withUnits && unitPrice ? parseBRL(unitPrice) : undefined;
+    const parsedFees = withUnits && fees ? parseBRL(fees) : undefined;
+    const amount = parsedQuantity && parsedUnitPrice ? parsedQuantity * parsedUnitPrice : parseBRL(value);
+    if (isNaN(amount) || amount <= 0) {
+      toast({ title: 'Valor inválido', description: 'Digite um valor maior que zero.', variant: 'destructive' });
+      return;
+    }
+    if (parsedFees !== undefined && (isNaN(parsedFees) || parsedFees < 0)) {
+      toast({ title: 'Taxas inválidas', description: 'Digite as taxas em R$ ou deixe em branco.', variant: 'destructive' });
+      return;
+    }
+    if (movementType === 'withdrawal' && parsedQuantity && parsedQuantity > (position.quantity ?? 0)) {
+      toast({ title: 'Quantidade inválida', description: 'Maior que a quantidade em carteira.', variant: 'destructive' });
+      return;
+    }
+    await addInvestmentMovement(
+      {
+        investmentId: investment.id,
+        type: movementType,
+        date: valueDate,
+        amount,
+        quantity: parsedQuantity,
+        unitPrice: parsedUnitPrice,
+        fees: parsedFees || undefined,
+        incomeType: movementType === 'income' ? incomeType : undefined,
+        taxWithheld: jcpWithheld || undefined,
+      },
+      createTransaction
+    );
+    toast({
+      title: 'Movimentação registrada',
+      description: `${movementType === 'income' ? incomeTypeLabels[incomeType] : movementTypeLabels[movementType]} de R$ ${formatBRL(amount)} em ${investment.nome}`,
+    });
+    setAction(null);
+  };
 
   const Icon = iconMap[investment.tipo];
   const color = investmentTypeColors[investment.tipo];
@@ -51,7 +211,7 @@ export default function InvestmentDetailsModal({ investment, onClose, onEdit }:
             <DetailRow label="Título" value={d.titulo} />
             <DetailRow label="Taxa" value={`${d.taxa}% a.a.`} />
             <DetailRow label="Preço Unitário" value={`R$ ${d.precoUnitario.toFixed(2)}`} />
-            <DetailRow label="Vencimento" value={format(parseISO(d.vencimento), "MMMM 'de' yyyy", { locale: ptBR })} />
+            <DetailRow label="Vencimento" value={format(parseISO(d.vencimento), "dd 'de' MMMM 'de' yyyy", { locale: ptBR })} />
           </div>
         );
       }
@@ -60,8 +220,8 @@ export default function InvestmentDetailsModal({ investment, onClose, onEdit }:
         return (
           <div className="space-y-2">
             <DetailRow label="Ticker" value={d.ticker} />
-            <DetailRow label="Quantidade" value={`${d.quantidade} ações`} />
-            <DetailRow label="Preço Médio" value={`R$ ${d.precoMedio.toFixed(2)}`} />
+            <DetailRow label="Quantidade" value={`${position.quantity ?? 0} ações`} />
+            <DetailRow label="Preço Médio" value={`R$ ${(position.averagePrice ?? 0).toFixed(2)}`} />
           </div>
         );
       }
@@ -70,8 +230,8 @@ export default function InvestmentDetailsModal({ investment, onClose, onEdit }:
         return (
           <div className="space-y-2">
             <DetailRow label="Moeda" value={d.moeda} />
-            <DetailRow label="Quantidade" value={d.quantidade.toString()} />
-            <DetailRow label="Preço Médio" value={`R$ ${d.precoMedio.toFixed(2)}`} />
+            <DetailRow label="Quantidade" value={(position.quantity ?? 0).toString()} />
+            <DetailRow label="Preço Médio" value={`R$ ${(position.averagePrice ?? 0).toFixed(2)}`} />
           </div>
         );
       }
@@ -80,8 +240,9 @@ export default function InvestmentDetailsModal({ investment, onClose, onEdit }:
         return (
           <div className="space-y-2">
             <DetailRow label="Instituição" value={d.instituicao} />
+            <DetailRow label="Produto" value={rendaFixaProductLabels[d.produto || 'cdb']} />
             <DetailRow label="Taxa" value={`${d.taxa}% ${d.tipoTaxa.toUpperCase()}`} />
-            <DetailRow label="Vencimento" value={format(parseISO(d.vencimento), "MMMM 'de' yyyy", { locale: ptBR })} />
+            <DetailRow label="Vencimento" value={format(parseISO(d.vencimento), "dd 'de' MMMM 'de' yyyy", { locale: ptBR })} />
           </div>
         );
       }
@@ -101,8 +262,10 @@ export default function InvestmentDetailsModal({ investment, onClose, onEdit }:
             <DetailRow label="Gestor" value={d.nomeGestor} />
             <DetailRow label="Tipo do Fundo" value={d.tipoFundo} />
             <DetailRow label="Taxa Admin." value={`${d.taxaAdministracao}% a.a.`} />
-            {d.quantidade && <DetailRow label="Quantidade" value={`${d.quantidade} cotas`} />}
-            {d.precoMedio && <DetailRow label="Preço Médio" value={`R$ ${d.precoMedio.toFixed(2)}`} />}
+            {!!position.quantity && <DetailRow label="Quantidade" value={`${position.quantity} cotas`} />}
+            {!!position.averagePrice && (
+              <DetailRow label="Preço Médio" value={`R$ ${position.averagePrice.toFixed(2)}`} />
+            )}
           </div>
         );
       }
@@ -198,10 +361,207 @@ export default function InvestmentDetailsModal({ investment, onClose, onEdit }:
           {/* Amount */}
           <div className="text-center py-4 border-y border-border/50">
             <p className="text-3xl font-bold" style={{ color }}>
-              R$ {investment.valorInvestido.toLocaleString('pt-BR', { minimumFractionDigits: 2 })}
+              R$ {formatBRL(investment.jaInvestido ? result.current : investment.valorInvestido)}
             </p>
+            {investment.jaInvestido && (
+              <p className="text-xs text-muted-foreground mt-1">
+                Aplicado R$ {formatBRL(result.invested)} •{' '}
+                <span className={cn('font-medium', result.profit >= 0 ? 'text-income' : 'text-expense')}>
+                  {result.profit >= 0 ? '+' : '-'}R$ {formatBRL(Math.abs(result.profit))} ({formatPercent(result.ratio)})
+                </span>
+              </p>
+            )}
+            {investment.jaInvestido && tax.net !== tax.gross && (
+              <p className="text-xs text-muted-foreground mt-0.5">
+                Líquido se resgatar hoje: <span className="font-medium text-foreground">R$ {formatBRL(tax.net)}</span>
+              </p>
+            )}
+            {trailingIncome > 0 && (
+              <p className="text-xs text-muted-foreground mt-0.5">
+                Proventos em 12 meses: <span className="font-medium text-foreground">R$ {formatBRL(trailingIncome)}</span>
+                {yieldOnCost !== null && ` • yield on cost ${(yieldOnCost * 100).toLocaleString('pt-BR', { maximumFractionDigits: 1 })}%`}
+              </p>
+            )}
           </div>
 
+          {/* Current value and movements */}
+          {investment.jaInvestido && (
+            <div className="mt-4">
+              {action === 'value' && (
+                <form onSubmit={handleValuation} className="flex items-center gap-2">
+                  <div className="relative flex-1">
+                    <span className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground text-sm">R$</span>
+                    <Input
+                      type="text"
+                      inputMode="decimal"
+                      value={value}
+                      onChange={(e) => setValue(e.target.value)}
+                      className="pl-9 h-10"
+                      autoFocus
+                    />
+                  </div>
+                  <Input
+                    type="date"
+                    value={valueDate}
+                    onChange={(e) => setValueDate(e.target.value)}
+                    className="w-36 h-10"
+                  />
+                  <Button type="submit" size="icon" className="h-10 w-10 shrink-0">
+                    <Check className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    type="button"
+                    size="icon"
+                    variant="ghost"
+                    className="h-10 w-10 shrink-0"
+                    onClick={() => setAction(null)}
+                  >
+                    <X className="w-4 h-4" />
+                  </Button>
+                </form>
+              )}
+
+              {action === 'movement' && (
+                <form onSubmit={handleMovement} className="space-y-2 p-3 rounded-xl bg-muted/30">
+                  <div className="grid grid-cols-4 gap-1 bg-muted/50 p-1 rounded-lg">
+                    {movementTypes.map((type) => (
+                      <button
+                        key={type}
+                        type="button"
+                        onClick={() => setMovementType(type)}
+                        className={cn(
+                          'py-1.5 text-xs font-medium rounded-md transition-colors',
+                          movementType === type
+                            ? 'bg-background text-foreground shadow-sm'
+                            : 'text-muted-foreground hover:text-foreground'
+                        )}
+                      >
+                        {movementTypeLabels[type]}
+                      </button>
+                    ))}
+                  </div>
+                  {movementType === 'income' && (
+                    <div className="grid grid-cols-4 gap-1 bg-muted/50 p-1 rounded-lg">
+                      {(Object.keys(incomeTypeLabels) as IncomeType[]).map((type) => (
+                        <button
+                          key={type}
+                          type="button"
+                          onClick={() => setIncomeType(type)}
+                          className={cn(
+                            'py-1.5 text-[10px] font-medium rounded-md transition-colors truncate',
+                            incomeType === type
+                              ? 'bg-background text-foreground shadow-sm'
+                              : 'text-muted-foreground hover:text-foreground'
+                          )}
+                        >
+                          {incomeTypeLabels[type]}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                  {withUnits && (
+                    <div className="grid grid-cols-3 gap-2">
+                      <Input
+                        type="text"
+                        inputMode="decimal"
+                        placeholder="Quantidade"
+                        value={quantity}
+                        onChange={(e) => setQuantity(e.target.value)}
+                        className="h-10"
+                      />
+                      <Input
+                        type="text"
+                        inputMode="decimal"
+                        placeholder="Preço unitário"
+                        value={unitPrice}
+                        onChange={(e) => setUnitPrice(e.target.value)}
+                        className="h-10"
+                      />
+                      <Input
+                        type="text"
+                        inputMode="decimal"
+                        placeholder="Taxas (R$)"
+                        value={fees}
+                        onChange={(e) => setFees(e.target.value)}
+                        className="h-10"
+                      />
+                    </div>
+                  )}
+                  <div className="flex items-center gap-2">
+                    <div className="relative flex-1">
+                      <span className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground text-sm">R$</span>
+                      <Input
+                        type="text"
+                        inputMode="decimal"
+                        placeholder={withUnits ? 'Qtd. × preço' : '0,00'}
+                        value={withUnits && quantity && unitPrice ? formatBRL(parseBRL(quantity) * parseBRL(unitPrice) || 0) : value}
+                        onChange={(e) => setValue(e.target.value)}
+                        disabled={withUnits && !!quantity && !!unitPrice}
+                        className="pl-9 h-10"
+                      />
+                    </div>
+                    <Input
+                      type="date"
+                      value={valueDate}
+                      onChange={(e) => setValueDate(e.target.value)}
+                      className="w-36 h-10"
+                    />
+                  </div>
+                  {jcpWithheld > 0 && (
+                    <p className="text-xs text-muted-foreground">
+                      IR retido (15%): R$ {formatBRL(jcpWithheld)} · líquido R$ {formatBRL(parseBRL(value) - jcpWithheld)}
+                    </p>
+                  )}
+                  <div className="flex items-center justify-between gap-2">
+                    <label className="flex items-center gap-2 text-xs text-muted-foreground">
+                      <Switch checked={createTransaction} onCheckedChange={setCreateTransaction} />
+                      {movementType === 'contribution' || movementType === 'fee' ? 'Lançar despesa' : 'Lançar receita'}
+                    </label>
+                    <div className="flex items-center gap-1">
+                      <Button type="button" size="sm" variant="ghost" onClick={() => setAction(null)}>
+                        Cancelar
+                      </Button>
+                      <Button type="submit" size="sm" className="gap-1">
+                        <Check className="w-4 h-4" />
+                        Salvar
+                      </Button>
+                    </div>
+                  </div>
+                </form>
+              )}
+
+              {!action && maturity?.isMatured && (
+                <div className="mb-2 p-3 rounded-xl bg-warning/10 border border-warning/20">
+                  <p className="text-sm font-medium text-warning flex items-center gap-1.5">
+                    <AlertTriangle className="w-4 h-4" />
+                    Venceu em {format(parseISO(maturity.date), 'dd/MM/yyyy', { locale: ptBR })}
+                  </p>
+                  <p className="text-xs text-muted-foreground mt-0.5">
+                    Registre o resgate de R$ {formatBRL(maturity.gross)}
+                    {maturity.net !== maturity.gross && ` (líquido R$ ${formatBRL(maturity.net)})`} para tirá-lo da
+                    carteira.
+                  </p>
+                  <Button size="sm" className="mt-2 h-8" onClick={() => openRedemption(maturity.gross, maturity.date)}>
+                    Registrar resgate
+                  </Button>
+                </div>
+              )}
+
+              {!action && (
+                <div className="grid grid-cols-2 gap-2">
+                  <Button variant="outline" size="sm" className="gap-2" onClick={openValuation}>
+                    <RefreshCw className="w-4 h-4" />
+                    Atualizar valor
+                  </Button>
+                  <Button variant="outline" size="sm" className="gap-2" onClick={openMovement}>
+                    <ArrowDownUp className="w-4 h-4" />
+                    Aporte / Resgate
+                  </Button>
+                </div>
+              )}
+            </div>
+          )}
+
         {/* Details */}
         <div className="mt-4 space-y-3">
           <DetailRow
@@ -209,6 +569,8 @@ export default function InvestmentDetailsModal({ investment, onClose, onEdit }:
             value={format(parseISO(investment.dataInvestimento), "dd 'de' MMMM 'de' yyyy", { locale: ptBR })}
             icon={<Calendar className="w-4 h-4" />}
           />
+
+          {goal && <DetailRow label="Meta" value={goal.name} icon={<Target className="w-4 h-4" />} />}
           
           <DetailRow
             label="Criado em"
@@ -229,6 +591,137 @@ export default function InvestmentDetailsModal({ investment, onClose, onEdit }:
             </div>
           )}
 
+          {/* Movements */}
+          {movements.length > 0 && (
+            <div className="pt-3 border-t border-border/50">
+              <p className="text-xs text-muted-foreground mb-2">Movimentações</p>
+              <div className="space-y-1">
+                {movements.map((m) => (
+                  <div key={m.id} className="flex items-center gap-2 text-sm">
+                    <span className="text-muted-foreground w-20 shrink-0">
+                      {format(parseISO(m.date), 'dd/MM/yyyy')}
+                    </span>
+                    <span className="flex-1 min-w-0 truncate text-[10px] text-muted-foreground">
+                      {m.incomeType ? incomeTypeLabels[m.incomeType] : movementTypeLabels[m.type]}
+                      {m.taxWithheld !== undefined && ` · IR retido R$ ${formatBRL(m.taxWithheld)}`}
+                      {m.quantity !== undefined && ` · ${m.quantity} × R$ ${formatBRL(m.unitPrice ?? 0)}`}
+                      {m.fees !== undefined && ` · taxas R$ ${formatBRL(m.fees)}`}
+                    </span>
+                    <span
+                      className={cn(
+                        'font-medium',
+                        m.type === 'contribution' || m.type === 'income' ? 'text-income' : 'text-expense'
+                      )}
+                    >
+                      {m.type === 'contribution' || m.type === 'income' ? '+' : '-'}R$ {formatBRL(m.amount)}
+                    </span>
+                    <button
+                      onClick={() => deleteInvestmentMovement(m.id)}
+                      className="p-1.5 rounded-full text-muted-foreground hover:text-destructive hover:bg-muted transition-colors"
+                    >
+                      <Trash2 className="w-3.5 h-3.5" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Valuation history */}
+          {valuations.length > 0 && (
+            <div className="pt-3 border-t border-border/50">
+              <p className="text-xs text-muted-foreground mb-2">Histórico de valor</p>
+              <div className="space-y-1">
+                {valuations.map((v) => (
+                  <div key={v.id} className="flex items-center gap-2 text-sm">
+                    <span className="text-muted-foreground w-20 shrink-0">
+                      {format(parseISO(v.date), 'dd/MM/yyyy')}
+                    </span>
+                    <span className="flex-1 text-[10px] text-muted-foreground">{valuationSourceLabels[v.source]}</span>
+                    <span className="font-medium">R$ {formatBRL(v.value)}</span>
+                    <button
+                      onClick={() => deleteInvestmentValuation(v.id)}
+                      className="p-1.5 rounded-full text-muted-foreground hover:text-destructive hover:bg-muted transition-colors"
+                    >
+                      <Trash2 className="w-3.5 h-3.5" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Taxes on redemption */}
+          {investment.jaInvestido && tax.regime !== 'notEstimated' && (
+            <div className="pt-3 border-t border-border/50">
+              <p className="text-xs text-muted-foreground mb-2">Impostos no resgate hoje</p>
+              {tax.regime === 'exempt' ? (
+                <p className="text-sm">Isento de IR</p>
+              ) : (
+                <div className="space-y-2">
+                  <DetailRow
+                    label="Alíquota de IR"
+                    value={`${(irRate * 100).toLocaleString('pt-BR', { maximumFractionDigits: 1 })}%`}
+                  />
+                  {tax.iof > 0 && <DetailRow label="IOF" value={`R$ ${formatBRL(tax.iof)}`} />}
+                  {tax.comeCotas > 0 && <DetailRow label="Come-cotas já retido" value={`R$ ${formatBRL(tax.comeCotas)}`} />}
+                  <DetailRow label="IR a pagar" value={`R$ ${formatBRL(tax.ir)}`} />
+                  <DetailRow label="Valor líquido" value={`R$ ${formatBRL(tax.net)}`} />
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Fixed-income projection */}
+          {indexation && (projection || indexation.index) && (
+            <div className="pt-3 border-t border-border/50">
+              <p className="text-xs text-muted-foreground mb-2">Projeção (valor bruto)</p>
+              {projection ? (
+                <div className="space-y-2">
+                  <div className="h-20">
+                    <ResponsiveContainer width="100%" height="100%">
+                      <LineChart data={projection.points}>
+                        <YAxis hide domain={['dataMin', 'dataMax']} />
+                        <Tooltip
+                          formatter={(v: number) => [`R$ ${formatBRL(v)}`, 'Valor']}
+                          labelFormatter={(_, payload) =>
+                            payload?.[0] ? format(parseISO(payload[0].payload.date), 'MM/yyyy') : ''
+                          }
+                          contentStyle={{
+                            backgroundColor: 'hsl(var(--card))',
+                            border: '1px solid hsl(var(--border))',
+                            borderRadius: '8px',
+                            fontSize: '12px',
+                          }}
+                        />
+                        <Line type="monotone" dataKey="value" stroke={color} strokeWidth={2} dot={false} />
+                      </LineChart>
+                    </ResponsiveContainer>
+                  </div>
+                  <DetailRow label="Estimado hoje" value={`R$ ${formatBRL(projection.today)}`} />
+                  <DetailRow
+                    label={`No vencimento (${format(parseISO(indexation.maturity), 'dd/MM/yyyy')})`}
+                    value={`R$ ${formatBRL(projection.atMaturity)}`}
+                  />
+                  <DetailRow
+                    label="Rendimento projetado"
+                    value={`R$ ${formatBRL(projection.atMaturity - position.invested)}`}
+                  />
+                  {taxAtMaturity && taxAtMaturity.net !== taxAtMaturity.gross && (
+                    <DetailRow label="Líquido no vencimento" value={`R$ ${formatBRL(taxAtMaturity.net)}`} />
+                  )}
+                </div>
+              ) : (
+                indexation.index && (
+                  <p className="text-xs text-muted-foreground">
+                    Cadastre a série do {marketIndexLabels[indexation.index]} em Investimentos › Índices para ver a
+                    projeção.
+                  </p>
+                )
+              )}
+            </div>
+          )}
+
           {/* Specific Details */}
           {investment.detalhesEspecificos && (
             <div className="pt-3 border-t border-border/50">
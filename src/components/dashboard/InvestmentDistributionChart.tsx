@@ -1,31 +1,29 @@
 import { PieChart, Pie, Cell, ResponsiveContainer, Legend, Tooltip } from 'recharts';
-import { Investment, investmentTypeLabels, investmentTypeColors, InvestmentType } from '@/types/investment';
+import { Investment, InvestmentMovement, investmentTypeLabels, investmentTypeColors, InvestmentType } from '@/types/investment';
 import { motion } from 'framer-motion';
+import { formatPercent, getReturnsByType } from '@/lib/investments';
+import { cn } from '@/lib/utils';
 
 interface InvestmentDistributionChartProps {
   investments: Investment[];
+  movements: InvestmentMovement[];
 }
 
-export default function InvestmentDistributionChart({ investments }: InvestmentDistributionChartProps) {
-  // Filter only completed investments
-  const invested = investments.filter((i) => i.jaInvestido);
-
-  // Group by type and sum values
-  const byType = invested.reduce((acc, inv) => {
-    acc[inv.tipo] = (acc[inv.tipo] || 0) + inv.valorInvestido;
-    return acc;
-  }, {} as Record<InvestmentType, number>);
+export default function InvestmentDistributionChart({ investments, movements }: InvestmentDistributionChartProps) {
+  // Completed investments grouped by type, at their current value
+  const byType = getReturnsByType(investments, movements);
 
   // Calculate total for percentages
-  const total = Object.values(byType).reduce((sum, val) => sum + val, 0);
+  const total = Object.values(byType).reduce((sum, r) => sum + r.current, 0);
 
   // Convert to chart format
   const data = Object.entries(byType)
-    .map(([type, value]) => ({
+    .map(([type, result]) => ({
       name: investmentTypeLabels[type as InvestmentType],
-      value,
+      value: result.current,
+      result,
       color: investmentTypeColors[type as InvestmentType],
-      percentage: ((value / total) * 100).toFixed(1),
+      percentage: total > 0 ? ((result.current / total) * 100).toFixed(1) : '0.0',
     }))
     .sort((a, b) => b.value - a.value);
 
@@ -72,8 +70,8 @@ export default function InvestmentDistributionChart({ investments }: InvestmentD
               ))}
             </Pie>
             <Tooltip
-              formatter={(value: number, name: string, props: { payload: { percentage: string } }) => [
-                `R$ ${value.toLocaleString('pt-BR', { minimumFractionDigits: 2 })} (${props.payload.percentage}%)`,
+              formatter={(value: number, name: string, props: { payload: { percentage: string; result: { ratio: number } } }) => [
+                `R$ ${value.toLocaleString('pt-BR', { minimumFractionDigits: 2 })} (${props.payload.percentage}%) • ${formatPercent(props.payload.result.ratio)}`,
                 name,
               ]}
               contentStyle={{
@@ -95,6 +93,22 @@ export default function InvestmentDistributionChart({ investments }: InvestmentD
           </PieChart>
         </ResponsiveContainer>
       </div>
+
+      {/* Return per type */}
+      <div className="mt-3 pt-3 border-t border-border/50 space-y-1.5">
+        {data.map((entry) => (
+          <div key={entry.name} className="flex items-center gap-2 text-xs">
+            <span className="w-2 h-2 rounded-full shrink-0" style={{ backgroundColor: entry.color }} />
+            <span className="flex-1 truncate text-muted-foreground">{entry.name}</span>
+            <span
+              className={cn('font-medium', entry.result.profit >= 0 ? 'text-income' : 'text-expense')}
+            >
+              {entry.result.profit >= 0 ? '+' : '-'}R$ {Math.abs(entry.result.profit).toLocaleString('pt-BR', { minimumFractionDigits: 2 })}
+            </span>
+            <span className="w-14 text-right text-muted-foreground">{formatPercent(entry.result.ratio)}</span>
+          </div>
+        ))}
+      </div>
     </motion.div>
   );
 }
@@ -0,0 +1,119 @@
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+} from 'recharts';
+import { motion } from 'framer-motion';
+import { format } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { IncomeType, Investment, InvestmentMovement, incomeTypeColors, incomeTypeLabels } from '@/types/investment';
+import { IncomeKey, getMonthlyIncome, getTrailingIncome, getYieldOnCost } from '@/lib/investmentIncome';
+import { PrivacyValue } from '@/components/ui/PrivacyValue';
+
+interface InvestmentIncomeChartProps {
+  investments: Investment[];
+  movements: InvestmentMovement[];
+}
+
+const incomeKeys: IncomeKey[] = [...(Object.keys(incomeTypeLabels) as IncomeType[]), 'other'];
+const keyLabels: Record<IncomeKey, string> = { ...incomeTypeLabels, other: 'Outros' };
+const keyColors: Record<IncomeKey, string> = { ...incomeTypeColors, other: '#6B7280' };
+
+export default function InvestmentIncomeChart({ investments, movements }: InvestmentIncomeChartProps) {
+  const monthly = getMonthlyIncome(movements);
+  const total = monthly.reduce((sum, m) => sum + m.total, 0);
+  if (total <= 0) return null;
+
+  // Only the kinds actually received get a bar
+  const keys = incomeKeys.filter((key) => monthly.some((m) => m.byType[key]));
+  const data = monthly.map((m) => ({
+    name: format(new Date(`${m.month}-01T12:00:00`), 'MMM/yy', { locale: ptBR }),
+    ...Object.fromEntries(keys.map((key) => [keyLabels[key], m.byType[key] || 0])),
+  }));
+
+  const assets = investments
+    .map((investment) => ({
+      investment,
+      income: getTrailingIncome(investment.id, movements),
+      yieldOnCost: getYieldOnCost(investment, movements),
+    }))
+    .filter((a) => a.income > 0)
+    .sort((a, b) => b.income - a.income);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.1 }}
+      className="glass-card rounded-xl p-4 sm:p-6"
+    >
+      <div className="flex items-center justify-between mb-3 sm:mb-4">
+        <h3 className="font-semibold text-sm sm:text-lg">Proventos</h3>
+        <span className="text-xs text-muted-foreground">
+          12 meses: <PrivacyValue value={total} className="font-semibold text-foreground" />
+        </span>
+      </div>
+      <div className="h-40 sm:h-56">
+        <ResponsiveContainer width="100%" height="100%">
+          <BarChart data={data}>
+            <CartesianGrid strokeDasharray="3 3" stroke="hsl(217 33% 22%)" vertical={false} />
+            <XAxis
+              dataKey="name"
+              axisLine={false}
+              tickLine={false}
+              tick={{ fill: 'hsl(215 20% 65%)', fontSize: 10 }}
+              minTickGap={8}
+            />
+            <YAxis
+              axisLine={false}
+              tickLine={false}
+              tick={{ fill: 'hsl(215 20% 65%)', fontSize: 10 }}
+              width={40}
+            />
+            <Tooltip
+              formatter={(value: number) => `R$ ${value.toLocaleString('pt-BR', { minimumFractionDigits: 2 })}`}
+              contentStyle={{
+                backgroundColor: 'hsl(var(--card))',
+                border: '1px solid hsl(var(--border))',
+                borderRadius: '8px',
+                color: 'hsl(var(--card-foreground))',
+              }}
+              itemStyle={{ color: 'hsl(var(--card-foreground))' }}
+              labelStyle={{ color: 'hsl(var(--card-foreground))' }}
+            />
+            {keys.map((key, index) => (
+              <Bar
+                key={key}
+                dataKey={keyLabels[key]}
+                stackId="income"
+                fill={keyColors[key]}
+                radius={index === keys.length - 1 ? [4, 4, 0, 0] : undefined}
+              />
+            ))}
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+
+      {/* Trailing income and yield on cost per asset */}
+      <div className="mt-3 pt-3 border-t border-border/50 space-y-1.5">
+        {assets.map(({ investment, income, yieldOnCost }) => (
+          <div key={investment.id} className="flex items-center justify-between gap-2 text-xs">
+            <span className="truncate text-muted-foreground">{investment.nome}</span>
+            <span className="shrink-0 flex items-center gap-2">
+              <PrivacyValue value={income} className="font-medium" />
+              {yieldOnCost !== null && (
+                <span className="text-income w-16 text-right">
+                  YoC {(yieldOnCost * 100).toLocaleString('pt-BR', { maximumFractionDigits: 1 })}%
+                </span>
+              )}
+            </span>
+          </div>
+        ))}
+      </div>
+    </motion.div>
+  );
+}
@@ -1,28 +1,44 @@
 import { motion } from 'framer-motion';
-import { TrendingUp, Wallet, Clock } from 'lucide-react';
-import { Investment } from '@/types/investment';
+import { format } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { TrendingUp, Wallet, Clock, ChevronRight } from 'lucide-react';
+import { Investment, InvestmentMovement } from '@/types/investment';
+import { Goal } from '@/types/goal';
+import { Transaction } from '@/types/transaction';
+import { getGoalProgress } from '@/lib/goals';
+import { getPortfolioReturn } from '@/lib/investments';
+import { getCategoryIcon } from '@/lib/categoryIcons';
 import { PrivacyValue } from '@/components/ui/PrivacyValue';
+import { Progress } from '@/components/ui/progress';
 import { useNavigate } from 'react-router-dom';
 
 interface InvestmentSummaryProps {
   investments: Investment[];
+  investmentMovements: InvestmentMovement[];
+  goals: Goal[];
+  transactions: Transaction[]; // already in the base currency
 }
 
-export default function InvestmentSummary({ investments }: InvestmentSummaryProps) {
+export default function InvestmentSummary({ investments, investmentMovements, goals, transactions }: InvestmentSummaryProps) {
   const navigate = useNavigate();
 
+  // Closest to done first, completed goals left out
+  const goalProgress = goals
+    .map((g) => getGoalProgress(g, investments, investmentMovements, transactions))
+    .filter((p) => !p.isComplete)
+    .sort((a, b) => b.ratio - a.ratio)
+    .slice(0, 3);
+
   const stats = {
-    totalInvestido: investments
-      .filter((i) => i.jaInvestido)
-      .reduce((sum, i) => sum + i.valorInvestido, 0),
+    totalInvestido: getPortfolioReturn(investments, investmentMovements).invested,
     pendentes: investments.filter((i) => !i.jaInvestido).length,
     totalPendente: investments
       .filter((i) => !i.jaInvestido)
       .reduce((sum, i) => sum + i.valorInvestido, 0),
   };
 
-  // Don't show if no investments
-  if (investments.length === 0) return null;
+  // Don't show if no investments or goals
+  if (investments.length === 0 && goals.length === 0) return null;
 
   return (
     <motion.div
@@ -76,6 +92,53 @@ export default function InvestmentSummary({ investments }: InvestmentSummaryProp
           )}
         </div>
       </div>
+
+      {goalProgress.length > 0 && (
+        <div
+          className="mt-3 pt-3 border-t border-primary/10 space-y-2.5"
+          onClick={(e) => {
+            e.stopPropagation();
+            navigate('/metas');
+          }}
+        >
+          {goalProgress.map(({ goal, saved, ratio, monthlyNeeded, projectedDate, isOverdue }) => {
+            const Icon = getCategoryIcon(goal.icon);
+            return (
+              <div key={goal.id} className="space-y-1">
+                <div className="flex items-center gap-2 text-xs">
+                  <Icon className="w-3.5 h-3.5 text-primary shrink-0" />
+                  <span className="flex-1 min-w-0 truncate font-medium text-foreground">{goal.name}</span>
+                  <PrivacyValue value={saved} className="text-muted-foreground" />
+                  <span className="text-muted-foreground">/</span>
+                  <PrivacyValue value={goal.targetAmount} className="text-muted-foreground" />
+                </div>
+                <Progress value={Math.min(ratio, 1) * 100} className="h-1.5" />
+                <div className="flex justify-between gap-2 text-[11px] text-muted-foreground">
+                  <span className={isOverdue ? 'text-expense' : undefined}>
+                    {monthlyNeeded !== undefined ? (
+                      <>
+                        <PrivacyValue value={monthlyNeeded} />
+                        {isOverdue ? ' (prazo vencido)' : '/mês'}
+                      </>
+                    ) : (
+                      'Sem prazo'
+                    )}
+                  </span>
+                  <span>
+                    {projectedDate
+                      ? `Previsão: ${format(new Date(projectedDate + 'T12:00:00'), 'MMM/yyyy', { locale: ptBR })}`
+                      : 'Sem aportes'}
+                  </span>
+                </div>
+              </div>
+            );
+          })}
+          <div className="flex items-center justify-end gap-1 text-xs text-primary">
+            Ver metas
+            <ChevronRight className="w-3.5 h-3.5" />
+          </div>
+        </div>
+      )}
     </motion.div>
   );
 }
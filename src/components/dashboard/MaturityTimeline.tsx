@@ -0,0 +1,97 @@
+import { useMemo } from 'react';
+import { motion } from 'framer-motion';
+import { AlertTriangle } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { Investment, InvestmentMovement, InvestmentValuation, investmentTypeColors } from '@/types/investment';
+import { IndexRate } from '@/types/marketIndex';
+import { getMaturities } from '@/lib/maturities';
+import { Button } from '@/components/ui/button';
+import { PrivacyValue } from '@/components/ui/PrivacyValue';
+import { cn } from '@/lib/utils';
+
+interface MaturityTimelineProps {
+  investments: Investment[];
+  movements: InvestmentMovement[];
+  valuations: InvestmentValuation[];
+  indexRates: IndexRate[];
+  onSelect: (investment: Investment) => void;
+}
+
+const formatDaysLeft = (days: number) => {
+  if (days === 0) return 'Hoje';
+  if (days < 60) return `em ${days} dias`;
+  if (days < 730) return `em ${Math.round(days / 30)} meses`;
+  return `em ${Math.round(days / 365)} anos`;
+};
+
+export default function MaturityTimeline({ investments, movements, valuations, indexRates, onSelect }: MaturityTimelineProps) {
+  const maturities = useMemo(
+    () => getMaturities(investments, movements, valuations, indexRates),
+    [investments, movements, valuations, indexRates]
+  );
+  if (maturities.length === 0) return null;
+
+  const nextYear = maturities.filter((m) => m.daysLeft <= 365).reduce((sum, m) => sum + m.gross, 0);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.1 }}
+      className="glass-card rounded-xl p-4 sm:p-6"
+    >
+      <div className="flex items-center justify-between gap-2 mb-3 sm:mb-4">
+        <h3 className="font-semibold text-sm sm:text-lg">Vencimentos</h3>
+        {nextYear > 0 && (
+          <span className="text-xs text-muted-foreground">
+            12 meses: <PrivacyValue value={nextYear} className="font-medium text-foreground" />
+          </span>
+        )}
+      </div>
+
+      <div className="relative space-y-3 pl-4 before:absolute before:left-[3px] before:top-1.5 before:bottom-1.5 before:w-px before:bg-border">
+        {maturities.map((m) => (
+          <div key={m.investment.id} className="relative">
+            <span
+              className={cn('absolute -left-4 top-1.5 w-[7px] h-[7px] rounded-full', m.isMatured && 'bg-warning')}
+              style={m.isMatured ? undefined : { backgroundColor: investmentTypeColors[m.investment.tipo] }}
+            />
+            <div className="flex items-start justify-between gap-2">
+              <button type="button" onClick={() => onSelect(m.investment)} className="min-w-0 flex-1 text-left">
+                <p className="text-sm font-medium truncate">{m.investment.nome}</p>
+                <p className={cn('text-xs', m.isMatured ? 'text-warning' : 'text-muted-foreground')}>
+                  {m.isMatured && <AlertTriangle className="w-3 h-3 inline mr-1" />}
+                  {format(parseISO(m.date), 'dd/MM/yyyy', { locale: ptBR })} ·{' '}
+                  {m.isMatured ? 'Vencido, resgate não registrado' : formatDaysLeft(m.daysLeft)}
+                </p>
+              </button>
+              <div className="text-right shrink-0">
+                <PrivacyValue value={m.gross} className="text-sm font-semibold" />
+                {m.net !== m.gross && (
+                  <p className="text-[11px] text-muted-foreground">
+                    líquido <PrivacyValue value={m.net} />
+                  </p>
+                )}
+              </div>
+            </div>
+            {m.isMatured && (
+              <Button
+                variant="outline"
+                size="sm"
+                className="mt-1.5 h-7 text-xs text-warning border-warning/30 hover:bg-warning/10"
+                onClick={() => onSelect(m.investment)}
+              >
+                Registrar resgate
+              </Button>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <p className="text-[11px] text-muted-foreground mt-3">
+        Valores projetados até o vencimento com os índices cadastrados; sem índice, mostra o valor atual.
+      </p>
+    </motion.div>
+  );
+}
@@ -0,0 +1,174 @@
+import { useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import {
+  Investment,
+  InvestmentMovement,
+  InvestmentValuation,
+  investmentTypeLabels,
+} from '@/types/investment';
+import { IndexRate, MarketIndex, marketIndexLabels } from '@/types/marketIndex';
+import { getIndexReturn } from '@/lib/fixedIncome';
+import { formatPercent } from '@/lib/investments';
+import {
+  Performance,
+  PerformanceWindow,
+  getPerformance,
+  getWindowStart,
+  performanceWindowLabels,
+} from '@/lib/performance';
+import { cn, toLocalDateString } from '@/lib/utils';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+
+interface PerformanceCardProps {
+  investments: Investment[];
+  movements: InvestmentMovement[];
+  valuations: InvestmentValuation[];
+  indexRates: IndexRate[];
+}
+
+interface PerformanceRow {
+  key: string;
+  label: string;
+  level: 'portfolio' | 'type' | 'asset';
+  performance: Performance;
+  benchmark: number | null; // over the same days the row was held
+}
+
+export default function PerformanceCard({ investments, movements, valuations, indexRates }: PerformanceCardProps) {
+  const [period, setPeriod] = useState<PerformanceWindow>('12m');
+  const [benchmarkIndex, setBenchmarkIndex] = useState<MarketIndex>('cdi');
+
+  const rows = useMemo(() => {
+    const today = toLocalDateString();
+    const made = investments.filter((i) => i.jaInvestido);
+    const start = getWindowStart(period, made, today);
+    const benchmarks = new Map<string, number | null>();
+    // Rows starting later than the period are compared over their own days
+    const benchmarkFrom = (group: Investment[]) => {
+      const first = group.map((i) => i.dataInvestimento).sort()[0];
+      const from = first > start ? first : start;
+      if (!benchmarks.has(from)) benchmarks.set(from, getIndexReturn(indexRates, benchmarkIndex, from, today));
+      return benchmarks.get(from) ?? null;
+    };
+
+    const result: PerformanceRow[] = [];
+    const add = (key: string, label: string, level: PerformanceRow['level'], group: Investment[]) => {
+      const performance = getPerformance(group, movements, valuations, start, today);
+      // Assets already closed before the period have nothing to show
+      if (!performance || (performance.startValue === 0 && performance.endValue === 0)) return;
+      result.push({ key, label, level, performance, benchmark: benchmarkFrom(group) });
+    };
+
+    add('portfolio', 'Carteira', 'portfolio', made);
+    const types = [...new Set(made.map((i) => i.tipo))];
+    for (const type of types) {
+      const group = made.filter((i) => i.tipo === type);
+      add(type, investmentTypeLabels[type], 'type', group);
+      group.forEach((i) => add(i.id, i.nome, 'asset', [i]));
+    }
+    return result;
+  }, [investments, movements, valuations, indexRates, period, benchmarkIndex]);
+
+  const portfolio = rows.find((r) => r.level === 'portfolio');
+  if (!portfolio) return null;
+
+  const renderVersus = (row: PerformanceRow) => {
+    if (row.performance.twr === null || row.benchmark === null || row.benchmark <= 0) return '—';
+    return `${Math.round((row.performance.twr / row.benchmark) * 100)}%`;
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.1 }}
+      className="glass-card rounded-xl p-4 sm:p-6"
+    >
+      <div className="flex items-center justify-between gap-2 mb-3">
+        <h3 className="font-semibold text-sm sm:text-lg">Rentabilidade</h3>
+        <select
+          value={benchmarkIndex}
+          onChange={(e) => setBenchmarkIndex(e.target.value as MarketIndex)}
+          className="text-xs bg-muted/50 border-0 rounded-md px-2 py-1.5 focus:ring-1 focus:ring-primary"
+          aria-label="Índice de comparação"
+        >
+          {(Object.keys(marketIndexLabels) as MarketIndex[]).map((index) => (
+            <option key={index} value={index}>
+              vs {marketIndexLabels[index]}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="flex gap-1 bg-muted/50 p-1 rounded-lg mb-3">
+        {(Object.keys(performanceWindowLabels) as PerformanceWindow[]).map((key) => (
+          <button
+            key={key}
+            type="button"
+            onClick={() => setPeriod(key)}
+            className={cn(
+              'flex-1 py-1.5 text-xs font-medium rounded-md transition-colors',
+              period === key ? 'bg-background text-foreground shadow-sm' : 'text-muted-foreground hover:text-foreground'
+            )}
+          >
+            {performanceWindowLabels[key]}
+          </button>
+        ))}
+      </div>
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead className="px-2">Ativo</TableHead>
+            <TableHead className="px-2 text-right">Rentab.</TableHead>
+            <TableHead className="px-2 text-right">TIR a.a.</TableHead>
+            <TableHead className="px-2 text-right">% {marketIndexLabels[benchmarkIndex]}</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {rows.map((row) => (
+            <TableRow key={`${row.level}-${row.key}`}>
+              <TableCell
+                className={cn(
+                  'px-2 py-2 max-w-[9rem] truncate',
+                  row.level === 'portfolio' && 'font-semibold',
+                  row.level === 'type' && 'font-medium',
+                  row.level === 'asset' && 'pl-5 text-muted-foreground'
+                )}
+              >
+                {row.label}
+              </TableCell>
+              <TableCell
+                className={cn(
+                  'px-2 py-2 text-right',
+                  row.performance.twr !== null && (row.performance.twr >= 0 ? 'text-income' : 'text-expense')
+                )}
+              >
+                {row.performance.twr !== null ? formatPercent(row.performance.twr) : '—'}
+              </TableCell>
+              <TableCell className="px-2 py-2 text-right">
+                {row.performance.xirr !== null ? formatPercent(row.performance.xirr) : '—'}
+              </TableCell>
+              <TableCell className="px-2 py-2 text-right text-muted-foreground">{renderVersus(row)}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+
+      <p className="text-[11px] text-muted-foreground mt-2">
+        {portfolio.benchmark !== null
+          ? `${marketIndexLabels[benchmarkIndex]} no período: ${formatPercent(portfolio.benchmark)}. `
+          : `Cadastre o ${marketIndexLabels[benchmarkIndex]} em Índices para comparar. `}
+        Rentabilidade ponderada pelo tempo, a partir dos valores informados; TIR considera quando cada aporte e
+        resgate foi feito.
+      </p>
+    </motion.div>
+  );
+}
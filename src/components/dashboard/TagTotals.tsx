@@ -0,0 +1,56 @@
+import { motion } from 'framer-motion';
+import { Hash } from 'lucide-react';
+import { Tag } from '@/types/tag';
+import { Transaction } from '@/types/transaction';
+import { getTagTotals } from '@/lib/tags';
+import { PrivacyValue } from '@/components/ui/PrivacyValue';
+import { cn } from '@/lib/utils';
+
+interface TagTotalsProps {
+  transactions: Transaction[];
+  tags: Tag[];
+  selectedTagId?: string | null;
+  onSelect?: (tagId: string) => void;
+}
+
+export default function TagTotals({ transactions, tags, selectedTagId, onSelect }: TagTotalsProps) {
+  const totals = getTagTotals(transactions, tags);
+
+  if (totals.length === 0) return null;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 10 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.1 }}
+      className="glass-card rounded-2xl p-4"
+    >
+      <div className="flex items-center gap-2 mb-3">
+        <div className="p-1.5 rounded-lg bg-primary/20">
+          <Hash className="w-4 h-4 text-primary" />
+        </div>
+        <span className="text-sm font-medium">Por tag</span>
+      </div>
+
+      <div className="space-y-1">
+        {totals.map(({ tag, income, expense, count }) => (
+          <button
+            key={tag.id}
+            onClick={() => onSelect?.(tag.id)}
+            className={cn(
+              'w-full flex items-center gap-3 px-2 py-1.5 rounded-lg text-left transition-colors',
+              selectedTagId === tag.id ? 'bg-primary/10' : 'hover:bg-muted/50'
+            )}
+          >
+            <span className="flex-1 min-w-0 text-sm truncate">
+              #{tag.name}
+              <span className="text-xs text-muted-foreground ml-1.5">{count}</span>
+            </span>
+            {income > 0 && <PrivacyValue value={income} className="text-xs font-semibold text-income" />}
+            {expense > 0 && <PrivacyValue value={expense} className="text-xs font-semibold text-expense" />}
+          </button>
+        ))}
+      </div>
+    </motion.div>
+  );
+}
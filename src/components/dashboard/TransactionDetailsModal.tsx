@@ -1,25 +1,17 @@
 import { motion, AnimatePresence } from 'framer-motion';
 import { format } from 'date-fns';
 import { ptBR } from 'date-fns/locale';
-import { X, Wallet, UtensilsCrossed, Car, ShoppingBag, Heart, Gamepad2, Receipt, GraduationCap, TrendingUp, HandCoins, MoreHorizontal, Check, User, Calendar, Tag, Clock } from 'lucide-react';
-import { Transaction, categoryLabels, TransactionCategory } from '@/types/transaction';
+import { X, ArrowLeftRight, HandCoins, Check, User, Calendar, Tag, Clock } from 'lucide-react';
+import { Transaction } from '@/types/transaction';
+import { useTransactions } from '@/contexts/TransactionContext';
+import { getTransferCounterpart, isTransfer } from '@/lib/transactions';
+import { getCategory, getCategoryPath } from '@/lib/categories';
+import { getCategoryIcon } from '@/lib/categoryIcons';
+import { DEFAULT_CURRENCY, convertAmount } from '@/lib/currency';
 import { cn } from '@/lib/utils';
 import { Badge } from '@/components/ui/badge';
 import { PrivacyValue } from '@/components/ui/PrivacyValue';
-
-const categoryIconMap: Record<TransactionCategory, React.ElementType> = {
-  salary: Wallet,
-  food: UtensilsCrossed,
-  transport: Car,
-  shopping: ShoppingBag,
-  health: Heart,
-  entertainment: Gamepad2,
-  bills: Receipt,
-  education: GraduationCap,
-  investment: TrendingUp,
-  loan: HandCoins,
-  other: MoreHorizontal,
-};
+import AttachmentGallery from '@/components/AttachmentGallery';
 
 interface TransactionDetailsModalProps {
   transaction: Transaction | null;
@@ -27,10 +19,24 @@ interface TransactionDetailsModalProps {
 }
 
 export default function TransactionDetailsModal({ transaction, onClose }: TransactionDetailsModalProps) {
+  const { transactions, accounts, categories, baseCurrency, exchangeRates } = useTransactions();
+
   if (!transaction) return null;
 
-  const Icon = categoryIconMap[transaction.category] || MoreHorizontal;
+  const Icon = getCategoryIcon(getCategory(categories, transaction.category).icon);
   const isIncome = transaction.type === 'income';
+  const isTransferLeg = isTransfer(transaction);
+  const currency = transaction.currency || DEFAULT_CURRENCY;
+  const convertedAmount =
+    currency !== baseCurrency
+      ? convertAmount(transaction.amount, currency, baseCurrency, transaction.date, exchangeRates)
+      : null;
+
+  const getAccountName = (id?: string) => accounts.find((a) => a.id === id)?.name || 'Sem conta';
+  const counterpart = getTransferCounterpart(transaction, transactions);
+  const [fromAccountId, toAccountId] = isIncome
+    ? [counterpart?.accountId, transaction.accountId]
+    : [transaction.accountId, counterpart?.accountId];
   
   const isSettledLoan = transaction.isLoan && (
     (transaction.type === 'expense' && transaction.loanStatus === 'received') ||
@@ -88,8 +94,9 @@ export default function TransactionDetailsModal({ transaction, onClose }: Transa
                   className={cn(
                     'w-14 h-14 rounded-2xl flex items-center justify-center flex-shrink-0',
                     isSettledLoan && 'bg-income/20',
-                    !isSettledLoan && isIncome && 'bg-income/10',
-                    !isSettledLoan && !isIncome && 'bg-expense/10'
+                    isTransferLeg && 'bg-muted',
+                    !isSettledLoan && !isTransferLeg && isIncome && 'bg-income/10',
+                    !isSettledLoan && !isTransferLeg && !isIncome && 'bg-expense/10'
                   )}
                 >
                   {isSettledLoan ? (
@@ -98,7 +105,7 @@ export default function TransactionDetailsModal({ transaction, onClose }: Transa
                     <Icon
                       className={cn(
                         'w-7 h-7',
-                        isIncome ? 'text-income' : 'text-expense'
+                        isTransferLeg ? 'text-muted-foreground' : isIncome ? 'text-income' : 'text-expense'
                       )}
                     />
                   )}
@@ -109,10 +116,12 @@ export default function TransactionDetailsModal({ transaction, onClose }: Transa
                     variant="outline" 
                     className={cn(
                       'mt-1',
-                      isIncome ? 'border-income text-income' : 'border-expense text-expense'
+                      isTransferLeg
+                        ? 'border-muted-foreground text-muted-foreground'
+                        : isIncome ? 'border-income text-income' : 'border-expense text-expense'
                     )}
                   >
-                    {isIncome ? 'Receita' : 'Despesa'}
+                    {isTransferLeg ? 'Transferência' : isIncome ? 'Receita' : 'Despesa'}
                   </Badge>
                 </div>
               </div>
@@ -121,12 +130,18 @@ export default function TransactionDetailsModal({ transaction, onClose }: Transa
               <div className={cn(
                 'text-3xl font-bold',
                 isSettledLoan && 'text-income line-through decoration-2',
-                !isSettledLoan && isIncome && 'text-income',
-                !isSettledLoan && !isIncome && 'text-expense'
+                isTransferLeg && 'text-muted-foreground',
+                !isSettledLoan && !isTransferLeg && isIncome && 'text-income',
+                !isSettledLoan && !isTransferLeg && !isIncome && 'text-expense'
               )}>
                 {isSettledLoan ? '✓' : (isIncome ? '+' : '-')}{' '}
-                <PrivacyValue value={transaction.amount} />
+                <PrivacyValue value={transaction.amount} currency={transaction.currency} />
               </div>
+              {convertedAmount !== null && (
+                <p className="text-sm text-muted-foreground -mt-2">
+                  ≈ <PrivacyValue value={convertedAmount} currency={baseCurrency} /> pela cotação do dia
+                </p>
+              )}
 
               {/* Details */}
               <div className="space-y-4 pt-2 border-t border-border">
@@ -135,12 +150,47 @@ export default function TransactionDetailsModal({ transaction, onClose }: Transa
                   <div className="w-10 h-10 rounded-xl bg-muted flex items-center justify-center">
                     <Tag className="w-5 h-5 text-muted-foreground" />
                   </div>
-                  <div>
-                    <p className="text-xs text-muted-foreground">Categoria</p>
-                    <p className="font-medium">{categoryLabels[transaction.category]}</p>
+                  <div className="flex-1 min-w-0">
+                    <p className="text-xs text-muted-foreground">
+                      {transaction.splits ? `Dividida em ${transaction.splits.length} categorias` : 'Categoria'}
+                    </p>
+                    {transaction.splits ? (
+                      <div className="space-y-1.5 mt-1">
+                        {transaction.splits.map((line, index) => (
+                          <div key={index} className="flex items-start justify-between gap-3">
+                            <div className="min-w-0">
+                              <p className="text-sm font-medium truncate">{getCategoryPath(categories, line.category)}</p>
+                              {line.note && <p className="text-xs text-muted-foreground truncate">{line.note}</p>}
+                            </div>
+                            <PrivacyValue
+                              value={line.amount}
+                              currency={transaction.currency}
+                              className="text-sm font-semibold shrink-0"
+                            />
+                          </div>
+                        ))}
+                      </div>
+                    ) : (
+                      <p className="font-medium">{getCategoryPath(categories, transaction.category)}</p>
+                    )}
                   </div>
                 </div>
 
+                {/* Transfer accounts */}
+                {isTransferLeg && (
+                  <div className="flex items-center gap-3">
+                    <div className="w-10 h-10 rounded-xl bg-muted flex items-center justify-center">
+                      <ArrowLeftRight className="w-5 h-5 text-muted-foreground" />
+                    </div>
+                    <div>
+                      <p className="text-xs text-muted-foreground">Contas</p>
+                      <p className="font-medium">
+                        {getAccountName(fromAccountId)} → {getAccountName(toAccountId)}
+                      </p>
+                    </div>
+                  </div>
+                )}
+
                 {/* Date */}
                 <div className="flex items-center gap-3">
                   <div className="w-10 h-10 rounded-xl bg-muted flex items-center justify-center">
@@ -214,6 +264,14 @@ export default function TransactionDetailsModal({ transaction, onClose }: Transa
                     )}
                   </>
                 )}
+
+                {/* Attachments (receipts, boletos, loan contracts) */}
+                {!isTransferLeg && (
+                  <div className="space-y-2">
+                    <p className="text-xs text-muted-foreground">Anexos</p>
+                    <AttachmentGallery transactionId={transaction.id} editable />
+                  </div>
+                )}
               </div>
             </div>
           </motion.div>
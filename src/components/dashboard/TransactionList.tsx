@@ -4,61 +4,49 @@ import { format, isToday, isYesterday } from 'date-fns';
 import { ptBR } from 'date-fns/locale';
 import {
   CloudUpload,
-  Wallet,
-  UtensilsCrossed,
-  Car,
-  ShoppingBag,
-  Heart,
-  Gamepad2,
   Receipt,
-  GraduationCap,
-  TrendingUp,
-  HandCoins,
-  MoreHorizontal,
   Pencil,
   Trash2,
   Check,
 } from 'lucide-react';
-import { Transaction, categoryLabels, TransactionCategory } from '@/types/transaction';
+import { Transaction } from '@/types/transaction';
+import { Tag } from '@/types/tag';
+import { RecurrenceScope } from '@/types/recurrence';
+import { useTransactions } from '@/contexts/TransactionContext';
+import { getTransferCounterpart, isTransfer } from '@/lib/transactions';
+import { CategoryInfo, getCategory } from '@/lib/categories';
+import { getCategoryIcon } from '@/lib/categoryIcons';
+import { getTransactionTags } from '@/lib/tags';
 import { cn } from '@/lib/utils';
 import { Button } from '@/components/ui/button';
 import { PrivacyValue } from '@/components/ui/PrivacyValue';
 import TransactionDetailsModal from './TransactionDetailsModal';
-
-const categoryIconMap: Record<TransactionCategory, React.ElementType> = {
-  salary: Wallet,
-  food: UtensilsCrossed,
-  transport: Car,
-  shopping: ShoppingBag,
-  health: Heart,
-  entertainment: Gamepad2,
-  bills: Receipt,
-  education: GraduationCap,
-  investment: TrendingUp,
-  loan: HandCoins,
-  other: MoreHorizontal,
-};
+import RecurringScopeDialog from '@/components/modals/RecurringScopeDialog';
 
 interface TransactionListProps {
   transactions: Transaction[];
   onEdit: (id: string) => void;
-  onDelete: (id: string) => void;
+  onDelete: (id: string, scope?: RecurrenceScope) => void;
   pendingIds?: Set<string>;
 }
 
 interface SwipeableItemProps {
   transaction: Transaction;
+  category: CategoryInfo;
+  tags: Tag[];
   onEdit: () => void;
   onDelete: () => void;
   onViewDetails: () => void;
   isPending?: boolean;
+  transferLabel?: string;
 }
 
-function SwipeableItem({ transaction, onEdit, onDelete, onViewDetails, isPending }: SwipeableItemProps) {
+function SwipeableItem({ transaction, category, tags, onEdit, onDelete, onViewDetails, isPending, transferLabel }: SwipeableItemProps) {
   const [isOpen, setIsOpen] = useState(false);
   const [hasDragged, setHasDragged] = useState(false);
-  const Icon = categoryIconMap[transaction.category] || MoreHorizontal;
+  const Icon = getCategoryIcon(category.icon);
   const isIncome = transaction.type === 'income';
+  const isTransferLeg = isTransfer(transaction);
   
   // Verificar se é um empréstimo quitado
   const isSettledLoan = transaction.isLoan && (
@@ -140,8 +128,9 @@ function SwipeableItem({ transaction, onEdit, onDelete, onViewDetails, isPending
           className={cn(
             'w-11 h-11 rounded-xl flex items-center justify-center flex-shrink-0',
             isSettledLoan && 'bg-income/20',
-            !isSettledLoan && isIncome && 'bg-income/10',
-            !isSettledLoan && !isIncome && 'bg-expense/10'
+            isTransferLeg && 'bg-muted',
+            !isSettledLoan && !isTransferLeg && isIncome && 'bg-income/10',
+            !isSettledLoan && !isTransferLeg && !isIncome && 'bg-expense/10'
           )}
         >
           {isSettledLoan ? (
@@ -150,7 +139,7 @@ function SwipeableItem({ transaction, onEdit, onDelete, onViewDetails, isPending
             <Icon
               className={cn(
                 'w-5 h-5',
-                isIncome ? 'text-income' : 'text-expense'
+                isTransferLeg ? 'text-muted-foreground' : isIncome ? 'text-income' : 'text-expense'
               )}
             />
           )}
@@ -165,9 +154,18 @@ function SwipeableItem({ transaction, onEdit, onDelete, onViewDetails, isPending
           <p className="text-xs text-muted-foreground truncate">
             {isSettledLoan 
               ? (transaction.type === 'expense' ? '✓ Recebido de volta' : '✓ Pago')
-              : categoryLabels[transaction.category]
+              : transferLabel || (transaction.splits ? `${category.name} +${transaction.splits.length - 1}` : category.name)
             }
           </p>
+          {tags.length > 0 && (
+            <div className="flex flex-wrap gap-1 mt-1">
+              {tags.map((tag) => (
+                <span key={tag.id} className="px-1.5 py-px rounded-full bg-primary/10 text-primary text-[10px] font-medium">
+                  #{tag.name}
+                </span>
+              ))}
+            </div>
+          )}
         </div>
         <div className="flex items-center gap-1 flex-shrink-0">
           {isPending && (
@@ -177,12 +175,13 @@ function SwipeableItem({ transaction, onEdit, onDelete, onViewDetails, isPending
             className={cn(
               'font-bold text-sm sm:text-base',
               isSettledLoan && 'text-income line-through decoration-2',
-              !isSettledLoan && isIncome && 'text-income',
-              !isSettledLoan && !isIncome && 'text-expense'
+              isTransferLeg && 'text-muted-foreground',
+              !isSettledLoan && !isTransferLeg && isIncome && 'text-income',
+              !isSettledLoan && !isTransferLeg && !isIncome && 'text-expense'
             )}
           >
             {isSettledLoan ? '✓' : (isIncome ? '+' : '-')}{' '}
-            <PrivacyValue value={transaction.amount} />
+            <PrivacyValue value={transaction.amount} currency={transaction.currency} />
           </p>
         </div>
       </motion.div>
@@ -197,6 +196,15 @@ export default function TransactionList({
   pendingIds,
 }: TransactionListProps) {
   const [selectedTransaction, setSelectedTransaction] = useState<Transaction | null>(null);
+  const [deletingOccurrence, setDeletingOccurrence] = useState<Transaction | null>(null);
+  const { transactions: allTransactions, accounts, categories, tags } = useTransactions();
+
+  const getTransferLabel = (transaction: Transaction) => {
+    const counterpart = getTransferCounterpart(transaction, allTransactions);
+    const accountName = accounts.find((a) => a.id === counterpart?.accountId)?.name;
+    if (!accountName) return undefined;
+    return transaction.type === 'expense' ? `Para ${accountName}` : `De ${accountName}`;
+  };
 
   // Group transactions by date
   const grouped = transactions.reduce((acc, transaction) => {
@@ -261,10 +269,17 @@ export default function TransactionList({
                     >
                       <SwipeableItem
                         transaction={transaction}
+                        category={getCategory(categories, transaction.category)}
+                        tags={getTransactionTags(transaction, tags)}
                         onEdit={() => onEdit(transaction.id)}
-                        onDelete={() => onDelete(transaction.id)}
+                        onDelete={() =>
+                          transaction.recurringRuleId
+                            ? setDeletingOccurrence(transaction)
+                            : onDelete(transaction.id)
+                        }
                         onViewDetails={() => setSelectedTransaction(transaction)}
                         isPending={pendingIds?.has(transaction.id)}
+                        transferLabel={isTransfer(transaction) ? getTransferLabel(transaction) : undefined}
                       />
                     </motion.div>
                   ))}
@@ -285,6 +300,17 @@ export default function TransactionList({
         transaction={selectedTransaction}
         onClose={() => setSelectedTransaction(null)}
       />
+
+      {/* Recurring occurrences ask which part of the series goes away */}
+      <RecurringScopeDialog
+        open={!!deletingOccurrence}
+        action="delete"
+        onSelect={(scope) => {
+          if (deletingOccurrence) onDelete(deletingOccurrence.id, scope);
+          setDeletingOccurrence(null);
+        }}
+        onClose={() => setDeletingOccurrence(null)}
+      />
     </>
   );
 }
@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { Suspense, useState } from 'react';
 import { Outlet, NavLink, useLocation } from 'react-router-dom';
 import { motion } from 'framer-motion';
 import {
@@ -8,12 +8,20 @@ import {
   Bell,
   HandCoins,
   TrendingUp,
+  CreditCard,
+  Layers,
+  PiggyBank,
+  Mail,
+  Target,
+  LineChart,
+  Landmark,
   Moon,
   Sun,
   User,
   LogOut,
   Eye,
   EyeOff,
+  Coins,
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { useTheme } from '@/contexts/ThemeContext';
@@ -23,12 +31,21 @@ import { Button } from '@/components/ui/button';
 import QuickRecordModal from '@/components/modals/QuickRecordModal';
 import NewInvestmentModal from '@/components/modals/NewInvestmentModal';
 import NewLoanModal from '@/components/modals/NewLoanModal';
+import CurrencySettingsModal from '@/components/modals/CurrencySettingsModal';
 import { OfflineBanner } from '@/components/OfflineBanner';
 
-const navItems = [
+// Items with hideOnMobile stay out of the bottom bar and are reached from within other pages
+const navItems: { path: string; icon: React.ElementType; label: string; mobileLabel: string; hideOnMobile?: boolean }[] = [
   { path: '/', icon: LayoutDashboard, label: 'Início', mobileLabel: 'Início' },
   { path: '/transacoes', icon: Receipt, label: 'Transações', mobileLabel: 'Trans.' },
   { path: '/investimentos', icon: TrendingUp, label: 'Investimentos', mobileLabel: 'Invest.' },
+  { path: '/cartoes', icon: CreditCard, label: 'Cartões', mobileLabel: 'Cartões' },
+  { path: '/parcelamentos', icon: Layers, label: 'Parcelamentos', mobileLabel: 'Parcelas', hideOnMobile: true },
+  { path: '/orcamentos', icon: PiggyBank, label: 'Orçamentos', mobileLabel: 'Orçam.', hideOnMobile: true },
+  { path: '/envelopes', icon: Mail, label: 'Envelopes', mobileLabel: 'Envel.', hideOnMobile: true },
+  { path: '/metas', icon: Target, label: 'Metas', mobileLabel: 'Metas', hideOnMobile: true },
+  { path: '/previsao', icon: LineChart, label: 'Previsão', mobileLabel: 'Previsão', hideOnMobile: true },
+  { path: '/patrimonio', icon: Landmark, label: 'Patrimônio', mobileLabel: 'Patrim.', hideOnMobile: true },
   { path: '/lembretes', icon: Bell, label: 'Lembretes', mobileLabel: 'Alertas' },
   { path: '/emprestimos', icon: HandCoins, label: 'Empréstimos', mobileLabel: 'Emprést.' },
 ];
@@ -41,6 +58,7 @@ export default function AppLayout() {
   const [isQuickRecordOpen, setIsQuickRecordOpen] = useState(false);
   const [isInvestmentModalOpen, setIsInvestmentModalOpen] = useState(false);
   const [isLoanModalOpen, setIsLoanModalOpen] = useState(false);
+  const [isCurrencyModalOpen, setIsCurrencyModalOpen] = useState(false);
 
   // Determine which modal to open based on current route
   const handleFabClick = () => {
@@ -118,6 +136,15 @@ export default function AppLayout() {
               )}
               {isPrivacyMode ? 'Mostrar valores' : 'Ocultar valores'}
             </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="w-full justify-start"
+              onClick={() => setIsCurrencyModalOpen(true)}
+            >
+              <Coins className="w-4 h-4 mr-2" />
+              Moedas e cotações
+            </Button>
             <Button
               variant="ghost"
               size="sm"
@@ -164,6 +191,15 @@ export default function AppLayout() {
                 <Eye className="w-5 h-5" />
               )}
             </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => setIsCurrencyModalOpen(true)}
+              className="h-9 w-9"
+              aria-label="Moedas e cotações"
+            >
+              <Coins className="w-5 h-5" />
+            </Button>
             <Button variant="ghost" size="icon" onClick={toggleTheme} className="h-9 w-9">
               {theme === 'dark' ? (
                 <Sun className="w-5 h-5" />
@@ -184,14 +220,23 @@ export default function AppLayout() {
 
         {/* Page Content */}
         <div className="flex-1 px-4 py-4 lg:p-8 overflow-y-auto overflow-x-hidden">
-          <Outlet />
+          {/* Pages other than the dashboard load on first visit */}
+          <Suspense
+            fallback={
+              <div className="flex justify-center py-16">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+              </div>
+            }
+          >
+            <Outlet />
+          </Suspense>
         </div>
       </main>
 
-      {/* Mobile Bottom Navigation - Simple 5 items */}
+      {/* Mobile Bottom Navigation */}
       <nav className="lg:hidden fixed bottom-0 left-0 right-0 bg-card/98 backdrop-blur-lg border-t border-border z-40 safe-area-bottom">
         <div className="flex justify-around items-center h-16 max-w-md mx-auto px-1">
-          {navItems.map((item) => {
+          {navItems.filter((item) => !item.hideOnMobile).map((item) => {
             const isActive = location.pathname === item.path;
             return (
               <NavLink
@@ -249,6 +294,12 @@ export default function AppLayout() {
         isOpen={isLoanModalOpen}
         onClose={() => setIsLoanModalOpen(false)}
       />
+
+      {/* Base currency and exchange rates */}
+      <CurrencySettingsModal
+        isOpen={isCurrencyModalOpen}
+        onClose={() => setIsCurrencyModalOpen(false)}
+      />
       </div>
     </div>
   );
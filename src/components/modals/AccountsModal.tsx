@@ -0,0 +1,370 @@
+import { useState, useEffect } from 'react';
+import { Plus, Pencil, Trash2, Landmark, PiggyBank, Banknote, Smartphone, CreditCard } from 'lucide-react';
+import { useTransactions } from '@/contexts/TransactionContext';
+import { useToast } from '@/hooks/use-toast';
+import { Account, AccountType, accountTypeLabels, accountTypeColors } from '@/types/account';
+import { CurrencyCode, currencyLabels } from '@/types/currency';
+import { getAccountBalance } from '@/lib/transactions';
+import { getCurrencySymbol } from '@/lib/currency';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { PrivacyValue } from '@/components/ui/PrivacyValue';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { cn } from '@/lib/utils';
+
+const iconMap: Record<AccountType, React.ElementType> = {
+  checking: Landmark,
+  savings: PiggyBank,
+  cash: Banknote,
+  wallet: Smartphone,
+  credit_card: CreditCard,
+};
+
+interface AccountsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export default function AccountsModal({ isOpen, onClose }: AccountsModalProps) {
+  const { accounts, transactions, baseCurrency, addAccount, updateAccount, deleteAccount } = useTransactions();
+  const { toast } = useToast();
+
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [type, setType] = useState<AccountType>('checking');
+  const [initialBalance, setInitialBalance] = useState('');
+  const [currency, setCurrency] = useState<CurrencyCode>(baseCurrency);
+  const [closingDay, setClosingDay] = useState('');
+  const [dueDay, setDueDay] = useState('');
+  const [creditLimit, setCreditLimit] = useState('');
+
+  const isCard = type === 'credit_card';
+  // Entries are in their account's currency, so it's fixed once the account has any
+  const hasEntries = !!editingId && transactions.some((t) => t.accountId === editingId);
+  const symbol = getCurrencySymbol(currency);
+
+  const resetForm = () => {
+    setName('');
+    setType('checking');
+    setInitialBalance('');
+    setClosingDay('');
+    setDueDay('');
+    setCreditLimit('');
+    setEditingId(null);
+    setIsFormOpen(false);
+  };
+
+  useEffect(() => {
+    if (!isOpen) resetForm();
+  }, [isOpen]);
+
+  const openForm = (account?: Account) => {
+    if (account) {
+      setEditingId(account.id);
+      setName(account.name);
+      setType(account.type);
+      setInitialBalance(account.initialBalance.toString().replace('.', ','));
+      setCurrency(account.currency);
+      setClosingDay(account.closingDay?.toString() || '');
+      setDueDay(account.dueDay?.toString() || '');
+      setCreditLimit(account.creditLimit?.toString().replace('.', ',') || '');
+    } else {
+      setEditingId(null);
+      setName('');
+      setType('checking');
+      setInitialBalance('');
+      setCurrency(baseCurrency);
+      setClosingDay('');
+      setDueDay('');
+      setCreditLimit('');
+    }
+    setIsFormOpen(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!name.trim()) {
+      toast({
+        title: 'Nome obrigatório',
+        description: 'Digite o nome da conta.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    const parsedBalance = initialBalance.trim() ? parseFloat(initialBalance.replace(',', '.')) : 0;
+    if (isNaN(parsedBalance)) {
+      toast({
+        title: 'Saldo inválido',
+        description: 'Digite um valor numérico.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    const cardFields: Pick<Account, 'closingDay' | 'dueDay' | 'creditLimit'> = {
+      closingDay: undefined,
+      dueDay: undefined,
+      creditLimit: undefined,
+    };
+    if (isCard) {
+      const parsedClosing = parseInt(closingDay);
+      const parsedDue = parseInt(dueDay);
+      if ([parsedClosing, parsedDue].some((d) => isNaN(d) || d < 1 || d > 31)) {
+        toast({
+          title: 'Dia inválido',
+          description: 'Fechamento e vencimento devem estar entre 1 e 31.',
+          variant: 'destructive',
+        });
+        return;
+      }
+      const parsedLimit = creditLimit.trim() ? parseFloat(creditLimit.replace(',', '.')) : undefined;
+      if (parsedLimit !== undefined && isNaN(parsedLimit)) {
+        toast({
+          title: 'Limite inválido',
+          description: 'Digite um valor numérico.',
+          variant: 'destructive',
+        });
+        return;
+      }
+      cardFields.closingDay = parsedClosing;
+      cardFields.dueDay = parsedDue;
+      cardFields.creditLimit = parsedLimit;
+    }
+
+    if (editingId) {
+      await updateAccount(editingId, { name: name.trim(), type, initialBalance: parsedBalance, currency, ...cardFields });
+      toast({ title: 'Conta atualizada', description: `${name.trim()} foi salva.` });
+    } else {
+      await addAccount({
+        name: name.trim(),
+        type,
+        initialBalance: parsedBalance,
+        currency,
+        isArchived: false,
+        ...cardFields,
+      });
+      toast({ title: 'Conta criada', description: `${name.trim()} foi adicionada.` });
+    }
+
+    resetForm();
+  };
+
+  const handleDelete = (account: Account) => {
+    deleteAccount(account.id);
+    toast({
+      title: 'Conta excluída',
+      description: 'As transações foram mantidas, sem conta vinculada.',
+    });
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-[calc(100vw-2rem)] sm:max-w-lg max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Contas</DialogTitle>
+        </DialogHeader>
+
+        {!isFormOpen ? (
+          <div className="space-y-3">
+            {accounts.length === 0 && (
+              <p className="text-sm text-muted-foreground text-center py-4">
+                Cadastre suas contas para acompanhar o saldo de cada uma.
+              </p>
+            )}
+
+            {accounts.map((account) => {
+              const Icon = iconMap[account.type];
+              const color = accountTypeColors[account.type];
+              const balance = getAccountBalance(account, transactions);
+              return (
+                <div key={account.id} className="flex items-center gap-3 p-3 rounded-xl bg-muted/50">
+                  <div
+                    className="w-9 h-9 rounded-lg flex items-center justify-center shrink-0"
+                    style={{ backgroundColor: `${color}20` }}
+                  >
+                    <Icon className="w-4 h-4" style={{ color }} />
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium truncate">{account.name}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {accountTypeLabels[account.type]}
+                      {account.currency !== baseCurrency && ` • ${account.currency}`}
+                      {account.type === 'credit_card' && account.closingDay && account.dueDay &&
+                        ` • fecha dia ${account.closingDay}, vence dia ${account.dueDay}`}
+                    </p>
+                  </div>
+                  <PrivacyValue
+                    value={balance}
+                    currency={account.currency}
+                    className={cn('text-sm font-semibold', balance >= 0 ? 'text-income' : 'text-expense')}
+                    showSign={balance < 0}
+                  />
+                  <div className="flex gap-1 shrink-0">
+                    <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => openForm(account)}>
+                      <Pencil className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 text-destructive hover:text-destructive"
+                      onClick={() => handleDelete(account)}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+              );
+            })}
+
+            <Button onClick={() => openForm()} className="w-full">
+              <Plus className="w-4 h-4 mr-2" />
+              Nova Conta
+            </Button>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label>Nome</Label>
+              <Input
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Ex: Nubank, Itaú, Carteira"
+                autoFocus
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Tipo</Label>
+              <Select value={type} onValueChange={(v) => setType(v as AccountType)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="z-[70]">
+                  {(Object.keys(accountTypeLabels) as AccountType[]).map((key) => (
+                    <SelectItem key={key} value={key}>
+                      {accountTypeLabels[key]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Moeda</Label>
+              <Select value={currency} onValueChange={setCurrency} disabled={hasEntries}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="z-[70]">
+                  {Array.from(new Set([currency, ...Object.keys(currencyLabels)])).map((code) => (
+                    <SelectItem key={code} value={code}>
+                      {code} • {currencyLabels[code] || code}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {hasEntries && (
+                <p className="text-xs text-muted-foreground">
+                  A moeda não pode mudar depois que a conta tem lançamentos.
+                </p>
+              )}
+            </div>
+
+            {isCard && (
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>Dia do fechamento</Label>
+                  <Input
+                    type="number"
+                    min="1"
+                    max="31"
+                    value={closingDay}
+                    onChange={(e) => setClosingDay(e.target.value)}
+                    placeholder="Ex: 3"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Dia do vencimento</Label>
+                  <Input
+                    type="number"
+                    min="1"
+                    max="31"
+                    value={dueDay}
+                    onChange={(e) => setDueDay(e.target.value)}
+                    placeholder="Ex: 10"
+                  />
+                </div>
+              </div>
+            )}
+
+            {isCard && (
+              <div className="space-y-2">
+                <Label>Limite (opcional)</Label>
+                <div className="relative">
+                  <span className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground text-sm">
+                    {symbol}
+                  </span>
+                  <Input
+                    type="text"
+                    inputMode="decimal"
+                    value={creditLimit}
+                    onChange={(e) => setCreditLimit(e.target.value)}
+                    placeholder="0,00"
+                    className={symbol.length > 2 ? 'pl-12' : 'pl-9'}
+                  />
+                </div>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label>Saldo inicial</Label>
+              <p className="text-xs text-muted-foreground -mt-1">
+                {isCard
+                  ? 'Use valor negativo para uma fatura já em aberto'
+                  : 'Saldo antes dos lançamentos registrados no app'}
+              </p>
+              <div className="relative">
+                <span className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground text-sm">
+                  {symbol}
+                </span>
+                <Input
+                  type="text"
+                  inputMode="decimal"
+                  value={initialBalance}
+                  onChange={(e) => setInitialBalance(e.target.value)}
+                  placeholder="0,00"
+                  className={symbol.length > 2 ? 'pl-12' : 'pl-9'}
+                />
+              </div>
+            </div>
+
+            <div className="flex gap-2">
+              <Button type="button" variant="outline" className="flex-1" onClick={resetForm}>
+                Cancelar
+              </Button>
+              <Button type="submit" className="flex-1">
+                {editingId ? 'Salvar' : 'Criar Conta'}
+              </Button>
+            </div>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
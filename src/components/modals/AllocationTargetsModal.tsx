@@ -0,0 +1,141 @@
+import { useEffect, useState } from 'react';
+import { Plus } from 'lucide-react';
+import { useTransactions } from '@/contexts/TransactionContext';
+import { useToast } from '@/hooks/use-toast';
+import { InvestmentType, investmentTypeLabels } from '@/types/investment';
+import { getAllocationLabel, getCustomClasses } from '@/lib/allocation';
+import { cn } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+
+interface AllocationTargetsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export default function AllocationTargetsModal({ isOpen, onClose }: AllocationTargetsModalProps) {
+  const { investments, allocationTargets, updateAllocationTargets } = useTransactions();
+  const { toast } = useToast();
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [newClass, setNewClass] = useState('');
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setValues(
+      Object.fromEntries(
+        Object.entries(allocationTargets).map(([key, t]) => [key, t.toLocaleString('pt-BR', { maximumFractionDigits: 2 })])
+      )
+    );
+    setNewClass('');
+  }, [isOpen, allocationTargets]);
+
+  // Types first, then custom classes in use or already given a target
+  const keys = [
+    ...(Object.keys(investmentTypeLabels) as InvestmentType[]),
+    ...new Set([...getCustomClasses(investments), ...Object.keys(values).filter((k) => !(k in investmentTypeLabels))]),
+  ];
+  const parsed = Object.fromEntries(
+    Object.entries(values)
+      .map(([key, text]) => [key, parseFloat(text.replace(',', '.'))] as const)
+      .filter(([, t]) => t > 0)
+  );
+  const total = Object.values(parsed).reduce((sum, t) => sum + t, 0);
+
+  const handleAddClass = () => {
+    const name = newClass.trim();
+    if (!name || name in values) return;
+    setValues((prev) => ({ ...prev, [name]: '' }));
+    setNewClass('');
+  };
+
+  const handleSave = async () => {
+    if (total > 0 && Math.abs(total - 100) > 0.01) {
+      toast({
+        title: 'Metas não somam 100%',
+        description: `A soma está em ${total.toLocaleString('pt-BR', { maximumFractionDigits: 2 })}%.`,
+        variant: 'destructive',
+      });
+      return;
+    }
+    await updateAllocationTargets(parsed);
+    toast({ title: 'Alocação salva', description: total > 0 ? 'Metas por classe atualizadas.' : 'Metas removidas.' });
+    onClose();
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-[calc(100vw-2rem)] sm:max-w-md max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Alocação alvo</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <p className="text-xs text-muted-foreground">
+            Quanto da carteira cada classe deve ter. Investimentos com uma classe própria contam nela; os demais
+            contam pelo tipo.
+          </p>
+
+          <div className="space-y-1.5">
+            {keys.map((key) => (
+              <div key={key} className="flex items-center gap-3">
+                <span className="flex-1 text-sm truncate">{getAllocationLabel(key)}</span>
+                <div className="relative w-24">
+                  <Input
+                    type="text"
+                    inputMode="decimal"
+                    value={values[key] ?? ''}
+                    onChange={(e) => setValues((prev) => ({ ...prev, [key]: e.target.value }))}
+                    placeholder="0"
+                    className="h-9 pr-7 text-right"
+                  />
+                  <span className="absolute right-3 top-1/2 -translate-y-1/2 text-muted-foreground text-sm">%</span>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div className="space-y-2">
+            <Label>Nova classe</Label>
+            <div className="flex gap-2">
+              <Input
+                value={newClass}
+                onChange={(e) => setNewClass(e.target.value)}
+                placeholder="Ex: Exterior, Renda fixa pós"
+                className="h-9"
+              />
+              <Button type="button" variant="outline" size="sm" className="h-9" onClick={handleAddClass}>
+                <Plus className="w-4 h-4" />
+              </Button>
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between pt-3 border-t border-border/50">
+            <span
+              className={cn(
+                'text-sm font-medium',
+                total > 0 && Math.abs(total - 100) > 0.01 ? 'text-expense' : 'text-muted-foreground'
+              )}
+            >
+              Total: {total.toLocaleString('pt-BR', { maximumFractionDigits: 2 })}%
+            </span>
+            <div className="flex gap-2">
+              <Button variant="ghost" size="sm" onClick={onClose}>
+                Cancelar
+              </Button>
+              <Button size="sm" onClick={handleSave}>
+                Salvar
+              </Button>
+            </div>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
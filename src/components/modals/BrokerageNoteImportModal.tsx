@@ -0,0 +1,263 @@
+import { useEffect, useRef, useState } from 'react';
+import { FileUp } from 'lucide-react';
+import { useTransactions } from '@/contexts/TransactionContext';
+import { useToast } from '@/hooks/use-toast';
+import {
+  BrokerageNote,
+  findStockInvestment,
+  getImportedNoteKeys,
+  getNoteKey,
+  parseBrokerageNotes,
+} from '@/lib/brokerageNote';
+import { cn } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+
+interface BrokerageNoteImportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+type TradeStatus = 'held' | 'new' | 'skipped' | 'noTicker';
+
+const tradeStatusLabels: Record<TradeStatus, string> = {
+  held: 'Em carteira',
+  new: 'Novo ativo',
+  skipped: 'Sem posição, ignorada',
+  noTicker: 'Informe o código',
+};
+
+const formatBRL = (value: number) => value.toLocaleString('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+export default function BrokerageNoteImportModal({ isOpen, onClose }: BrokerageNoteImportModalProps) {
+  const { investments, investmentMovements, importBrokerageNotes } = useTransactions();
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [text, setText] = useState('');
+  const [notes, setNotes] = useState<BrokerageNote[] | null>(null);
+  const [createTransactions, setCreateTransactions] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setText('');
+    setNotes(null);
+    setCreateTransactions(true);
+  }, [isOpen]);
+
+  // Shown here; importBrokerageNotes skips them again on its own
+  const imported = getImportedNoteKeys(investments, investmentMovements);
+  const isDuplicate = (note: BrokerageNote) => imported.has(getNoteKey(note));
+  const pending = (notes ?? []).filter((note) => !isDuplicate(note));
+
+  // Tickers bought in an earlier note of the batch can be sold in a later one
+  const statuses = new Map<string, TradeStatus>();
+  const bought = new Set<string>();
+  [...pending]
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .forEach((note) =>
+      note.trades.forEach((trade, index) => {
+        const key = `${getNoteKey(note)}|${index}`;
+        const ticker = trade.ticker.toUpperCase();
+        if (!ticker) statuses.set(key, 'noTicker');
+        else if (findStockInvestment(investments, ticker) || bought.has(ticker)) statuses.set(key, 'held');
+        else statuses.set(key, trade.side === 'buy' ? 'new' : 'skipped');
+        if (ticker && trade.side === 'buy') bought.add(ticker);
+      })
+    );
+  const toImport = [...statuses.values()].filter((s) => s === 'held' || s === 'new').length;
+
+  const handleRead = (content: string) => {
+    const { notes: parsed, errors } = parseBrokerageNotes(content);
+    if (parsed.length === 0) {
+      toast({
+        title: 'Nenhum negócio encontrado',
+        description: 'Cole o texto da nota no padrão SINACOR ou um CSV com data, nota, C/V, ativo, quantidade e preço.',
+        variant: 'destructive',
+      });
+      return;
+    }
+    if (errors.length > 0) {
+      toast({
+        title: 'Algumas linhas foram ignoradas',
+        description: `Linhas: ${errors.slice(0, 5).join(', ')}${errors.length > 5 ? '…' : ''}.`,
+      });
+    }
+    setNotes(parsed);
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    // The browser cannot read a PDF's text without a PDF library; the viewer can copy it
+    if (file.type === 'application/pdf' || file.name.toLowerCase().endsWith('.pdf')) {
+      toast({
+        title: 'Copie o texto do PDF',
+        description: 'Abra a nota, selecione todo o texto (Ctrl+A), copie e cole no campo abaixo.',
+      });
+      return;
+    }
+    const content = await file.text();
+    setText(content);
+    handleRead(content);
+  };
+
+  const setTicker = (noteIndex: number, tradeIndex: number, ticker: string) => {
+    setNotes((prev) =>
+      (prev ?? []).map((note, n) =>
+        n !== noteIndex
+          ? note
+          : {
+              ...note,
+              trades: note.trades.map((trade, t) => (t === tradeIndex ? { ...trade, ticker: ticker.trim().toUpperCase() } : trade)),
+            }
+      )
+    );
+  };
+
+  const handleImport = async () => {
+    setSaving(true);
+    const saved = await importBrokerageNotes(pending, createTransactions);
+    setSaving(false);
+    if (saved > 0) {
+      toast({ title: 'Notas importadas', description: `${saved} negócio(s) registrado(s) em Ações.` });
+      onClose();
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-[calc(100vw-2rem)] sm:max-w-lg max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Importar nota de corretagem</DialogTitle>
+        </DialogHeader>
+
+        {!notes ? (
+          <div className="space-y-4">
+            <p className="text-xs text-muted-foreground">
+              Compras e vendas no mercado à vista viram aportes e resgates em Ações, com as taxas da nota divididas
+              entre os negócios pelo valor de cada um.
+            </p>
+
+            <div className="space-y-2">
+              <Label>Texto da nota ou CSV da corretora</Label>
+              <Textarea
+                value={text}
+                onChange={(e) => setText(e.target.value)}
+                placeholder="Cole aqui o texto copiado do PDF da nota (padrão SINACOR)"
+                rows={8}
+                className="font-mono text-xs"
+              />
+            </div>
+
+            <div className="flex gap-2">
+              <Button type="button" variant="outline" size="sm" className="flex-1" onClick={() => fileInputRef.current?.click()}>
+                <FileUp className="w-4 h-4 mr-1" />
+                Escolher arquivo
+              </Button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".csv,.txt,.pdf,text/csv,text/plain,application/pdf"
+                className="hidden"
+                onChange={handleFile}
+              />
+              <Button size="sm" className="flex-1" disabled={!text.trim()} onClick={() => handleRead(text)}>
+                Ler nota
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {notes.map((note, noteIndex) => {
+              const duplicate = isDuplicate(note);
+              return (
+                <div key={`${note.number}-${note.date}`} className={cn('space-y-1.5', duplicate && 'opacity-50')}>
+                  <div className="flex items-center justify-between gap-2 text-xs">
+                    <span className="font-medium">
+                      {note.number ? `Nota ${note.number}` : 'Sem número'} ·{' '}
+                      {new Date(note.date + 'T12:00:00').toLocaleDateString('pt-BR')}
+                    </span>
+                    <span className={cn(duplicate ? 'text-warning font-medium' : 'text-muted-foreground')}>
+                      {duplicate ? 'Já importada' : `Taxas R$ ${formatBRL(note.fees)}`}
+                    </span>
+                  </div>
+                  {note.trades.map((trade, tradeIndex) => {
+                    const status = statuses.get(`${getNoteKey(note)}|${tradeIndex}`);
+                    return (
+                      <div key={tradeIndex} className="flex items-center gap-2 px-3 py-2 rounded-lg bg-muted/50 text-xs">
+                        <span
+                          className={cn(
+                            'w-5 shrink-0 font-semibold',
+                            trade.side === 'buy' ? 'text-expense' : 'text-income'
+                          )}
+                        >
+                          {trade.side === 'buy' ? 'C' : 'V'}
+                        </span>
+                        <div className="flex-1 min-w-0">
+                          {duplicate ? (
+                            <p className="font-medium truncate">{trade.ticker || trade.specification}</p>
+                          ) : (
+                            <Input
+                              value={trade.ticker}
+                              onChange={(e) => setTicker(noteIndex, tradeIndex, e.target.value)}
+                              placeholder={`Código de ${trade.specification}`}
+                              title={trade.specification}
+                              className="h-7 text-xs font-medium"
+                            />
+                          )}
+                          <p className="text-muted-foreground truncate">
+                            {trade.quantity.toLocaleString('pt-BR')} × R$ {formatBRL(trade.unitPrice)}
+                            {trade.fees > 0 && ` + taxas R$ ${formatBRL(trade.fees)}`}
+                          </p>
+                        </div>
+                        <div className="text-right shrink-0">
+                          <p className="font-medium">R$ {formatBRL(trade.amount)}</p>
+                          {status && (
+                            <p
+                              className={cn(
+                                'text-[10px]',
+                                status === 'skipped' || status === 'noTicker' ? 'text-warning' : 'text-muted-foreground'
+                              )}
+                            >
+                              {tradeStatusLabels[status]}
+                            </p>
+                          )}
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              );
+            })}
+
+            <label className="flex items-center gap-2 text-xs text-muted-foreground">
+              <Switch checked={createTransactions} onCheckedChange={setCreateTransactions} />
+              Lançar despesas (compras) e receitas (vendas)
+            </label>
+
+            <div className="flex items-center justify-between pt-3 border-t border-border/50">
+              <Button variant="ghost" size="sm" onClick={() => setNotes(null)}>
+                Voltar
+              </Button>
+              <Button size="sm" disabled={toImport === 0 || saving} onClick={handleImport}>
+                {saving ? 'Importando…' : `Importar ${toImport} negócio(s)`}
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
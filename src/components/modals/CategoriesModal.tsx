@@ -0,0 +1,279 @@
+import { useState, useEffect } from 'react';
+import { Plus, Pencil, Trash2, CornerDownRight } from 'lucide-react';
+import { useTransactions } from '@/contexts/TransactionContext';
+import { useToast } from '@/hooks/use-toast';
+import { Category, CategoryKind, categoryKindLabels } from '@/types/category';
+import { categoryColors } from '@/types/transaction';
+import { lockedCategoryKeys, sortCategoryTree } from '@/lib/categories';
+import { categoryIconOptions, getCategoryIcon } from '@/lib/categoryIcons';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { cn } from '@/lib/utils';
+
+const colorOptions = Array.from(new Set(Object.values(categoryColors)));
+
+const NO_PARENT = 'none';
+
+interface CategoriesModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export default function CategoriesModal({ isOpen, onClose }: CategoriesModalProps) {
+  const { categories, addCategory, updateCategory, deleteCategory } = useTransactions();
+  const { toast } = useToast();
+
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [kind, setKind] = useState<CategoryKind>('expense');
+  const [parentId, setParentId] = useState<string>(NO_PARENT);
+  const [icon, setIcon] = useState('MoreHorizontal');
+  const [color, setColor] = useState(colorOptions[0]);
+
+  // Transfers are managed by the app, not picked by the user
+  const visibleCategories = sortCategoryTree(categories).filter((c) => c.key !== 'transfer');
+  const hasChildren = !!editingId && categories.some((c) => c.parentId === editingId);
+  // Only one level of subcategories
+  const parentOptions = visibleCategories.filter((c) => !c.parentId && c.id !== editingId);
+
+  const resetForm = () => {
+    setName('');
+    setKind('expense');
+    setParentId(NO_PARENT);
+    setIcon('MoreHorizontal');
+    setColor(colorOptions[0]);
+    setEditingId(null);
+    setIsFormOpen(false);
+  };
+
+  useEffect(() => {
+    if (!isOpen) resetForm();
+  }, [isOpen]);
+
+  const openForm = (category?: Category) => {
+    if (category) {
+      setEditingId(category.id);
+      setName(category.name);
+      setKind(category.kind);
+      setParentId(category.parentId || NO_PARENT);
+      setIcon(category.icon);
+      setColor(category.color);
+    } else {
+      resetForm();
+    }
+    setIsFormOpen(true);
+  };
+
+  const selectParent = (value: string) => {
+    setParentId(value);
+    const parent = categories.find((c) => c.id === value);
+    if (parent) {
+      setKind(parent.kind);
+      setColor(parent.color);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!name.trim()) {
+      toast({
+        title: 'Nome obrigatório',
+        description: 'Digite o nome da categoria.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    const data = {
+      name: name.trim(),
+      kind,
+      parentId: parentId === NO_PARENT ? undefined : parentId,
+      icon,
+      color,
+    };
+
+    if (editingId) {
+      await updateCategory(editingId, data);
+      toast({ title: 'Categoria atualizada', description: `${data.name} foi salva.` });
+    } else {
+      await addCategory(data);
+      toast({ title: 'Categoria criada', description: `${data.name} foi adicionada.` });
+    }
+
+    resetForm();
+  };
+
+  const handleDelete = async (category: Category) => {
+    const parent = categories.find((c) => c.id === category.parentId);
+    await deleteCategory(category.id);
+    toast({
+      title: 'Categoria excluída',
+      description: `Os lançamentos foram movidos para ${parent?.name || 'Outros'}.`,
+    });
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-[calc(100vw-2rem)] sm:max-w-lg max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Categorias</DialogTitle>
+        </DialogHeader>
+
+        {!isFormOpen ? (
+          <div className="space-y-3">
+            {visibleCategories.map((category) => {
+              const Icon = getCategoryIcon(category.icon);
+              const isLocked = lockedCategoryKeys.includes(category.key);
+              return (
+                <div
+                  key={category.id}
+                  className={cn('flex items-center gap-3 p-3 rounded-xl bg-muted/50', category.parentId && 'ml-6')}
+                >
+                  {category.parentId && <CornerDownRight className="w-4 h-4 text-muted-foreground shrink-0 -ml-1" />}
+                  <div
+                    className="w-9 h-9 rounded-lg flex items-center justify-center shrink-0"
+                    style={{ backgroundColor: `${category.color.replace(')', ' / 0.12)')}` }}
+                  >
+                    <Icon className="w-4 h-4" style={{ color: category.color }} />
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium truncate">{category.name}</p>
+                    <p className="text-xs text-muted-foreground">{categoryKindLabels[category.kind]}</p>
+                  </div>
+                  <div className="flex gap-1 shrink-0">
+                    <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => openForm(category)}>
+                      <Pencil className="w-4 h-4" />
+                    </Button>
+                    {!isLocked && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8 text-destructive hover:text-destructive"
+                        onClick={() => handleDelete(category)}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+
+            <Button onClick={() => openForm()} className="w-full">
+              <Plus className="w-4 h-4 mr-2" />
+              Nova Categoria
+            </Button>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label>Nome</Label>
+              <Input
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Ex: Pets, Energia, Internet"
+                autoFocus
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Subcategoria de</Label>
+                <Select value={parentId} onValueChange={selectParent} disabled={hasChildren}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="z-[70]">
+                    <SelectItem value={NO_PARENT}>Nenhuma</SelectItem>
+                    {parentOptions.map((c) => (
+                      <SelectItem key={c.id} value={c.id}>
+                        {c.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Usar em</Label>
+                <Select value={kind} onValueChange={(v) => setKind(v as CategoryKind)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="z-[70]">
+                    {(Object.keys(categoryKindLabels) as CategoryKind[]).map((key) => (
+                      <SelectItem key={key} value={key}>
+                        {categoryKindLabels[key]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Ícone</Label>
+              <div className="grid grid-cols-7 gap-2">
+                {Object.entries(categoryIconOptions).map(([iconName, Icon]) => (
+                  <button
+                    key={iconName}
+                    type="button"
+                    onClick={() => setIcon(iconName)}
+                    className={cn(
+                      'h-9 rounded-lg flex items-center justify-center border-2 transition-all',
+                      icon === iconName ? 'border-primary bg-primary/10' : 'border-transparent bg-muted/50'
+                    )}
+                  >
+                    <Icon className="w-4 h-4" style={{ color }} />
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Cor</Label>
+              <div className="flex flex-wrap gap-2">
+                {colorOptions.map((option) => (
+                  <button
+                    key={option}
+                    type="button"
+                    onClick={() => setColor(option)}
+                    className={cn(
+                      'w-7 h-7 rounded-full border-2 transition-all',
+                      color === option ? 'border-foreground scale-110' : 'border-transparent'
+                    )}
+                    style={{ backgroundColor: option }}
+                  />
+                ))}
+              </div>
+            </div>
+
+            <div className="flex gap-2">
+              <Button type="button" variant="outline" className="flex-1" onClick={resetForm}>
+                Cancelar
+              </Button>
+              <Button type="submit" className="flex-1">
+                {editingId ? 'Salvar' : 'Criar Categoria'}
+              </Button>
+            </div>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,223 @@
+import { useRef, useState } from 'react';
+import { FileUp, Plus, Trash2 } from 'lucide-react';
+import { useTransactions } from '@/contexts/TransactionContext';
+import { useToast } from '@/hooks/use-toast';
+import { CurrencyCode, currencyLabels } from '@/types/currency';
+import { DEFAULT_CURRENCY, parseExchangeRatesCsv } from '@/lib/currency';
+import { toLocalDateString } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+
+interface CurrencySettingsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+/** How many rates are listed before "Mostrar todas". */
+const VISIBLE_RATES = 20;
+
+export default function CurrencySettingsModal({ isOpen, onClose }: CurrencySettingsModalProps) {
+  const { baseCurrency, accounts, transactions, exchangeRates, updateBaseCurrency, importExchangeRates, deleteExchangeRate } =
+    useTransactions();
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const [currency, setCurrency] = useState<CurrencyCode>('USD');
+  const [date, setDate] = useState(toLocalDateString());
+  const [rate, setRate] = useState('');
+  const [showAll, setShowAll] = useState(false);
+
+  const currencyOptions = Object.keys(currencyLabels);
+  // Currencies actually in use that have no rate to the base currency at all
+  const usedCurrencies = new Set([
+    ...accounts.map((a) => a.currency),
+    ...transactions.map((t) => t.currency || DEFAULT_CURRENCY),
+  ]);
+  const withoutRate = Array.from(usedCurrencies).filter(
+    (code) =>
+      code !== baseCurrency &&
+      !exchangeRates.some(
+        (r) =>
+          (r.currency === code && r.quoteCurrency === baseCurrency) ||
+          (r.currency === baseCurrency && r.quoteCurrency === code)
+      )
+  );
+
+  const visibleRates = showAll ? exchangeRates : exchangeRates.slice(0, VISIBLE_RATES);
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const parsedRate = parseFloat(rate.replace(',', '.'));
+    if (isNaN(parsedRate) || parsedRate <= 0) {
+      toast({ title: 'Cotação inválida', description: 'Digite um valor maior que zero.', variant: 'destructive' });
+      return;
+    }
+    if (currency === baseCurrency) {
+      toast({ title: 'Mesma moeda', description: 'Escolha uma moeda diferente da principal.', variant: 'destructive' });
+      return;
+    }
+    const saved = await importExchangeRates([{ currency, quoteCurrency: baseCurrency, date, rate: parsedRate }]);
+    if (saved > 0) setRate('');
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const { rows, errors } = parseExchangeRatesCsv(await file.text(), baseCurrency);
+    if (rows.length === 0) {
+      toast({
+        title: 'Nenhuma cotação encontrada',
+        description: 'Use uma linha por cotação: data;moeda;valor (ex: 2026-03-01;USD;5,12).',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    const saved = await importExchangeRates(rows);
+    if (saved > 0) {
+      toast({
+        title: 'Cotações importadas',
+        description:
+          `${saved} cotação(ões) salva(s).` +
+          (errors.length > 0 ? ` Linhas ignoradas: ${errors.slice(0, 5).join(', ')}${errors.length > 5 ? '…' : ''}.` : ''),
+      });
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-[calc(100vw-2rem)] sm:max-w-lg max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Moedas e cotações</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-5">
+          <div className="space-y-2">
+            <Label>Moeda principal</Label>
+            <p className="text-xs text-muted-foreground -mt-1">
+              Totais, gráficos e relatórios são convertidos para ela pela cotação da data de cada lançamento.
+            </p>
+            <Select value={baseCurrency} onValueChange={updateBaseCurrency}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="z-[70]">
+                {Array.from(new Set([baseCurrency, ...currencyOptions])).map((code) => (
+                  <SelectItem key={code} value={code}>
+                    {code} • {currencyLabels[code] || code}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {withoutRate.length > 0 && (
+            <p className="text-xs p-3 rounded-lg bg-amber-500/10 text-amber-600 dark:text-amber-400">
+              Sem cotação para {withoutRate.join(', ')} em {baseCurrency}. Esses lançamentos entram nos totais sem conversão.
+            </p>
+          )}
+
+          <form onSubmit={handleAdd} className="space-y-2">
+            <Label>Nova cotação</Label>
+            <div className="grid grid-cols-[1fr_1fr] sm:grid-cols-[6rem_1fr_1fr] gap-2">
+              <Select value={currency} onValueChange={setCurrency}>
+                <SelectTrigger className="h-10">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="z-[70]">
+                  {currencyOptions
+                    .filter((code) => code !== baseCurrency)
+                    .map((code) => (
+                      <SelectItem key={code} value={code}>
+                        {code}
+                      </SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+              <Input type="date" value={date} onChange={(e) => setDate(e.target.value)} className="h-10" />
+              <Input
+                type="text"
+                inputMode="decimal"
+                value={rate}
+                onChange={(e) => setRate(e.target.value)}
+                placeholder={`${baseCurrency} por 1 ${currency}`}
+                className="h-10 col-span-2 sm:col-span-1"
+              />
+            </div>
+            <div className="flex gap-2">
+              <Button type="submit" variant="outline" size="sm" className="flex-1">
+                <Plus className="w-4 h-4 mr-1" />
+                Adicionar
+              </Button>
+              <Button type="button" variant="outline" size="sm" className="flex-1" onClick={() => fileInputRef.current?.click()}>
+                <FileUp className="w-4 h-4 mr-1" />
+                Importar arquivo
+              </Button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".csv,.txt,text/csv,text/plain"
+                className="hidden"
+                onChange={handleFile}
+              />
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Arquivo CSV com uma cotação por linha: data;moeda;valor, opcionalmente ;moeda de cotação
+              (padrão {baseCurrency}).
+            </p>
+          </form>
+
+          <div className="space-y-2">
+            <Label>Cotações salvas</Label>
+            {exchangeRates.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-4">Nenhuma cotação cadastrada.</p>
+            ) : (
+              <div className="space-y-1">
+                {visibleRates.map((r) => (
+                  <div key={r.id} className="flex items-center gap-3 px-3 py-2 rounded-lg bg-muted/50 text-sm">
+                    <span className="text-muted-foreground w-20 shrink-0">
+                      {new Date(r.date + 'T12:00:00').toLocaleDateString('pt-BR')}
+                    </span>
+                    <span className="flex-1 min-w-0 truncate">
+                      1 {r.currency} = {r.rate.toLocaleString('pt-BR', { maximumFractionDigits: 6 })} {r.quoteCurrency}
+                    </span>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 text-destructive hover:text-destructive shrink-0"
+                      onClick={() => deleteExchangeRate(r.id)}
+                      aria-label="Excluir cotação"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                ))}
+                {exchangeRates.length > VISIBLE_RATES && (
+                  <Button variant="ghost" size="sm" className="w-full" onClick={() => setShowAll((v) => !v)}>
+                    {showAll ? 'Mostrar menos' : `Mostrar todas (${exchangeRates.length})`}
+                  </Button>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
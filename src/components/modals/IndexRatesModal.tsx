@@ -0,0 +1,186 @@
+import { useRef, useState } from 'react';
+import { FileUp, Plus, Trash2 } from 'lucide-react';
+import { useTransactions } from '@/contexts/TransactionContext';
+import { useToast } from '@/hooks/use-toast';
+import { MarketIndex, marketIndexLabels } from '@/types/marketIndex';
+import { parseIndexRatesCsv } from '@/lib/fixedIncome';
+import { cn, toLocalDateString } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+
+interface IndexRatesModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+/** How many rates are listed before "Mostrar todas". */
+const VISIBLE_RATES = 20;
+
+const rateHints: Record<MarketIndex, string> = {
+  cdi: '% a.a.',
+  selic: '% a.a.',
+  ipca: '% no mês',
+};
+
+export default function IndexRatesModal({ isOpen, onClose }: IndexRatesModalProps) {
+  const { indexRates, importIndexRates, deleteIndexRate } = useTransactions();
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const [index, setIndex] = useState<MarketIndex>('cdi');
+  const [date, setDate] = useState(toLocalDateString());
+  const [rate, setRate] = useState('');
+  const [showAll, setShowAll] = useState(false);
+
+  const rates = indexRates.filter((r) => r.index === index);
+  const visibleRates = showAll ? rates : rates.slice(0, VISIBLE_RATES);
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const parsedRate = parseFloat(rate.replace(',', '.'));
+    if (isNaN(parsedRate)) {
+      toast({ title: 'Taxa inválida', description: 'Digite a taxa em %.', variant: 'destructive' });
+      return;
+    }
+    const saved = await importIndexRates([{ index, date, rate: parsedRate }]);
+    if (saved > 0) setRate('');
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const { rows, errors } = parseIndexRatesCsv(await file.text(), index);
+    if (rows.length === 0) {
+      toast({
+        title: 'Nenhuma taxa encontrada',
+        description: 'Use uma linha por taxa: data;valor (ex: 2026-03-01;10,65).',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    const saved = await importIndexRates(rows);
+    if (saved > 0) {
+      toast({
+        title: 'Índices importados',
+        description:
+          `${saved} taxa(s) salva(s).` +
+          (errors.length > 0 ? ` Linhas ignoradas: ${errors.slice(0, 5).join(', ')}${errors.length > 5 ? '…' : ''}.` : ''),
+      });
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-[calc(100vw-2rem)] sm:max-w-lg max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Índices (CDI, Selic, IPCA)</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-5">
+          <p className="text-xs text-muted-foreground">
+            Usados para projetar CDBs, LCIs, LCAs e títulos do Tesouro até o vencimento. Datas além da série
+            repetem a última taxa.
+          </p>
+
+          <div className="flex gap-1 bg-muted/50 p-1 rounded-lg">
+            {(Object.keys(marketIndexLabels) as MarketIndex[]).map((key) => (
+              <button
+                key={key}
+                type="button"
+                onClick={() => setIndex(key)}
+                className={cn(
+                  'flex-1 py-1.5 text-xs font-medium rounded-md transition-colors',
+                  index === key
+                    ? 'bg-background text-foreground shadow-sm'
+                    : 'text-muted-foreground hover:text-foreground'
+                )}
+              >
+                {marketIndexLabels[key]}
+              </button>
+            ))}
+          </div>
+
+          <form onSubmit={handleAdd} className="space-y-2">
+            <Label>Nova taxa</Label>
+            <div className="grid grid-cols-2 gap-2">
+              <Input type="date" value={date} onChange={(e) => setDate(e.target.value)} className="h-10" />
+              <Input
+                type="text"
+                inputMode="decimal"
+                value={rate}
+                onChange={(e) => setRate(e.target.value)}
+                placeholder={`${marketIndexLabels[index]} ${rateHints[index]}`}
+                className="h-10"
+              />
+            </div>
+            <div className="flex gap-2">
+              <Button type="submit" variant="outline" size="sm" className="flex-1">
+                <Plus className="w-4 h-4 mr-1" />
+                Adicionar
+              </Button>
+              <Button type="button" variant="outline" size="sm" className="flex-1" onClick={() => fileInputRef.current?.click()}>
+                <FileUp className="w-4 h-4 mr-1" />
+                Importar arquivo
+              </Button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".csv,.txt,text/csv,text/plain"
+                className="hidden"
+                onChange={handleFile}
+              />
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Arquivo CSV com uma taxa por linha: data;valor para o {marketIndexLabels[index]}, ou data;índice;valor
+              para misturar séries. CDI e Selic em % a.a., IPCA em % no mês.
+            </p>
+          </form>
+
+          <div className="space-y-2">
+            <Label>Taxas salvas</Label>
+            {rates.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-4">Nenhuma taxa cadastrada.</p>
+            ) : (
+              <div className="space-y-1">
+                {visibleRates.map((r) => (
+                  <div key={r.id} className="flex items-center gap-3 px-3 py-2 rounded-lg bg-muted/50 text-sm">
+                    <span className="text-muted-foreground w-20 shrink-0">
+                      {new Date(r.date + 'T12:00:00').toLocaleDateString('pt-BR')}
+                    </span>
+                    <span className="flex-1 min-w-0 truncate">
+                      {r.rate.toLocaleString('pt-BR', { maximumFractionDigits: 6 })} {rateHints[r.index]}
+                    </span>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 text-destructive hover:text-destructive shrink-0"
+                      onClick={() => deleteIndexRate(r.id)}
+                      aria-label="Excluir taxa"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                ))}
+                {rates.length > VISIBLE_RATES && (
+                  <Button variant="ghost" size="sm" className="w-full" onClick={() => setShowAll((v) => !v)}>
+                    {showAll ? 'Mostrar menos' : `Mostrar todas (${rates.length})`}
+                  </Button>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -20,6 +20,13 @@ import { Textarea } from '@/components/ui/textarea';
 import { Calendar as CalendarComponent } from '@/components/ui/calendar';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import { useTransactions } from '@/contexts/TransactionContext';
 import { useToast } from '@/hooks/use-toast';
 import {
@@ -30,9 +37,13 @@ import {
   AcoesDetails,
   CriptoDetails,
   RendaFixaDetails,
+  RendaFixaProduct,
+  rendaFixaProductLabels,
   PoupancaDetails,
   FundosDetails,
 } from '@/types/investment';
+import { getCategoryIcon } from '@/lib/categoryIcons';
+import { getCustomClasses } from '@/lib/allocation';
 import { cn, toLocalDateString } from '@/lib/utils';
 import { format } from 'date-fns';
 import { ptBR } from 'date-fns/locale';
@@ -55,6 +66,9 @@ const iconMap: Record<InvestmentType, React.ElementType> = {
 
 type Step = 'type' | 'basic' | 'details' | 'confirm';
 
+// Select values can't be empty
+const NO_GOAL = 'none';
+
 export default function NewInvestmentModal({ isOpen, onClose, editingInvestment }: NewInvestmentModalProps) {
   const [step, setStep] = useState<Step>('type');
   const [selectedType, setSelectedType] = useState<InvestmentType | null>(null);
@@ -64,6 +78,8 @@ export default function NewInvestmentModal({ isOpen, onClose, editingInvestment
   const [selectedDate, setSelectedDate] = useState<Date>(new Date());
   const [isCalendarOpen, setIsCalendarOpen] = useState(false);
   const [jaInvestido, setJaInvestido] = useState(false);
+  const [goalId, setGoalId] = useState<string | undefined>();
+  const [classe, setClasse] = useState('');
   const [isProcessing, setIsProcessing] = useState(false);
 
   // Specific details
@@ -88,6 +104,7 @@ export default function NewInvestmentModal({ isOpen, onClose, editingInvestment
     taxa: 0,
     tipoTaxa: 'cdi',
     vencimento: '',
+    produto: 'cdb',
   });
   const [poupanca, setPoupanca] = useState<PoupancaDetails>({
     instituicao: '',
@@ -101,7 +118,8 @@ export default function NewInvestmentModal({ isOpen, onClose, editingInvestment
     quantidade: 0,
   });
 
-  const { addInvestment, addTransaction, updateInvestment } = useTransactions();
+  const { goals, investments, addInvestment, addTransaction, updateInvestment } = useTransactions();
+  const customClasses = getCustomClasses(investments);
   const { toast } = useToast();
 
   const isEditing = !!editingInvestment;
@@ -116,6 +134,8 @@ export default function NewInvestmentModal({ isOpen, onClose, editingInvestment
         setDescricao(editingInvestment.descricao || '');
         setSelectedDate(new Date(editingInvestment.dataInvestimento));
         setJaInvestido(editingInvestment.jaInvestido);
+        setGoalId(editingInvestment.goalId);
+        setClasse(editingInvestment.classe || '');
         setStep('basic');
 
         // Populate specific details
@@ -150,10 +170,12 @@ export default function NewInvestmentModal({ isOpen, onClose, editingInvestment
         setDescricao('');
         setSelectedDate(new Date());
         setJaInvestido(false);
+        setGoalId(undefined);
+        setClasse('');
         setTesouroDireto({ titulo: '', taxa: 0, precoUnitario: 0, vencimento: '' });
         setAcoes({ ticker: '', quantidade: 0, precoMedio: 0 });
         setCripto({ moeda: '', quantidade: 0, precoMedio: 0 });
-        setRendaFixa({ instituicao: '', taxa: 0, tipoTaxa: 'cdi', vencimento: '' });
+        setRendaFixa({ instituicao: '', taxa: 0, tipoTaxa: 'cdi', vencimento: '', produto: 'cdb' });
         setPoupanca({ instituicao: '', objetivo: '' });
         setFundos({ nomeGestor: '', tipoFundo: '', taxaAdministracao: 0, precoMedio: 0, quantidade: 0 });
       }
@@ -221,6 +243,8 @@ export default function NewInvestmentModal({ isOpen, onClose, editingInvestment
         dataInvestimento: investmentDate,
         descricao: descricao || undefined,
         detalhesEspecificos: getSpecificDetails(),
+        goalId,
+        classe: classe.trim() || undefined,
       });
 
       toast({
@@ -249,6 +273,8 @@ export default function NewInvestmentModal({ isOpen, onClose, editingInvestment
         descricao: descricao || undefined,
         detalhesEspecificos: getSpecificDetails(),
         transactionId,
+        goalId,
+        classe: classe.trim() || undefined,
       };
 
       await addInvestment(investment);
@@ -373,6 +399,47 @@ export default function NewInvestmentModal({ isOpen, onClose, editingInvestment
         </Popover>
       </div>
 
+      {goals.length > 0 && (
+        <div className="space-y-2">
+          <Label>Meta (opcional)</Label>
+          <Select value={goalId || NO_GOAL} onValueChange={(v) => setGoalId(v === NO_GOAL ? undefined : v)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="z-[70]">
+              <SelectItem value={NO_GOAL}>Nenhuma</SelectItem>
+              {goals.map((goal) => {
+                const Icon = getCategoryIcon(goal.icon);
+                return (
+                  <SelectItem key={goal.id} value={goal.id}>
+                    <span className="flex items-center gap-2">
+                      <Icon className="w-4 h-4" />
+                      {goal.name}
+                    </span>
+                  </SelectItem>
+                );
+              })}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <Label>Classe (opcional)</Label>
+        <Input
+          value={classe}
+          onChange={(e) => setClasse(e.target.value)}
+          placeholder={`Padrão: ${selectedType ? investmentTypeLabels[selectedType] : 'o tipo'}`}
+          list="investment-classes"
+        />
+        <datalist id="investment-classes">
+          {customClasses.map((c) => (
+            <option key={c} value={c} />
+          ))}
+        </datalist>
+        <p className="text-xs text-muted-foreground">Agrupa investimentos na alocação alvo, ex: Exterior.</p>
+      </div>
+
       <div className="space-y-2">
         <Label>Descrição (opcional)</Label>
         <Textarea
@@ -550,13 +617,29 @@ export default function NewInvestmentModal({ isOpen, onClose, editingInvestment
                 </select>
               </div>
             </div>
-            <div className="space-y-2">
-              <Label>Vencimento</Label>
-              <Input
-                type="date"
-                value={rendaFixa.vencimento}
-                onChange={(e) => setRendaFixa({ ...rendaFixa, vencimento: e.target.value })}
-              />
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label>Produto</Label>
+                <select
+                  value={rendaFixa.produto || 'cdb'}
+                  onChange={(e) => setRendaFixa({ ...rendaFixa, produto: e.target.value as RendaFixaProduct })}
+                  className="w-full h-10 px-3 rounded-md border border-input bg-background"
+                >
+                  {(Object.keys(rendaFixaProductLabels) as RendaFixaProduct[]).map((produto) => (
+                    <option key={produto} value={produto}>
+                      {rendaFixaProductLabels[produto]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div className="space-y-2">
+                <Label>Vencimento</Label>
+                <Input
+                  type="date"
+                  value={rendaFixa.vencimento}
+                  onChange={(e) => setRendaFixa({ ...rendaFixa, vencimento: e.target.value })}
+                />
+              </div>
             </div>
           </>
         )}
@@ -571,14 +654,6 @@ export default function NewInvestmentModal({ isOpen, onClose, editingInvestment
                 placeholder="Nubank, Caixa, etc."
               />
             </div>
-            <div className="space-y-2">
-              <Label>Objetivo (opcional)</Label>
-              <Input
-                value={poupanca.objetivo || ''}
-                onChange={(e) => setPoupanca({ ...poupanca, objetivo: e.target.value })}
-                placeholder="Reserva de emergência"
-              />
-            </div>
           </>
         )}
 
@@ -17,7 +17,7 @@ import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover
 import { Calendar } from '@/components/ui/calendar';
 import { useTransactions } from '@/contexts/TransactionContext';
 import { useToast } from '@/hooks/use-toast';
-import { cn } from '@/lib/utils';
+import { cn, toLocalDateString } from '@/lib/utils';
 
 interface NewLoanModalProps {
   isOpen: boolean;
@@ -31,6 +31,7 @@ export default function NewLoanModal({ isOpen, onClose }: NewLoanModalProps) {
   const [description, setDescription] = useState('');
   const [isProcessing, setIsProcessing] = useState(false);
   const [loanDate, setLoanDate] = useState<Date>(new Date());
+  const [dueDate, setDueDate] = useState<Date | undefined>();
 
   const { addTransaction } = useTransactions();
   const { toast } = useToast();
@@ -42,6 +43,7 @@ export default function NewLoanModal({ isOpen, onClose }: NewLoanModalProps) {
       setAmount('');
       setDescription('');
       setLoanDate(new Date());
+      setDueDate(undefined);
     }
   }, [isOpen]);
 
@@ -78,6 +80,7 @@ export default function NewLoanModal({ isOpen, onClose }: NewLoanModalProps) {
       isLoan: true,
       loanPerson: person,
       loanStatus: 'pending',
+      loanDueDate: dueDate ? toLocalDateString(dueDate) : undefined,
     });
 
     toast({
@@ -211,6 +214,27 @@ export default function NewLoanModal({ isOpen, onClose }: NewLoanModalProps) {
                   </Popover>
                 </div>
 
+                <div className="space-y-2">
+                  <Label>Previsão de acerto (opcional)</Label>
+                  <Popover>
+                    <PopoverTrigger asChild>
+                      <Button variant="outline" className={cn('w-full justify-start text-left font-normal', !dueDate && 'text-muted-foreground')}>
+                        <CalendarIcon className="mr-2 h-4 w-4" />
+                        {dueDate ? format(dueDate, "dd 'de' MMMM 'de' yyyy", { locale: ptBR }) : 'Sem data prevista'}
+                      </Button>
+                    </PopoverTrigger>
+                    <PopoverContent className="w-auto p-0 z-[70]" align="start">
+                      <Calendar
+                        mode="single"
+                        selected={dueDate}
+                        onSelect={setDueDate}
+                        locale={ptBR}
+                        initialFocus
+                      />
+                    </PopoverContent>
+                  </Popover>
+                </div>
+
                 <div className="space-y-2">
                   <Label>Descrição (opcional)</Label>
                   <Textarea
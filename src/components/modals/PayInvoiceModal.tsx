@@ -0,0 +1,156 @@
+import { useState, useEffect, useRef } from 'react';
+import { format } from 'date-fns';
+import { useTransactions } from '@/contexts/TransactionContext';
+import { useToast } from '@/hooks/use-toast';
+import { Account } from '@/types/account';
+import { Invoice, formatInvoiceMonth, isCreditCard } from '@/lib/creditCard';
+import AccountSelect from '@/components/AccountSelect';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { PrivacyValue } from '@/components/ui/PrivacyValue';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { toLocalDateString } from '@/lib/utils';
+
+interface PayInvoiceModalProps {
+  card: Account | null;
+  invoice: Invoice | null;
+  onClose: () => void;
+}
+
+export default function PayInvoiceModal({ card, invoice, onClose }: PayInvoiceModalProps) {
+  const { accounts, addTransfer } = useTransactions();
+  const { toast } = useToast();
+
+  const [fromAccountId, setFromAccountId] = useState<string | undefined>();
+  const [amount, setAmount] = useState('');
+  const [date, setDate] = useState(toLocalDateString());
+  const [isProcessing, setIsProcessing] = useState(false);
+
+  const isOpen = !!card && !!invoice;
+  const openedFor = useRef<string | null>(null);
+
+  // Filled in once per invoice opened; accounts loading or syncing later leave the form alone
+  useEffect(() => {
+    const key = card && invoice ? `${card.id}|${invoice.month}` : null;
+    const opened = key !== null && key !== openedFor.current;
+    openedFor.current = key;
+    if (opened && invoice) {
+      setFromAccountId(accounts.find((a) => !a.isArchived && !isCreditCard(a))?.id);
+      setAmount(invoice.remaining.toFixed(2).replace('.', ','));
+      setDate(toLocalDateString());
+    }
+  }, [card, invoice, accounts]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!card || !invoice) return;
+
+    const parsedAmount = parseFloat(amount.replace(',', '.'));
+    if (isNaN(parsedAmount) || parsedAmount <= 0) {
+      toast({
+        title: 'Valor inválido',
+        description: 'Digite um valor maior que zero.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    if (!fromAccountId) {
+      toast({
+        title: 'Conta obrigatória',
+        description: 'Escolha a conta usada para pagar a fatura.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setIsProcessing(true);
+    await addTransfer({
+      fromAccountId,
+      toAccountId: card.id,
+      amount: parsedAmount,
+      date,
+      description: `Fatura ${card.name} ${formatInvoiceMonth(invoice.month)}`,
+      invoiceMonth: invoice.month,
+    });
+    setIsProcessing(false);
+
+    toast({
+      title: '💳 Fatura paga!',
+      description: `${card.name}: R$ ${parsedAmount.toFixed(2)}`,
+    });
+    onClose();
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-[calc(100vw-2rem)] sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Pagar fatura</DialogTitle>
+        </DialogHeader>
+
+        {card && invoice && (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="p-3 rounded-xl bg-muted/50 space-y-1">
+              <p className="text-sm font-medium">
+                {card.name} • {formatInvoiceMonth(invoice.month)}
+              </p>
+              <div className="flex items-center justify-between text-xs text-muted-foreground">
+                <span>
+                  Vence em {format(new Date(invoice.dueDate + 'T12:00:00'), 'dd/MM/yyyy')}
+                </span>
+                <span>
+                  Em aberto: <PrivacyValue value={invoice.remaining} className="font-semibold text-foreground" />
+                </span>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Pagar com</Label>
+              <AccountSelect
+                value={fromAccountId}
+                onChange={setFromAccountId}
+                allowEmpty={false}
+                excludeId={card.id}
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Valor</Label>
+                <div className="relative">
+                  <span className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground text-sm">
+                    R$
+                  </span>
+                  <Input
+                    type="text"
+                    inputMode="decimal"
+                    value={amount}
+                    onChange={(e) => setAmount(e.target.value)}
+                    placeholder="0,00"
+                    className="pl-9"
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Data</Label>
+                <Input type="date" value={date} onChange={(e) => setDate(e.target.value)} />
+              </div>
+            </div>
+
+            <Button type="submit" className="w-full" disabled={isProcessing}>
+              Registrar pagamento
+            </Button>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,14 +1,21 @@
 import { useState, useRef, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { X, TrendingUp, TrendingDown, Calendar, ChevronDown, ChevronUp } from 'lucide-react';
+import { X, TrendingUp, TrendingDown, Calendar, ChevronDown, ChevronUp, CreditCard } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Calendar as CalendarComponent } from '@/components/ui/calendar';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import AccountSelect from '@/components/AccountSelect';
+import TagInput from '@/components/TagInput';
 import { useTransactions } from '@/contexts/TransactionContext';
 import { useToast } from '@/hooks/use-toast';
-import { TransactionCategory, TransactionType, categoryLabels } from '@/types/transaction';
+import { TransactionCategory, TransactionType } from '@/types/transaction';
+import { formatInvoiceMonth, getInvoiceMonth, isCreditCard } from '@/lib/creditCard';
+import { getCategory, getCategoriesForType } from '@/lib/categories';
+import { getCategoryIcon } from '@/lib/categoryIcons';
+import { convertTransactions, formatMoney, getAccountCurrency, getCurrencySymbol } from '@/lib/currency';
+import { getBudgetAlertsForEntry } from '@/lib/budgets';
 import { cn, toLocalDateString } from '@/lib/utils';
 import { format } from 'date-fns';
 import { ptBR } from 'date-fns/locale';
@@ -18,17 +25,6 @@ interface QuickRecordModalProps {
   onClose: () => void;
 }
 
-const quickCategories: { key: TransactionCategory; label: string; keywords: string[] }[] = [
-  { key: 'food', label: '🍔 Comida', keywords: ['mercado', 'restaurante', 'ifood', 'lanche'] },
-  { key: 'transport', label: '🚗 Transporte', keywords: ['uber', 'gasolina', 'ônibus'] },
-  { key: 'shopping', label: '🛍️ Compras', keywords: ['roupa', 'loja', 'shopping'] },
-  { key: 'bills', label: '📄 Contas', keywords: ['luz', 'água', 'internet', 'aluguel'] },
-  { key: 'entertainment', label: '🎮 Lazer', keywords: ['cinema', 'netflix', 'bar'] },
-  { key: 'health', label: '💊 Saúde', keywords: ['farmácia', 'médico', 'academia'] },
-  { key: 'salary', label: '💰 Salário', keywords: ['salário', 'freelance'] },
-  { key: 'other', label: '📦 Outros', keywords: [] },
-];
-
 export default function QuickRecordModal({ isOpen, onClose }: QuickRecordModalProps) {
   const [step, setStep] = useState<'amount' | 'category'>('amount');
   const [type, setType] = useState<TransactionType>('expense');
@@ -39,23 +35,31 @@ export default function QuickRecordModal({ isOpen, onClose }: QuickRecordModalPr
   const [showAdvanced, setShowAdvanced] = useState(false);
   const [selectedDate, setSelectedDate] = useState<Date>(new Date());
   const [isCalendarOpen, setIsCalendarOpen] = useState(false);
+  const [accountId, setAccountId] = useState<string | undefined>();
+  const [tagNames, setTagNames] = useState<string[]>([]);
   const inputRef = useRef<HTMLInputElement>(null);
-  const { addTransaction } = useTransactions();
+  const { addTransaction, ensureTags, transactions, accounts, categories, budgets, baseCurrency, exchangeRates } =
+    useTransactions();
   const { toast } = useToast();
+  const wasOpen = useRef(false);
 
-  // Reset and focus on open
+  // Reset and focus on open; accounts loading or syncing later leave the form alone
   useEffect(() => {
-    if (isOpen) {
+    const opened = isOpen && !wasOpen.current;
+    wasOpen.current = isOpen;
+    if (opened) {
       setStep('amount');
       setType('expense');
       setAmount('');
       setCategory('other');
       setDescription('');
+      setTagNames([]);
       setShowAdvanced(false);
       setSelectedDate(new Date());
+      setAccountId(accounts.find((a) => !a.isArchived && !isCreditCard(a))?.id);
       setTimeout(() => inputRef.current?.focus(), 100);
     }
-  }, [isOpen]);
+  }, [isOpen, accounts]);
 
   const handleAmountSubmit = () => {
     const parsedAmount = parseFloat(amount.replace(',', '.'));
@@ -75,23 +79,54 @@ export default function QuickRecordModal({ isOpen, onClose }: QuickRecordModalPr
     setIsProcessing(true);
 
     const parsedAmount = parseFloat(amount.replace(',', '.'));
-    const categoryLabel = categoryLabels[selectedCategory];
-
-    addTransaction({
+    const categoryLabel = getCategory(categories, selectedCategory).name;
+    const tagIds = tagNames.length > 0 ? await ensureTags(tagNames) : undefined;
+    const entry = {
       type,
       amount: parsedAmount,
       category: selectedCategory,
       description: description || categoryLabel,
       date: toLocalDateString(selectedDate),
-    });
+      currency,
+      accountId,
+      tagIds,
+    };
+
+    // Checked against the list before the entry is added to it
+    const budgetAlerts =
+      type === 'expense'
+        ? getBudgetAlertsForEntry(
+            convertTransactions([{ ...entry, id: 'new', createdAt: '' }], baseCurrency, exchangeRates)[0],
+            budgets,
+            convertTransactions(transactions, baseCurrency, exchangeRates),
+            categories
+          )
+        : [];
+
+    addTransaction(entry);
 
     const isToday = selectedDate.toDateString() === new Date().toDateString();
     const dateText = isToday ? '' : ` em ${format(selectedDate, 'dd/MM')}`;
 
-    toast({
-      title: type === 'income' ? '💰 Receita registrada!' : '💸 Despesa registrada!',
-      description: `${categoryLabel}: R$ ${parsedAmount.toFixed(2)}${dateText}`,
-    });
+    // Only one toast shows at a time, so a budget alert takes the place of the confirmation
+    const budgetAlert = budgetAlerts.find((a) => a.level === 'exceeded') || budgetAlerts[0];
+    if (budgetAlert) {
+      const { progress, level } = budgetAlert;
+      const budgetName = getCategory(categories, progress.budget.category).name;
+      toast({
+        title:
+          level === 'exceeded'
+            ? `⚠️ Orçamento de ${budgetName} estourado`
+            : `⚠️ Orçamento de ${budgetName} em ${Math.round(progress.ratio * 100)}%`,
+        description: `Despesa registrada. ${formatMoney(progress.spent, baseCurrency)} de ${formatMoney(progress.available, baseCurrency)} no mês.`,
+        variant: level === 'exceeded' ? 'destructive' : 'default',
+      });
+    } else {
+      toast({
+        title: type === 'income' ? '💰 Receita registrada!' : '💸 Despesa registrada!',
+        description: `${categoryLabel}: ${formatMoney(parsedAmount, currency)}${dateText}`,
+      });
+    }
 
     setIsProcessing(false);
     onClose();
@@ -114,6 +149,11 @@ export default function QuickRecordModal({ isOpen, onClose }: QuickRecordModalPr
   };
 
   const isToday = selectedDate.toDateString() === new Date().toDateString();
+  const currency = getAccountCurrency(accounts, accountId, baseCurrency);
+  const currencySymbol = getCurrencySymbol(currency);
+  const selectedCard = accounts.find((a) => a.id === accountId && isCreditCard(a));
+  // Quick entry only offers top-level categories; subcategories are picked in the full form
+  const quickCategories = getCategoriesForType(categories, type).filter((c) => !c.parentId);
 
   return (
     <AnimatePresence>
@@ -194,7 +234,7 @@ export default function QuickRecordModal({ isOpen, onClose }: QuickRecordModalPr
                     {/* Amount Input */}
                     <div className="relative">
                       <span className="absolute left-4 top-1/2 -translate-y-1/2 text-xl sm:text-2xl text-muted-foreground font-medium">
-                        R$
+                        {currencySymbol}
                       </span>
                       <Input
                         ref={inputRef}
@@ -204,7 +244,10 @@ export default function QuickRecordModal({ isOpen, onClose }: QuickRecordModalPr
                         onChange={(e) => setAmount(e.target.value)}
                         onKeyDown={handleKeyDown}
                         placeholder="0,00"
-                        className="pl-12 sm:pl-14 h-14 sm:h-16 text-2xl sm:text-3xl font-bold border-2 focus:border-primary"
+                        className={cn(
+                          'h-14 sm:h-16 text-2xl sm:text-3xl font-bold border-2 focus:border-primary',
+                          currencySymbol.length > 2 ? 'pl-16 sm:pl-20' : 'pl-12 sm:pl-14'
+                        )}
                         autoFocus
                       />
                     </div>
@@ -218,6 +261,17 @@ export default function QuickRecordModal({ isOpen, onClose }: QuickRecordModalPr
                       className="h-11 sm:h-12"
                     />
 
+                    {/* Account */}
+                    {accounts.length > 0 && (
+                      <AccountSelect value={accountId} onChange={setAccountId} className="h-11 sm:h-12" />
+                    )}
+                    {selectedCard && type === 'expense' && (
+                      <p className="text-xs text-muted-foreground flex items-center gap-1.5 -mt-2 px-1">
+                        <CreditCard className="w-3.5 h-3.5" />
+                        Entra na fatura de {formatInvoiceMonth(getInvoiceMonth(selectedCard, toLocalDateString(selectedDate)))}
+                      </p>
+                    )}
+
                     {/* Advanced Options Toggle */}
                     <button
                       type="button"
@@ -281,6 +335,11 @@ export default function QuickRecordModal({ isOpen, onClose }: QuickRecordModalPr
                               </PopoverContent>
                             </Popover>
                           </div>
+
+                          <div className="space-y-2">
+                            <Label className="text-sm font-medium">Tags</Label>
+                            <TagInput value={tagNames} onChange={setTagNames} />
+                          </div>
                         </motion.div>
                       )}
                     </AnimatePresence>
@@ -311,7 +370,7 @@ export default function QuickRecordModal({ isOpen, onClose }: QuickRecordModalPr
                           'text-xl sm:text-2xl font-bold',
                           type === 'income' ? 'text-income' : 'text-expense'
                         )}>
-                          {type === 'income' ? '+' : '-'} R$ {parseFloat(amount.replace(',', '.')).toFixed(2)}
+                          {type === 'income' ? '+' : '-'} {formatMoney(parseFloat(amount.replace(',', '.')), currency)}
                         </span>
                       </div>
                       {!isToday && (
@@ -324,9 +383,9 @@ export default function QuickRecordModal({ isOpen, onClose }: QuickRecordModalPr
 
                     {/* Category Grid */}
                     <div className="grid grid-cols-2 gap-2 sm:gap-3">
-                      {quickCategories
-                        .filter(cat => type === 'income' ? ['salary', 'other'].includes(cat.key) : cat.key !== 'salary')
-                        .map((cat) => (
+                      {quickCategories.map((cat) => {
+                        const Icon = getCategoryIcon(cat.icon);
+                        return (
                           <motion.button
                             key={cat.key}
                             whileTap={{ scale: 0.95 }}
@@ -334,9 +393,11 @@ export default function QuickRecordModal({ isOpen, onClose }: QuickRecordModalPr
                             disabled={isProcessing}
                             className="flex items-center justify-center gap-1 sm:gap-2 p-3 sm:p-4 bg-muted/50 hover:bg-muted rounded-xl font-medium transition-colors text-sm sm:text-base"
                           >
-                            {cat.label}
+                            <Icon className="w-4 h-4 shrink-0" style={{ color: cat.color }} />
+                            <span className="truncate">{cat.name}</span>
                           </motion.button>
-                        ))}
+                        );
+                      })}
                     </div>
 
                     {/* Back Button */}
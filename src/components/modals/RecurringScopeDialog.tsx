@@ -0,0 +1,50 @@
+import { RefreshCw } from 'lucide-react';
+import { RecurrenceScope, recurrenceScopeLabels } from '@/types/recurrence';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+
+interface RecurringScopeDialogProps {
+  open: boolean;
+  action: 'edit' | 'delete';
+  onSelect: (scope: RecurrenceScope) => void;
+  onClose: () => void;
+}
+
+const scopes: RecurrenceScope[] = ['this', 'following', 'all'];
+
+export default function RecurringScopeDialog({ open, action, onSelect, onClose }: RecurringScopeDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <RefreshCw className="w-5 h-5 text-primary" />
+            {action === 'edit' ? 'Editar lançamento recorrente' : 'Excluir lançamento recorrente'}
+          </DialogTitle>
+        </DialogHeader>
+        <p className="text-sm text-muted-foreground">
+          {action === 'edit'
+            ? 'Quais ocorrências devem receber as alterações?'
+            : 'Quais ocorrências devem ser removidas?'}
+        </p>
+        <div className="space-y-2">
+          {scopes.map((scope) => (
+            <Button
+              key={scope}
+              variant={action === 'delete' && scope === 'all' ? 'destructive' : 'outline'}
+              className="w-full"
+              onClick={() => onSelect(scope)}
+            >
+              {recurrenceScopeLabels[scope]}
+            </Button>
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
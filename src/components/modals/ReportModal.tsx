@@ -1,13 +1,19 @@
 import { useState, useRef } from 'react';
 import { motion } from 'framer-motion';
 import { X, Download, FileImage, FileText, TrendingUp, TrendingDown, Wallet, Loader2 } from 'lucide-react';
-import { Transaction, categoryLabels, categoryColors } from '@/types/transaction';
+import { Transaction } from '@/types/transaction';
+import { useTransactions } from '@/contexts/TransactionContext';
 import { Button } from '@/components/ui/button';
 import { useToast } from '@/hooks/use-toast';
 import { format } from 'date-fns';
 import { ptBR } from 'date-fns/locale';
 import html2canvas from 'html2canvas';
 import jsPDF from 'jspdf';
+import { isTransfer } from '@/lib/transactions';
+import { getCategory, getCategoryPath, getRootCategory } from '@/lib/categories';
+import { getTagTotals, getTransactionTags, hasTag } from '@/lib/tags';
+import { getCategoryAmounts } from '@/lib/splits';
+import { DEFAULT_CURRENCY, formatMoney } from '@/lib/currency';
 
 interface ReportModalProps {
   isOpen: boolean;
@@ -31,21 +37,28 @@ export default function ReportModal({
   period,
 }: ReportModalProps) {
   const [filterType, setFilterType] = useState<FilterType>('all');
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
   const [isExporting, setIsExporting] = useState(false);
   const reportRef = useRef<HTMLDivElement>(null);
   const { toast } = useToast();
+  const { categories, tags, baseCurrency, transactions: recorded } = useTransactions();
 
   if (!isOpen) return null;
 
   const filteredTransactions = transactions.filter((t) => {
+    if (tagFilter && !hasTag(t, tagFilter)) return false;
     if (filterType === 'all') return true;
-    return t.type === filterType;
+    return t.type === filterType && !isTransfer(t);
   });
 
-  // Category data for summary
-  const expenses = transactions.filter((t) => t.type === 'expense');
-  const categoryTotals = expenses.reduce((acc, t) => {
-    acc[t.category] = (acc[t.category] || 0) + t.amount;
+  // Category data for summary (split lines count under their own category,
+  // subcategories roll up to their parent)
+  const expenses = transactions.filter(
+    (t) => t.type === 'expense' && !isTransfer(t) && (!tagFilter || hasTag(t, tagFilter))
+  );
+  const categoryTotals = expenses.flatMap(getCategoryAmounts).reduce((acc, line) => {
+    const root = getRootCategory(categories, line.category).key;
+    acc[root] = (acc[root] || 0) + line.amount;
     return acc;
   }, {} as Record<string, number>);
 
@@ -53,6 +66,13 @@ export default function ReportModal({
     .sort((a, b) => b[1] - a[1])
     .slice(0, 5);
 
+  const tagTotals = getTagTotals(transactions, tags);
+  const activeTagTotal = tagTotals.find((total) => total.tag.id === tagFilter);
+  // With a tag selected the summary covers only that tag's transactions
+  const summary = activeTagTotal
+    ? { income: activeTagTotal.income, expense: activeTagTotal.expense, balance: activeTagTotal.income - activeTagTotal.expense }
+    : stats;
+
   // Group transactions by date
   const groupedTransactions = filteredTransactions.reduce((acc, t) => {
     const date = t.date;
@@ -61,6 +81,13 @@ export default function ReportModal({
     return acc;
   }, {} as Record<string, Transaction[]>);
 
+  // Amounts arrive converted to the base currency; rows recorded in another one also show the original
+  const getOriginal = (t: Transaction) => {
+    const original = recorded.find((r) => r.id === t.id);
+    const currency = original?.currency || DEFAULT_CURRENCY;
+    return original && currency !== baseCurrency ? formatMoney(original.amount, currency) : null;
+  };
+
   const sortedDates = Object.keys(groupedTransactions).sort((a, b) => 
     new Date(b).getTime() - new Date(a).getTime()
   );
@@ -153,9 +180,7 @@ export default function ReportModal({
     }
   };
 
-  const formatCurrency = (value: number) => {
-    return value.toLocaleString('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
-  };
+  const formatCurrency = (value: number) => formatMoney(value, baseCurrency);
 
   return (
     <motion.div
@@ -230,6 +255,25 @@ export default function ReportModal({
                 </button>
               ))}
             </div>
+
+            {/* Tag Filter Pills */}
+            {tags.length > 0 && (
+              <div className="flex gap-2 mt-2 overflow-x-auto pb-1 scrollbar-hide">
+                {tags.map((tag) => (
+                  <button
+                    key={tag.id}
+                    onClick={() => setTagFilter(tagFilter === tag.id ? null : tag.id)}
+                    className={`px-3 py-1.5 rounded-full text-xs font-medium whitespace-nowrap transition-all min-h-[36px] border ${
+                      tagFilter === tag.id
+                        ? 'bg-primary/10 text-primary border-primary/30'
+                        : 'bg-muted text-muted-foreground border-transparent'
+                    }`}
+                  >
+                    #{tag.name}
+                  </button>
+                ))}
+              </div>
+            )}
           </div>
 
           {/* Report Content (Exportable) - Mobile optimized layout */}
@@ -247,7 +291,9 @@ export default function ReportModal({
               <p className="text-xs text-gray-500">Relatório Financeiro</p>
               <p className="text-xs font-medium text-gray-700 mt-1">
                 {period}
+                {activeTagTotal && ` • #${activeTagTotal.tag.name}`}
               </p>
+              <p className="text-[10px] text-gray-400">Valores em {baseCurrency}</p>
             </div>
 
             {/* Summary - Vertical Stack for Mobile */}
@@ -258,7 +304,7 @@ export default function ReportModal({
                   <span className="text-sm text-gray-600">Receitas</span>
                 </div>
                 <span className="text-sm font-bold text-green-600">
-                  R$ {formatCurrency(stats.income)}
+                  {formatCurrency(summary.income)}
                 </span>
               </div>
               
@@ -268,17 +314,17 @@ export default function ReportModal({
                   <span className="text-sm text-gray-600">Despesas</span>
                 </div>
                 <span className="text-sm font-bold text-red-600">
-                  R$ {formatCurrency(stats.expense)}
+                  {formatCurrency(summary.expense)}
                 </span>
               </div>
               
-              <div className={`flex items-center justify-between ${stats.balance >= 0 ? 'bg-blue-50' : 'bg-orange-50'} rounded-lg p-3`}>
+              <div className={`flex items-center justify-between ${summary.balance >= 0 ? 'bg-blue-50' : 'bg-orange-50'} rounded-lg p-3`}>
                 <div className="flex items-center gap-2">
-                  <Wallet className={`w-4 h-4 ${stats.balance >= 0 ? 'text-blue-600' : 'text-orange-600'}`} />
+                  <Wallet className={`w-4 h-4 ${summary.balance >= 0 ? 'text-blue-600' : 'text-orange-600'}`} />
                   <span className="text-sm text-gray-600">Saldo</span>
                 </div>
-                <span className={`text-sm font-bold ${stats.balance >= 0 ? 'text-blue-600' : 'text-orange-600'}`}>
-                  {stats.balance < 0 ? '-' : ''} R$ {formatCurrency(Math.abs(stats.balance))}
+                <span className={`text-sm font-bold ${summary.balance >= 0 ? 'text-blue-600' : 'text-orange-600'}`}>
+                  {summary.balance < 0 ? '- ' : ''}{formatCurrency(Math.abs(summary.balance))}
                 </span>
               </div>
             </div>
@@ -289,8 +335,8 @@ export default function ReportModal({
                 <h3 className="text-xs font-semibold text-gray-700 mb-2">Despesas por Categoria</h3>
                 <div className="space-y-1">
                   {sortedCategories.map(([category, value]) => {
-                    const percentage = stats.expense > 0 ? (value / stats.expense) * 100 : 0;
-                    const color = categoryColors[category as keyof typeof categoryColors] || '#6B7280';
+                    const percentage = summary.expense > 0 ? (value / summary.expense) * 100 : 0;
+                    const { name, color } = getRootCategory(categories, category);
                     return (
                       <div key={category} className="flex items-center gap-2">
                         <div 
@@ -298,13 +344,13 @@ export default function ReportModal({
                           style={{ backgroundColor: color }}
                         />
                         <span className="text-xs text-gray-600 flex-1 truncate">
-                          {categoryLabels[category as keyof typeof categoryLabels] || category}
+                          {name}
                         </span>
                         <span className="text-xs text-gray-500 shrink-0">
                           {percentage.toFixed(0)}%
                         </span>
                         <span className="text-xs font-medium text-gray-800 shrink-0">
-                          R$ {formatCurrency(value)}
+                          {formatCurrency(value)}
                         </span>
                       </div>
                     );
@@ -313,6 +359,30 @@ export default function ReportModal({
               </div>
             )}
 
+            {/* Tags Summary */}
+            {tagTotals.length > 0 && (
+              <div className="mb-4">
+                <h3 className="text-xs font-semibold text-gray-700 mb-2">Por Tag</h3>
+                <div className="space-y-1">
+                  {tagTotals.map(({ tag, income, expense }) => (
+                    <div key={tag.id} className="flex items-center gap-2">
+                      <span className="text-xs text-gray-600 flex-1 truncate">#{tag.name}</span>
+                      {income > 0 && filterType !== 'expense' && (
+                        <span className="text-xs font-medium text-green-600 shrink-0">
+                          + {formatCurrency(income)}
+                        </span>
+                      )}
+                      {expense > 0 && filterType !== 'income' && (
+                        <span className="text-xs font-medium text-red-600 shrink-0">
+                          - {formatCurrency(expense)}
+                        </span>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
             {/* Transactions List - Card Format */}
             <div>
               <h3 className="text-xs font-semibold text-gray-700 mb-2">
@@ -335,15 +405,19 @@ export default function ReportModal({
                               {t.description}
                             </p>
                             <p className="text-[10px] text-gray-500">
-                              {categoryLabels[t.category as keyof typeof categoryLabels] || t.category}
+                              {t.splits
+                                ? t.splits.map((line) => getCategory(categories, line.category).name).join(' + ')
+                                : getCategoryPath(categories, t.category)}
+                              {getTransactionTags(t, tags).map((tag) => ` #${tag.name}`).join('')}
+                              {getOriginal(t) && ` • ${getOriginal(t)}`}
                             </p>
                           </div>
                           <p
                             className={`text-xs font-semibold whitespace-nowrap ${
-                              t.type === 'income' ? 'text-green-600' : 'text-red-600'
+                              isTransfer(t) ? 'text-gray-500' : t.type === 'income' ? 'text-green-600' : 'text-red-600'
                             }`}
                           >
-                            {t.type === 'income' ? '+' : '-'} R$ {formatCurrency(t.amount)}
+                            {isTransfer(t) ? '⇄' : t.type === 'income' ? '+' : '-'} {formatCurrency(t.amount)}
                           </p>
                         </div>
                       ))}
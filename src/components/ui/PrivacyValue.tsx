@@ -1,34 +1,36 @@
 import { usePrivacy } from '@/contexts/PrivacyContext';
+import { useTransactions } from '@/contexts/TransactionContext';
+import { CurrencyCode } from '@/types/currency';
+import { formatMoney, getCurrencySymbol } from '@/lib/currency';
 import { cn } from '@/lib/utils';
 
 interface PrivacyValueProps {
   value: number;
-  prefix?: string;
+  /** Defaults to the user's base currency, which totals are converted to. */
+  currency?: CurrencyCode;
   className?: string;
   showSign?: boolean;
 }
 
-export function PrivacyValue({ value, prefix = 'R$ ', className, showSign }: PrivacyValueProps) {
+export function PrivacyValue({ value, currency, className, showSign }: PrivacyValueProps) {
   const { isPrivacyMode } = usePrivacy();
+  const { baseCurrency } = useTransactions();
+  const code = currency || baseCurrency;
 
   if (isPrivacyMode) {
     return (
       <span className={cn('select-none', className)}>
         {showSign && (value >= 0 ? '+ ' : '- ')}
-        {prefix}
+        {getCurrencySymbol(code)}{' '}
         <span className="blur-sm">••••••</span>
       </span>
     );
   }
 
-  const formattedValue = Math.abs(value).toLocaleString('pt-BR', {
-    minimumFractionDigits: 2,
-  });
-
   return (
     <span className={className}>
       {showSign && (value >= 0 ? '+ ' : '- ')}
-      {prefix}{formattedValue}
+      {formatMoney(Math.abs(value), code)}
     </span>
   );
 }
@@ -1,8 +1,61 @@
 import React, { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react'; // v2
-import { Transaction, Reminder, TransactionCategory } from '@/types/transaction';
-import { Investment, InvestmentType } from '@/types/investment';
+import { Transaction, Reminder, TransactionCategory, TransferInput } from '@/types/transaction';
+import { Category, CategoryKind } from '@/types/category';
+import { Tag } from '@/types/tag';
+import { Attachment } from '@/types/attachment';
+import { CurrencyCode, ExchangeRate } from '@/types/currency';
+import { Budget } from '@/types/budget';
+import { Envelope, EnvelopeMovement } from '@/types/envelope';
+import { Goal } from '@/types/goal';
+import { NetWorthSnapshot } from '@/types/netWorth';
+import { IndexRate, MarketIndex } from '@/types/marketIndex';
+import {
+  AllocationTargets,
+  IncomeType,
+  Investment,
+  InvestmentMovement,
+  InvestmentMovementType,
+  InvestmentType,
+  InvestmentValuation,
+  ValuationSource,
+  incomeTypeLabels,
+  movementTypeLabels,
+} from '@/types/investment';
+import { Account, AccountType } from '@/types/account';
+import { InstallmentPlan } from '@/types/installment';
+import { RecurringRule, RecurrenceFrequency, RecurrenceScope } from '@/types/recurrence';
 import { validateInvestmentDetails } from '@/lib/investmentValidation';
+import { getMovementCash, getValueOn } from '@/lib/investments';
+import { ParsedIndexRow } from '@/lib/fixedIncome';
+import { DEFAULT_MATURITY_REMINDER_DAYS } from '@/lib/maturities';
+import { BrokerageNote, findStockInvestment, getImportedNoteKeys, getNoteKey } from '@/lib/brokerageNote';
+import { createCategoryKey, getDefaultCategories } from '@/lib/categories';
+import { normalizeTagName } from '@/lib/tags';
+import { parseSplits, toSplitsJson } from '@/lib/splits';
+import { DEFAULT_CURRENCY, ParsedRateRow, getAccountCurrency } from '@/lib/currency';
+import {
+  ATTACHMENTS_BUCKET,
+  MAX_OFFLINE_ATTACHMENT_BYTES,
+  blobToDataUrl,
+  buildAttachmentPath,
+  dataUrlToBlob,
+  getAttachmentError,
+  prepareAttachment,
+} from '@/lib/attachments';
+import { buildInstallmentEntries, InstallmentEntry } from '@/lib/installments';
+import {
+  buildOccurrence,
+  getEndDateBefore,
+  getMaterializationHorizon,
+  getOccurrenceDate,
+  getPendingOccurrences,
+  getRescheduledOccurrences,
+  isOccurrenceEdited,
+  Occurrence,
+  shiftSchedule,
+} from '@/lib/recurrence';
 import { supabase } from '@/integrations/supabase/client';
+import type { Tables, TablesInsert, TablesUpdate } from '@/integrations/supabase/types';
 import { useAuth } from '@/contexts/AuthContext';
 import { useOnlineStatus, setOfflineCache, getOfflineCache } from '@/hooks/useOffline';
 import { useOfflineQueue, generateTempId, OfflineOperation } from '@/hooks/useOfflineQueue';
@@ -13,6 +66,25 @@ interface TransactionContextType {
   transactions: Transaction[];
   reminders: Reminder[];
   investments: Investment[];
+  investmentValuations: InvestmentValuation[];
+  investmentMovements: InvestmentMovement[];
+  accounts: Account[];
+  installmentPlans: InstallmentPlan[];
+  recurringRules: RecurringRule[];
+  categories: Category[];
+  tags: Tag[];
+  attachments: Attachment[];
+  baseCurrency: CurrencyCode;
+  exchangeRates: ExchangeRate[];
+  indexRates: IndexRate[];
+  budgets: Budget[];
+  envelopeStartDate?: string; // set while envelope mode is on
+  allocationTargets: AllocationTargets;
+  maturityReminderDays: number;
+  envelopes: Envelope[];
+  envelopeMovements: EnvelopeMovement[];
+  goals: Goal[];
+  netWorthSnapshots: NetWorthSnapshot[];
   loading: boolean;
   pendingOpsCount: number;
   isSyncing: boolean;
@@ -20,27 +92,363 @@ interface TransactionContextType {
   addTransaction: (transaction: Omit<Transaction, 'id' | 'createdAt'>) => Promise<string | undefined>;
   updateTransaction: (id: string, transaction: Partial<Transaction>) => Promise<void>;
   deleteTransaction: (id: string) => Promise<void>;
+  addTransfer: (transfer: TransferInput) => Promise<string | undefined>;
   addReminder: (reminder: Omit<Reminder, 'id' | 'createdAt'>) => Promise<void>;
   updateReminder: (id: string, reminder: Partial<Reminder>) => Promise<void>;
   deleteReminder: (id: string) => Promise<void>;
   markReminderAsPaid: (id: string) => Promise<void>;
-  addInvestment: (investment: Omit<Investment, 'id' | 'createdAt'>) => Promise<void>;
+  addInvestment: (investment: Omit<Investment, 'id' | 'createdAt'>) => Promise<string | undefined>;
   updateInvestment: (id: string, investment: Partial<Investment>) => Promise<void>;
   deleteInvestment: (id: string) => Promise<void>;
   markInvestmentAsDone: (id: string) => Promise<void>;
+  addInvestmentValuation: (valuation: Omit<InvestmentValuation, 'id' | 'createdAt'>) => Promise<void>;
+  deleteInvestmentValuation: (id: string) => Promise<void>;
+  addInvestmentMovement: (
+    movement: Omit<InvestmentMovement, 'id' | 'createdAt' | 'transactionId'>,
+    createTransaction?: boolean
+  ) => Promise<void>;
+  importBrokerageNotes: (notes: BrokerageNote[], createTransactions: boolean) => Promise<number>;
+  deleteInvestmentMovement: (id: string) => Promise<void>;
+  addAccount: (account: Omit<Account, 'id' | 'createdAt'>) => Promise<string | undefined>;
+  updateAccount: (id: string, account: Partial<Account>) => Promise<void>;
+  deleteAccount: (id: string) => Promise<void>;
+  addInstallmentPlan: (plan: Omit<InstallmentPlan, 'id' | 'createdAt'>) => Promise<string | undefined>;
+  updateInstallmentPlan: (id: string, plan: Partial<InstallmentPlan>) => Promise<void>;
+  deleteInstallmentPlan: (id: string, options?: { keepPast?: boolean }) => Promise<void>;
+  addRecurringRule: (rule: Omit<RecurringRule, 'id' | 'createdAt' | 'materializedUntil'>) => Promise<string | undefined>;
+  updateRecurringOccurrence: (id: string, transaction: Partial<Transaction>, scope: RecurrenceScope) => Promise<void>;
+  deleteRecurringOccurrence: (id: string, scope: RecurrenceScope) => Promise<void>;
+  addCategory: (category: Omit<Category, 'id' | 'key' | 'createdAt'>) => Promise<string | undefined>;
+  updateCategory: (id: string, category: Partial<Category>) => Promise<void>;
+  deleteCategory: (id: string) => Promise<void>;
+  ensureTags: (names: string[]) => Promise<string[]>;
+  addAttachment: (transactionId: string, file: File) => Promise<void>;
+  deleteAttachment: (id: string) => Promise<void>;
+  getAttachmentUrl: (attachment: Attachment) => Promise<string | null>;
+  updateBaseCurrency: (currency: CurrencyCode) => Promise<void>;
+  importExchangeRates: (rows: ParsedRateRow[]) => Promise<number>;
+  deleteExchangeRate: (id: string) => Promise<void>;
+  importIndexRates: (rows: ParsedIndexRow[]) => Promise<number>;
+  deleteIndexRate: (id: string) => Promise<void>;
+  addBudget: (budget: Omit<Budget, 'id' | 'createdAt'>) => Promise<string | undefined>;
+  updateBudget: (id: string, budget: Partial<Budget>) => Promise<void>;
+  deleteBudget: (id: string) => Promise<void>;
+  updateEnvelopeMode: (startDate: string | undefined) => Promise<void>;
+  updateAllocationTargets: (targets: AllocationTargets) => Promise<void>;
+  updateMaturityReminderDays: (days: number) => Promise<void>;
+  addEnvelope: (envelope: Omit<Envelope, 'id' | 'createdAt'>) => Promise<string | undefined>;
+  updateEnvelope: (id: string, envelope: Partial<Envelope>) => Promise<void>;
+  deleteEnvelope: (id: string) => Promise<void>;
+  addEnvelopeMovement: (movement: Omit<EnvelopeMovement, 'id' | 'createdAt'>) => Promise<void>;
+  deleteEnvelopeMovement: (id: string) => Promise<void>;
+  addGoal: (goal: Omit<Goal, 'id' | 'createdAt'>) => Promise<string | undefined>;
+  updateGoal: (id: string, goal: Partial<Goal>) => Promise<void>;
+  deleteGoal: (id: string) => Promise<void>;
+  saveNetWorthSnapshots: (snapshots: Omit<NetWorthSnapshot, 'id' | 'createdAt'>[]) => Promise<number>;
+  deleteNetWorthSnapshot: (id: string) => Promise<void>;
 }
 
 const TransactionContext = createContext<TransactionContextType | undefined>(undefined);
 
-const validCategories: TransactionCategory[] = [
-  'salary', 'food', 'transport', 'shopping', 'health', 
-  'entertainment', 'bills', 'education', 'investment', 'loan', 'other'
-];
+const validCategoryKinds: CategoryKind[] = ['income', 'expense', 'both'];
 
 const validInvestmentTypes: InvestmentType[] = [
   'tesouro_direto', 'renda_fixa', 'acoes', 'cripto', 'fundos', 'poupanca', 'outros'
 ];
 
+const validAccountTypes: AccountType[] = ['checking', 'savings', 'cash', 'wallet', 'credit_card'];
+
+const validFrequencies: RecurrenceFrequency[] = ['weekly', 'biweekly', 'monthly', 'yearly'];
+
+function mapTransaction(t: Tables<'transactions'>): Transaction {
+  return {
+    id: t.id,
+    type: t.type as 'income' | 'expense',
+    category: t.category,
+    amount: Number(t.amount),
+    description: t.description,
+    date: t.date,
+    currency: t.currency,
+    accountId: t.account_id || undefined,
+    transferId: t.transfer_id || undefined,
+    invoiceMonth: t.invoice_month || undefined,
+    installmentPlanId: t.installment_plan_id || undefined,
+    installmentNumber: t.installment_number ?? undefined,
+    recurringRuleId: t.recurring_rule_id || undefined,
+    recurrenceIndex: t.recurrence_index ?? undefined,
+    splits: parseSplits(t.splits),
+    createdAt: t.created_at,
+    isLoan: t.is_loan || false,
+    loanPerson: t.loan_person || undefined,
+    loanStatus: (t.loan_status as Transaction['loanStatus']) || undefined,
+    loanSettledDate: t.loan_settled_date || undefined,
+    loanDueDate: t.loan_due_date || undefined,
+    goalId: t.goal_id || undefined,
+  };
+}
+
+function mapAccount(a: Tables<'accounts'>): Account {
+  const type = validAccountTypes.includes(a.type as AccountType) 
+    ? (a.type as AccountType) 
+    : 'checking';
+  return {
+    id: a.id,
+    name: a.name,
+    type,
+    initialBalance: Number(a.initial_balance),
+    currency: a.currency,
+    color: a.color || undefined,
+    isArchived: a.is_archived,
+    closingDay: a.closing_day ?? undefined,
+    dueDay: a.due_day ?? undefined,
+    creditLimit: a.credit_limit != null ? Number(a.credit_limit) : undefined,
+    createdAt: a.created_at,
+  };
+}
+
+function mapInstallmentPlan(p: Tables<'installment_plans'>): InstallmentPlan {
+  return {
+    id: p.id,
+    description: p.description,
+    totalAmount: Number(p.total_amount),
+    installmentCount: p.installment_count,
+    firstDate: p.first_date,
+    category: p.category,
+    accountId: p.account_id || undefined,
+    createdAt: p.created_at,
+  };
+}
+
+function toInstallmentRow(entry: InstallmentEntry, planId: string) {
+  return {
+    description: entry.description,
+    amount: entry.amount,
+    type: entry.type,
+    category: entry.category,
+    date: entry.date,
+    currency: entry.currency,
+    account_id: entry.accountId || null,
+    installment_plan_id: planId,
+    installment_number: entry.installmentNumber ?? null,
+  };
+}
+
+function mapRecurringRule(r: Tables<'recurring_rules'>): RecurringRule {
+  const frequency = validFrequencies.includes(r.frequency as RecurrenceFrequency)
+    ? (r.frequency as RecurrenceFrequency)
+    : 'monthly';
+  return {
+    id: r.id,
+    description: r.description,
+    amount: Number(r.amount),
+    type: r.type as 'income' | 'expense',
+    category: r.category,
+    accountId: r.account_id || undefined,
+    frequency,
+    interval: r.interval,
+    startDate: r.start_date,
+    endDate: r.end_date || undefined,
+    occurrenceCount: r.occurrence_count ?? undefined,
+    dayOfMonth: r.day_of_month ?? undefined,
+    materializedUntil: r.materialized_until || undefined,
+    createdAt: r.created_at,
+  };
+}
+
+function mapCategory(c: Tables<'categories'>): Category {
+  const kind = validCategoryKinds.includes(c.kind as CategoryKind) 
+    ? (c.kind as CategoryKind) 
+    : 'expense';
+  return {
+    id: c.id,
+    key: c.key,
+    name: c.name,
+    parentId: c.parent_id || undefined,
+    icon: c.icon,
+    color: c.color,
+    kind,
+    createdAt: c.created_at,
+  };
+}
+
+function toRecurringRuleRow(rule: Omit<RecurringRule, 'id' | 'createdAt'>) {
+  return {
+    description: rule.description,
+    amount: rule.amount,
+    type: rule.type,
+    category: rule.category,
+    account_id: rule.accountId || null,
+    frequency: rule.frequency,
+    interval: rule.interval,
+    start_date: rule.startDate,
+    end_date: rule.endDate || null,
+    occurrence_count: rule.occurrenceCount ?? null,
+    day_of_month: rule.dayOfMonth ?? null,
+    materialized_until: rule.materializedUntil || null,
+  };
+}
+
+function toOccurrenceRow(entry: Omit<Transaction, 'id' | 'createdAt'>) {
+  return {
+    description: entry.description,
+    amount: entry.amount,
+    type: entry.type,
+    category: entry.category,
+    date: entry.date,
+    currency: entry.currency,
+    account_id: entry.accountId || null,
+    recurring_rule_id: entry.recurringRuleId || null,
+    recurrence_index: entry.recurrenceIndex ?? null,
+  };
+}
+
+function mapTag(t: Tables<'tags'>): Tag {
+  return { id: t.id, name: t.name, createdAt: t.created_at };
+}
+
+/** transaction_tags rows grouped as transaction id → tag ids. */
+function groupTagIds(rows: Pick<Tables<'transaction_tags'>, 'transaction_id' | 'tag_id'>[]) {
+  const byTransaction = new Map<string, string[]>();
+  for (const row of rows) {
+    byTransaction.set(row.transaction_id, [...(byTransaction.get(row.transaction_id) || []), row.tag_id]);
+  }
+  return byTransaction;
+}
+
+function toTagRows(transactionId: string, tagIds: string[]) {
+  return tagIds.map((tagId) => ({ transaction_id: transactionId, tag_id: tagId }));
+}
+
+function mapAttachment(a: Tables<'transaction_attachments'>): Attachment {
+  return {
+    id: a.id,
+    transactionId: a.transaction_id,
+    storagePath: a.storage_path,
+    fileName: a.file_name,
+    mimeType: a.mime_type,
+    size: a.size_bytes,
+    createdAt: a.created_at,
+  };
+}
+
+function mapExchangeRate(r: Tables<'exchange_rates'>): ExchangeRate {
+  return {
+    id: r.id,
+    currency: r.currency,
+    quoteCurrency: r.quote_currency,
+    date: r.date,
+    rate: Number(r.rate),
+    createdAt: r.created_at,
+  };
+}
+
+const validMarketIndexes: MarketIndex[] = ['cdi', 'selic', 'ipca'];
+
+function mapIndexRate(r: Tables<'index_rates'>): IndexRate {
+  return {
+    id: r.id,
+    index: validMarketIndexes.includes(r.index as MarketIndex) ? (r.index as MarketIndex) : 'cdi',
+    date: r.date,
+    rate: Number(r.rate),
+    createdAt: r.created_at,
+  };
+}
+
+function mapBudget(b: Tables<'budgets'>): Budget {
+  return {
+    id: b.id,
+    category: b.category,
+    month: b.month,
+    limit: Number(b.amount_limit),
+    rollover: b.rollover,
+    createdAt: b.created_at,
+  };
+}
+
+function mapEnvelope(e: Tables<'envelopes'>): Envelope {
+  return { id: e.id, name: e.name, categories: e.categories, createdAt: e.created_at };
+}
+
+function mapEnvelopeMovement(m: Tables<'envelope_movements'>): EnvelopeMovement {
+  return {
+    id: m.id,
+    fromEnvelopeId: m.from_envelope_id || undefined,
+    toEnvelopeId: m.to_envelope_id || undefined,
+    amount: Number(m.amount),
+    date: m.date,
+    note: m.note || undefined,
+    createdAt: m.created_at,
+  };
+}
+
+function mapGoal(g: Tables<'goals'>): Goal {
+  return {
+    id: g.id,
+    name: g.name,
+    targetAmount: Number(g.target_amount),
+    deadline: g.deadline || undefined,
+    icon: g.icon,
+    createdAt: g.created_at,
+  };
+}
+
+const validValuationSources: ValuationSource[] = ['manual', 'import', 'computed'];
+
+function mapInvestmentValuation(v: Tables<'investment_valuations'>): InvestmentValuation {
+  return {
+    id: v.id,
+    investmentId: v.investment_id,
+    date: v.date,
+    value: Number(v.value),
+    source: validValuationSources.includes(v.source as ValuationSource) ? (v.source as ValuationSource) : 'manual',
+    createdAt: v.created_at,
+  };
+}
+
+const validMovementTypes: InvestmentMovementType[] = ['contribution', 'withdrawal', 'fee', 'income'];
+
+function mapInvestmentMovement(m: Tables<'investment_movements'>): InvestmentMovement {
+  return {
+    id: m.id,
+    investmentId: m.investment_id,
+    type: validMovementTypes.includes(m.type as InvestmentMovementType) ? (m.type as InvestmentMovementType) : 'contribution',
+    date: m.date,
+    amount: Number(m.amount),
+    quantity: m.quantity !== null ? Number(m.quantity) : undefined,
+    unitPrice: m.unit_price !== null ? Number(m.unit_price) : undefined,
+    fees: Number(m.fees) || undefined,
+    incomeType: (m.income_type as IncomeType | null) ?? undefined,
+    taxWithheld: Number(m.tax_withheld) || undefined,
+    note: m.note || undefined,
+    brokerageNote: m.brokerage_note || undefined,
+    transactionId: m.transaction_id || undefined,
+    createdAt: m.created_at,
+  };
+}
+
+function mapNetWorthSnapshot(s: Tables<'net_worth_snapshots'>): NetWorthSnapshot {
+  return {
+    id: s.id,
+    month: s.month,
+    accounts: Number(s.accounts),
+    investments: Number(s.investments),
+    receivables: Number(s.receivables),
+    payables: Number(s.payables),
+    cardDebt: Number(s.card_debt),
+    currency: s.currency,
+    createdAt: s.created_at,
+  };
+}
+
+/** Replaces temporary ids (from offline inserts) with the ids assigned by the server. */
+function resolveTempIds(payload: Record<string, unknown>, idMap: Map<string, string>) {
+  const resolved: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(payload)) {
+    resolved[key] = typeof value === 'string' && idMap.has(value) ? idMap.get(value) : value;
+  }
+  return resolved;
+}
+
 export function TransactionProvider({ children }: { children: ReactNode }) {
   const { user } = useAuth();
   const isOnline = useOnlineStatus();
@@ -48,6 +456,25 @@ export function TransactionProvider({ children }: { children: ReactNode }) {
   const [transactions, setTransactions] = useState<Transaction[]>([]);
   const [reminders, setReminders] = useState<Reminder[]>([]);
   const [investments, setInvestments] = useState<Investment[]>([]);
+  const [investmentValuations, setInvestmentValuations] = useState<InvestmentValuation[]>([]);
+  const [investmentMovements, setInvestmentMovements] = useState<InvestmentMovement[]>([]);
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [installmentPlans, setInstallmentPlans] = useState<InstallmentPlan[]>([]);
+  const [recurringRules, setRecurringRules] = useState<RecurringRule[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [tags, setTags] = useState<Tag[]>([]);
+  const [attachments, setAttachments] = useState<Attachment[]>([]);
+  const [baseCurrency, setBaseCurrency] = useState<CurrencyCode>(DEFAULT_CURRENCY);
+  const [exchangeRates, setExchangeRates] = useState<ExchangeRate[]>([]);
+  const [indexRates, setIndexRates] = useState<IndexRate[]>([]);
+  const [budgets, setBudgets] = useState<Budget[]>([]);
+  const [envelopeStartDate, setEnvelopeStartDate] = useState<string | undefined>();
+  const [allocationTargets, setAllocationTargets] = useState<AllocationTargets>({});
+  const [maturityReminderDays, setMaturityReminderDays] = useState(DEFAULT_MATURITY_REMINDER_DAYS);
+  const [envelopes, setEnvelopes] = useState<Envelope[]>([]);
+  const [envelopeMovements, setEnvelopeMovements] = useState<EnvelopeMovement[]>([]);
+  const [goals, setGoals] = useState<Goal[]>([]);
+  const [netWorthSnapshots, setNetWorthSnapshots] = useState<NetWorthSnapshot[]>([]);
   const [loading, setLoading] = useState(true);
 
   // Fetch data when user changes or comes back online
@@ -62,6 +489,25 @@ export function TransactionProvider({ children }: { children: ReactNode }) {
       setTransactions([]);
       setReminders([]);
       setInvestments([]);
+      setInvestmentValuations([]);
+      setInvestmentMovements([]);
+      setAccounts([]);
+      setInstallmentPlans([]);
+      setRecurringRules([]);
+      setCategories([]);
+      setTags([]);
+      setAttachments([]);
+      setBaseCurrency(DEFAULT_CURRENCY);
+      setExchangeRates([]);
+      setIndexRates([]);
+      setBudgets([]);
+      setEnvelopeStartDate(undefined);
+      setAllocationTargets({});
+      setMaturityReminderDays(DEFAULT_MATURITY_REMINDER_DAYS);
+      setEnvelopes([]);
+      setEnvelopeMovements([]);
+      setGoals([]);
+      setNetWorthSnapshots([]);
       setLoading(false);
     }
   }, [user, isOnline]);
@@ -77,9 +523,47 @@ export function TransactionProvider({ children }: { children: ReactNode }) {
     const cachedTransactions = getOfflineCache<Transaction[]>('transactions');
     const cachedReminders = getOfflineCache<Reminder[]>('reminders');
     const cachedInvestments = getOfflineCache<Investment[]>('investments');
+    const cachedAccounts = getOfflineCache<Account[]>('accounts');
+    const cachedInstallmentPlans = getOfflineCache<InstallmentPlan[]>('installment_plans');
     if (cachedTransactions) setTransactions(cachedTransactions);
     if (cachedReminders) setReminders(cachedReminders);
     if (cachedInvestments) setInvestments(cachedInvestments);
+    if (cachedAccounts) setAccounts(cachedAccounts);
+    const cachedRecurringRules = getOfflineCache<RecurringRule[]>('recurring_rules');
+    if (cachedInstallmentPlans) setInstallmentPlans(cachedInstallmentPlans);
+    const cachedCategories = getOfflineCache<Category[]>('categories');
+    if (cachedRecurringRules) setRecurringRules(cachedRecurringRules);
+    const cachedTags = getOfflineCache<Tag[]>('tags');
+    if (cachedCategories) setCategories(cachedCategories);
+    if (cachedTags) setTags(cachedTags);
+    const cachedAttachments = getOfflineCache<Attachment[]>('attachments');
+    if (cachedAttachments) setAttachments(cachedAttachments);
+    const cachedBaseCurrency = getOfflineCache<CurrencyCode>('base_currency');
+    if (cachedBaseCurrency) setBaseCurrency(cachedBaseCurrency);
+    const cachedExchangeRates = getOfflineCache<ExchangeRate[]>('exchange_rates');
+    if (cachedExchangeRates) setExchangeRates(cachedExchangeRates);
+    const cachedIndexRates = getOfflineCache<IndexRate[]>('index_rates');
+    if (cachedIndexRates) setIndexRates(cachedIndexRates);
+    const cachedBudgets = getOfflineCache<Budget[]>('budgets');
+    if (cachedBudgets) setBudgets(cachedBudgets);
+    const cachedEnvelopeStartDate = getOfflineCache<string | null>('envelope_start_date');
+    if (cachedEnvelopeStartDate) setEnvelopeStartDate(cachedEnvelopeStartDate);
+    const cachedAllocationTargets = getOfflineCache<AllocationTargets>('allocation_targets');
+    if (cachedAllocationTargets) setAllocationTargets(cachedAllocationTargets);
+    const cachedMaturityReminderDays = getOfflineCache<number>('maturity_reminder_days');
+    if (cachedMaturityReminderDays !== null) setMaturityReminderDays(cachedMaturityReminderDays);
+    const cachedEnvelopes = getOfflineCache<Envelope[]>('envelopes');
+    if (cachedEnvelopes) setEnvelopes(cachedEnvelopes);
+    const cachedEnvelopeMovements = getOfflineCache<EnvelopeMovement[]>('envelope_movements');
+    if (cachedEnvelopeMovements) setEnvelopeMovements(cachedEnvelopeMovements);
+    const cachedGoals = getOfflineCache<Goal[]>('goals');
+    if (cachedGoals) setGoals(cachedGoals);
+    const cachedInvestmentValuations = getOfflineCache<InvestmentValuation[]>('investment_valuations');
+    if (cachedInvestmentValuations) setInvestmentValuations(cachedInvestmentValuations);
+    const cachedInvestmentMovements = getOfflineCache<InvestmentMovement[]>('investment_movements');
+    if (cachedInvestmentMovements) setInvestmentMovements(cachedInvestmentMovements);
+    const cachedNetWorthSnapshots = getOfflineCache<NetWorthSnapshot[]>('net_worth_snapshots');
+    if (cachedNetWorthSnapshots) setNetWorthSnapshots(cachedNetWorthSnapshots);
     setLoading(false);
   };
 
@@ -96,6 +580,85 @@ export function TransactionProvider({ children }: { children: ReactNode }) {
     if (user && investments.length > 0) setOfflineCache('investments', investments);
   }, [investments, user]);
 
+  useEffect(() => {
+    if (user && accounts.length > 0) setOfflineCache('accounts', accounts);
+  }, [accounts, user]);
+
+  useEffect(() => {
+    if (user && installmentPlans.length > 0) setOfflineCache('installment_plans', installmentPlans);
+  }, [installmentPlans, user]);
+
+  useEffect(() => {
+    if (user && recurringRules.length > 0) setOfflineCache('recurring_rules', recurringRules);
+  }, [recurringRules, user]);
+
+  useEffect(() => {
+    if (user && categories.length > 0) setOfflineCache('categories', categories);
+  }, [categories, user]);
+
+  useEffect(() => {
+    if (user && tags.length > 0) setOfflineCache('tags', tags);
+  }, [tags, user]);
+
+  useEffect(() => {
+    // Files captured offline already wait in the queue; caching them again would fill localStorage
+    const uploaded = attachments.filter((a) => !a.localDataUrl);
+    if (user && uploaded.length > 0) setOfflineCache('attachments', uploaded);
+  }, [attachments, user]);
+
+  useEffect(() => {
+    if (user) setOfflineCache('base_currency', baseCurrency);
+  }, [baseCurrency, user]);
+
+  useEffect(() => {
+    if (user && exchangeRates.length > 0) setOfflineCache('exchange_rates', exchangeRates);
+  }, [exchangeRates, user]);
+
+  useEffect(() => {
+    if (user && indexRates.length > 0) setOfflineCache('index_rates', indexRates);
+  }, [indexRates, user]);
+
+  useEffect(() => {
+    if (user && budgets.length > 0) setOfflineCache('budgets', budgets);
+  }, [budgets, user]);
+
+  useEffect(() => {
+    // null (not undefined) so turning the mode off is cached too
+    if (user) setOfflineCache('envelope_start_date', envelopeStartDate || null);
+  }, [envelopeStartDate, user]);
+
+  useEffect(() => {
+    if (user) setOfflineCache('allocation_targets', allocationTargets);
+  }, [allocationTargets, user]);
+
+  useEffect(() => {
+    if (user) setOfflineCache('maturity_reminder_days', maturityReminderDays);
+  }, [maturityReminderDays, user]);
+
+  useEffect(() => {
+    if (user && envelopes.length > 0) setOfflineCache('envelopes', envelopes);
+  }, [envelopes, user]);
+
+  useEffect(() => {
+    if (user && envelopeMovements.length > 0) setOfflineCache('envelope_movements', envelopeMovements);
+  }, [envelopeMovements, user]);
+
+  useEffect(() => {
+    if (user && goals.length > 0) setOfflineCache('goals', goals);
+  }, [goals, user]);
+
+  useEffect(() => {
+    if (user && investmentValuations.length > 0) setOfflineCache('investment_valuations', investmentValuations);
+  }, [investmentValuations, user]);
+
+  useEffect(() => {
+    if (user && investmentMovements.length > 0) setOfflineCache('investment_movements', investmentMovements);
+  }, [investmentMovements, user]);
+
+  useEffect(() => {
+    if (user && netWorthSnapshots.length > 0) setOfflineCache('net_worth_snapshots', netWorthSnapshots);
+  }, [netWorthSnapshots, user]);
+
   // --- Sync queue ---
   const syncQueue = async () => {
     if (!user || syncingRef.current) return;
@@ -103,11 +666,12 @@ export function TransactionProvider({ children }: { children: ReactNode }) {
     setIsSyncing(true);
 
     const currentQueue = [...queue];
+    const idMap = new Map<string, string>();
     let successCount = 0;
 
     for (const op of currentQueue) {
       try {
-        await processOperation(op);
+        await processOperation(op, idMap);
         successCount++;
       } catch (err) {
         if (import.meta.env.DEV) console.error('Sync error for op:', op.id, err);
@@ -130,52 +694,161 @@ export function TransactionProvider({ children }: { children: ReactNode }) {
     setIsSyncing(false);
   };
 
-  const processOperation = async (op: OfflineOperation) => {
+  const processOperation = async (op: OfflineOperation, idMap: Map<string, string>) => {
     if (!user) return;
 
-    if (op.table === 'transactions') {
-      if (op.action === 'insert') {
-        const { error } = await supabase.from('transactions').insert({
-          user_id: user.id,
-          ...op.payload,
-        } as any);
-        if (error) throw error;
-      } else if (op.action === 'update' && op.entityId) {
-        const { error } = await supabase.from('transactions').update(op.payload as any).eq('id', op.entityId);
-        if (error) throw error;
-      } else if (op.action === 'delete' && op.entityId) {
-        const { error } = await supabase.from('transactions').delete().eq('id', op.entityId);
-        if (error) throw error;
-      }
-    } else if (op.table === 'reminders') {
-      if (op.action === 'insert') {
-        const { error } = await supabase.from('reminders').insert({
-          user_id: user.id,
-          ...op.payload,
-        } as any);
-        if (error) throw error;
-      } else if (op.action === 'update' && op.entityId) {
-        const { error } = await supabase.from('reminders').update(op.payload as any).eq('id', op.entityId);
-        if (error) throw error;
-      } else if (op.action === 'delete' && op.entityId) {
-        const { error } = await supabase.from('reminders').delete().eq('id', op.entityId);
+    const entityId = op.entityId ? idMap.get(op.entityId) || op.entityId : undefined;
+
+    if (op.action === 'insert' && Array.isArray(op.payload)) {
+      const rows = op.payload.map((row) => ({ user_id: user.id, ...resolveTempIds(row, idMap) }));
+      const { error } = await supabase.from(op.table).insert(rows as any);
+      if (error) throw error;
+      return;
+    }
+
+    const payload = op.payload && !Array.isArray(op.payload) ? resolveTempIds(op.payload, idMap) : undefined;
+
+    if (op.table === 'transaction_attachments') {
+      await processAttachmentOperation(op, idMap, payload, entityId);
+      return;
+    }
+
+    // Tag links have no id of their own, they are only ever cleared per transaction
+    if (op.table === 'transaction_tags') {
+      if (op.action === 'delete' && entityId) {
+        const { error } = await supabase.from('transaction_tags').delete().eq('transaction_id', entityId);
         if (error) throw error;
       }
-    } else if (op.table === 'investments') {
-      if (op.action === 'insert') {
-        const { error } = await supabase.from('investments').insert({
-          user_id: user.id,
-          ...op.payload,
-        } as any);
-        if (error) throw error;
-      } else if (op.action === 'update' && op.entityId) {
-        const { error } = await supabase.from('investments').update(op.payload as any).eq('id', op.entityId);
-        if (error) throw error;
-      } else if (op.action === 'delete' && op.entityId) {
-        const { error } = await supabase.from('investments').delete().eq('id', op.entityId);
-        if (error) throw error;
+      return;
+    }
+
+    const table = op.table;
+    // Group columns (transfer_id, installment_plan_id) only exist on transactions
+    const groupColumn = op.matchColumn !== 'id' && op.matchColumn !== 'transaction_id' ? op.matchColumn : undefined;
+
+    if (op.action === 'insert') {
+      const { data, error } = await supabase
+        .from(table)
+        .insert({ user_id: user.id, ...payload } as any)
+        .select('id')
+        .single();
+      if (error) throw error;
+      if (op.tempId && data) idMap.set(op.tempId, data.id);
+    } else if (op.action === 'update' && entityId) {
+      const { error } = groupColumn
+        ? await supabase.from('transactions').update(payload as TablesUpdate<'transactions'>).eq(groupColumn, entityId)
+        : await supabase.from(table).update(payload as any).eq('id', entityId);
+      if (error) throw error;
+    } else if (op.action === 'delete' && entityId) {
+      const { error } = groupColumn
+        ? await supabase.from('transactions').delete().eq(groupColumn, entityId)
+        : await supabase.from(table).delete().eq('id', entityId);
+      if (error) throw error;
+    }
+  };
+
+  /** Files captured offline travel in the queue as data URLs and are uploaded here. */
+  const processAttachmentOperation = async (
+    op: OfflineOperation,
+    idMap: Map<string, string>,
+    payload: Record<string, unknown> | undefined,
+    entityId: string | undefined
+  ) => {
+    if (!user) return;
+
+    if (op.action === 'insert' && payload) {
+      const { data_url, ...row } = payload as {
+        data_url: string;
+        transaction_id: string;
+        file_name: string;
+        mime_type: string;
+        size_bytes: number;
+      };
+      const storagePath = buildAttachmentPath(user.id, row.transaction_id, row.mime_type);
+      const { error: uploadError } = await supabase.storage
+        .from(ATTACHMENTS_BUCKET)
+        .upload(storagePath, await dataUrlToBlob(data_url), { contentType: row.mime_type });
+      if (uploadError) throw uploadError;
+      const { data, error } = await supabase
+        .from('transaction_attachments')
+        .insert({ user_id: user.id, ...row, storage_path: storagePath })
+        .select('id')
+        .single();
+      if (error) throw error;
+      if (op.tempId && data) idMap.set(op.tempId, data.id);
+    } else if (op.action === 'delete' && entityId) {
+      const { data } = await supabase
+        .from('transaction_attachments')
+        .select('storage_path')
+        .eq('id', entityId)
+        .maybeSingle();
+      if (data) await supabase.storage.from(ATTACHMENTS_BUCKET).remove([data.storage_path]);
+      const { error } = await supabase.from('transaction_attachments').delete().eq('id', entityId);
+      if (error) throw error;
+    }
+  };
+
+  /**
+   * Writes a rule's occurrences up to the materialization horizon. The unique
+   * (recurring_rule_id, recurrence_index) index lets several devices do this
+   * at once without duplicating entries. Occurrences are in `currency`, the
+   * currency of the rule's account; `rewritten` ones, dated before the rule's
+   * materialized range, are written along.
+   */
+  const materializeRule = async (
+    rule: RecurringRule,
+    currency: CurrencyCode,
+    rewritten: Occurrence[] = []
+  ): Promise<{ rule: RecurringRule; created: Transaction[] }> => {
+    if (!user) return { rule, created: [] };
+
+    const pending = [...rewritten, ...getPendingOccurrences(rule)];
+    const horizon = getMaterializationHorizon();
+    let created: Transaction[] = [];
+
+    if (pending.length > 0) {
+      const { data, error } = await supabase
+        .from('transactions')
+        .upsert(
+          pending.map((occurrence) => ({
+            user_id: user.id,
+            ...toOccurrenceRow({ ...buildOccurrence(rule, occurrence), currency }),
+          })),
+          { onConflict: 'recurring_rule_id,recurrence_index', ignoreDuplicates: true }
+        )
+        .select();
+      if (error) {
+        if (import.meta.env.DEV) console.error('Error materializing recurring rule:', error);
+        return { rule, created };
       }
+      created = (data || []).map(mapTransaction);
+    }
+
+    if (rule.materializedUntil && rule.materializedUntil >= horizon) return { rule, created };
+
+    const { error } = await supabase.from('recurring_rules').update({ materialized_until: horizon }).eq('id', rule.id);
+    if (error && import.meta.env.DEV) console.error('Error updating recurring rule:', error);
+    return { rule: { ...rule, materializedUntil: horizon }, created };
+  };
+
+  /**
+   * First load for a user: writes the built-in categories so they can be
+   * renamed, recolored or split into subcategories like any other.
+   */
+  const seedCategories = async (): Promise<Category[]> => {
+    if (!user) return [];
+    const { data, error } = await supabase
+      .from('categories')
+      .upsert(
+        getDefaultCategories().map(({ key, name, icon, color, kind }) => ({ user_id: user.id, key, name, icon, color, kind })),
+        { onConflict: 'user_id,key', ignoreDuplicates: true }
+      )
+      .select();
+    if (error) {
+      if (import.meta.env.DEV) console.error('Error seeding categories:', error);
+      return [];
     }
+    return (data || []).map(mapCategory);
   };
 
   // --- Fetch data ---
@@ -184,31 +857,74 @@ export function TransactionProvider({ children }: { children: ReactNode }) {
     setLoading(true);
 
     try {
+      // Accounts and settings come before the rules, which need them to pick each occurrence's currency
+      const { data: settingsData } = await supabase
+        .from('user_settings')
+        .select('*')
+        .maybeSingle();
+
+      const base = settingsData?.base_currency || DEFAULT_CURRENCY;
+      setBaseCurrency(base);
+      setEnvelopeStartDate(settingsData?.envelope_start_date || undefined);
+      setAllocationTargets((settingsData?.allocation_targets as AllocationTargets | null) || {});
+      setMaturityReminderDays(settingsData?.maturity_reminder_days ?? DEFAULT_MATURITY_REMINDER_DAYS);
+
+      const { data: accountsData } = await supabase
+        .from('accounts')
+        .select('*')
+        .order('created_at', { ascending: true });
+
+      const loadedAccounts = (accountsData || []).map(mapAccount);
+      if (accountsData) {
+        setAccounts(loadedAccounts);
+      }
+
+      // Rules go first so the occurrences they write show up in the transactions below
+      const { data: recurringRulesData } = await supabase
+        .from('recurring_rules')
+        .select('*')
+        .order('start_date', { ascending: false });
+
+      if (recurringRulesData) {
+        const materialized = await Promise.all(
+          recurringRulesData.map((r) =>
+            materializeRule(mapRecurringRule(r), getAccountCurrency(loadedAccounts, r.account_id || undefined, base))
+          )
+        );
+        setRecurringRules(materialized.map((m) => m.rule));
+      }
+
+      const { data: tagsData } = await supabase
+        .from('tags')
+        .select('*')
+        .order('name', { ascending: true });
+
+      if (tagsData) {
+        setTags(tagsData.map(mapTag));
+      }
+
+      const { data: transactionTagsData } = await supabase
+        .from('transaction_tags')
+        .select('transaction_id, tag_id');
+      const tagIdsByTransaction = groupTagIds(transactionTagsData || []);
+
       const { data: transactionsData } = await supabase
         .from('transactions')
         .select('*')
         .order('date', { ascending: false });
 
+      const { data: attachmentsData } = await supabase
+        .from('transaction_attachments')
+        .select('*')
+        .order('created_at', { ascending: true });
+
+      if (attachmentsData) {
+        setAttachments(attachmentsData.map(mapAttachment));
+      }
+
       if (transactionsData) {
         setTransactions(
-          transactionsData.map((t: any) => {
-            const category = validCategories.includes(t.category as TransactionCategory) 
-              ? (t.category as TransactionCategory) 
-              : 'other';
-            return {
-              id: t.id,
-              type: t.type as 'income' | 'expense',
-              category,
-              amount: Number(t.amount),
-              description: t.description,
-              date: t.date,
-              createdAt: t.created_at,
-              isLoan: t.is_loan || false,
-              loanPerson: t.loan_person || undefined,
-              loanStatus: t.loan_status || undefined,
-              loanSettledDate: t.loan_settled_date || undefined,
-            };
-          })
+          transactionsData.map((t) => ({ ...mapTransaction(t), tagIds: tagIdsByTransaction.get(t.id) }))
         );
       }
 
@@ -220,9 +936,6 @@ export function TransactionProvider({ children }: { children: ReactNode }) {
       if (remindersData) {
         setReminders(
           remindersData.map((r) => {
-            const category = validCategories.includes(r.category as TransactionCategory) 
-              ? (r.category as TransactionCategory) 
-              : 'other';
             return {
               id: r.id,
               title: r.title,
@@ -230,7 +943,7 @@ export function TransactionProvider({ children }: { children: ReactNode }) {
               amount: Number(r.amount),
               type: r.is_recurring ? 'monthly' : 'single',
               dueDay: new Date(r.due_date).getDate(),
-              category,
+              category: r.category,
               isActive: !r.is_paid,
               createdAt: r.created_at,
             };
@@ -254,15 +967,119 @@ export function TransactionProvider({ children }: { children: ReactNode }) {
               nome: i.name,
               tipo,
               valorInvestido: Number(i.initial_value),
+              valorAtual: Number(i.current_value),
               dataInvestimento: i.start_date,
               jaInvestido: i.status === 'completed',
               descricao: i.description || undefined,
               detalhesEspecificos: i.specific_details || undefined,
+              goalId: i.goal_id || undefined,
+              classe: i.asset_class || undefined,
+              notaCorretagem: i.brokerage_note || undefined,
+              transactionId: i.transaction_id || undefined,
               createdAt: i.created_at,
             };
           })
         );
       }
+
+      const { data: categoriesData } = await supabase
+        .from('categories')
+        .select('*')
+        .order('created_at', { ascending: true });
+
+      if (categoriesData) {
+        setCategories(categoriesData.length > 0 ? categoriesData.map(mapCategory) : await seedCategories());
+      }
+
+      const { data: installmentPlansData } = await supabase
+        .from('installment_plans')
+        .select('*')
+        .order('first_date', { ascending: false });
+
+      if (installmentPlansData) {
+        setInstallmentPlans(installmentPlansData.map(mapInstallmentPlan));
+      }
+
+      const { data: exchangeRatesData } = await supabase
+        .from('exchange_rates')
+        .select('*')
+        .order('date', { ascending: false });
+
+      if (exchangeRatesData) {
+        setExchangeRates(exchangeRatesData.map(mapExchangeRate));
+      }
+
+      const { data: indexRatesData } = await supabase
+        .from('index_rates')
+        .select('*')
+        .order('date', { ascending: false });
+
+      if (indexRatesData) {
+        setIndexRates(indexRatesData.map(mapIndexRate));
+      }
+
+      const { data: budgetsData } = await supabase
+        .from('budgets')
+        .select('*')
+        .order('month', { ascending: false });
+
+      if (budgetsData) {
+        setBudgets(budgetsData.map(mapBudget));
+      }
+
+      const { data: envelopesData } = await supabase
+        .from('envelopes')
+        .select('*')
+        .order('created_at', { ascending: true });
+
+      if (envelopesData) {
+        setEnvelopes(envelopesData.map(mapEnvelope));
+      }
+
+      const { data: envelopeMovementsData } = await supabase
+        .from('envelope_movements')
+        .select('*')
+        .order('date', { ascending: false });
+
+      if (envelopeMovementsData) {
+        setEnvelopeMovements(envelopeMovementsData.map(mapEnvelopeMovement));
+      }
+
+      const { data: goalsData } = await supabase
+        .from('goals')
+        .select('*')
+        .order('created_at', { ascending: true });
+
+      if (goalsData) {
+        setGoals(goalsData.map(mapGoal));
+      }
+
+      const { data: investmentValuationsData } = await supabase
+        .from('investment_valuations')
+        .select('*')
+        .order('date', { ascending: false });
+
+      if (investmentValuationsData) {
+        setInvestmentValuations(investmentValuationsData.map(mapInvestmentValuation));
+      }
+
+      const { data: investmentMovementsData } = await supabase
+        .from('investment_movements')
+        .select('*')
+        .order('date', { ascending: false });
+
+      if (investmentMovementsData) {
+        setInvestmentMovements(investmentMovementsData.map(mapInvestmentMovement));
+      }
+
+      const { data: netWorthSnapshotsData } = await supabase
+        .from('net_worth_snapshots')
+        .select('*')
+        .order('month', { ascending: true });
+
+      if (netWorthSnapshotsData) {
+        setNetWorthSnapshots(netWorthSnapshotsData.map(mapNetWorthSnapshot));
+      }
     } catch (error) {
       if (import.meta.env.DEV) console.error('Error fetching data:', error);
       loadFromCache();
@@ -276,16 +1093,22 @@ export function TransactionProvider({ children }: { children: ReactNode }) {
   const addTransaction = async (transaction: Omit<Transaction, 'id' | 'createdAt'>) => {
     if (!user) return;
 
+    const currency = transaction.currency || getAccountCurrency(accounts, transaction.accountId, baseCurrency);
     const dbPayload = {
       description: transaction.description,
       amount: transaction.amount,
       type: transaction.type,
       category: transaction.category,
       date: transaction.date,
+      currency,
+      account_id: transaction.accountId || null,
+      splits: toSplitsJson(transaction.splits),
       is_loan: transaction.isLoan || false,
       loan_person: transaction.loanPerson || null,
       loan_status: transaction.loanStatus || null,
       loan_settled_date: transaction.loanSettledDate || null,
+      loan_due_date: transaction.loanDueDate || null,
+      goal_id: transaction.goalId || null,
     };
 
     if (!isOnline) {
@@ -293,10 +1116,14 @@ export function TransactionProvider({ children }: { children: ReactNode }) {
       const newTransaction: Transaction = {
         id: tempId,
         ...transaction,
+        currency,
         createdAt: new Date().toISOString(),
       };
       setTransactions((prev) => [newTransaction, ...prev]);
       enqueue({ table: 'transactions', action: 'insert', payload: dbPayload, tempId });
+      if (transaction.tagIds?.length) {
+        enqueue({ table: 'transaction_tags', action: 'insert', payload: toTagRows(tempId, transaction.tagIds) });
+      }
       toast({ title: 'Salvo offline', description: 'Será sincronizado quando voltar online.' });
       return tempId;
     }
@@ -313,72 +1140,483 @@ export function TransactionProvider({ children }: { children: ReactNode }) {
     }
 
     if (data) {
-      const d = data as any;
-      const category = validCategories.includes(d.category as TransactionCategory) 
-        ? (d.category as TransactionCategory) : 'other';
-      const newTransaction: Transaction = {
-        id: d.id, type: d.type as 'income' | 'expense', category,
-        amount: Number(d.amount), description: d.description, date: d.date,
-        createdAt: d.created_at, isLoan: d.is_loan || false,
-        loanPerson: d.loan_person || undefined, loanStatus: d.loan_status || undefined,
-        loanSettledDate: d.loan_settled_date || undefined,
-      };
-      setTransactions((prev) => [newTransaction, ...prev]);
-      return d.id;
+      if (transaction.tagIds?.length) {
+        const { error: tagsError } = await supabase
+          .from('transaction_tags')
+          .insert(toTagRows(data.id, transaction.tagIds).map((row) => ({ user_id: user.id, ...row })));
+        if (tagsError && import.meta.env.DEV) console.error('Error tagging transaction:', tagsError);
+      }
+      setTransactions((prev) => [{ ...mapTransaction(data), tagIds: transaction.tagIds }, ...prev]);
+      return data.id;
     }
   };
 
-  const updateTransaction = async (id: string, updates: Partial<Transaction>) => {
+  /** Replaces all tags of a transaction with `tagIds`. */
+  const replaceTransactionTags = async (id: string, tagIds: string[]) => {
     if (!user) return;
 
-    const updateData: Record<string, unknown> = {};
-    if (updates.description !== undefined) updateData.description = updates.description;
-    if (updates.amount !== undefined) updateData.amount = updates.amount;
-    if (updates.type !== undefined) updateData.type = updates.type;
-    if (updates.category !== undefined) updateData.category = updates.category;
-    if (updates.date !== undefined) updateData.date = updates.date;
-    if (updates.isLoan !== undefined) updateData.is_loan = updates.isLoan;
-    if (updates.loanPerson !== undefined) updateData.loan_person = updates.loanPerson;
-    if (updates.loanStatus !== undefined) updateData.loan_status = updates.loanStatus;
-    if (updates.loanSettledDate !== undefined) updateData.loan_settled_date = updates.loanSettledDate;
-
-    // Optimistic update
-    setTransactions((prev) => prev.map((t) => (t.id === id ? { ...t, ...updates } : t)));
-
     if (!isOnline) {
       if (!id.startsWith('temp_')) {
-        enqueue({ table: 'transactions', action: 'update', payload: updateData, entityId: id });
+        enqueue({ table: 'transaction_tags', action: 'delete', entityId: id, matchColumn: 'transaction_id' });
+        if (tagIds.length > 0) {
+          enqueue({ table: 'transaction_tags', action: 'insert', payload: toTagRows(id, tagIds) });
+        }
       }
       return;
     }
 
-    const { error } = await supabase.from('transactions').update(updateData).eq('id', id);
-    if (error && import.meta.env.DEV) console.error('Error updating transaction:', error);
+    const { error } = await supabase.from('transaction_tags').delete().eq('transaction_id', id);
+    if (error && import.meta.env.DEV) console.error('Error untagging transaction:', error);
+    if (tagIds.length === 0) return;
+
+    const { error: insertError } = await supabase
+      .from('transaction_tags')
+      .insert(toTagRows(id, tagIds).map((row) => ({ user_id: user.id, ...row })));
+    if (insertError && import.meta.env.DEV) console.error('Error tagging transaction:', insertError);
   };
 
-  const deleteTransaction = async (id: string) => {
-    if (!user) return;
+  /**
+   * Tag ids for the given names, creating the tags that don't exist yet.
+   * Names are normalized, so "Viagem 2026" and "viagem-2026" are the same tag.
+   */
+  const ensureTags = async (names: string[]): Promise<string[]> => {
+    if (!user) return [];
 
-    // Optimistic delete
-    setTransactions((prev) => prev.filter((t) => t.id !== id));
+    const normalized = Array.from(new Set(names.map(normalizeTagName).filter(Boolean)));
+    const existing = normalized
+      .map((name) => tags.find((t) => t.name === name))
+      .filter((t): t is Tag => !!t);
+    const missing = normalized.filter((name) => !existing.some((t) => t.name === name));
+    if (missing.length === 0) return existing.map((t) => t.id);
 
     if (!isOnline) {
-      if (!id.startsWith('temp_')) {
-        enqueue({ table: 'transactions', action: 'delete', entityId: id });
-      }
-      return;
+      const createdAt = new Date().toISOString();
+      const created = missing.map((name) => ({ id: generateTempId(), name, createdAt }));
+      setTags((prev) => [...prev, ...created]);
+      created.forEach((tag) => enqueue({ table: 'tags', action: 'insert', payload: { name: tag.name }, tempId: tag.id }));
+      return [...existing, ...created].map((t) => t.id);
     }
 
-    const { error } = await supabase.from('transactions').delete().eq('id', id);
-    if (error && import.meta.env.DEV) console.error('Error deleting transaction:', error);
+    // Upsert so a tag created meanwhile on another device is reused
+    const { data, error } = await supabase
+      .from('tags')
+      .upsert(missing.map((name) => ({ user_id: user.id, name })), { onConflict: 'user_id,name' })
+      .select();
+    if (error) {
+      if (import.meta.env.DEV) console.error('Error creating tags:', error);
+      return existing.map((t) => t.id);
+    }
+
+    const created = (data || []).map(mapTag);
+    setTags((prev) => [...prev.filter((t) => !created.some((c) => c.id === t.id)), ...created]);
+    return [...existing, ...created].map((t) => t.id);
   };
 
-  const addReminder = async (reminder: Omit<Reminder, 'id' | 'createdAt'>) => {
+  /**
+   * Uploads a receipt or document for a transaction. Offline, or while the
+   * transaction itself is still waiting to sync, the file is queued.
+   */
+  const addAttachment = async (transactionId: string, file: File) => {
     if (!user) return;
 
-    const dueDate = new Date();
-    dueDate.setDate(reminder.dueDay || 1);
-
+    const invalid = getAttachmentError(file);
+    if (invalid) {
+      toast({ title: 'Anexo não adicionado', description: invalid, variant: 'destructive' });
+      return;
+    }
+
+    const prepared = await prepareAttachment(file);
+    const row = {
+      transaction_id: transactionId,
+      file_name: prepared.fileName,
+      mime_type: prepared.mimeType,
+      size_bytes: prepared.blob.size,
+    };
+
+    if (!isOnline || transactionId.startsWith('temp_')) {
+      if (prepared.blob.size > MAX_OFFLINE_ATTACHMENT_BYTES) {
+        toast({
+          title: 'Arquivo grande demais',
+          description: 'Sem conexão só dá para guardar anexos de até 1,5 MB. Tente de novo quando estiver online.',
+          variant: 'destructive',
+        });
+        return;
+      }
+      const tempId = generateTempId();
+      const dataUrl = await blobToDataUrl(prepared.blob);
+      setAttachments((prev) => [
+        ...prev,
+        {
+          id: tempId,
+          transactionId,
+          storagePath: '',
+          fileName: row.file_name,
+          mimeType: row.mime_type,
+          size: row.size_bytes,
+          localDataUrl: dataUrl,
+          createdAt: new Date().toISOString(),
+        },
+      ]);
+      enqueue({ table: 'transaction_attachments', action: 'insert', payload: { ...row, data_url: dataUrl }, tempId });
+      return;
+    }
+
+    const storagePath = buildAttachmentPath(user.id, transactionId, prepared.mimeType);
+    const { error: uploadError } = await supabase.storage
+      .from(ATTACHMENTS_BUCKET)
+      .upload(storagePath, prepared.blob, { contentType: prepared.mimeType });
+    if (uploadError) {
+      if (import.meta.env.DEV) console.error('Error uploading attachment:', uploadError);
+      toast({ title: 'Erro ao enviar anexo', description: 'Tente novamente.', variant: 'destructive' });
+      return;
+    }
+
+    const { data, error } = await supabase
+      .from('transaction_attachments')
+      .insert({ user_id: user.id, ...row, storage_path: storagePath })
+      .select()
+      .single();
+    if (error) {
+      if (import.meta.env.DEV) console.error('Error saving attachment:', error);
+      await supabase.storage.from(ATTACHMENTS_BUCKET).remove([storagePath]);
+      return;
+    }
+    if (data) setAttachments((prev) => [...prev, mapAttachment(data)]);
+  };
+
+  const deleteAttachment = async (id: string) => {
+    if (!user) return;
+
+    const attachment = attachments.find((a) => a.id === id);
+    if (!attachment) return;
+    setAttachments((prev) => prev.filter((a) => a.id !== id));
+
+    if (!isOnline) {
+      if (!id.startsWith('temp_')) {
+        enqueue({ table: 'transaction_attachments', action: 'delete', entityId: id });
+      }
+      return;
+    }
+
+    const { error: storageError } = await supabase.storage.from(ATTACHMENTS_BUCKET).remove([attachment.storagePath]);
+    if (storageError && import.meta.env.DEV) console.error('Error deleting attachment file:', storageError);
+    const { error } = await supabase.from('transaction_attachments').delete().eq('id', id);
+    if (error && import.meta.env.DEV) console.error('Error deleting attachment:', error);
+  };
+
+  /** Short-lived link to view a file; the bucket is private. Stable so views can depend on it. */
+  const getAttachmentUrl = useCallback(async (attachment: Attachment): Promise<string | null> => {
+    if (attachment.localDataUrl) return attachment.localDataUrl;
+    const { data, error } = await supabase.storage
+      .from(ATTACHMENTS_BUCKET)
+      .createSignedUrl(attachment.storagePath, 60 * 60);
+    if (error) {
+      if (import.meta.env.DEV) console.error('Error signing attachment URL:', error);
+      return null;
+    }
+    return data.signedUrl;
+  }, []);
+
+  /** Settings and rates are upserted, which the offline queue can't replay, so they need a connection. */
+  const requireOnlineForSettings = () => {
+    if (isOnline) return true;
+    toast({
+      title: 'Sem conexão',
+      description: 'Configurações só podem ser alteradas com internet.',
+      variant: 'destructive',
+    });
+    return false;
+  };
+
+  const updateBaseCurrency = async (currency: CurrencyCode) => {
+    if (!user || !requireOnlineForSettings()) return;
+
+    const previous = baseCurrency;
+    setBaseCurrency(currency);
+
+    const { error } = await supabase
+      .from('user_settings')
+      .upsert({ user_id: user.id, base_currency: currency }, { onConflict: 'user_id' });
+    if (error) {
+      if (import.meta.env.DEV) console.error('Error updating base currency:', error);
+      setBaseCurrency(previous);
+    }
+  };
+
+  /** Saves rates typed in or read from a file; a rate for a pair and date already saved is replaced. Returns how many were saved. */
+  const importExchangeRates = async (rows: ParsedRateRow[]): Promise<number> => {
+    if (!user || rows.length === 0 || !requireOnlineForSettings()) return 0;
+
+    const { data, error } = await supabase
+      .from('exchange_rates')
+      .upsert(
+        rows.map((r) => ({
+          user_id: user.id,
+          currency: r.currency,
+          quote_currency: r.quoteCurrency,
+          date: r.date,
+          rate: r.rate,
+        })),
+        { onConflict: 'user_id,currency,quote_currency,date' }
+      )
+      .select();
+    if (error) {
+      if (import.meta.env.DEV) console.error('Error saving exchange rates:', error);
+      toast({ title: 'Erro ao salvar cotações', description: 'Tente novamente.', variant: 'destructive' });
+      return 0;
+    }
+
+    const saved = (data || []).map(mapExchangeRate);
+    setExchangeRates((prev) =>
+      [...prev.filter((r) => !saved.some((s) => s.id === r.id)), ...saved].sort((a, b) => b.date.localeCompare(a.date))
+    );
+    return saved.length;
+  };
+
+  const deleteExchangeRate = async (id: string) => {
+    if (!user) return;
+
+    setExchangeRates((prev) => prev.filter((r) => r.id !== id));
+
+    if (!isOnline) {
+      enqueue({ table: 'exchange_rates', action: 'delete', entityId: id });
+      return;
+    }
+
+    const { error } = await supabase.from('exchange_rates').delete().eq('id', id);
+    if (error && import.meta.env.DEV) console.error('Error deleting exchange rate:', error);
+  };
+
+  /** Saves CDI, Selic or IPCA rates typed in or read from a file; a rate already saved for the index and date is replaced. Returns how many were saved. */
+  const importIndexRates = async (rows: ParsedIndexRow[]): Promise<number> => {
+    if (!user || rows.length === 0 || !requireOnlineForSettings()) return 0;
+
+    const { data, error } = await supabase
+      .from('index_rates')
+      .upsert(
+        rows.map((r) => ({ user_id: user.id, index: r.index, date: r.date, rate: r.rate })),
+        { onConflict: 'user_id,index,date' }
+      )
+      .select();
+    if (error) {
+      if (import.meta.env.DEV) console.error('Error saving index rates:', error);
+      toast({ title: 'Erro ao salvar índices', description: 'Tente novamente.', variant: 'destructive' });
+      return 0;
+    }
+
+    const saved = (data || []).map(mapIndexRate);
+    setIndexRates((prev) =>
+      [...prev.filter((r) => !saved.some((s) => s.id === r.id)), ...saved].sort((a, b) => b.date.localeCompare(a.date))
+    );
+    return saved.length;
+  };
+
+  const deleteIndexRate = async (id: string) => {
+    if (!user) return;
+
+    setIndexRates((prev) => prev.filter((r) => r.id !== id));
+
+    if (!isOnline) {
+      enqueue({ table: 'index_rates', action: 'delete', entityId: id });
+      return;
+    }
+
+    const { error } = await supabase.from('index_rates').delete().eq('id', id);
+    if (error && import.meta.env.DEV) console.error('Error deleting index rate:', error);
+  };
+
+  const updateTransaction = async (id: string, updates: Partial<Transaction>) => {
+    if (!user) return;
+
+    const updateData: Record<string, unknown> = {};
+    if (updates.description !== undefined) updateData.description = updates.description;
+    if (updates.amount !== undefined) updateData.amount = updates.amount;
+    if (updates.type !== undefined) updateData.type = updates.type;
+    if (updates.category !== undefined) updateData.category = updates.category;
+    if (updates.date !== undefined) updateData.date = updates.date;
+    if (updates.currency !== undefined) updateData.currency = updates.currency;
+    if ('accountId' in updates) updateData.account_id = updates.accountId || null;
+    if ('splits' in updates) updateData.splits = toSplitsJson(updates.splits);
+    if (updates.isLoan !== undefined) updateData.is_loan = updates.isLoan;
+    if (updates.loanPerson !== undefined) updateData.loan_person = updates.loanPerson;
+    if (updates.loanStatus !== undefined) updateData.loan_status = updates.loanStatus;
+    if (updates.loanSettledDate !== undefined) updateData.loan_settled_date = updates.loanSettledDate;
+    if ('loanDueDate' in updates) updateData.loan_due_date = updates.loanDueDate || null;
+    if ('goalId' in updates) updateData.goal_id = updates.goalId || null;
+
+    // Amount, date and description are shared by both legs of a transfer
+    const transferId = transactions.find((t) => t.id === id)?.transferId;
+    const sharedData: Record<string, unknown> = {};
+    const sharedUpdates: Partial<Transaction> = {};
+    if (transferId) {
+      for (const key of ['description', 'amount', 'date'] as const) {
+        if (key in updateData) {
+          sharedData[key] = updateData[key];
+          delete updateData[key];
+          Object.assign(sharedUpdates, { [key]: updates[key] });
+        }
+      }
+    }
+
+    // Optimistic update
+    setTransactions((prev) =>
+      prev.map((t) => {
+        if (t.id === id) return { ...t, ...updates };
+        if (transferId && t.transferId === transferId) return { ...t, ...sharedUpdates };
+        return t;
+      })
+    );
+
+    if (updates.tagIds !== undefined) await replaceTransactionTags(id, updates.tagIds);
+
+    if (!isOnline) {
+      if (!id.startsWith('temp_')) {
+        if (Object.keys(updateData).length > 0) {
+          enqueue({ table: 'transactions', action: 'update', payload: updateData, entityId: id });
+        }
+        if (transferId && Object.keys(sharedData).length > 0) {
+          enqueue({
+            table: 'transactions',
+            action: 'update',
+            payload: sharedData,
+            entityId: transferId,
+            matchColumn: 'transfer_id',
+          });
+        }
+      }
+      return;
+    }
+
+    if (Object.keys(updateData).length > 0) {
+      const { error } = await supabase.from('transactions').update(updateData).eq('id', id);
+      if (error && import.meta.env.DEV) console.error('Error updating transaction:', error);
+    }
+    if (transferId && Object.keys(sharedData).length > 0) {
+      const { error } = await supabase.from('transactions').update(sharedData).eq('transfer_id', transferId);
+      if (error && import.meta.env.DEV) console.error('Error updating transfer:', error);
+    }
+  };
+
+  const deleteTransaction = async (id: string) => {
+    if (!user) return;
+
+    // Deleting either leg of a transfer removes the whole transfer
+    const transferId = transactions.find((t) => t.id === id)?.transferId;
+    if (transferId) {
+      setTransactions((prev) => prev.filter((t) => t.transferId !== transferId));
+
+      if (!isOnline) {
+        if (!id.startsWith('temp_')) {
+          enqueue({ table: 'transactions', action: 'delete', entityId: transferId, matchColumn: 'transfer_id' });
+        }
+        return;
+      }
+
+      const { error } = await supabase.from('transactions').delete().eq('transfer_id', transferId);
+      if (error && import.meta.env.DEV) console.error('Error deleting transfer:', error);
+      return;
+    }
+
+    // Optimistic delete
+    setTransactions((prev) => prev.filter((t) => t.id !== id));
+
+    // Rows cascade with the transaction, but the stored files have to be removed explicitly
+    const files = attachments.filter((a) => a.transactionId === id);
+    setAttachments((prev) => prev.filter((a) => a.transactionId !== id));
+
+    if (!isOnline) {
+      if (!id.startsWith('temp_')) {
+        files
+          .filter((a) => !a.id.startsWith('temp_'))
+          .forEach((a) => enqueue({ table: 'transaction_attachments', action: 'delete', entityId: a.id }));
+        enqueue({ table: 'transactions', action: 'delete', entityId: id });
+      }
+      return;
+    }
+
+    if (files.length > 0) {
+      const { error } = await supabase.storage.from(ATTACHMENTS_BUCKET).remove(files.map((a) => a.storagePath));
+      if (error && import.meta.env.DEV) console.error('Error deleting attachment files:', error);
+    }
+
+    const { error } = await supabase.from('transactions').delete().eq('id', id);
+    if (error && import.meta.env.DEV) console.error('Error deleting transaction:', error);
+  };
+
+  const addTransfer = async (transfer: TransferInput) => {
+    if (!user) return;
+
+    // Both legs carry the same amount, so they must be in the same currency
+    const currency = getAccountCurrency(accounts, transfer.fromAccountId, baseCurrency);
+    if (currency !== getAccountCurrency(accounts, transfer.toAccountId, baseCurrency)) {
+      toast({
+        title: 'Moedas diferentes',
+        description: 'Transferências só podem ser feitas entre contas na mesma moeda.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    const transferId = crypto.randomUUID();
+    const shared = {
+      description: transfer.description,
+      amount: transfer.amount,
+      category: 'transfer' as const,
+      date: transfer.date,
+      currency,
+      transfer_id: transferId,
+      invoice_month: transfer.invoiceMonth || null,
+    };
+    // Both legs go in a single insert so a transfer is never left half-recorded
+    const rows = [
+      { ...shared, type: 'expense' as const, account_id: transfer.fromAccountId },
+      { ...shared, type: 'income' as const, account_id: transfer.toAccountId },
+    ];
+
+    if (!isOnline) {
+      const createdAt = new Date().toISOString();
+      const legs: Transaction[] = rows.map((row) => ({
+        id: generateTempId(),
+        type: row.type,
+        category: 'transfer',
+        amount: transfer.amount,
+        description: transfer.description,
+        date: transfer.date,
+        currency,
+        accountId: row.account_id,
+        transferId,
+        invoiceMonth: transfer.invoiceMonth,
+        createdAt,
+      }));
+      setTransactions((prev) => [...legs, ...prev]);
+      enqueue({ table: 'transactions', action: 'insert', payload: rows });
+      toast({ title: 'Salvo offline', description: 'Será sincronizado quando voltar online.' });
+      return legs[0].id;
+    }
+
+    const { data, error } = await supabase
+      .from('transactions')
+      .insert(rows.map((row) => ({ user_id: user.id, ...row })))
+      .select();
+
+    if (error) {
+      if (import.meta.env.DEV) console.error('Error adding transfer:', error);
+      return;
+    }
+
+    if (data) {
+      const legs = data.map(mapTransaction);
+      setTransactions((prev) => [...legs, ...prev]);
+      return legs.find((t) => t.type === 'expense')?.id;
+    }
+  };
+
+  const addReminder = async (reminder: Omit<Reminder, 'id' | 'createdAt'>) => {
+    if (!user) return;
+
+    const dueDate = new Date();
+    dueDate.setDate(reminder.dueDay || 1);
+
     const dbPayload = {
       title: reminder.title,
       amount: reminder.amount,
@@ -411,12 +1649,10 @@ export function TransactionProvider({ children }: { children: ReactNode }) {
     }
 
     if (data) {
-      const category = validCategories.includes(data.category as TransactionCategory) 
-        ? (data.category as TransactionCategory) : 'other';
       const newReminder: Reminder = {
         id: data.id, title: data.title, description: data.title,
         amount: Number(data.amount), type: data.is_recurring ? 'monthly' : 'single',
-        dueDay: new Date(data.due_date).getDate(), category,
+        dueDay: new Date(data.due_date).getDate(), category: data.category,
         isActive: !data.is_paid, createdAt: data.created_at,
       };
       setReminders((prev) => [newReminder, ...prev]);
@@ -494,11 +1730,15 @@ export function TransactionProvider({ children }: { children: ReactNode }) {
       name: investment.nome,
       type: investment.tipo,
       initial_value: investment.valorInvestido,
-      current_value: investment.valorInvestido,
+      current_value: investment.valorAtual ?? investment.valorInvestido,
       start_date: investment.dataInvestimento,
       status: investment.jaInvestido ? 'completed' : 'active',
       description: investment.descricao || null,
       specific_details: validateInvestmentDetails(investment.tipo, investment.detalhesEspecificos) || null,
+      goal_id: investment.goalId || null,
+      asset_class: investment.classe?.trim() || null,
+      brokerage_note: investment.notaCorretagem || null,
+      transaction_id: investment.transactionId || null,
     };
 
     if (!isOnline) {
@@ -509,7 +1749,7 @@ export function TransactionProvider({ children }: { children: ReactNode }) {
       setInvestments((prev) => [newInvestment, ...prev]);
       enqueue({ table: 'investments', action: 'insert', payload: dbPayload, tempId });
       toast({ title: 'Salvo offline', description: 'Será sincronizado quando voltar online.' });
-      return;
+      return tempId;
     }
 
     const { data, error } = await supabase
@@ -529,27 +1769,38 @@ export function TransactionProvider({ children }: { children: ReactNode }) {
         ? (d.type as InvestmentType) : 'outros';
       const newInvestment: Investment = {
         id: d.id, nome: d.name, tipo,
-        valorInvestido: Number(d.initial_value), dataInvestimento: d.start_date,
+        valorInvestido: Number(d.initial_value), valorAtual: Number(d.current_value), dataInvestimento: d.start_date,
         jaInvestido: d.status === 'completed', descricao: d.description || undefined,
-        detalhesEspecificos: d.specific_details || undefined, createdAt: d.created_at,
+        detalhesEspecificos: d.specific_details || undefined, goalId: d.goal_id || undefined,
+        classe: d.asset_class || undefined, notaCorretagem: d.brokerage_note || undefined,
+        transactionId: d.transaction_id || undefined, createdAt: d.created_at,
       };
       setInvestments((prev) => [newInvestment, ...prev]);
+      return newInvestment.id;
     }
   };
 
   const updateInvestment = async (id: string, updates: Partial<Investment>) => {
     if (!user) return;
 
+    // Until it is first valued, the current value follows the amount invested
+    const current = investments.find((i) => i.id === id);
+    if (current && updates.valorInvestido !== undefined && updates.valorAtual === undefined) {
+      const valorAtual = getValueOn({ ...current, ...updates }, investmentValuations, investmentMovements, toLocalDateString());
+      updates = { ...updates, valorAtual };
+    }
+
     const updateData: Record<string, unknown> = {};
     if (updates.nome !== undefined) updateData.name = updates.nome;
     if (updates.tipo !== undefined) updateData.type = updates.tipo;
-    if (updates.valorInvestido !== undefined) {
-      updateData.initial_value = updates.valorInvestido;
-      updateData.current_value = updates.valorInvestido;
-    }
+    if (updates.valorInvestido !== undefined) updateData.initial_value = updates.valorInvestido;
+    if (updates.valorAtual !== undefined) updateData.current_value = updates.valorAtual;
     if (updates.dataInvestimento !== undefined) updateData.start_date = updates.dataInvestimento;
     if (updates.jaInvestido !== undefined) updateData.status = updates.jaInvestido ? 'completed' : 'active';
     if (updates.descricao !== undefined) updateData.description = updates.descricao || null;
+    if ('goalId' in updates) updateData.goal_id = updates.goalId || null;
+    if ('classe' in updates) updateData.asset_class = updates.classe?.trim() || null;
+    if ('transactionId' in updates) updateData.transaction_id = updates.transactionId || null;
     if (updates.detalhesEspecificos !== undefined) {
       const tipo = updates.tipo || investments.find(i => i.id === id)?.tipo || 'outros';
       updateData.specific_details = validateInvestmentDetails(tipo, updates.detalhesEspecificos) || null;
@@ -572,6 +1823,8 @@ export function TransactionProvider({ children }: { children: ReactNode }) {
     if (!user) return;
 
     setInvestments((prev) => prev.filter((i) => i.id !== id));
+    setInvestmentValuations((prev) => prev.filter((v) => v.investmentId !== id));
+    setInvestmentMovements((prev) => prev.filter((m) => m.investmentId !== id));
 
     if (!isOnline) {
       if (!id.startsWith('temp_')) {
@@ -607,6 +1860,1267 @@ export function TransactionProvider({ children }: { children: ReactNode }) {
     }
   };
 
+  /** Mirrors the value worked out from valuations and movements into the investment's current value. */
+  const syncCurrentValue = async (
+    investmentId: string,
+    valuations: InvestmentValuation[],
+    movements: InvestmentMovement[]
+  ) => {
+    const investment = investments.find((i) => i.id === investmentId);
+    if (!investment) return;
+    const valorAtual = getValueOn(investment, valuations, movements, toLocalDateString());
+    if (valorAtual !== investment.valorAtual) await updateInvestment(investmentId, { valorAtual });
+  };
+
+  /** Records a market value; the latest one becomes the investment's current value. */
+  const addInvestmentValuation = async (valuation: Omit<InvestmentValuation, 'id' | 'createdAt'>) => {
+    if (!user) return;
+
+    const dbPayload = {
+      investment_id: valuation.investmentId,
+      date: valuation.date,
+      value: valuation.value,
+      source: valuation.source,
+    };
+
+    if (!isOnline) {
+      const tempId = generateTempId();
+      const newValuation: InvestmentValuation = { id: tempId, ...valuation, createdAt: new Date().toISOString() };
+      setInvestmentValuations((prev) => [newValuation, ...prev]);
+      enqueue({ table: 'investment_valuations', action: 'insert', payload: dbPayload, tempId });
+      await syncCurrentValue(valuation.investmentId, [newValuation, ...investmentValuations], investmentMovements);
+      toast({ title: 'Salvo offline', description: 'Será sincronizado quando voltar online.' });
+      return;
+    }
+
+    const { data, error } = await supabase
+      .from('investment_valuations')
+      .insert({ user_id: user.id, ...dbPayload })
+      .select()
+      .single();
+
+    if (error) {
+      if (import.meta.env.DEV) console.error('Error adding investment valuation:', error);
+      return;
+    }
+
+    if (data) {
+      const newValuation = mapInvestmentValuation(data);
+      setInvestmentValuations((prev) => [newValuation, ...prev]);
+      await syncCurrentValue(valuation.investmentId, [newValuation, ...investmentValuations], investmentMovements);
+    }
+  };
+
+  /** Deletes a valuation; the current value falls back to the latest one left, or to the amount invested. */
+  const deleteInvestmentValuation = async (id: string) => {
+    if (!user) return;
+
+    const valuation = investmentValuations.find((v) => v.id === id);
+    if (!valuation) return;
+    const remaining = investmentValuations.filter((v) => v.id !== id);
+
+    setInvestmentValuations(remaining);
+    await syncCurrentValue(valuation.investmentId, remaining, investmentMovements);
+
+    if (!isOnline) {
+      if (!id.startsWith('temp_')) {
+        enqueue({ table: 'investment_valuations', action: 'delete', entityId: id });
+      }
+      return;
+    }
+
+    const { error } = await supabase.from('investment_valuations').delete().eq('id', id);
+    if (error && import.meta.env.DEV) console.error('Error deleting investment valuation:', error);
+  };
+
+  /**
+   * Records a contribution, withdrawal, fee or income and moves the current
+   * value with it. With `createTransaction` the matching cash entry is added
+   * too, like markInvestmentAsDone: money in as an expense, money out as an income.
+   */
+  const addInvestmentMovement = async (
+    movement: Omit<InvestmentMovement, 'id' | 'createdAt' | 'transactionId'>,
+    createTransaction = false
+  ) => {
+    if (!user) return;
+
+    const investment = investments.find((i) => i.id === movement.investmentId);
+    if (!investment) return;
+
+    const transactionId = createTransaction
+      ? await addTransaction({
+          type: movement.type === 'contribution' || movement.type === 'fee' ? 'expense' : 'income',
+          category: 'investment',
+          amount: getMovementCash(movement),
+          description: `${movement.incomeType ? incomeTypeLabels[movement.incomeType] : movementTypeLabels[movement.type]} - ${investment.nome}`,
+          date: movement.date,
+        })
+      : undefined;
+
+    const dbPayload = {
+      investment_id: movement.investmentId,
+      type: movement.type,
+      date: movement.date,
+      amount: movement.amount,
+      quantity: movement.quantity ?? null,
+      unit_price: movement.unitPrice ?? null,
+      fees: movement.fees ?? 0,
+      income_type: movement.incomeType ?? null,
+      tax_withheld: movement.taxWithheld ?? 0,
+      note: movement.note || null,
+      brokerage_note: movement.brokerageNote || null,
+      transaction_id: transactionId || null,
+    };
+
+    if (!isOnline) {
+      const tempId = generateTempId();
+      const newMovement: InvestmentMovement = {
+        id: tempId, ...movement, transactionId, createdAt: new Date().toISOString(),
+      };
+      setInvestmentMovements((prev) => [newMovement, ...prev]);
+      enqueue({ table: 'investment_movements', action: 'insert', payload: dbPayload, tempId });
+      await syncCurrentValue(movement.investmentId, investmentValuations, [newMovement, ...investmentMovements]);
+      toast({ title: 'Salvo offline', description: 'Será sincronizado quando voltar online.' });
+      return;
+    }
+
+    const { data, error } = await supabase
+      .from('investment_movements')
+      .insert({ user_id: user.id, ...dbPayload })
+      .select()
+      .single();
+
+    if (error) {
+      if (import.meta.env.DEV) console.error('Error adding investment movement:', error);
+      return;
+    }
+
+    if (data) {
+      const newMovement = mapInvestmentMovement(data);
+      setInvestmentMovements((prev) => [newMovement, ...prev]);
+      await syncCurrentValue(movement.investmentId, investmentValuations, [newMovement, ...investmentMovements]);
+    }
+  };
+
+  /**
+   * Saves the trades of brokerage notes as stock buys and sells, oldest note
+   * first. Notes already imported are skipped. A ticker not held yet opens a
+   * new investment with its first buy; sells of tickers not held are skipped.
+   * When the trades cannot be saved, the new investments are removed again.
+   * Returns how many trades were saved.
+   */
+  const importBrokerageNotes = async (notes: BrokerageNote[], createTransactions: boolean): Promise<number> => {
+    if (!user || notes.length === 0) return 0;
+    if (!isOnline) {
+      toast({
+        title: 'Sem conexão',
+        description: 'Notas de corretagem só podem ser importadas com internet.',
+        variant: 'destructive',
+      });
+      return 0;
+    }
+
+    // Notes already imported (by number, or by date and trades) are left out
+    const imported = getImportedNoteKeys(investments, investmentMovements);
+    const fresh = notes.filter((note) => !imported.has(getNoteKey(note)));
+    if (fresh.length === 0) return 0;
+
+    // State only updates after this returns, so new investments are tracked here
+    const known = [...investments];
+    const payloads: TablesInsert<'investment_movements'>[] = [];
+    // Keyed by the movement id generated here, which the insert keeps
+    const pendingTransactions = new Map<string, Omit<Transaction, 'id' | 'createdAt'>>();
+    const openings: { id: string; transactionId?: string }[] = [];
+    let saved = 0;
+
+    for (const note of [...fresh].sort((a, b) => a.date.localeCompare(b.date))) {
+      const key = getNoteKey(note);
+      for (const trade of note.trades.filter((t) => t.ticker)) {
+        const investment = findStockInvestment(known, trade.ticker);
+        if (!investment && trade.side === 'sell') continue;
+
+        if (!investment) {
+          const opening: Omit<Investment, 'id' | 'createdAt'> = {
+            nome: trade.ticker,
+            tipo: 'acoes',
+            valorInvestido: trade.amount + trade.fees,
+            dataInvestimento: note.date,
+            jaInvestido: true,
+            detalhesEspecificos: {
+              ticker: trade.ticker,
+              quantidade: trade.quantity,
+              precoMedio: (trade.amount + trade.fees) / trade.quantity,
+            },
+            notaCorretagem: key,
+          };
+          const id = await addInvestment(opening);
+          if (!id) continue;
+          const transactionId = createTransactions
+            ? await addTransaction({
+                type: 'expense',
+                category: 'investment',
+                amount: opening.valorInvestido,
+                description: opening.nome,
+                date: note.date,
+              })
+            : undefined;
+          if (transactionId) await updateInvestment(id, { transactionId });
+          openings.push({ id, transactionId });
+          known.push({ id, ...opening, valorAtual: opening.valorInvestido, transactionId, createdAt: new Date().toISOString() });
+          saved++;
+          continue;
+        }
+
+        const movement = {
+          type: (trade.side === 'buy' ? 'contribution' : 'withdrawal') as InvestmentMovementType,
+          amount: trade.amount,
+          fees: trade.fees,
+        };
+        const movementId = crypto.randomUUID();
+        payloads.push({
+          id: movementId,
+          user_id: user.id,
+          investment_id: investment.id,
+          type: movement.type,
+          date: note.date,
+          amount: trade.amount,
+          quantity: trade.quantity,
+          unit_price: trade.unitPrice,
+          fees: trade.fees,
+          brokerage_note: key,
+        });
+        pendingTransactions.set(movementId, {
+          type: trade.side === 'buy' ? 'expense' : 'income',
+          category: 'investment',
+          amount: getMovementCash(movement),
+          description: `${movementTypeLabels[movement.type]} - ${investment.nome}`,
+          date: note.date,
+        });
+      }
+    }
+
+    if (payloads.length === 0) return saved;
+    const { data, error } = await supabase.from('investment_movements').insert(payloads).select();
+    if (error) {
+      if (import.meta.env.DEV) console.error('Error importing brokerage notes:', error);
+      // Opening lots carry the note key, so they are undone for the notes to be imported again
+      for (const opening of openings) {
+        await deleteInvestment(opening.id);
+        if (opening.transactionId) await deleteTransaction(opening.transactionId);
+      }
+      toast({ title: 'Erro ao importar notas', description: 'Tente novamente.', variant: 'destructive' });
+      return 0;
+    }
+
+    // Cash entries only once the movements are saved, so a failed insert leaves none behind
+    const added = (data || []).map(mapInvestmentMovement);
+    if (createTransactions) {
+      for (const m of added) {
+        const pending = pendingTransactions.get(m.id);
+        const transactionId = pending ? await addTransaction(pending) : undefined;
+        if (!transactionId) continue;
+        m.transactionId = transactionId;
+        const { error: linkError } = await supabase
+          .from('investment_movements')
+          .update({ transaction_id: transactionId })
+          .eq('id', m.id);
+        if (linkError && import.meta.env.DEV) console.error('Error linking movement transaction:', linkError);
+      }
+    }
+
+    const movements = [...added, ...investmentMovements];
+    setInvestmentMovements((prev) => [...added, ...prev]);
+    for (const id of new Set(added.map((m) => m.investmentId))) {
+      const investment = known.find((i) => i.id === id);
+      if (!investment) continue;
+      const valorAtual = getValueOn(investment, investmentValuations, movements, toLocalDateString());
+      if (valorAtual !== investment.valorAtual) await updateInvestment(id, { valorAtual });
+    }
+    return saved + added.length;
+  };
+
+  /** Deletes a movement together with the cash entry created for it. */
+  const deleteInvestmentMovement = async (id: string) => {
+    if (!user) return;
+
+    const movement = investmentMovements.find((m) => m.id === id);
+    if (!movement) return;
+    const remaining = investmentMovements.filter((m) => m.id !== id);
+
+    setInvestmentMovements(remaining);
+    await syncCurrentValue(movement.investmentId, investmentValuations, remaining);
+    if (movement.transactionId) await deleteTransaction(movement.transactionId);
+
+    if (!isOnline) {
+      if (!id.startsWith('temp_')) {
+        enqueue({ table: 'investment_movements', action: 'delete', entityId: id });
+      }
+      return;
+    }
+
+    const { error } = await supabase.from('investment_movements').delete().eq('id', id);
+    if (error && import.meta.env.DEV) console.error('Error deleting investment movement:', error);
+  };
+
+  const addAccount = async (account: Omit<Account, 'id' | 'createdAt'>) => {
+    if (!user) return;
+
+    const dbPayload = {
+      name: account.name,
+      type: account.type,
+      initial_balance: account.initialBalance,
+      currency: account.currency,
+      color: account.color || null,
+      is_archived: account.isArchived,
+      closing_day: account.closingDay ?? null,
+      due_day: account.dueDay ?? null,
+      credit_limit: account.creditLimit ?? null,
+    };
+
+    if (!isOnline) {
+      const tempId = generateTempId();
+      const newAccount: Account = { id: tempId, ...account, createdAt: new Date().toISOString() };
+      setAccounts((prev) => [...prev, newAccount]);
+      enqueue({ table: 'accounts', action: 'insert', payload: dbPayload, tempId });
+      toast({ title: 'Salvo offline', description: 'Será sincronizado quando voltar online.' });
+      return tempId;
+    }
+
+    const { data, error } = await supabase
+      .from('accounts')
+      .insert({ user_id: user.id, ...dbPayload })
+      .select()
+      .single();
+
+    if (error) {
+      if (import.meta.env.DEV) console.error('Error adding account:', error);
+      return;
+    }
+
+    if (data) {
+      setAccounts((prev) => [...prev, mapAccount(data)]);
+      return data.id;
+    }
+  };
+
+  const updateAccount = async (id: string, updates: Partial<Account>) => {
+    if (!user) return;
+
+    const updateData: Record<string, unknown> = {};
+    if (updates.name !== undefined) updateData.name = updates.name;
+    if (updates.type !== undefined) updateData.type = updates.type;
+    if (updates.initialBalance !== undefined) updateData.initial_balance = updates.initialBalance;
+    if (updates.currency !== undefined) updateData.currency = updates.currency;
+    if (updates.color !== undefined) updateData.color = updates.color || null;
+    if (updates.isArchived !== undefined) updateData.is_archived = updates.isArchived;
+    if ('closingDay' in updates) updateData.closing_day = updates.closingDay ?? null;
+    if ('dueDay' in updates) updateData.due_day = updates.dueDay ?? null;
+    if ('creditLimit' in updates) updateData.credit_limit = updates.creditLimit ?? null;
+
+    setAccounts((prev) => prev.map((a) => (a.id === id ? { ...a, ...updates } : a)));
+
+    if (!isOnline) {
+      if (!id.startsWith('temp_')) {
+        enqueue({ table: 'accounts', action: 'update', payload: updateData, entityId: id });
+      }
+      return;
+    }
+
+    const { error } = await supabase.from('accounts').update(updateData).eq('id', id);
+    if (error && import.meta.env.DEV) console.error('Error updating account:', error);
+  };
+
+  const deleteAccount = async (id: string) => {
+    if (!user) return;
+
+    // Entries stay, they just lose the link (ON DELETE SET NULL)
+    setAccounts((prev) => prev.filter((a) => a.id !== id));
+    setTransactions((prev) => prev.map((t) => (t.accountId === id ? { ...t, accountId: undefined } : t)));
+
+    if (!isOnline) {
+      if (!id.startsWith('temp_')) {
+        enqueue({ table: 'accounts', action: 'delete', entityId: id });
+      }
+      return;
+    }
+
+    const { error } = await supabase.from('accounts').delete().eq('id', id);
+    if (error && import.meta.env.DEV) console.error('Error deleting account:', error);
+  };
+
+  const addInstallmentPlan = async (plan: Omit<InstallmentPlan, 'id' | 'createdAt'>) => {
+    if (!user) return;
+
+    const dbPayload = {
+      description: plan.description,
+      total_amount: plan.totalAmount,
+      installment_count: plan.installmentCount,
+      first_date: plan.firstDate,
+      category: plan.category,
+      account_id: plan.accountId || null,
+    };
+    const currency = getAccountCurrency(accounts, plan.accountId, baseCurrency);
+    const entries = buildInstallmentEntries(plan).map((entry) => ({ ...entry, currency }));
+
+    if (!isOnline) {
+      const tempId = generateTempId();
+      const createdAt = new Date().toISOString();
+      setInstallmentPlans((prev) => [{ id: tempId, ...plan, createdAt }, ...prev]);
+      setTransactions((prev) => [
+        ...entries.map((entry) => ({ id: generateTempId(), ...entry, installmentPlanId: tempId, createdAt })),
+        ...prev,
+      ]);
+      enqueue({ table: 'installment_plans', action: 'insert', payload: dbPayload, tempId });
+      enqueue({ table: 'transactions', action: 'insert', payload: entries.map((e) => toInstallmentRow(e, tempId)) });
+      toast({ title: 'Salvo offline', description: 'Será sincronizado quando voltar online.' });
+      return tempId;
+    }
+
+    const { data, error } = await supabase
+      .from('installment_plans')
+      .insert({ user_id: user.id, ...dbPayload })
+      .select()
+      .single();
+
+    if (error || !data) {
+      if (import.meta.env.DEV) console.error('Error adding installment plan:', error);
+      return;
+    }
+
+    const { data: entriesData, error: entriesError } = await supabase
+      .from('transactions')
+      .insert(entries.map((e) => ({ user_id: user.id, ...toInstallmentRow(e, data.id) })))
+      .select();
+
+    if (entriesError) {
+      // Don't leave a plan without its installments behind
+      if (import.meta.env.DEV) console.error('Error adding installments:', entriesError);
+      await supabase.from('installment_plans').delete().eq('id', data.id);
+      return;
+    }
+
+    setInstallmentPlans((prev) => [mapInstallmentPlan(data), ...prev]);
+    if (entriesData) setTransactions((prev) => [...entriesData.map(mapTransaction), ...prev]);
+    return data.id;
+  };
+
+  /** Updates the plan and regenerates all of its installments from it. */
+  const updateInstallmentPlan = async (id: string, updates: Partial<InstallmentPlan>) => {
+    if (!user) return;
+
+    const current = installmentPlans.find((p) => p.id === id);
+    if (!current) return;
+    const plan = { ...current, ...updates };
+
+    const updateData: Record<string, unknown> = {};
+    if (updates.description !== undefined) updateData.description = updates.description;
+    if (updates.totalAmount !== undefined) updateData.total_amount = updates.totalAmount;
+    if (updates.installmentCount !== undefined) updateData.installment_count = updates.installmentCount;
+    if (updates.firstDate !== undefined) updateData.first_date = updates.firstDate;
+    if (updates.category !== undefined) updateData.category = updates.category;
+    if ('accountId' in updates) updateData.account_id = updates.accountId || null;
+
+    const currency = getAccountCurrency(accounts, plan.accountId, baseCurrency);
+    const entries = buildInstallmentEntries(plan).map((entry) => ({ ...entry, currency }));
+    const createdAt = new Date().toISOString();
+
+    setInstallmentPlans((prev) => prev.map((p) => (p.id === id ? plan : p)));
+    setTransactions((prev) => [
+      ...entries.map((entry) => ({ id: generateTempId(), ...entry, installmentPlanId: id, createdAt })),
+      ...prev.filter((t) => t.installmentPlanId !== id),
+    ]);
+
+    if (!isOnline) {
+      if (!id.startsWith('temp_')) {
+        enqueue({ table: 'installment_plans', action: 'update', payload: updateData, entityId: id });
+        enqueue({ table: 'transactions', action: 'delete', entityId: id, matchColumn: 'installment_plan_id' });
+        enqueue({ table: 'transactions', action: 'insert', payload: entries.map((e) => toInstallmentRow(e, id)) });
+      }
+      return;
+    }
+
+    const { error } = await supabase.from('installment_plans').update(updateData).eq('id', id);
+    if (error) {
+      if (import.meta.env.DEV) console.error('Error updating installment plan:', error);
+      return;
+    }
+
+    const { error: deleteError } = await supabase.from('transactions').delete().eq('installment_plan_id', id);
+    if (deleteError) {
+      if (import.meta.env.DEV) console.error('Error replacing installments:', deleteError);
+      return;
+    }
+
+    const { data: entriesData, error: insertError } = await supabase
+      .from('transactions')
+      .insert(entries.map((e) => ({ user_id: user.id, ...toInstallmentRow(e, id) })))
+      .select();
+
+    if (insertError) {
+      if (import.meta.env.DEV) console.error('Error replacing installments:', insertError);
+      return;
+    }
+
+    if (entriesData) {
+      setTransactions((prev) => [
+        ...entriesData.map(mapTransaction),
+        ...prev.filter((t) => t.installmentPlanId !== id),
+      ]);
+    }
+  };
+
+  /**
+   * Cancels a plan. With keepPast, installments already due stay recorded and
+   * only the future ones are removed; otherwise the whole purchase goes away.
+   */
+  const deleteInstallmentPlan = async (id: string, { keepPast = false }: { keepPast?: boolean } = {}) => {
+    if (!user) return;
+
+    const today = toLocalDateString();
+    const hasPast = transactions.some((t) => t.installmentPlanId === id && t.date <= today);
+
+    if (keepPast && hasPast) {
+      const futureIds = transactions
+        .filter((t) => t.installmentPlanId === id && t.date > today)
+        .map((t) => t.id);
+      setTransactions((prev) => prev.filter((t) => !futureIds.includes(t.id)));
+
+      if (!isOnline) {
+        futureIds
+          .filter((tid) => !tid.startsWith('temp_'))
+          .forEach((tid) => enqueue({ table: 'transactions', action: 'delete', entityId: tid }));
+        return;
+      }
+
+      const { error } = await supabase
+        .from('transactions')
+        .delete()
+        .eq('installment_plan_id', id)
+        .gt('date', today);
+      if (error && import.meta.env.DEV) console.error('Error cancelling installments:', error);
+      return;
+    }
+
+    // Installments are removed with the plan (ON DELETE CASCADE)
+    setInstallmentPlans((prev) => prev.filter((p) => p.id !== id));
+    setTransactions((prev) => prev.filter((t) => t.installmentPlanId !== id));
+
+    if (!isOnline) {
+      if (!id.startsWith('temp_')) {
+        enqueue({ table: 'installment_plans', action: 'delete', entityId: id });
+      }
+      return;
+    }
+
+    const { error } = await supabase.from('installment_plans').delete().eq('id', id);
+    if (error && import.meta.env.DEV) console.error('Error deleting installment plan:', error);
+  };
+
+  const addRecurringRule = async (rule: Omit<RecurringRule, 'id' | 'createdAt' | 'materializedUntil'>) => {
+    if (!user) return;
+
+    if (!isOnline) {
+      const tempId = generateTempId();
+      const createdAt = new Date().toISOString();
+      const newRule: RecurringRule = { id: tempId, ...rule, createdAt };
+      const currency = getAccountCurrency(accounts, rule.accountId, baseCurrency);
+      const entries = getPendingOccurrences(newRule).map((occurrence) => ({
+        ...buildOccurrence(newRule, occurrence),
+        currency,
+      }));
+      const materializedUntil = getMaterializationHorizon();
+
+      setRecurringRules((prev) => [{ ...newRule, materializedUntil }, ...prev]);
+      setTransactions((prev) => [
+        ...entries.map((entry) => ({ id: generateTempId(), ...entry, createdAt })),
+        ...prev,
+      ]);
+      enqueue({
+        table: 'recurring_rules',
+        action: 'insert',
+        payload: toRecurringRuleRow({ ...rule, materializedUntil }),
+        tempId,
+      });
+      if (entries.length > 0) {
+        enqueue({ table: 'transactions', action: 'insert', payload: entries.map(toOccurrenceRow) });
+      }
+      toast({ title: 'Salvo offline', description: 'Será sincronizado quando voltar online.' });
+      return tempId;
+    }
+
+    const { data, error } = await supabase
+      .from('recurring_rules')
+      .insert({ user_id: user.id, ...toRecurringRuleRow(rule) })
+      .select()
+      .single();
+
+    if (error || !data) {
+      if (import.meta.env.DEV) console.error('Error adding recurring rule:', error);
+      return;
+    }
+
+    const { rule: materialized, created } = await materializeRule(
+      mapRecurringRule(data),
+      getAccountCurrency(accounts, rule.accountId, baseCurrency)
+    );
+    setRecurringRules((prev) => [materialized, ...prev]);
+    setTransactions((prev) => [...created, ...prev]);
+    return data.id;
+  };
+
+  /** Ends a series right before its occurrence `index`, removing that occurrence and the later ones. */
+  const truncateRecurringRule = async (rule: RecurringRule, index: number) => {
+    const endDate = getEndDateBefore(rule, index);
+    setRecurringRules((prev) => prev.map((r) => (r.id === rule.id ? { ...r, endDate } : r)));
+    setTransactions((prev) =>
+      prev.filter((t) => !(t.recurringRuleId === rule.id && (t.recurrenceIndex ?? 0) >= index))
+    );
+
+    const { error } = await supabase.from('recurring_rules').update({ end_date: endDate }).eq('id', rule.id);
+    if (error && import.meta.env.DEV) console.error('Error ending recurring rule:', error);
+
+    const { error: deleteError } = await supabase
+      .from('transactions')
+      .delete()
+      .eq('recurring_rule_id', rule.id)
+      .gte('recurrence_index', index);
+    if (deleteError && import.meta.env.DEV) console.error('Error deleting occurrences:', deleteError);
+  };
+
+  const removeRecurringRule = async (id: string) => {
+    // Occurrences are removed with the rule (ON DELETE CASCADE)
+    setRecurringRules((prev) => prev.filter((r) => r.id !== id));
+    setTransactions((prev) => prev.filter((t) => t.recurringRuleId !== id));
+
+    const { error } = await supabase.from('recurring_rules').delete().eq('id', id);
+    if (error && import.meta.env.DEV) console.error('Error deleting recurring rule:', error);
+  };
+
+  /** Changes to a whole series rewrite several rows at once, so they are not queued offline. */
+  const requireOnlineForSeries = () => {
+    if (isOnline) return true;
+    toast({
+      title: 'Sem conexão',
+      description: 'Alterar várias ocorrências de uma só vez precisa de internet. Use "Só esta".',
+      variant: 'destructive',
+    });
+    return false;
+  };
+
+  /**
+   * Edits an occurrence of a recurring series. 'following' splits the series
+   * in two at this occurrence; 'all' rewrites the rule and every occurrence.
+   * When the date moved, only this occurrence and the upcoming ones never
+   * edited on their own are generated again; past and edited ones are kept.
+   */
+  const updateRecurringOccurrence = async (id: string, updates: Partial<Transaction>, scope: RecurrenceScope) => {
+    if (!user) return;
+
+    const transaction = transactions.find((t) => t.id === id);
+    const rule = recurringRules.find((r) => r.id === transaction?.recurringRuleId);
+    if (!transaction || !rule || scope === 'this') return updateTransaction(id, updates);
+    if (!requireOnlineForSeries()) return;
+
+    const index = transaction.recurrenceIndex ?? 0;
+    const fields = {
+      description: updates.description ?? rule.description,
+      amount: updates.amount ?? rule.amount,
+      type: updates.type ?? rule.type,
+      category: updates.category ?? rule.category,
+      accountId: 'accountId' in updates ? updates.accountId : rule.accountId,
+    };
+    const moved = updates.date !== undefined && updates.date !== transaction.date;
+    const schedule = moved ? shiftSchedule(rule, index, updates.date as string) : rule;
+
+    if (scope === 'following' && index > 0) {
+      await truncateRecurringRule(rule, index);
+      await addRecurringRule({
+        ...fields,
+        frequency: rule.frequency,
+        interval: rule.interval,
+        startDate: moved ? (updates.date as string) : getOccurrenceDate(rule, index),
+        endDate: rule.endDate,
+        occurrenceCount: rule.occurrenceCount !== undefined ? rule.occurrenceCount - index : undefined,
+        dayOfMonth: schedule.dayOfMonth,
+      });
+      return;
+    }
+
+    const updated: RecurringRule = { ...schedule, ...fields };
+    const ruleRow = toRecurringRuleRow(updated);
+
+    if (moved) {
+      const today = toLocalDateString();
+      const replaced = transactions.filter(
+        (t) => t.recurringRuleId === rule.id && (t.id === id || (t.date > today && !isOccurrenceEdited(rule, t)))
+      );
+      const replacedIds = new Set(replaced.map((t) => t.id));
+      // Indexes missing from the materialized range were deleted on their own and stay deleted
+      const { occurrences, materializedUntil } = getRescheduledOccurrences(
+        rule,
+        updated,
+        new Set(replaced.map((t) => t.recurrenceIndex ?? 0))
+      );
+      const { error } = await supabase
+        .from('recurring_rules')
+        .update({ ...ruleRow, materialized_until: materializedUntil ?? null })
+        .eq('id', rule.id);
+      if (error) {
+        if (import.meta.env.DEV) console.error('Error updating recurring rule:', error);
+        return;
+      }
+      const { error: deleteError } = await supabase.from('transactions').delete().in('id', [...replacedIds]);
+      if (deleteError && import.meta.env.DEV) console.error('Error replacing occurrences:', deleteError);
+
+      const { rule: materialized, created } = await materializeRule(
+        { ...updated, materializedUntil },
+        getAccountCurrency(accounts, updated.accountId, baseCurrency),
+        occurrences
+      );
+      setRecurringRules((prev) => prev.map((r) => (r.id === rule.id ? materialized : r)));
+      setTransactions((prev) => [...created, ...prev.filter((t) => !replacedIds.has(t.id))]);
+      return;
+    }
+
+    setRecurringRules((prev) => prev.map((r) => (r.id === rule.id ? updated : r)));
+    const currency = getAccountCurrency(accounts, fields.accountId, baseCurrency);
+    setTransactions((prev) =>
+      prev.map((t) => (t.recurringRuleId === rule.id ? { ...t, ...fields, currency } : t))
+    );
+
+    const { error } = await supabase.from('recurring_rules').update(ruleRow).eq('id', rule.id);
+    if (error && import.meta.env.DEV) console.error('Error updating recurring rule:', error);
+
+    const { error: occurrencesError } = await supabase
+      .from('transactions')
+      .update({
+        description: ruleRow.description,
+        amount: ruleRow.amount,
+        type: ruleRow.type,
+        category: ruleRow.category,
+        account_id: ruleRow.account_id,
+        currency,
+      })
+      .eq('recurring_rule_id', rule.id);
+    if (occurrencesError && import.meta.env.DEV) console.error('Error updating occurrences:', occurrencesError);
+  };
+
+  const deleteRecurringOccurrence = async (id: string, scope: RecurrenceScope) => {
+    if (!user) return;
+
+    const transaction = transactions.find((t) => t.id === id);
+    const rule = recurringRules.find((r) => r.id === transaction?.recurringRuleId);
+    if (!transaction || !rule || scope === 'this') return deleteTransaction(id);
+    if (!requireOnlineForSeries()) return;
+
+    const index = transaction.recurrenceIndex ?? 0;
+    if (scope === 'all' || index === 0) {
+      await removeRecurringRule(rule.id);
+    } else {
+      await truncateRecurringRule(rule, index);
+    }
+  };
+
+  const addCategory = async (category: Omit<Category, 'id' | 'key' | 'createdAt'>) => {
+    if (!user) return;
+
+    const dbPayload = {
+      key: createCategoryKey(),
+      name: category.name,
+      parent_id: category.parentId || null,
+      icon: category.icon,
+      color: category.color,
+      kind: category.kind,
+    };
+
+    if (!isOnline) {
+      const tempId = generateTempId();
+      const newCategory: Category = { id: tempId, ...category, key: dbPayload.key, createdAt: new Date().toISOString() };
+      setCategories((prev) => [...prev, newCategory]);
+      enqueue({ table: 'categories', action: 'insert', payload: dbPayload, tempId });
+      toast({ title: 'Salvo offline', description: 'Será sincronizado quando voltar online.' });
+      return tempId;
+    }
+
+    const { data, error } = await supabase
+      .from('categories')
+      .insert({ user_id: user.id, ...dbPayload })
+      .select()
+      .single();
+
+    if (error) {
+      if (import.meta.env.DEV) console.error('Error adding category:', error);
+      return;
+    }
+
+    if (data) {
+      setCategories((prev) => [...prev, mapCategory(data)]);
+      return data.id;
+    }
+  };
+
+  const updateCategory = async (id: string, updates: Partial<Category>) => {
+    if (!user) return;
+
+    const updateData: Record<string, unknown> = {};
+    if (updates.name !== undefined) updateData.name = updates.name;
+    if ('parentId' in updates) updateData.parent_id = updates.parentId || null;
+    if (updates.icon !== undefined) updateData.icon = updates.icon;
+    if (updates.color !== undefined) updateData.color = updates.color;
+    if (updates.kind !== undefined) updateData.kind = updates.kind;
+
+    setCategories((prev) => prev.map((c) => (c.id === id ? { ...c, ...updates } : c)));
+
+    if (!isOnline) {
+      if (!id.startsWith('temp_')) {
+        enqueue({ table: 'categories', action: 'update', payload: updateData, entityId: id });
+      }
+      return;
+    }
+
+    const { error } = await supabase.from('categories').update(updateData).eq('id', id);
+    if (error && import.meta.env.DEV) console.error('Error updating category:', error);
+  };
+
+  /**
+   * Deletes a category and moves everything filed under it to its parent (or
+   * "Outros"). Subcategories become top-level (ON DELETE SET NULL); its budgets are
+   * dropped and envelopes stop listing it.
+   */
+  const deleteCategory = async (id: string) => {
+    if (!user) return;
+
+    const category = categories.find((c) => c.id === id);
+    if (!category) return;
+    if (!isOnline) {
+      toast({
+        title: 'Sem conexão',
+        description: 'Excluir uma categoria atualiza todos os lançamentos dela e precisa de internet.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    const replacement = categories.find((c) => c.id === category.parentId)?.key || 'other';
+    const move = <T extends { category: TransactionCategory }>(item: T): T =>
+      item.category === category.key ? { ...item, category: replacement } : item;
+    const splitTransactions = transactions
+      .filter((t) => t.splits?.some((line) => line.category === category.key))
+      .map((t) => ({ ...t, splits: t.splits!.map(move) }));
+
+    setCategories((prev) =>
+      prev
+        .filter((c) => c.id !== id)
+        .map((c) => (c.parentId === id ? { ...c, parentId: undefined } : c))
+    );
+    setTransactions((prev) =>
+      prev.map((t) => move(splitTransactions.find((split) => split.id === t.id) || t))
+    );
+    setReminders((prev) => prev.map(move));
+    setInstallmentPlans((prev) => prev.map(move));
+    setRecurringRules((prev) => prev.map(move));
+    // A limit set for one category doesn't carry over to the one that absorbs it
+    setBudgets((prev) => prev.filter((b) => b.category !== category.key));
+    const envelopesWithCategory = envelopes
+      .filter((e) => e.categories.includes(category.key))
+      .map((e) => ({ ...e, categories: e.categories.filter((key) => key !== category.key) }));
+    setEnvelopes((prev) => prev.map((e) => envelopesWithCategory.find((changed) => changed.id === e.id) || e));
+
+    for (const table of ['transactions', 'reminders', 'installment_plans', 'recurring_rules'] as const) {
+      const { error } = await supabase
+        .from(table)
+        .update({ category: replacement })
+        .eq('category', category.key);
+      if (error && import.meta.env.DEV) console.error(`Error moving ${table} to another category:`, error);
+    }
+    for (const t of splitTransactions) {
+      const { error } = await supabase.from('transactions').update({ splits: toSplitsJson(t.splits) }).eq('id', t.id);
+      if (error && import.meta.env.DEV) console.error('Error moving split lines to another category:', error);
+    }
+
+    const { error: budgetsError } = await supabase.from('budgets').delete().eq('category', category.key);
+    if (budgetsError && import.meta.env.DEV) console.error('Error deleting budgets of category:', budgetsError);
+    for (const e of envelopesWithCategory) {
+      const { error } = await supabase.from('envelopes').update({ categories: e.categories }).eq('id', e.id);
+      if (error && import.meta.env.DEV) console.error('Error removing category from envelope:', error);
+    }
+
+    const { error } = await supabase.from('categories').delete().eq('id', id);
+    if (error && import.meta.env.DEV) console.error('Error deleting category:', error);
+  };
+
+  const addBudget = async (budget: Omit<Budget, 'id' | 'createdAt'>) => {
+    if (!user) return;
+
+    const dbPayload = {
+      category: budget.category,
+      month: budget.month,
+      amount_limit: budget.limit,
+      rollover: budget.rollover,
+    };
+
+    if (!isOnline) {
+      const tempId = generateTempId();
+      setBudgets((prev) => [{ id: tempId, ...budget, createdAt: new Date().toISOString() }, ...prev]);
+      enqueue({ table: 'budgets', action: 'insert', payload: dbPayload, tempId });
+      toast({ title: 'Salvo offline', description: 'Será sincronizado quando voltar online.' });
+      return tempId;
+    }
+
+    const { data, error } = await supabase
+      .from('budgets')
+      .insert({ user_id: user.id, ...dbPayload })
+      .select()
+      .single();
+
+    if (error) {
+      if (import.meta.env.DEV) console.error('Error adding budget:', error);
+      // UNIQUE (user_id, category, month)
+      toast({
+        title: 'Erro ao salvar orçamento',
+        description: error.code === '23505' ? 'Essa categoria já tem orçamento neste mês.' : 'Tente novamente.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    if (data) {
+      setBudgets((prev) => [mapBudget(data), ...prev]);
+      return data.id;
+    }
+  };
+
+  const updateBudget = async (id: string, updates: Partial<Budget>) => {
+    if (!user) return;
+
+    const updateData: Record<string, unknown> = {};
+    if (updates.category !== undefined) updateData.category = updates.category;
+    if (updates.month !== undefined) updateData.month = updates.month;
+    if (updates.limit !== undefined) updateData.amount_limit = updates.limit;
+    if (updates.rollover !== undefined) updateData.rollover = updates.rollover;
+
+    setBudgets((prev) => prev.map((b) => (b.id === id ? { ...b, ...updates } : b)));
+
+    if (!isOnline) {
+      if (!id.startsWith('temp_')) {
+        enqueue({ table: 'budgets', action: 'update', payload: updateData, entityId: id });
+      }
+      return;
+    }
+
+    const { error } = await supabase.from('budgets').update(updateData).eq('id', id);
+    if (error && import.meta.env.DEV) console.error('Error updating budget:', error);
+  };
+
+  const deleteBudget = async (id: string) => {
+    if (!user) return;
+
+    setBudgets((prev) => prev.filter((b) => b.id !== id));
+
+    if (!isOnline) {
+      if (!id.startsWith('temp_')) {
+        enqueue({ table: 'budgets', action: 'delete', entityId: id });
+      }
+      return;
+    }
+
+    const { error } = await supabase.from('budgets').delete().eq('id', id);
+    if (error && import.meta.env.DEV) console.error('Error deleting budget:', error);
+  };
+
+  /** Turns envelope mode on from `startDate` (income before it isn't assigned), or off with undefined. */
+  const updateEnvelopeMode = async (startDate: string | undefined) => {
+    if (!user || !requireOnlineForSettings()) return;
+
+    const previous = envelopeStartDate;
+    setEnvelopeStartDate(startDate);
+
+    const { error } = await supabase
+      .from('user_settings')
+      .upsert({ user_id: user.id, envelope_start_date: startDate || null }, { onConflict: 'user_id' });
+    if (error) {
+      if (import.meta.env.DEV) console.error('Error updating envelope mode:', error);
+      setEnvelopeStartDate(previous);
+    }
+  };
+
+  /** Replaces the target allocation; classes left out have no target. */
+  const updateAllocationTargets = async (targets: AllocationTargets) => {
+    if (!user || !requireOnlineForSettings()) return;
+
+    const previous = allocationTargets;
+    setAllocationTargets(targets);
+
+    const { error } = await supabase
+      .from('user_settings')
+      .upsert({ user_id: user.id, allocation_targets: targets }, { onConflict: 'user_id' });
+    if (error) {
+      if (import.meta.env.DEV) console.error('Error updating allocation targets:', error);
+      setAllocationTargets(previous);
+    }
+  };
+
+  /** How many days before a maturity it starts showing in Lembretes. */
+  const updateMaturityReminderDays = async (days: number) => {
+    if (!user || !requireOnlineForSettings()) return;
+
+    const previous = maturityReminderDays;
+    setMaturityReminderDays(days);
+
+    const { error } = await supabase
+      .from('user_settings')
+      .upsert({ user_id: user.id, maturity_reminder_days: days }, { onConflict: 'user_id' });
+    if (error) {
+      if (import.meta.env.DEV) console.error('Error updating maturity reminder days:', error);
+      setMaturityReminderDays(previous);
+    }
+  };
+
+  const addEnvelope = async (envelope: Omit<Envelope, 'id' | 'createdAt'>) => {
+    if (!user) return;
+
+    const dbPayload = { name: envelope.name, categories: envelope.categories };
+
+    if (!isOnline) {
+      const tempId = generateTempId();
+      setEnvelopes((prev) => [...prev, { id: tempId, ...envelope, createdAt: new Date().toISOString() }]);
+      enqueue({ table: 'envelopes', action: 'insert', payload: dbPayload, tempId });
+      toast({ title: 'Salvo offline', description: 'Será sincronizado quando voltar online.' });
+      return tempId;
+    }
+
+    const { data, error } = await supabase
+      .from('envelopes')
+      .insert({ user_id: user.id, ...dbPayload })
+      .select()
+      .single();
+
+    if (error) {
+      if (import.meta.env.DEV) console.error('Error adding envelope:', error);
+      return;
+    }
+
+    if (data) {
+      setEnvelopes((prev) => [...prev, mapEnvelope(data)]);
+      return data.id;
+    }
+  };
+
+  const updateEnvelope = async (id: string, updates: Partial<Envelope>) => {
+    if (!user) return;
+
+    const updateData: Record<string, unknown> = {};
+    if (updates.name !== undefined) updateData.name = updates.name;
+    if (updates.categories !== undefined) updateData.categories = updates.categories;
+
+    setEnvelopes((prev) => prev.map((e) => (e.id === id ? { ...e, ...updates } : e)));
+
+    if (!isOnline) {
+      if (!id.startsWith('temp_')) {
+        enqueue({ table: 'envelopes', action: 'update', payload: updateData, entityId: id });
+      }
+      return;
+    }
+
+    const { error } = await supabase.from('envelopes').update(updateData).eq('id', id);
+    if (error && import.meta.env.DEV) console.error('Error updating envelope:', error);
+  };
+
+  /** Deletes an envelope with its movements (ON DELETE CASCADE), so what it held goes back to the pool. */
+  const deleteEnvelope = async (id: string) => {
+    if (!user) return;
+
+    setEnvelopes((prev) => prev.filter((e) => e.id !== id));
+    setEnvelopeMovements((prev) => prev.filter((m) => m.fromEnvelopeId !== id && m.toEnvelopeId !== id));
+
+    if (!isOnline) {
+      if (!id.startsWith('temp_')) {
+        enqueue({ table: 'envelopes', action: 'delete', entityId: id });
+      }
+      return;
+    }
+
+    const { error } = await supabase.from('envelopes').delete().eq('id', id);
+    if (error && import.meta.env.DEV) console.error('Error deleting envelope:', error);
+  };
+
+  const addEnvelopeMovement = async (movement: Omit<EnvelopeMovement, 'id' | 'createdAt'>) => {
+    if (!user) return;
+
+    const dbPayload = {
+      from_envelope_id: movement.fromEnvelopeId || null,
+      to_envelope_id: movement.toEnvelopeId || null,
+      amount: movement.amount,
+      date: movement.date,
+      note: movement.note || null,
+    };
+
+    if (!isOnline) {
+      const tempId = generateTempId();
+      setEnvelopeMovements((prev) => [{ id: tempId, ...movement, createdAt: new Date().toISOString() }, ...prev]);
+      enqueue({ table: 'envelope_movements', action: 'insert', payload: dbPayload, tempId });
+      toast({ title: 'Salvo offline', description: 'Será sincronizado quando voltar online.' });
+      return;
+    }
+
+    const { data, error } = await supabase
+      .from('envelope_movements')
+      .insert({ user_id: user.id, ...dbPayload })
+      .select()
+      .single();
+
+    if (error) {
+      if (import.meta.env.DEV) console.error('Error adding envelope movement:', error);
+      return;
+    }
+
+    if (data) {
+      setEnvelopeMovements((prev) => [mapEnvelopeMovement(data), ...prev]);
+    }
+  };
+
+  const deleteEnvelopeMovement = async (id: string) => {
+    if (!user) return;
+
+    setEnvelopeMovements((prev) => prev.filter((m) => m.id !== id));
+
+    if (!isOnline) {
+      if (!id.startsWith('temp_')) {
+        enqueue({ table: 'envelope_movements', action: 'delete', entityId: id });
+      }
+      return;
+    }
+
+    const { error } = await supabase.from('envelope_movements').delete().eq('id', id);
+    if (error && import.meta.env.DEV) console.error('Error deleting envelope movement:', error);
+  };
+
+  const addGoal = async (goal: Omit<Goal, 'id' | 'createdAt'>) => {
+    if (!user) return;
+
+    const dbPayload = {
+      name: goal.name,
+      target_amount: goal.targetAmount,
+      deadline: goal.deadline || null,
+      icon: goal.icon,
+    };
+
+    if (!isOnline) {
+      const tempId = generateTempId();
+      setGoals((prev) => [...prev, { id: tempId, ...goal, createdAt: new Date().toISOString() }]);
+      enqueue({ table: 'goals', action: 'insert', payload: dbPayload, tempId });
+      toast({ title: 'Salvo offline', description: 'Será sincronizado quando voltar online.' });
+      return tempId;
+    }
+
+    const { data, error } = await supabase
+      .from('goals')
+      .insert({ user_id: user.id, ...dbPayload })
+      .select()
+      .single();
+
+    if (error) {
+      if (import.meta.env.DEV) console.error('Error adding goal:', error);
+      return;
+    }
+
+    if (data) {
+      setGoals((prev) => [...prev, mapGoal(data)]);
+      return data.id;
+    }
+  };
+
+  const updateGoal = async (id: string, updates: Partial<Goal>) => {
+    if (!user) return;
+
+    const updateData: Record<string, unknown> = {};
+    if (updates.name !== undefined) updateData.name = updates.name;
+    if (updates.targetAmount !== undefined) updateData.target_amount = updates.targetAmount;
+    if ('deadline' in updates) updateData.deadline = updates.deadline || null;
+    if (updates.icon !== undefined) updateData.icon = updates.icon;
+
+    setGoals((prev) => prev.map((g) => (g.id === id ? { ...g, ...updates } : g)));
+
+    if (!isOnline) {
+      if (!id.startsWith('temp_')) {
+        enqueue({ table: 'goals', action: 'update', payload: updateData, entityId: id });
+      }
+      return;
+    }
+
+    const { error } = await supabase.from('goals').update(updateData).eq('id', id);
+    if (error && import.meta.env.DEV) console.error('Error updating goal:', error);
+  };
+
+  /** Deletes a goal; investments and entries that funded it stay, unlinked (ON DELETE SET NULL). */
+  const deleteGoal = async (id: string) => {
+    if (!user) return;
+
+    setGoals((prev) => prev.filter((g) => g.id !== id));
+    setInvestments((prev) => prev.map((i) => (i.goalId === id ? { ...i, goalId: undefined } : i)));
+    setTransactions((prev) => prev.map((t) => (t.goalId === id ? { ...t, goalId: undefined } : t)));
+
+    if (!isOnline) {
+      if (!id.startsWith('temp_')) {
+        enqueue({ table: 'goals', action: 'delete', entityId: id });
+      }
+      return;
+    }
+
+    const { error } = await supabase.from('goals').delete().eq('id', id);
+    if (error && import.meta.env.DEV) console.error('Error deleting goal:', error);
+  };
+
+  /**
+   * Records net worth snapshots, replacing the one already saved for a month.
+   * Snapshots are taken in the background, so without a connection this quietly
+   * saves nothing (the offline queue can't replay upserts). Returns how many were saved.
+   */
+  const saveNetWorthSnapshots = async (snapshots: Omit<NetWorthSnapshot, 'id' | 'createdAt'>[]): Promise<number> => {
+    if (!user || snapshots.length === 0 || !isOnline) return 0;
+
+    const { data, error } = await supabase
+      .from('net_worth_snapshots')
+      .upsert(
+        snapshots.map((s) => ({
+          user_id: user.id,
+          month: s.month,
+          accounts: s.accounts,
+          investments: s.investments,
+          receivables: s.receivables,
+          payables: s.payables,
+          card_debt: s.cardDebt,
+          currency: s.currency,
+        })),
+        { onConflict: 'user_id,month' }
+      )
+      .select();
+    if (error) {
+      if (import.meta.env.DEV) console.error('Error saving net worth snapshots:', error);
+      return 0;
+    }
+
+    const saved = (data || []).map(mapNetWorthSnapshot);
+    setNetWorthSnapshots((prev) =>
+      [...prev.filter((p) => !saved.some((s) => s.month === p.month)), ...saved].sort((a, b) => a.month.localeCompare(b.month))
+    );
+    return saved.length;
+  };
+
+  const deleteNetWorthSnapshot = async (id: string) => {
+    if (!user) return;
+
+    setNetWorthSnapshots((prev) => prev.filter((s) => s.id !== id));
+
+    if (!isOnline) {
+      enqueue({ table: 'net_worth_snapshots', action: 'delete', entityId: id });
+      return;
+    }
+
+    const { error } = await supabase.from('net_worth_snapshots').delete().eq('id', id);
+    if (error && import.meta.env.DEV) console.error('Error deleting net worth snapshot:', error);
+  };
+
   // Derive pending transaction IDs from queue + temp IDs
   const pendingTransactionIds = React.useMemo(() => {
     const ids = new Set<string>();
@@ -625,13 +3139,26 @@ export function TransactionProvider({ children }: { children: ReactNode }) {
   return (
     <TransactionContext.Provider
       value={{
-        transactions, reminders, investments, loading,
+        transactions, reminders, investments, investmentValuations, investmentMovements, accounts, installmentPlans, recurringRules, categories, tags, attachments,
+        baseCurrency, exchangeRates, indexRates, budgets, envelopeStartDate, allocationTargets, maturityReminderDays, envelopes, envelopeMovements, goals, netWorthSnapshots, loading,
         pendingOpsCount: pendingCount, isSyncing,
         pendingTransactionIds,
-        addTransaction, updateTransaction, deleteTransaction,
+        addTransaction, updateTransaction, deleteTransaction, addTransfer,
         addReminder, updateReminder, deleteReminder, markReminderAsPaid,
         addInvestment, updateInvestment, deleteInvestment,
-        markInvestmentAsDone,
+        markInvestmentAsDone, addInvestmentValuation, deleteInvestmentValuation,
+        addInvestmentMovement, importBrokerageNotes, deleteInvestmentMovement,
+        addAccount, updateAccount, deleteAccount,
+        addInstallmentPlan, updateInstallmentPlan, deleteInstallmentPlan,
+        addRecurringRule, updateRecurringOccurrence, deleteRecurringOccurrence,
+        addCategory, updateCategory, deleteCategory,
+        ensureTags,
+        addAttachment, deleteAttachment, getAttachmentUrl,
+        updateBaseCurrency, importExchangeRates, deleteExchangeRate, importIndexRates, deleteIndexRate,
+        addBudget, updateBudget, deleteBudget,
+        updateEnvelopeMode, updateAllocationTargets, updateMaturityReminderDays, addEnvelope, updateEnvelope, deleteEnvelope, addEnvelopeMovement, deleteEnvelopeMovement,
+        addGoal, updateGoal, deleteGoal,
+        saveNetWorthSnapshots, deleteNetWorthSnapshot,
       }}
     >
       {children}
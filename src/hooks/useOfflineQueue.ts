@@ -4,10 +4,30 @@ import { toast } from '@/hooks/use-toast';
 
 export interface OfflineOperation {
   id: string;
-  table: 'transactions' | 'reminders' | 'investments';
+  table:
+    | 'transactions'
+    | 'reminders'
+    | 'investments'
+    | 'accounts'
+    | 'installment_plans'
+    | 'recurring_rules'
+    | 'categories'
+    | 'tags'
+    | 'transaction_tags'
+    | 'transaction_attachments'
+    | 'exchange_rates'
+    | 'budgets'
+    | 'envelopes'
+    | 'envelope_movements'
+    | 'goals'
+    | 'net_worth_snapshots'
+    | 'investment_valuations'
+    | 'investment_movements'
+    | 'index_rates';
   action: 'insert' | 'update' | 'delete';
-  payload?: Record<string, unknown>;
+  payload?: Record<string, unknown> | Record<string, unknown>[]; // array = rows inserted together
   entityId?: string; // for update/delete
+  matchColumn?: 'id' | 'transfer_id' | 'installment_plan_id' | 'transaction_id'; // column compared with entityId (defaults to 'id')
   tempId?: string; // temporary local ID for inserts
   createdAt: number;
 }
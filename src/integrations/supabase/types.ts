@@ -14,54 +14,641 @@ export type Database = {
   }
   public: {
     Tables: {
+      accounts: {
+        Row: {
+          closing_day: number | null
+          color: string | null
+          created_at: string
+          credit_limit: number | null
+          currency: string
+          due_day: number | null
+          id: string
+          initial_balance: number
+          is_archived: boolean
+          name: string
+          type: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          closing_day?: number | null
+          color?: string | null
+          created_at?: string
+          credit_limit?: number | null
+          currency?: string
+          due_day?: number | null
+          id?: string
+          initial_balance?: number
+          is_archived?: boolean
+          name: string
+          type: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          closing_day?: number | null
+          color?: string | null
+          created_at?: string
+          credit_limit?: number | null
+          currency?: string
+          due_day?: number | null
+          id?: string
+          initial_balance?: number
+          is_archived?: boolean
+          name?: string
+          type?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      budgets: {
+        Row: {
+          amount_limit: number
+          category: string
+          created_at: string
+          id: string
+          month: string
+          rollover: boolean
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          amount_limit: number
+          category: string
+          created_at?: string
+          id?: string
+          month: string
+          rollover?: boolean
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          amount_limit?: number
+          category?: string
+          created_at?: string
+          id?: string
+          month?: string
+          rollover?: boolean
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      categories: {
+        Row: {
+          color: string
+          created_at: string
+          icon: string
+          id: string
+          key: string
+          kind: string
+          name: string
+          parent_id: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          color?: string
+          created_at?: string
+          icon?: string
+          id?: string
+          key: string
+          kind?: string
+          name: string
+          parent_id?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          color?: string
+          created_at?: string
+          icon?: string
+          id?: string
+          key?: string
+          kind?: string
+          name?: string
+          parent_id?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "categories_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      envelope_movements: {
+        Row: {
+          amount: number
+          created_at: string
+          date: string
+          from_envelope_id: string | null
+          id: string
+          note: string | null
+          to_envelope_id: string | null
+          user_id: string
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          date?: string
+          from_envelope_id?: string | null
+          id?: string
+          note?: string | null
+          to_envelope_id?: string | null
+          user_id: string
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          date?: string
+          from_envelope_id?: string | null
+          id?: string
+          note?: string | null
+          to_envelope_id?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "envelope_movements_from_envelope_id_fkey"
+            columns: ["from_envelope_id"]
+            isOneToOne: false
+            referencedRelation: "envelopes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "envelope_movements_to_envelope_id_fkey"
+            columns: ["to_envelope_id"]
+            isOneToOne: false
+            referencedRelation: "envelopes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      envelopes: {
+        Row: {
+          categories: string[]
+          created_at: string
+          id: string
+          name: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          categories?: string[]
+          created_at?: string
+          id?: string
+          name: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          categories?: string[]
+          created_at?: string
+          id?: string
+          name?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      exchange_rates: {
+        Row: {
+          created_at: string
+          currency: string
+          date: string
+          id: string
+          quote_currency: string
+          rate: number
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          currency: string
+          date: string
+          id?: string
+          quote_currency: string
+          rate: number
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          currency?: string
+          date?: string
+          id?: string
+          quote_currency?: string
+          rate?: number
+          user_id?: string
+        }
+        Relationships: []
+      }
+      goals: {
+        Row: {
+          created_at: string
+          deadline: string | null
+          icon: string
+          id: string
+          name: string
+          target_amount: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          deadline?: string | null
+          icon?: string
+          id?: string
+          name: string
+          target_amount: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          deadline?: string | null
+          icon?: string
+          id?: string
+          name?: string
+          target_amount?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      index_rates: {
+        Row: {
+          created_at: string
+          date: string
+          id: string
+          index: string
+          rate: number
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          date: string
+          id?: string
+          index: string
+          rate: number
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          date?: string
+          id?: string
+          index?: string
+          rate?: number
+          user_id?: string
+        }
+        Relationships: []
+      }
+      installment_plans: {
+        Row: {
+          account_id: string | null
+          category: string
+          created_at: string
+          description: string
+          first_date: string
+          id: string
+          installment_count: number
+          total_amount: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          account_id?: string | null
+          category: string
+          created_at?: string
+          description: string
+          first_date: string
+          id?: string
+          installment_count: number
+          total_amount: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          account_id?: string | null
+          category?: string
+          created_at?: string
+          description?: string
+          first_date?: string
+          id?: string
+          installment_count?: number
+          total_amount?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "installment_plans_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      investment_movements: {
+        Row: {
+          amount: number
+          brokerage_note: string | null
+          created_at: string
+          date: string
+          fees: number
+          id: string
+          income_type: string | null
+          investment_id: string
+          note: string | null
+          quantity: number | null
+          tax_withheld: number
+          transaction_id: string | null
+          type: string
+          unit_price: number | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          amount: number
+          brokerage_note?: string | null
+          created_at?: string
+          date: string
+          fees?: number
+          id?: string
+          income_type?: string | null
+          investment_id: string
+          note?: string | null
+          quantity?: number | null
+          tax_withheld?: number
+          transaction_id?: string | null
+          type: string
+          unit_price?: number | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          amount?: number
+          brokerage_note?: string | null
+          created_at?: string
+          date?: string
+          fees?: number
+          id?: string
+          income_type?: string | null
+          investment_id?: string
+          note?: string | null
+          quantity?: number | null
+          tax_withheld?: number
+          transaction_id?: string | null
+          type?: string
+          unit_price?: number | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "investment_movements_investment_id_fkey"
+            columns: ["investment_id"]
+            isOneToOne: false
+            referencedRelation: "investments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "investment_movements_transaction_id_fkey"
+            columns: ["transaction_id"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      investment_valuations: {
+        Row: {
+          created_at: string
+          date: string
+          id: string
+          investment_id: string
+          source: string
+          updated_at: string
+          user_id: string
+          value: number
+        }
+        Insert: {
+          created_at?: string
+          date: string
+          id?: string
+          investment_id: string
+          source?: string
+          updated_at?: string
+          user_id: string
+          value: number
+        }
+        Update: {
+          created_at?: string
+          date?: string
+          id?: string
+          investment_id?: string
+          source?: string
+          updated_at?: string
+          user_id?: string
+          value?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "investment_valuations_investment_id_fkey"
+            columns: ["investment_id"]
+            isOneToOne: false
+            referencedRelation: "investments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       investments: {
         Row: {
+          asset_class: string | null
+          brokerage_note: string | null
           created_at: string
           current_value: number
           description: string | null
           end_date: string | null
+          goal_id: string | null
           id: string
           initial_value: number
           name: string
           specific_details: Json | null
           start_date: string
           status: string
+          transaction_id: string | null
           type: string
           updated_at: string
           user_id: string
         }
         Insert: {
+          asset_class?: string | null
+          brokerage_note?: string | null
           created_at?: string
           current_value: number
           description?: string | null
           end_date?: string | null
+          goal_id?: string | null
           id?: string
           initial_value: number
           name: string
           specific_details?: Json | null
           start_date: string
           status?: string
+          transaction_id?: string | null
           type: string
           updated_at?: string
           user_id: string
         }
         Update: {
+          asset_class?: string | null
+          brokerage_note?: string | null
           created_at?: string
           current_value?: number
           description?: string | null
           end_date?: string | null
+          goal_id?: string | null
           id?: string
           initial_value?: number
           name?: string
           specific_details?: Json | null
           start_date?: string
           status?: string
+          transaction_id?: string | null
           type?: string
           updated_at?: string
           user_id?: string
         }
+        Relationships: [
+          {
+            foreignKeyName: "investments_goal_id_fkey"
+            columns: ["goal_id"]
+            isOneToOne: false
+            referencedRelation: "goals"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "investments_transaction_id_fkey"
+            columns: ["transaction_id"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      net_worth_snapshots: {
+        Row: {
+          accounts: number
+          card_debt: number
+          created_at: string
+          currency: string
+          id: string
+          investments: number
+          month: string
+          payables: number
+          receivables: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          accounts?: number
+          card_debt?: number
+          created_at?: string
+          currency?: string
+          id?: string
+          investments?: number
+          month: string
+          payables?: number
+          receivables?: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          accounts?: number
+          card_debt?: number
+          created_at?: string
+          currency?: string
+          id?: string
+          investments?: number
+          month?: string
+          payables?: number
+          receivables?: number
+          updated_at?: string
+          user_id?: string
+        }
         Relationships: []
       }
+      recurring_rules: {
+        Row: {
+          account_id: string | null
+          amount: number
+          category: string
+          created_at: string
+          day_of_month: number | null
+          description: string
+          end_date: string | null
+          frequency: string
+          id: string
+          interval: number
+          materialized_until: string | null
+          occurrence_count: number | null
+          start_date: string
+          type: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          account_id?: string | null
+          amount: number
+          category: string
+          created_at?: string
+          day_of_month?: number | null
+          description: string
+          end_date?: string | null
+          frequency: string
+          id?: string
+          interval?: number
+          materialized_until?: string | null
+          occurrence_count?: number | null
+          start_date: string
+          type: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          account_id?: string | null
+          amount?: number
+          category?: string
+          created_at?: string
+          day_of_month?: number | null
+          description?: string
+          end_date?: string | null
+          frequency?: string
+          id?: string
+          interval?: number
+          materialized_until?: string | null
+          occurrence_count?: number | null
+          start_date?: string
+          type?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "recurring_rules_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       reminders: {
         Row: {
           amount: number
@@ -101,52 +688,242 @@ export type Database = {
         }
         Relationships: []
       }
+      tags: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      transaction_attachments: {
+        Row: {
+          created_at: string
+          file_name: string
+          id: string
+          mime_type: string
+          size_bytes: number
+          storage_path: string
+          transaction_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          file_name: string
+          id?: string
+          mime_type: string
+          size_bytes: number
+          storage_path: string
+          transaction_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          file_name?: string
+          id?: string
+          mime_type?: string
+          size_bytes?: number
+          storage_path?: string
+          transaction_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "transaction_attachments_transaction_id_fkey"
+            columns: ["transaction_id"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      transaction_tags: {
+        Row: {
+          created_at: string
+          tag_id: string
+          transaction_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          tag_id: string
+          transaction_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          tag_id?: string
+          transaction_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "transaction_tags_tag_id_fkey"
+            columns: ["tag_id"]
+            isOneToOne: false
+            referencedRelation: "tags"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transaction_tags_transaction_id_fkey"
+            columns: ["transaction_id"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       transactions: {
         Row: {
+          account_id: string | null
           amount: number
           category: string
           created_at: string
+          currency: string
           date: string
           description: string
+          goal_id: string | null
           id: string
+          installment_number: number | null
+          installment_plan_id: string | null
+          invoice_month: string | null
           is_loan: boolean | null
+          loan_due_date: string | null
           loan_person: string | null
           loan_settled_date: string | null
           loan_status: string | null
+          recurrence_index: number | null
+          recurring_rule_id: string | null
+          splits: Json | null
+          transfer_id: string | null
           type: string
           updated_at: string
           user_id: string
         }
         Insert: {
+          account_id?: string | null
           amount: number
           category: string
           created_at?: string
+          currency?: string
           date?: string
           description: string
+          goal_id?: string | null
           id?: string
+          installment_number?: number | null
+          installment_plan_id?: string | null
+          invoice_month?: string | null
           is_loan?: boolean | null
+          loan_due_date?: string | null
           loan_person?: string | null
           loan_settled_date?: string | null
           loan_status?: string | null
+          recurrence_index?: number | null
+          recurring_rule_id?: string | null
+          splits?: Json | null
+          transfer_id?: string | null
           type: string
           updated_at?: string
           user_id: string
         }
         Update: {
+          account_id?: string | null
           amount?: number
           category?: string
           created_at?: string
+          currency?: string
           date?: string
           description?: string
+          goal_id?: string | null
           id?: string
+          installment_number?: number | null
+          installment_plan_id?: string | null
+          invoice_month?: string | null
           is_loan?: boolean | null
+          loan_due_date?: string | null
           loan_person?: string | null
           loan_settled_date?: string | null
           loan_status?: string | null
+          recurrence_index?: number | null
+          recurring_rule_id?: string | null
+          splits?: Json | null
+          transfer_id?: string | null
           type?: string
           updated_at?: string
           user_id?: string
         }
+        Relationships: [
+          {
+            foreignKeyName: "transactions_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transactions_installment_plan_id_fkey"
+            columns: ["installment_plan_id"]
+            isOneToOne: false
+            referencedRelation: "installment_plans"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transactions_recurring_rule_id_fkey"
+            columns: ["recurring_rule_id"]
+            isOneToOne: false
+            referencedRelation: "recurring_rules"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transactions_goal_id_fkey"
+            columns: ["goal_id"]
+            isOneToOne: false
+            referencedRelation: "goals"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      user_settings: {
+        Row: {
+          allocation_targets: Json
+          base_currency: string
+          created_at: string
+          envelope_start_date: string | null
+          maturity_reminder_days: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          allocation_targets?: Json
+          base_currency?: string
+          created_at?: string
+          envelope_start_date?: string | null
+          maturity_reminder_days?: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          allocation_targets?: Json
+          base_currency?: string
+          created_at?: string
+          envelope_start_date?: string | null
+          maturity_reminder_days?: number
+          updated_at?: string
+          user_id?: string
+        }
         Relationships: []
       }
     }
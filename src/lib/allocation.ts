@@ -0,0 +1,102 @@
+import { AllocationTargets, Investment, InvestmentType, investmentTypeColors, investmentTypeLabels } from '@/types/investment';
+import { getCurrentValue } from '@/lib/investments';
+
+export interface AllocationRow {
+  key: string; // an InvestmentType or a custom classe
+  label: string;
+  color: string;
+  current: number;
+  share: number; // of the portfolio, 0-1
+  target?: number; // 0-1, normalized over all targets
+  drift?: number; // share - target
+}
+
+export interface ContributionSplit {
+  key: string;
+  label: string;
+  amount: number;
+}
+
+const CUSTOM_CLASS_COLOR = '#64748B';
+
+/** Class an investment counts under: its classe, or its type when it has none. */
+export function getAllocationClass(investment: Investment): string {
+  return investment.classe?.trim() || investment.tipo;
+}
+
+export function getAllocationLabel(key: string): string {
+  return investmentTypeLabels[key as InvestmentType] ?? key;
+}
+
+/** Custom classes in use, to offer when classifying or setting targets. */
+export function getCustomClasses(investments: Investment[]): string[] {
+  return [...new Set(investments.map((i) => i.classe?.trim()).filter((c): c is string => !!c))].sort();
+}
+
+/** Targets as fractions adding up to 1, whatever the percents entered add up to. */
+function normalizeTargets(targets: AllocationTargets): Record<string, number> {
+  const total = Object.values(targets).reduce((sum, t) => sum + Math.max(0, t), 0);
+  if (total <= 0) return {};
+  return Object.fromEntries(Object.entries(targets).map(([key, t]) => [key, Math.max(0, t) / total]));
+}
+
+/**
+ * Current mix of the investments already made by class, next to its target.
+ * Classes with a target but nothing invested yet are listed too.
+ */
+export function getAllocation(investments: Investment[], targets: AllocationTargets): AllocationRow[] {
+  const values = new Map<string, number>();
+  for (const investment of investments.filter((i) => i.jaInvestido)) {
+    const key = getAllocationClass(investment);
+    values.set(key, (values.get(key) || 0) + getCurrentValue(investment));
+  }
+  const normalized = normalizeTargets(targets);
+  for (const key of Object.keys(normalized)) {
+    if (!values.has(key)) values.set(key, 0);
+  }
+
+  const total = [...values.values()].reduce((sum, v) => sum + v, 0);
+  return [...values.entries()]
+    .map(([key, current]) => {
+      const share = total > 0 ? current / total : 0;
+      const target = normalized[key];
+      return {
+        key,
+        label: getAllocationLabel(key),
+        color: investmentTypeColors[key as InvestmentType] ?? CUSTOM_CLASS_COLOR,
+        current,
+        share,
+        target,
+        drift: target !== undefined ? share - target : undefined,
+      };
+    })
+    .sort((a, b) => b.current - a.current);
+}
+
+/**
+ * Splits a new contribution among the classes so the mix ends as close to
+ * the targets as it can without selling: the classes furthest below their
+ * target are topped up first, to a common shortfall, until `amount` runs out.
+ */
+export function splitContribution(investments: Investment[], targets: AllocationTargets, amount: number): ContributionSplit[] {
+  const rows = getAllocation(investments, targets).filter((r) => r.target !== undefined);
+  if (amount <= 0 || rows.length === 0) return [];
+
+  const total = getAllocation(investments, {}).reduce((sum, r) => sum + r.current, 0) + amount;
+  const shortfalls = rows.map((r) => (r.target ?? 0) * total - r.current);
+  const filled = (level: number) => shortfalls.reduce((sum, s) => sum + Math.max(0, s - level), 0);
+
+  // The level at which topping everyone up to it costs exactly `amount`
+  let low = Math.min(0, ...shortfalls);
+  let high = Math.max(...shortfalls);
+  for (let i = 0; i < 60; i++) {
+    const mid = (low + high) / 2;
+    if (filled(mid) > amount) low = mid;
+    else high = mid;
+  }
+
+  return rows
+    .map((r, index) => ({ key: r.key, label: r.label, amount: Math.max(0, shortfalls[index] - high) }))
+    .filter((s) => s.amount >= 0.01)
+    .sort((a, b) => b.amount - a.amount);
+}
@@ -0,0 +1,81 @@
+export const ATTACHMENTS_BUCKET = 'attachments';
+
+export const ACCEPTED_ATTACHMENT_TYPES = 'image/*,application/pdf';
+
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+
+/** Files captured offline wait in localStorage, which holds only a few MB in total. */
+export const MAX_OFFLINE_ATTACHMENT_BYTES = 1.5 * 1024 * 1024;
+
+/** Photos are scaled down to this many pixels on the longest side before upload. */
+const MAX_IMAGE_SIDE = 1600;
+
+export interface PreparedAttachment {
+  blob: Blob;
+  fileName: string;
+  mimeType: string;
+}
+
+export function isImageAttachment(mimeType: string): boolean {
+  return mimeType.startsWith('image/');
+}
+
+/** Why a picked file can't be attached, or null when it can. */
+export function getAttachmentError(file: File): string | null {
+  if (!isImageAttachment(file.type) && file.type !== 'application/pdf') {
+    return 'Só é possível anexar imagens e PDFs.';
+  }
+  if (file.size > MAX_ATTACHMENT_BYTES) return 'O arquivo passa do limite de 10 MB.';
+  return null;
+}
+
+/**
+ * Camera photos are often several MB; they're re-encoded as JPEG no larger
+ * than MAX_IMAGE_SIDE, which keeps receipts legible. PDFs and images the
+ * browser can't decode (e.g. HEIC outside Safari) are kept as they are.
+ */
+export async function prepareAttachment(file: File): Promise<PreparedAttachment> {
+  const original = { blob: file as Blob, fileName: file.name, mimeType: file.type };
+  if (!isImageAttachment(file.type) || file.type === 'image/gif') return original;
+
+  try {
+    const bitmap = await createImageBitmap(file);
+    const scale = Math.min(1, MAX_IMAGE_SIDE / Math.max(bitmap.width, bitmap.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(bitmap.width * scale);
+    canvas.height = Math.round(bitmap.height * scale);
+    canvas.getContext('2d')?.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+
+    const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, 'image/jpeg', 0.8));
+    if (!blob || blob.size >= file.size) return original;
+    return { blob, fileName: file.name.replace(/\.[^.]+$/, '') + '.jpg', mimeType: 'image/jpeg' };
+  } catch {
+    return original;
+  }
+}
+
+export function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+export async function dataUrlToBlob(dataUrl: string): Promise<Blob> {
+  const response = await fetch(dataUrl);
+  return response.blob();
+}
+
+/** Storage path; the first folder must be the user id for the bucket policies. */
+export function buildAttachmentPath(userId: string, transactionId: string, mimeType: string): string {
+  const extension = mimeType === 'application/pdf' ? 'pdf' : mimeType.split('/')[1] || 'bin';
+  return `${userId}/${transactionId}/${crypto.randomUUID()}.${extension}`;
+}
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1).replace('.', ',')} MB`;
+}
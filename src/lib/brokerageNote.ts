@@ -0,0 +1,253 @@
+import { Investment, InvestmentMovement } from '@/types/investment';
+import { parseImportDate } from '@/lib/currency';
+import { getTicker } from '@/lib/stockTax';
+
+export interface NoteTrade {
+  side: 'buy' | 'sell';
+  ticker: string; // empty when the note only names the company
+  specification: string; // as printed, e.g. "PETROBRAS PN N2"
+  quantity: number;
+  unitPrice: number;
+  amount: number; // quantity x price, fees apart
+  fees: number;
+}
+
+/** One nota de corretagem: the trades of a trading day at a broker. */
+export interface BrokerageNote {
+  number: string;
+  date: string;
+  trades: NoteTrade[];
+  fees: number;
+}
+
+const MONEY = String.raw`\d{1,3}(?:\.\d{3})*,\d{2}`;
+
+/** Spot-market trade line of the SINACOR layout; options and futures are left out. */
+const TRADE_LINE = new RegExp(
+  String.raw`(?:^|\s)([CV])\s+(VISTA|FRACION[AÁ]RIO)\s+(.+?)\s+(\d{1,3}(?:\.\d{3})*)\s+(\d{1,3}(?:\.\d{3})*,\d{2,})\s+(${MONEY})\s+[DC]\s*$`,
+  'i'
+);
+
+/** Costs of the "Resumo financeiro"; IRRF is a tax credit, not a cost, and totals repeat the lines. */
+const FEE_LABELS = [
+  String.raw`Taxa de liquida[çc][ãa]o`,
+  String.raw`Taxa de registro`,
+  String.raw`Taxa de termo\s*/\s*op[çc][õo]es`,
+  String.raw`Taxa A\.?\s?N\.?\s?A\.?`,
+  String.raw`Emolumentos`,
+  String.raw`Taxa operacional`,
+  String.raw`Corretagem`,
+  String.raw`Execu[çc][ãa]o`,
+  String.raw`Cust[óo]dia`,
+  String.raw`Impostos`,
+  String.raw`I\.?S\.?S\.?(?:\s*\([^)]*\))?`,
+  String.raw`Outros`,
+];
+const FEE_LINE = new RegExp(String.raw`(?:^|\s)(?:${FEE_LABELS.join('|')})\s+(${MONEY})`, 'gi');
+
+const TICKER = /\b([A-Z]{4}\d{1,2})F?\b/;
+
+/** "1.234,56" or "1234.56" as a number; NaN when it is neither. */
+function parseAmount(text: string): number {
+  const clean = text.replace(/[R$\s]/g, '');
+  return parseFloat(clean.includes(',') ? clean.replace(/\./g, '').replace(',', '.') : clean);
+}
+
+/**
+ * Spreads a note's fees over its trades in proportion to their amounts, in
+ * cents; the last trade takes the rounding left over.
+ */
+export function allocateFees(trades: NoteTrade[], fees: number): NoteTrade[] {
+  const total = trades.reduce((sum, t) => sum + t.amount, 0);
+  if (total <= 0) return trades;
+  let left = Math.round(fees * 100);
+  return trades.map((trade, index) => {
+    const cents = index === trades.length - 1 ? left : Math.round((fees * 100 * trade.amount) / total);
+    left -= cents;
+    return { ...trade, fees: cents / 100 };
+  });
+}
+
+function parseSinacorPage(page: string): BrokerageNote | null {
+  // "Nr. nota Folha Data pregão" over its values, or each label followed by its value
+  const header = page.match(/Nr\.?\s*(?:da\s+)?nota[\s\S]*?(\d{1,12})\s+(?:\d{1,4}\s+)?(\d{2}\/\d{2}\/\d{4})/i);
+  const number = header?.[1] ?? page.match(/Nr\.?\s*(?:da\s+)?nota\s*:?\s*(\d{1,12})/i)?.[1];
+  const date = parseImportDate(header?.[2] ?? page.match(/Data\s+preg[ãa]o\s*:?\s*(\d{2}\/\d{2}\/\d{4})/i)?.[1] ?? '');
+  if (!number || !date) return null;
+
+  const trades: NoteTrade[] = [];
+  for (const rawLine of page.split(/\r?\n/)) {
+    const match = rawLine.trim().match(TRADE_LINE);
+    if (!match) continue;
+    const specification = match[3].replace(/\s+[#DF28]?\s*$/, '').trim();
+    trades.push({
+      side: match[1].toUpperCase() === 'C' ? 'buy' : 'sell',
+      ticker: specification.toUpperCase().match(TICKER)?.[1] ?? '',
+      specification,
+      quantity: parseAmount(match[4]),
+      unitPrice: parseAmount(match[5]),
+      amount: parseAmount(match[6]),
+      fees: 0,
+    });
+  }
+
+  let fees = 0;
+  let hasFees = false;
+  for (const match of page.matchAll(FEE_LINE)) {
+    fees += parseAmount(match[1]);
+    hasFees = true;
+  }
+  // Without the cost lines, the costs are what the net settlement is short of the trades
+  const net = page.match(new RegExp(String.raw`L[íi]quido\s+para\s+\d{2}/\d{2}/\d{4}\s+(${MONEY})\s*([DC])`, 'i'));
+  if (!hasFees && net && trades.length > 0) {
+    const traded = trades.reduce((sum, t) => sum + (t.side === 'sell' ? t.amount : -t.amount), 0);
+    const settled = parseAmount(net[1]) * (net[2].toUpperCase() === 'C' ? 1 : -1);
+    fees = Math.max(0, traded - settled);
+  }
+
+  return { number, date, trades, fees: Math.round(fees * 100) / 100 };
+}
+
+/**
+ * Reads the text of B3 brokerage notes in the SINACOR layout, as copied from
+ * the PDF. A note printed over several pages is joined by its number; its
+ * costs are then spread over the trades.
+ */
+export function parseSinacorNotes(text: string): BrokerageNote[] {
+  const byNumber = new Map<string, BrokerageNote>();
+  for (const page of text.split(/NOTA DE CORRETAGEM/i).slice(1)) {
+    const parsed = parseSinacorPage(page);
+    if (!parsed) continue;
+    const note = byNumber.get(parsed.number);
+    if (note) {
+      note.trades.push(...parsed.trades);
+      note.fees += parsed.fees;
+    } else {
+      byNumber.set(parsed.number, parsed);
+    }
+  }
+  return [...byNumber.values()]
+    .filter((note) => note.trades.length > 0)
+    .map((note) => ({ ...note, trades: allocateFees(note.trades, note.fees) }));
+}
+
+function splitCsvLine(line: string, separator: string): string[] {
+  const cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (const char of line) {
+    if (char === '"') quoted = !quoted;
+    else if (char === separator && !quoted) {
+      cells.push(cell.trim());
+      cell = '';
+    } else cell += char;
+  }
+  cells.push(cell.trim());
+  return cells;
+}
+
+function normalizeHeader(cell: string): string {
+  return cell.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '').trim();
+}
+
+/**
+ * Reads a broker's trade export with a header line naming the columns: date,
+ * note number, C/V, ticker, quantity and price are needed; amount and fee
+ * columns are used when present. Rows are grouped into notes by number and
+ * date, and each keeps its own fees.
+ */
+export function parseBrokerCsv(text: string): { notes: BrokerageNote[]; errors: number[] } {
+  const lines = text.split(/\r?\n/);
+  const headerIndex = lines.findIndex((l) => l.trim() !== '');
+  if (headerIndex < 0) return { notes: [], errors: [] };
+  const separator = lines[headerIndex].includes(';') ? ';' : lines[headerIndex].includes('\t') ? '\t' : ',';
+  const headers = splitCsvLine(lines[headerIndex], separator).map(normalizeHeader);
+  const find = (pattern: RegExp) => headers.findIndex((h) => pattern.test(h));
+  const columns = {
+    date: find(/^data/),
+    number: find(/nota/),
+    side: find(/^(c\/v|cv|compra\/venda|tipo|operacao|natureza)/),
+    ticker: find(/(ticker|ativo|codigo|papel|titulo|produto)/),
+    quantity: find(/^(qtd|qtde|quantidade)/),
+    price: find(/(preco|cotacao)/),
+    amount: find(/^(valor|total)/),
+  };
+  const feeColumns = headers
+    .map((h, index) => (/(taxa|custo|corretagem|emolumento)/.test(h) ? index : -1))
+    .filter((index) => index >= 0);
+  if ([columns.date, columns.side, columns.ticker, columns.quantity, columns.price].some((c) => c < 0)) {
+    return { notes: [], errors: [headerIndex + 1] };
+  }
+
+  const byKey = new Map<string, BrokerageNote>();
+  const errors: number[] = [];
+  lines.forEach((rawLine, lineIndex) => {
+    if (lineIndex <= headerIndex || !rawLine.trim()) return;
+    const cells = splitCsvLine(rawLine, separator);
+    const date = parseImportDate(cells[columns.date] || '');
+    const side = (cells[columns.side] || '').trim().toUpperCase();
+    const specification = (cells[columns.ticker] || '').trim().toUpperCase();
+    const quantity = parseAmount(cells[columns.quantity] || '');
+    const unitPrice = parseAmount(cells[columns.price] || '');
+    const amount = columns.amount >= 0 ? parseAmount(cells[columns.amount] || '') : quantity * unitPrice;
+    const fees = feeColumns.reduce((sum, index) => sum + (parseAmount(cells[index] || '') || 0), 0);
+    if (!date || !/^[CV]/.test(side) || !specification || !(quantity > 0) || !(unitPrice > 0)) {
+      errors.push(lineIndex + 1);
+      return;
+    }
+
+    const number = columns.number >= 0 ? (cells[columns.number] || '').trim() : '';
+    const key = `${number}|${date}`;
+    const note = byKey.get(key) ?? { number, date, trades: [], fees: 0 };
+    note.trades.push({
+      side: side.startsWith('C') ? 'buy' : 'sell',
+      ticker: specification.match(TICKER)?.[1] ?? '',
+      specification,
+      quantity,
+      unitPrice,
+      amount: amount > 0 ? amount : quantity * unitPrice,
+      fees,
+    });
+    note.fees += fees;
+    byKey.set(key, note);
+  });
+
+  return { notes: [...byKey.values()].sort((a, b) => a.date.localeCompare(b.date)), errors };
+}
+
+/** Reads either layout: SINACOR text when it has the note headers, a CSV export otherwise. */
+export function parseBrokerageNotes(text: string): { notes: BrokerageNote[]; errors: number[] } {
+  if (/NOTA DE CORRETAGEM/i.test(text)) return { notes: parseSinacorNotes(text), errors: [] };
+  return parseBrokerCsv(text);
+}
+
+/**
+ * What a note is recognized by when imported again: its number, or for exports
+ * without one, its date and a hash of its trades as printed.
+ */
+export function getNoteKey(note: BrokerageNote): string {
+  if (note.number) return note.number;
+  const trades = note.trades
+    .map((t) => `${t.side}|${t.specification}|${t.quantity}|${t.unitPrice}|${t.amount}`)
+    .sort()
+    .join(';');
+  let hash = 5381;
+  for (let i = 0; i < trades.length; i++) hash = ((hash * 33) ^ trades.charCodeAt(i)) >>> 0;
+  return `${note.date}#${hash.toString(16)}`;
+}
+
+/** Keys of the notes already imported, on opening lots or on movements. */
+export function getImportedNoteKeys(investments: Investment[], movements: InvestmentMovement[]): Set<string> {
+  return new Set(
+    [...investments.map((i) => i.notaCorretagem), ...movements.map((m) => m.brokerageNote)].filter(
+      (n): n is string => !!n
+    )
+  );
+}
+
+/** Stock investment a ticker is bought into; the oldest when there are several. */
+export function findStockInvestment(investments: Investment[], ticker: string): Investment | undefined {
+  return investments
+    .filter((i) => i.tipo === 'acoes' && getTicker(i) === ticker.toUpperCase())
+    .sort((a, b) => a.dataInvestimento.localeCompare(b.dataInvestimento))[0];
+}
@@ -0,0 +1,118 @@
+import { format } from 'date-fns';
+import { Budget } from '@/types/budget';
+import { Category } from '@/types/category';
+import { Transaction, TransactionCategory } from '@/types/transaction';
+import { countsAsExpense } from '@/lib/transactions';
+import { isWithinCategory } from '@/lib/categories';
+import { getCategoryAmounts } from '@/lib/splits';
+import { shiftMonth } from '@/lib/utils';
+
+/** Share of the limit at which a budget is flagged before it is exceeded. */
+export const BUDGET_WARNING_RATIO = 0.8;
+
+export type BudgetStatus = 'ok' | 'warning' | 'exceeded';
+
+export interface BudgetProgress {
+  budget: Budget;
+  spent: number;
+  carriedOver: number; // unused amount brought from the previous month (rollover)
+  available: number; // limit + carriedOver
+  remaining: number;
+  ratio: number; // spent / available
+  status: BudgetStatus;
+}
+
+export function getMonthKey(date: Date | string): string {
+  return typeof date === 'string' ? date.slice(0, 7) : format(date, 'yyyy-MM');
+}
+
+/**
+ * Expenses of a month under a category, with the rules of the dashboard
+ * totals (transfers and loans received back don't count). Split lines count
+ * under their own category. Amounts must already be in the base currency.
+ */
+export function getCategorySpending(
+  transactions: Transaction[],
+  categories: Category[],
+  category: TransactionCategory,
+  month: string
+): number {
+  return transactions
+    .filter((t) => getMonthKey(t.date) === month && countsAsExpense(t))
+    .flatMap(getCategoryAmounts)
+    .filter((line) => isWithinCategory(categories, line.category, category))
+    .reduce((sum, line) => sum + line.amount, 0);
+}
+
+function getStatus(ratio: number): BudgetStatus {
+  if (ratio > 1) return 'exceeded';
+  if (ratio >= BUDGET_WARNING_RATIO) return 'warning';
+  return 'ok';
+}
+
+/**
+ * Progress of a budget in its month. With rollover, the unused part of the
+ * previous month's budget for the same category is carried in, following the
+ * chain back while earlier months also roll over. Overspending is not carried.
+ */
+export function getBudgetProgress(
+  budget: Budget,
+  budgets: Budget[],
+  transactions: Transaction[],
+  categories: Category[]
+): BudgetProgress {
+  let carriedOver = 0;
+  if (budget.rollover) {
+    const previous = budgets.find((b) => b.category === budget.category && b.month === shiftMonth(budget.month, -1));
+    if (previous) carriedOver = Math.max(0, getBudgetProgress(previous, budgets, transactions, categories).remaining);
+  }
+
+  const spent = getCategorySpending(transactions, categories, budget.category, budget.month);
+  const available = budget.limit + carriedOver;
+  const ratio = available > 0 ? spent / available : 0;
+  return {
+    budget,
+    spent,
+    carriedOver,
+    available,
+    remaining: available - spent,
+    ratio,
+    status: getStatus(ratio),
+  };
+}
+
+/**
+ * Threshold a new expense makes its budget cross: 'warning' when it reaches
+ * 80% of what is available, 'exceeded' when it passes 100%. Null otherwise.
+ */
+export function getBudgetAlert(before: BudgetProgress, after: BudgetProgress): Exclude<BudgetStatus, 'ok'> | null {
+  if (after.status === 'exceeded' && before.status !== 'exceeded') return 'exceeded';
+  if (after.status === 'warning' && before.status === 'ok') return 'warning';
+  return null;
+}
+
+export interface BudgetAlert {
+  progress: BudgetProgress; // after the entry
+  level: Exclude<BudgetStatus, 'ok'>;
+}
+
+/**
+ * Budgets of the entry's month that `entry` pushes past 80% or 100%. Both the
+ * entry and `transactions` must already be in the base currency.
+ */
+export function getBudgetAlertsForEntry(
+  entry: Transaction,
+  budgets: Budget[],
+  transactions: Transaction[],
+  categories: Category[]
+): BudgetAlert[] {
+  const month = getMonthKey(entry.date);
+  return budgets
+    .filter((b) => b.month === month)
+    .flatMap((budget) => {
+      const before = getBudgetProgress(budget, budgets, transactions, categories);
+      const after = getBudgetProgress(budget, budgets, [...transactions, entry], categories);
+      const level = getBudgetAlert(before, after);
+      return level ? [{ progress: after, level }] : [];
+    });
+}
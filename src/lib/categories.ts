@@ -0,0 +1,94 @@
+import { Category, CategoryKind } from '@/types/category';
+import {
+  DefaultCategory,
+  TransactionCategory,
+  TransactionType,
+  categoryColors,
+  categoryIcons,
+  categoryLabels,
+} from '@/types/transaction';
+
+export type CategoryInfo = Pick<Category, 'key' | 'name' | 'icon' | 'color' | 'kind' | 'parentId'>;
+
+const defaultCategoryKinds: Record<DefaultCategory, CategoryKind> = {
+  salary: 'income',
+  food: 'expense',
+  transport: 'expense',
+  shopping: 'expense',
+  health: 'expense',
+  entertainment: 'expense',
+  bills: 'expense',
+  education: 'expense',
+  investment: 'both',
+  loan: 'expense',
+  transfer: 'both',
+  other: 'both',
+};
+
+/** Keys the app writes itself (transfers, loans) or falls back to, so they can't be deleted. */
+export const lockedCategoryKeys: TransactionCategory[] = ['transfer', 'loan', 'other'];
+
+function isDefaultCategory(key: TransactionCategory): key is DefaultCategory {
+  return key in categoryLabels;
+}
+
+function getDefaultCategory(key: DefaultCategory): CategoryInfo {
+  return {
+    key,
+    name: categoryLabels[key],
+    icon: categoryIcons[key],
+    color: categoryColors[key],
+    kind: defaultCategoryKinds[key],
+  };
+}
+
+/** Rows every user starts with, in the order of categoryLabels. */
+export function getDefaultCategories(): CategoryInfo[] {
+  return (Object.keys(categoryLabels) as DefaultCategory[]).map(getDefaultCategory);
+}
+
+export function createCategoryKey(): TransactionCategory {
+  return crypto.randomUUID();
+}
+
+/**
+ * Category for a transaction's key. Keys without a row (not seeded yet, or
+ * deleted on another device) fall back to the built-in look or to "Outros".
+ */
+export function getCategory(categories: Category[], key: TransactionCategory): CategoryInfo {
+  const category = categories.find((c) => c.key === key);
+  if (category) return category;
+  return getDefaultCategory(isDefaultCategory(key) ? key : 'other');
+}
+
+/** Top-level category a key rolls up to; charts group subcategories under it. */
+export function getRootCategory(categories: Category[], key: TransactionCategory): CategoryInfo {
+  const category = getCategory(categories, key);
+  const parent = category.parentId ? categories.find((c) => c.id === category.parentId) : undefined;
+  return parent || category;
+}
+
+/** Whether `key` is `target` itself or one of its subcategories. */
+export function isWithinCategory(categories: Category[], key: TransactionCategory, target: TransactionCategory): boolean {
+  return key === target || getRootCategory(categories, key).key === target;
+}
+
+/** "Contas › Energia" for subcategories, the plain name otherwise. */
+export function getCategoryPath(categories: Category[], key: TransactionCategory): string {
+  const category = getCategory(categories, key);
+  const root = getRootCategory(categories, key);
+  return root.key === category.key ? category.name : `${root.name} › ${category.name}`;
+}
+
+/** Parents in creation order, each followed by its subcategories. */
+export function sortCategoryTree(categories: Category[]): Category[] {
+  const roots = categories.filter((c) => !c.parentId || !categories.some((p) => p.id === c.parentId));
+  return roots.flatMap((root) => [root, ...categories.filter((c) => c.parentId === root.id)]);
+}
+
+/** Categories offered when recording a transaction of the given type (transfers are never picked). */
+export function getCategoriesForType(categories: Category[], type: TransactionType): Category[] {
+  return sortCategoryTree(categories).filter(
+    (c) => c.key !== 'transfer' && (c.kind === type || c.kind === 'both')
+  );
+}
@@ -0,0 +1,65 @@
+import {
+  ArrowLeftRight,
+  Baby,
+  Car,
+  Coffee,
+  Droplet,
+  Dumbbell,
+  Fuel,
+  Gamepad2,
+  Gift,
+  GraduationCap,
+  HandCoins,
+  Heart,
+  Home,
+  MoreHorizontal,
+  PawPrint,
+  PiggyBank,
+  Plane,
+  Receipt,
+  Shirt,
+  ShoppingBag,
+  ShoppingCart,
+  Smartphone,
+  TrendingUp,
+  UtensilsCrossed,
+  Wallet,
+  Wifi,
+  Zap,
+  type LucideIcon,
+} from 'lucide-react';
+
+/** Icons a category can use, keyed by the lucide name stored in categories.icon. */
+export const categoryIconOptions: Record<string, LucideIcon> = {
+  Wallet,
+  UtensilsCrossed,
+  Car,
+  ShoppingBag,
+  Heart,
+  Gamepad2,
+  Receipt,
+  GraduationCap,
+  TrendingUp,
+  HandCoins,
+  ArrowLeftRight,
+  MoreHorizontal,
+  Home,
+  Zap,
+  Droplet,
+  Wifi,
+  Smartphone,
+  ShoppingCart,
+  Coffee,
+  Fuel,
+  Plane,
+  PawPrint,
+  Baby,
+  Shirt,
+  Dumbbell,
+  Gift,
+  PiggyBank,
+};
+
+export function getCategoryIcon(name: string): LucideIcon {
+  return categoryIconOptions[name] || MoreHorizontal;
+}
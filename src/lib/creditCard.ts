@@ -0,0 +1,132 @@
+import { format } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { Transaction } from '@/types/transaction';
+import { Account } from '@/types/account';
+import { getAccountBalance, getBalanceEffect } from '@/lib/transactions';
+import { shiftMonth, toLocalDateString } from '@/lib/utils';
+
+export type InvoiceStatus = 'open' | 'closed' | 'overdue' | 'paid';
+
+export interface Invoice {
+  month: string; // YYYY-MM the invoice is due
+  closingDate: string;
+  dueDate: string;
+  purchases: Transaction[];
+  payments: Transaction[];
+  total: number;
+  paid: number;
+  remaining: number;
+  status: InvoiceStatus;
+}
+
+export const invoiceStatusLabels: Record<InvoiceStatus, string> = {
+  open: 'Aberta',
+  closed: 'Fechada',
+  overdue: 'Vencida',
+  paid: 'Paga',
+};
+
+export function isCreditCard(account: Account): boolean {
+  return account.type === 'credit_card';
+}
+
+/** Day of month clamped to the month's length (closing day 31 in February → 28/29). */
+function dateInMonth(month: string, day: number): string {
+  const [year, m] = month.split('-').map(Number);
+  const lastDay = new Date(year, m, 0).getDate();
+  return toLocalDateString(new Date(year, m - 1, Math.min(day, lastDay)));
+}
+
+function cycleDays(card: Account) {
+  return { closingDay: card.closingDay || 1, dueDay: card.dueDay || card.closingDay || 1 };
+}
+
+/**
+ * Invoice (identified by its due month) a purchase made on `date` is billed to.
+ * Purchases after the closing day roll over to the next cycle; when the due day
+ * comes before the closing day, the invoice is due in the month after closing.
+ */
+export function getInvoiceMonth(card: Account, date: string): string {
+  const { closingDay, dueDay } = cycleDays(card);
+  const purchaseMonth = date.slice(0, 7);
+  const closingMonth = date > dateInMonth(purchaseMonth, closingDay)
+    ? shiftMonth(purchaseMonth, 1)
+    : purchaseMonth;
+  return dueDay > closingDay ? closingMonth : shiftMonth(closingMonth, 1);
+}
+
+/** Short label for an invoice, e.g. "mar/2026". */
+export function formatInvoiceMonth(month: string): string {
+  return format(new Date(`${month}-01T12:00:00`), 'MMM/yyyy', { locale: ptBR });
+}
+
+export function getInvoiceDates(card: Account, month: string) {
+  const { closingDay, dueDay } = cycleDays(card);
+  const closingMonth = dueDay > closingDay ? month : shiftMonth(month, -1);
+  return {
+    closingDate: dateInMonth(closingMonth, closingDay),
+    dueDate: dateInMonth(month, dueDay),
+  };
+}
+
+/** Incoming transfer into the card: an invoice payment. */
+function isInvoicePayment(t: Transaction): boolean {
+  return !!t.transferId && t.type === 'income';
+}
+
+/**
+ * Invoices of a card, newest first. Purchases are every entry on the card
+ * except payments (refunds reduce the total); payments are matched by their
+ * invoice month, or by default to the invoice that closed before they were made.
+ */
+export function getCardInvoices(card: Account, transactions: Transaction[], today = new Date()): Invoice[] {
+  const todayStr = toLocalDateString(today);
+  const cardEntries = transactions.filter((t) => t.accountId === card.id);
+  const byMonth = new Map<string, { purchases: Transaction[]; payments: Transaction[] }>();
+
+  const bucket = (month: string) => {
+    if (!byMonth.has(month)) byMonth.set(month, { purchases: [], payments: [] });
+    return byMonth.get(month)!;
+  };
+
+  for (const t of cardEntries) {
+    if (isInvoicePayment(t)) {
+      bucket(t.invoiceMonth || shiftMonth(getInvoiceMonth(card, t.date), -1)).payments.push(t);
+    } else {
+      bucket(getInvoiceMonth(card, t.date)).purchases.push(t);
+    }
+  }
+
+  // Always show the invoice currently accumulating purchases
+  bucket(getInvoiceMonth(card, todayStr));
+
+  return Array.from(byMonth.entries())
+    .map(([month, { purchases, payments }]) => {
+      const { closingDate, dueDate } = getInvoiceDates(card, month);
+      const total = purchases.reduce((sum, t) => sum - getBalanceEffect(t), 0);
+      const paid = payments.reduce((sum, t) => sum + t.amount, 0);
+      const remaining = Math.max(0, total - paid);
+
+      let status: InvoiceStatus;
+      if (todayStr <= closingDate) status = 'open';
+      else if (remaining < 0.01) status = 'paid';
+      else if (todayStr > dueDate) status = 'overdue';
+      else status = 'closed';
+
+      return { month, closingDate, dueDate, purchases, payments, total, paid, remaining, status };
+    })
+    .sort((a, b) => b.month.localeCompare(a.month));
+}
+
+/** Invoices that still need paying (closed or overdue), soonest due first. */
+export function getPendingInvoices(card: Account, transactions: Transaction[], today = new Date()): Invoice[] {
+  return getCardInvoices(card, transactions, today)
+    .filter((inv) => inv.status === 'closed' || inv.status === 'overdue')
+    .sort((a, b) => a.dueDate.localeCompare(b.dueDate));
+}
+
+/** Credit limit minus what is currently owed on the card. */
+export function getAvailableCredit(card: Account, transactions: Transaction[]): number | undefined {
+  if (card.creditLimit === undefined) return undefined;
+  return card.creditLimit + getAccountBalance(card, transactions);
+}
@@ -0,0 +1,157 @@
+import { CurrencyCode, ExchangeRate } from '@/types/currency';
+import { Transaction, TransactionSplit } from '@/types/transaction';
+import { Account } from '@/types/account';
+import { toLocalDateString } from '@/lib/utils';
+
+export const DEFAULT_CURRENCY: CurrencyCode = 'BRL';
+
+/** "US$ 1.234,56": foreign currencies keep the Brazilian number format used everywhere else. */
+export function formatMoney(value: number, currency: CurrencyCode = DEFAULT_CURRENCY): string {
+  try {
+    return new Intl.NumberFormat('pt-BR', { style: 'currency', currency }).format(value);
+  } catch {
+    return `${currency} ${value.toLocaleString('pt-BR', { minimumFractionDigits: 2 })}`;
+  }
+}
+
+/** "R$", "US$", "€"… */
+export function getCurrencySymbol(currency: CurrencyCode = DEFAULT_CURRENCY): string {
+  try {
+    const parts = new Intl.NumberFormat('pt-BR', { style: 'currency', currency }).formatToParts(0);
+    return parts.find((p) => p.type === 'currency')?.value || currency;
+  } catch {
+    return currency;
+  }
+}
+
+export function isValidCurrencyCode(code: string): boolean {
+  return /^[A-Z]{3}$/.test(code);
+}
+
+/** Currency of an entry booked on `accountId`: the account's, or `base` when it has none. */
+export function getAccountCurrency(accounts: Account[], accountId: string | undefined, base: CurrencyCode): CurrencyCode {
+  return accounts.find((a) => a.id === accountId)?.currency || base;
+}
+
+/**
+ * Units of `to` per unit of `from` on `date`: the latest rate on or before the
+ * date, or the earliest one after it when the table starts later. Inverse
+ * pairs are used when only the opposite direction was entered. Null when the
+ * pair has no rate at all.
+ */
+export function findRate(rates: ExchangeRate[], from: CurrencyCode, to: CurrencyCode, date: string): number | null {
+  if (from === to) return 1;
+
+  const candidates = rates
+    .filter(
+      (r) =>
+        (r.currency === from && r.quoteCurrency === to) ||
+        (r.currency === to && r.quoteCurrency === from)
+    )
+    .sort((a, b) => a.date.localeCompare(b.date));
+  if (candidates.length === 0) return null;
+
+  const before = candidates.filter((r) => r.date <= date);
+  const rate = before.length > 0 ? before[before.length - 1] : candidates[0];
+  return rate.currency === from ? rate.rate : 1 / rate.rate;
+}
+
+export function convertAmount(
+  amount: number,
+  from: CurrencyCode,
+  to: CurrencyCode,
+  date: string,
+  rates: ExchangeRate[]
+): number | null {
+  const rate = findRate(rates, from, to, date);
+  return rate === null ? null : Math.round(amount * rate * 100) / 100;
+}
+
+/** Converted split lines, the first taking the cents lost to rounding so they add up to `amount`. */
+function fitSplitsToAmount(splits: TransactionSplit[], amount: number): TransactionSplit[] {
+  const remainder = Math.round(amount * 100) - splits.reduce((sum, line) => sum + Math.round(line.amount * 100), 0);
+  return splits.map((line, i) => (i === 0 ? { ...line, amount: (Math.round(line.amount * 100) + remainder) / 100 } : line));
+}
+
+/**
+ * Transactions with amounts (and split lines) expressed in `base`, each at the
+ * rate of its own date, so they can be summed. Entries whose currency has no
+ * rate are kept as they are; they are the ones still not in `base`.
+ */
+export function convertTransactions(transactions: Transaction[], base: CurrencyCode, rates: ExchangeRate[]): Transaction[] {
+  return transactions.map((t) => {
+    const currency = t.currency || DEFAULT_CURRENCY;
+    if (currency === base) return t;
+    const rate = findRate(rates, currency, base, t.date);
+    if (rate === null) return t;
+    const round = (value: number) => Math.round(value * rate * 100) / 100;
+    const amount = round(t.amount);
+    return {
+      ...t,
+      amount,
+      currency: base,
+      splits: t.splits && fitSplitsToAmount(t.splits.map((line) => ({ ...line, amount: round(line.amount) })), amount),
+    };
+  });
+}
+
+/** How many of `transactions` are not in `base`, i.e. had no rate to convert them. */
+export function countUnconverted(transactions: Transaction[], base: CurrencyCode): number {
+  return transactions.filter((t) => (t.currency || DEFAULT_CURRENCY) !== base).length;
+}
+
+/** Converts at today's rate; used for balances, which have no single date. */
+export function convertToday(amount: number, from: CurrencyCode, to: CurrencyCode, rates: ExchangeRate[]): number | null {
+  return convertAmount(amount, from, to, toLocalDateString(), rates);
+}
+
+export interface ParsedRateRow {
+  currency: CurrencyCode;
+  quoteCurrency: CurrencyCode;
+  date: string;
+  rate: number;
+}
+
+/** Reads a date from an imported file: 2026-03-01 or 01/03/2026. */
+export function parseImportDate(value: string): string | null {
+  const iso = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (iso) return value;
+  const br = value.match(/^(\d{2})\/(\d{2})\/(\d{4})$/);
+  if (br) return `${br[3]}-${br[2]}-${br[1]}`;
+  return null;
+}
+
+/**
+ * Reads a rates file with one rate per line: `date;currency;rate[;quote]`
+ * (commas also work as separators when the rate uses a dot). Dates may be
+ * 2026-03-01 or 01/03/2026; the quote currency defaults to `base`. A header
+ * line and blank lines are skipped.
+ */
+export function parseExchangeRatesCsv(text: string, base: CurrencyCode): { rows: ParsedRateRow[]; errors: number[] } {
+  const rows: ParsedRateRow[] = [];
+  const errors: number[] = [];
+
+  text.split(/\r?\n/).forEach((rawLine, index) => {
+    const line = rawLine.trim();
+    if (!line) return;
+    const cells = line.split(line.includes(';') ? ';' : ',').map((c) => c.trim().replace(/^"|"$/g, ''));
+    const [dateCell, currencyCell, rateCell, quoteCell] = cells;
+
+    const date = parseImportDate(dateCell || '');
+    const currency = (currencyCell || '').toUpperCase();
+    const quoteCurrency = (quoteCell || base).toUpperCase();
+    // "5,1234" (Brazilian decimal comma) or "5.1234"
+    const rateText = rateCell || '';
+    const rate = parseFloat(rateText.includes(',') ? rateText.replace(/\./g, '').replace(',', '.') : rateText);
+
+    if (!date || !isValidCurrencyCode(currency) || !isValidCurrencyCode(quoteCurrency) || !(rate > 0)) {
+      // The first line is usually a header
+      if (index > 0 || rows.length > 0) errors.push(index + 1);
+      return;
+    }
+    if (currency === quoteCurrency) return;
+    rows.push({ currency, quoteCurrency, date, rate });
+  });
+
+  return { rows, errors };
+}
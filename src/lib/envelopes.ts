@@ -0,0 +1,85 @@
+import { Category } from '@/types/category';
+import { Envelope, EnvelopeMovement } from '@/types/envelope';
+import { Transaction, TransactionCategory } from '@/types/transaction';
+import { countsAsExpense, countsAsIncome } from '@/lib/transactions';
+import { getRootCategory } from '@/lib/categories';
+import { getCategoryAmounts } from '@/lib/splits';
+
+// Sums of many cents drift; balances are compared with zero
+const round = (value: number) => Math.round(value * 100) / 100;
+
+export interface EnvelopeBalance {
+  envelope: Envelope;
+  assigned: number; // moved in minus moved out
+  spent: number;
+  balance: number; // negative when spending went past what was assigned
+}
+
+export interface EnvelopeSummary {
+  income: number;
+  toBeAssigned: number; // income not handed out yet; negative when more was assigned than received
+  unenvelopedSpending: number; // expenses in categories no envelope covers, taken from the pool
+  envelopes: EnvelopeBalance[];
+}
+
+/**
+ * Envelope an expense category draws from: the one listing the category
+ * itself, or else the one listing its parent.
+ */
+export function getEnvelopeForCategory(
+  envelopes: Envelope[],
+  categories: Category[],
+  key: TransactionCategory
+): Envelope | undefined {
+  const root = getRootCategory(categories, key).key;
+  return envelopes.find((e) => e.categories.includes(key)) || envelopes.find((e) => e.categories.includes(root));
+}
+
+/**
+ * Zero-based budget since `startDate`: income goes into the pool, movements
+ * hand it out to envelopes, and expenses draw down the envelope of their
+ * category (split lines separately). Expenses no envelope covers come out of
+ * the pool, so every real is accounted for. Transactions must already be in
+ * the base currency; transfers count as neither side.
+ */
+export function getEnvelopeSummary(
+  envelopes: Envelope[],
+  movements: EnvelopeMovement[],
+  transactions: Transaction[],
+  categories: Category[],
+  startDate: string
+): EnvelopeSummary {
+  const inPeriod = transactions.filter((t) => t.date >= startDate);
+  const income = inPeriod.filter((t) => countsAsIncome(t)).reduce((sum, t) => sum + t.amount, 0);
+
+  const spentByEnvelope = new Map<string, number>();
+  let unenvelopedSpending = 0;
+  for (const line of inPeriod.filter((t) => countsAsExpense(t)).flatMap(getCategoryAmounts)) {
+    const envelope = getEnvelopeForCategory(envelopes, categories, line.category);
+    if (envelope) {
+      spentByEnvelope.set(envelope.id, (spentByEnvelope.get(envelope.id) || 0) + line.amount);
+    } else {
+      unenvelopedSpending += line.amount;
+    }
+  }
+
+  const netFromPool = movements.reduce(
+    (sum, m) => sum + (!m.fromEnvelopeId ? m.amount : 0) - (!m.toEnvelopeId ? m.amount : 0),
+    0
+  );
+
+  return {
+    income,
+    toBeAssigned: round(income - netFromPool - unenvelopedSpending),
+    unenvelopedSpending,
+    envelopes: envelopes.map((envelope) => {
+      const assigned = movements.reduce(
+        (sum, m) =>
+          sum + (m.toEnvelopeId === envelope.id ? m.amount : 0) - (m.fromEnvelopeId === envelope.id ? m.amount : 0),
+        0
+      );
+      const spent = spentByEnvelope.get(envelope.id) || 0;
+      return { envelope, assigned, spent, balance: round(assigned - spent) };
+    }),
+  };
+}
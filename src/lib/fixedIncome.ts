@@ -0,0 +1,254 @@
+import { addDays, getDaysInMonth, isWeekend } from 'date-fns';
+import { Investment, InvestmentMovement, RendaFixaDetails, TesouroDiretoDetails } from '@/types/investment';
+import { IndexRate, MarketIndex } from '@/types/marketIndex';
+import { parseImportDate } from '@/lib/currency';
+import { getMovements } from '@/lib/investments';
+import { toLocalDateString } from '@/lib/utils';
+
+/** Business days in a year, the Brazilian convention for rates "a.a.". */
+export const BUSINESS_DAYS_PER_YEAR = 252;
+
+/**
+ * How an investment earns: `percentOfIndex` of the index (e.g. 110% of CDI)
+ * compounded with a fixed annual `spread` (e.g. IPCA + 6%). Prefixados have no index.
+ */
+export interface Indexation {
+  index?: MarketIndex;
+  percentOfIndex: number;
+  spread: number;
+  maturity: string;
+}
+
+export interface ProjectionPoint {
+  date: string;
+  value: number;
+}
+
+export interface ParsedIndexRow {
+  index: MarketIndex;
+  date: string;
+  rate: number;
+}
+
+export interface FixedIncomeProjection {
+  indexation: Indexation;
+  points: ProjectionPoint[]; // at each month end and at maturity
+  today: number;
+  atMaturity: number;
+}
+
+function parseDate(date: string): Date {
+  return new Date(date + 'T12:00:00');
+}
+
+/** Fixed national holidays as MM-DD; Consciência Negra only from 2024 on. */
+const FIXED_HOLIDAYS = ['01-01', '04-21', '05-01', '09-07', '10-12', '11-02', '11-15', '12-25'];
+
+/** Easter Sunday of `year` (anonymous Gregorian algorithm). */
+function getEaster(year: number): Date {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return new Date(year, month - 1, day, 12);
+}
+
+const holidaysByYear = new Map<number, Set<string>>();
+
+/**
+ * National bank holidays of a year, the calendar rates "a.a." are counted
+ * on: the fixed dates plus Carnaval, Good Friday and Corpus Christi.
+ */
+export function getNationalHolidays(year: number): Set<string> {
+  const cached = holidaysByYear.get(year);
+  if (cached) return cached;
+  const easter = getEaster(year);
+  const holidays = new Set([
+    ...FIXED_HOLIDAYS.map((d) => `${year}-${d}`),
+    ...(year >= 2024 ? [`${year}-11-20`] : []),
+    ...[-48, -47, -2, 60].map((offset) => toLocalDateString(addDays(easter, offset))),
+  ]);
+  holidaysByYear.set(year, holidays);
+  return holidays;
+}
+
+/** Weekdays that are not national holidays. */
+export function isBusinessDay(date: string): boolean {
+  return !isWeekend(parseDate(date)) && !getNationalHolidays(Number(date.slice(0, 4))).has(date);
+}
+
+function countBusinessDaysInMonth(date: string): number {
+  const first = parseDate(date.slice(0, 8) + '01');
+  let count = 0;
+  for (let day = 0; day < getDaysInMonth(first); day++) {
+    if (isBusinessDay(toLocalDateString(addDays(first, day)))) count++;
+  }
+  return count;
+}
+
+/** Reads the index and maturity from a Tesouro title or a CDB/LCI/LCA; null when the details are missing. */
+export function getIndexation(investment: Investment): Indexation | null {
+  const details = investment.detalhesEspecificos;
+  if (!details) return null;
+
+  if (investment.tipo === 'renda_fixa') {
+    const d = details as RendaFixaDetails;
+    if (!d.vencimento || !(d.taxa >= 0)) return null;
+    if (d.tipoTaxa === 'cdi') return { index: 'cdi', percentOfIndex: d.taxa, spread: 0, maturity: d.vencimento };
+    if (d.tipoTaxa === 'ipca') return { index: 'ipca', percentOfIndex: 100, spread: d.taxa, maturity: d.vencimento };
+    return { percentOfIndex: 0, spread: d.taxa, maturity: d.vencimento };
+  }
+
+  if (investment.tipo === 'tesouro_direto') {
+    const d = details as TesouroDiretoDetails;
+    if (!d.vencimento || !(d.taxa >= 0)) return null;
+    const titulo = d.titulo || '';
+    if (/selic/i.test(titulo)) return { index: 'selic', percentOfIndex: 100, spread: d.taxa, maturity: d.vencimento };
+    // Renda+ and Educa+ are IPCA-linked too
+    if (/ipca|renda\+|educa\+/i.test(titulo)) {
+      return { index: 'ipca', percentOfIndex: 100, spread: d.taxa, maturity: d.vencimento };
+    }
+    return { percentOfIndex: 0, spread: d.taxa, maturity: d.vencimento };
+  }
+
+  return null;
+}
+
+/** Rates of one index, oldest first. */
+function getSeries(rates: IndexRate[], index: MarketIndex): IndexRate[] {
+  return rates.filter((r) => r.index === index).sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Rate in effect on `date`: the latest one published up to then (for IPCA, the
+ * one of that month or the latest before it). Dates past the series repeat its
+ * last rate, dates before it use the first.
+ */
+function findRate(series: IndexRate[], index: MarketIndex, date: string): number {
+  const until = index === 'ipca' ? date.slice(0, 7) + '-31' : date;
+  let rate = series[0].rate;
+  for (const r of series) {
+    if (r.date > until) break;
+    rate = r.rate;
+  }
+  return rate;
+}
+
+/** Growth of the index over one business day, e.g. 0.0004 for 0.04%. */
+function getDailyIndexRate(series: IndexRate[], index: MarketIndex, date: string): number {
+  const rate = findRate(series, index, date) / 100;
+  const days = index === 'ipca' ? countBusinessDaysInMonth(date) : BUSINESS_DAYS_PER_YEAR;
+  return Math.pow(1 + rate, 1 / days) - 1;
+}
+
+/**
+ * Growth of an index over the business days from `from` to `to`, both
+ * included, e.g. 0.12 for 12%; national holidays do not accrue, so a full
+ * year of a 10% CDI returns 10%. Null when the index has no rates saved.
+ */
+export function getIndexReturn(rates: IndexRate[], index: MarketIndex, from: string, to: string): number | null {
+  const series = getSeries(rates, index);
+  if (series.length === 0) return null;
+
+  let growth = 1;
+  for (let day = parseDate(from), date = from; date <= to; day = addDays(day, 1), date = toLocalDateString(day)) {
+    if (isBusinessDay(date)) growth *= 1 + getDailyIndexRate(series, index, date);
+  }
+  return growth - 1;
+}
+
+/**
+ * Projects the gross value (before income tax) of a CDB/LCI/LCA or Tesouro
+ * title day by day up to maturity, compounding on business days. Contributions
+ * and withdrawals move the balance on their dates. Null when the investment has
+ * no rate or maturity, or its index has no rates saved.
+ */
+export function projectFixedIncome(
+  investment: Investment,
+  movements: InvestmentMovement[],
+  rates: IndexRate[],
+  today: string = toLocalDateString()
+): FixedIncomeProjection | null {
+  const indexation = getIndexation(investment);
+  if (!indexation || indexation.maturity <= investment.dataInvestimento) return null;
+
+  const series = indexation.index ? getSeries(rates, indexation.index) : [];
+  if (indexation.index && series.length === 0) return null;
+
+  const spreadDaily = Math.pow(1 + indexation.spread / 100, 1 / BUSINESS_DAYS_PER_YEAR);
+  const byDate = new Map<string, number>();
+  for (const m of getMovements(movements, investment.id)) {
+    const change = m.type === 'contribution' ? m.amount : m.type === 'withdrawal' ? -m.amount : 0;
+    byDate.set(m.date, (byDate.get(m.date) || 0) + change);
+  }
+
+  const points: ProjectionPoint[] = [];
+  let value = investment.valorInvestido;
+  let valueToday = value;
+  let day = parseDate(investment.dataInvestimento);
+
+  for (let date = investment.dataInvestimento; date < indexation.maturity; ) {
+    value = Math.max(0, value + (byDate.get(date) || 0));
+    if (date <= today) valueToday = value;
+
+    // Earns from the day it is applied up to, not including, maturity
+    if (isBusinessDay(date)) {
+      const indexDaily = indexation.index ? getDailyIndexRate(series, indexation.index, date) : 0;
+      value *= (1 + indexDaily * (indexation.percentOfIndex / 100)) * spreadDaily;
+    }
+
+    day = addDays(day, 1);
+    const next = toLocalDateString(day);
+    if (next.slice(0, 7) !== date.slice(0, 7)) points.push({ date, value });
+    date = next;
+  }
+
+  points.push({ date: indexation.maturity, value });
+  return {
+    indexation,
+    points,
+    today: today >= indexation.maturity ? value : valueToday,
+    atMaturity: value,
+  };
+}
+
+/**
+ * Reads an index file with one rate per line: `date;rate` for `index`, or
+ * `date;index;rate` (CDI, Selic or IPCA) to mix series. Rates are percents,
+ * "10,65" or "10.65". A header line and blank lines are skipped.
+ */
+export function parseIndexRatesCsv(text: string, index: MarketIndex): { rows: ParsedIndexRow[]; errors: number[] } {
+  const rows: ParsedIndexRow[] = [];
+  const errors: number[] = [];
+
+  text.split(/\r?\n/).forEach((rawLine, lineIndex) => {
+    const line = rawLine.trim();
+    if (!line) return;
+    const cells = line.split(line.includes(';') ? ';' : ',').map((c) => c.trim().replace(/^"|"$/g, ''));
+    const [dateCell, indexCell, rateCell] = cells.length >= 3 ? cells : [cells[0], index, cells[1]];
+
+    const date = parseImportDate(dateCell || '');
+    const rowIndex = (indexCell || '').toLowerCase() as MarketIndex;
+    const rateText = rateCell || '';
+    const rate = parseFloat(rateText.includes(',') ? rateText.replace(/\./g, '').replace(',', '.') : rateText);
+
+    if (!date || !['cdi', 'selic', 'ipca'].includes(rowIndex) || isNaN(rate)) {
+      // The first line is usually a header
+      if (lineIndex > 0 || rows.length > 0) errors.push(lineIndex + 1);
+      return;
+    }
+    rows.push({ index: rowIndex, date, rate });
+  });
+
+  return { rows, errors };
+}
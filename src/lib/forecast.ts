@@ -0,0 +1,198 @@
+import { addDays, addMonths } from 'date-fns';
+import { Account } from '@/types/account';
+import { CurrencyCode, ExchangeRate } from '@/types/currency';
+import { Investment } from '@/types/investment';
+import { RecurringRule } from '@/types/recurrence';
+import { Reminder, Transaction } from '@/types/transaction';
+import { convertToday, convertTransactions, getAccountCurrency } from '@/lib/currency';
+import { getCardInvoices, formatInvoiceMonth, isCreditCard } from '@/lib/creditCard';
+import { getOccurrences } from '@/lib/recurrence';
+import { getBalanceEffect } from '@/lib/transactions';
+import { toLocalDateString } from '@/lib/utils';
+
+export const FORECAST_DAYS = 90;
+
+export type ForecastSource = 'transaction' | 'recurring' | 'reminder' | 'loan' | 'investment' | 'invoice';
+
+export interface ForecastEvent {
+  date: string;
+  amount: number; // signed, in the base currency
+  description: string;
+  source: ForecastSource;
+}
+
+export interface ForecastDay {
+  date: string;
+  balance: number; // at the end of the day
+  events: ForecastEvent[];
+}
+
+export interface CashForecast {
+  startBalance: number;
+  days: ForecastDay[]; // today first
+  events: ForecastEvent[];
+  lowest: ForecastDay;
+  firstNegative?: ForecastDay;
+}
+
+export interface ForecastInput {
+  accounts: Account[];
+  transactions: Transaction[]; // as stored, each in its own currency
+  recurringRules: RecurringRule[];
+  reminders: Reminder[];
+  investments: Investment[];
+  baseCurrency: CurrencyCode;
+  exchangeRates: ExchangeRate[];
+}
+
+function parseDate(date: string): Date {
+  return new Date(date + 'T12:00:00');
+}
+
+/** Same day in the month of `date`, clamped to the month's length. */
+function dayInMonth(date: Date, day: number): string {
+  const lastDay = new Date(date.getFullYear(), date.getMonth() + 1, 0).getDate();
+  return toLocalDateString(new Date(date.getFullYear(), date.getMonth(), Math.min(day, lastDay), 12));
+}
+
+/**
+ * Dates a reminder falls due within [from, to]: every month for monthly ones,
+ * the next due day only for single ones.
+ */
+function getReminderDates(reminder: Reminder, from: string, to: string): string[] {
+  const dates: string[] = [];
+  for (let month = parseDate(from); ; month = addMonths(month, 1)) {
+    const date = dayInMonth(month, reminder.dueDay);
+    if (date > to) break;
+    if (date < from) continue;
+    dates.push(date);
+    if (reminder.type === 'single') break;
+  }
+  return dates;
+}
+
+/**
+ * Day-by-day projection of the money held outside credit cards. It starts
+ * from today's balance of the active non-card accounts (plus entries with no
+ * account) and layers in what is already scheduled: future-dated entries,
+ * occurrences recurring rules haven't written yet, card invoices, active
+ * reminders, pending loans with an expected date and planned investments.
+ *
+ * A reminder is skipped in a month that already has an entry with its category
+ * and amount, since it was most likely recorded (or is scheduled) already.
+ * Overdue invoices, loans and planned investments are expected today.
+ */
+export function getCashForecast(input: ForecastInput, days = FORECAST_DAYS, today = new Date()): CashForecast {
+  const { accounts, transactions, recurringRules, reminders, investments, baseCurrency, exchangeRates } = input;
+  const todayStr = toLocalDateString(today);
+  const horizon = toLocalDateString(addDays(today, days));
+  const cashAccounts = accounts.filter((a) => !a.isArchived && !isCreditCard(a));
+  const cashIds = new Set(cashAccounts.map((a) => a.id));
+  const knownIds = new Set(accounts.map((a) => a.id));
+  const inScope = (accountId?: string) => !accountId || !knownIds.has(accountId) || cashIds.has(accountId);
+  const toBase = (amount: number, accountId?: string) =>
+    convertToday(amount, getAccountCurrency(accounts, accountId, baseCurrency), baseCurrency, exchangeRates) ?? amount;
+
+  const baseTransactions = convertTransactions(transactions, baseCurrency, exchangeRates);
+  const upToToday = (t: Transaction) => t.date <= todayStr;
+
+  // Today's balance, each account converted at today's rate like the dashboard total
+  const startBalance =
+    cashAccounts.reduce((sum, account) => {
+      const balance = transactions
+        .filter((t) => t.accountId === account.id && upToToday(t))
+        .reduce((acc, t) => acc + getBalanceEffect(t), account.initialBalance);
+      return sum + toBase(balance, account.id);
+    }, 0) +
+    baseTransactions
+      .filter((t) => (!t.accountId || !knownIds.has(t.accountId)) && upToToday(t))
+      .reduce((sum, t) => sum + getBalanceEffect(t), 0);
+
+  const events: ForecastEvent[] = [];
+
+  for (const t of baseTransactions) {
+    if (t.date <= todayStr || t.date > horizon || !inScope(t.accountId)) continue;
+    events.push({ date: t.date, amount: getBalanceEffect(t), description: t.description, source: 'transaction' });
+  }
+
+  // What is already booked or scheduled, to tell whether a reminder was taken care of
+  const scheduled = baseTransactions.map((t) => ({ date: t.date, category: t.category, amount: t.amount }));
+
+  for (const rule of recurringRules) {
+    const after = rule.materializedUntil && rule.materializedUntil > todayStr ? rule.materializedUntil : todayStr;
+    const from = toLocalDateString(addDays(parseDate(after), 1));
+    for (const occurrence of getOccurrences(rule, from, horizon)) {
+      scheduled.push({ date: occurrence.date, category: rule.category, amount: rule.amount });
+      if (!inScope(rule.accountId)) continue;
+      events.push({
+        date: occurrence.date,
+        amount: toBase(rule.type === 'income' ? rule.amount : -rule.amount, rule.accountId),
+        description: rule.description,
+        source: 'recurring',
+      });
+    }
+  }
+
+  for (const card of accounts.filter((a) => isCreditCard(a) && !a.isArchived)) {
+    for (const invoice of getCardInvoices(card, transactions, today)) {
+      if (invoice.status === 'paid' || invoice.remaining < 0.01 || invoice.dueDate > horizon) continue;
+      events.push({
+        date: invoice.dueDate < todayStr ? todayStr : invoice.dueDate,
+        amount: -toBase(invoice.remaining, card.id),
+        description: `Fatura ${card.name} (${formatInvoiceMonth(invoice.month)})`,
+        source: 'invoice',
+      });
+    }
+  }
+
+  for (const reminder of reminders) {
+    if (!reminder.isActive || reminder.amount <= 0) continue;
+    for (const date of getReminderDates(reminder, todayStr, horizon)) {
+      const month = date.slice(0, 7);
+      const recorded = scheduled.some(
+        (s) => s.date.startsWith(month) && s.category === reminder.category && Math.abs(s.amount - reminder.amount) < 0.01
+      );
+      if (!recorded) events.push({ date, amount: -reminder.amount, description: reminder.title, source: 'reminder' });
+    }
+  }
+
+  for (const t of baseTransactions) {
+    if (!t.isLoan || t.loanStatus !== 'pending' || !t.loanDueDate || t.loanDueDate > horizon || !inScope(t.accountId)) continue;
+    // Settling cancels the loan's effect: money lent comes back, money borrowed goes out
+    events.push({
+      date: t.loanDueDate < todayStr ? todayStr : t.loanDueDate,
+      amount: -getBalanceEffect(t),
+      description: t.type === 'expense' ? `Receber de ${t.loanPerson}` : `Pagar a ${t.loanPerson}`,
+      source: 'loan',
+    });
+  }
+
+  for (const investment of investments) {
+    if (investment.jaInvestido || investment.dataInvestimento > horizon) continue;
+    events.push({
+      date: investment.dataInvestimento < todayStr ? todayStr : investment.dataInvestimento,
+      amount: -investment.valorInvestido,
+      description: `Aporte: ${investment.nome}`,
+      source: 'investment',
+    });
+  }
+
+  events.sort((a, b) => a.date.localeCompare(b.date) || a.amount - b.amount);
+
+  const forecastDays: ForecastDay[] = [];
+  let balance = startBalance;
+  for (let i = 0; i <= days; i++) {
+    const date = toLocalDateString(addDays(today, i));
+    const dayEvents = events.filter((e) => e.date === date);
+    balance += dayEvents.reduce((sum, e) => sum + e.amount, 0);
+    forecastDays.push({ date, balance, events: dayEvents });
+  }
+
+  return {
+    startBalance,
+    days: forecastDays,
+    events,
+    lowest: forecastDays.reduce((min, d) => (d.balance < min.balance ? d : min), forecastDays[0]),
+    firstNegative: forecastDays.find((d) => d.balance < 0),
+  };
+}
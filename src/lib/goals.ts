@@ -0,0 +1,95 @@
+import { addMonths, differenceInCalendarMonths } from 'date-fns';
+import { Goal } from '@/types/goal';
+import { Investment, InvestmentMovement } from '@/types/investment';
+import { Transaction } from '@/types/transaction';
+import { toLocalDateString } from '@/lib/utils';
+
+export interface GoalContribution {
+  date: string;
+  amount: number; // negative for money taken out
+  source: 'investment' | 'transaction';
+}
+
+export interface GoalProgress {
+  goal: Goal;
+  saved: number;
+  planned: number; // linked investments not made yet
+  remaining: number;
+  ratio: number;
+  isComplete: boolean;
+  isOverdue: boolean;
+  monthlyNeeded?: number; // to reach the target by the deadline
+  projectedDate?: string; // at the pace kept so far
+}
+
+/**
+ * What went into a goal: linked investments already made with their later
+ * contributions and withdrawals, and linked entries (an expense puts money in,
+ * an income takes it out). Transactions must already be in the base currency;
+ * investments are recorded in it.
+ */
+export function getGoalContributions(
+  goal: Goal,
+  investments: Investment[],
+  movements: InvestmentMovement[],
+  transactions: Transaction[]
+): GoalContribution[] {
+  const linked = investments.filter((i) => i.goalId === goal.id && i.jaInvestido);
+  const linkedIds = new Set(linked.map((i) => i.id));
+  return [
+    ...linked.map((i) => ({ date: i.dataInvestimento, amount: i.valorInvestido, source: 'investment' as const })),
+    ...movements
+      .filter((m) => linkedIds.has(m.investmentId) && (m.type === 'contribution' || m.type === 'withdrawal'))
+      .map((m) => ({
+        date: m.date,
+        amount: m.type === 'contribution' ? m.amount : -m.amount,
+        source: 'investment' as const,
+      })),
+    ...transactions
+      .filter((t) => t.goalId === goal.id)
+      .map((t) => ({ date: t.date, amount: t.type === 'expense' ? t.amount : -t.amount, source: 'transaction' as const })),
+  ].sort((a, b) => a.date.localeCompare(b.date));
+}
+
+export function getGoalProgress(
+  goal: Goal,
+  investments: Investment[],
+  movements: InvestmentMovement[],
+  transactions: Transaction[],
+  today: Date = new Date()
+): GoalProgress {
+  const contributions = getGoalContributions(goal, investments, movements, transactions);
+  const saved = contributions.reduce((sum, c) => sum + c.amount, 0);
+  const planned = investments
+    .filter((i) => i.goalId === goal.id && !i.jaInvestido)
+    .reduce((sum, i) => sum + i.valorInvestido, 0);
+  const remaining = Math.max(0, goal.targetAmount - saved);
+  const isComplete = remaining === 0;
+  const isOverdue = !isComplete && !!goal.deadline && goal.deadline < toLocalDateString(today);
+
+  // Whatever is missing is needed this month once the deadline is this month or past
+  const monthlyNeeded =
+    goal.deadline && !isComplete
+      ? remaining / Math.max(1, differenceInCalendarMonths(new Date(goal.deadline + 'T12:00:00'), today))
+      : undefined;
+
+  // Average saved per month since the first contribution, counting the current month
+  let projectedDate: string | undefined;
+  if (!isComplete && contributions.length > 0 && saved > 0) {
+    const months = differenceInCalendarMonths(today, new Date(contributions[0].date + 'T12:00:00')) + 1;
+    const pace = saved / Math.max(1, months);
+    projectedDate = toLocalDateString(addMonths(today, Math.ceil(remaining / pace)));
+  }
+
+  return {
+    goal,
+    saved,
+    planned,
+    remaining,
+    ratio: goal.targetAmount > 0 ? saved / goal.targetAmount : 0,
+    isComplete,
+    isOverdue,
+    monthlyNeeded,
+    projectedDate,
+  };
+}
@@ -0,0 +1,75 @@
+import { addMonths } from 'date-fns';
+import { Transaction } from '@/types/transaction';
+import { InstallmentPlan } from '@/types/installment';
+import { toLocalDateString } from '@/lib/utils';
+
+export type InstallmentEntry = Omit<Transaction, 'id' | 'createdAt'>;
+
+export interface MonthlyCommitment {
+  month: string; // YYYY-MM
+  total: number;
+  entries: Transaction[];
+}
+
+/** Label appended to each generated entry, e.g. "3/10". */
+export function installmentLabel(number: number, count: number): string {
+  return `${number}/${count}`;
+}
+
+/**
+ * Splits the plan total into cents-exact installments; rounding leftovers go to
+ * the first installment so the sum always matches the purchase amount.
+ */
+export function splitInstallmentAmounts(totalAmount: number, count: number): number[] {
+  const totalCents = Math.round(totalAmount * 100);
+  const baseCents = Math.floor(totalCents / count);
+  const remainder = totalCents - baseCents * count;
+  return Array.from({ length: count }, (_, i) => (baseCents + (i === 0 ? remainder : 0)) / 100);
+}
+
+/** One expense per installment, a month apart (day clamped to shorter months). */
+export function buildInstallmentEntries(plan: Omit<InstallmentPlan, 'id' | 'createdAt'>): InstallmentEntry[] {
+  const firstDate = new Date(plan.firstDate + 'T12:00:00');
+  return splitInstallmentAmounts(plan.totalAmount, plan.installmentCount).map((amount, i) => ({
+    type: 'expense',
+    category: plan.category,
+    amount,
+    description: `${plan.description} ${installmentLabel(i + 1, plan.installmentCount)}`,
+    date: toLocalDateString(addMonths(firstDate, i)),
+    accountId: plan.accountId,
+    installmentNumber: i + 1,
+  }));
+}
+
+/** Entries of a plan that are already due (on or before today) vs still to come. */
+export function getPlanProgress(plan: InstallmentPlan, transactions: Transaction[], today = new Date()) {
+  const todayStr = toLocalDateString(today);
+  const entries = transactions
+    .filter((t) => t.installmentPlanId === plan.id)
+    .sort((a, b) => (a.installmentNumber || 0) - (b.installmentNumber || 0));
+  const past = entries.filter((t) => t.date <= todayStr);
+  const future = entries.filter((t) => t.date > todayStr);
+  return {
+    entries,
+    paidCount: past.length,
+    paidAmount: past.reduce((sum, t) => sum + t.amount, 0),
+    remainingAmount: future.reduce((sum, t) => sum + t.amount, 0),
+    nextEntry: future[0],
+  };
+}
+
+/**
+ * How much of each coming month is already committed to installments, starting
+ * next month (the current month is already reflected in the regular totals).
+ */
+export function getFutureCommitments(transactions: Transaction[], months = 12, today = new Date()): MonthlyCommitment[] {
+  const result: MonthlyCommitment[] = [];
+  for (let i = 1; i <= months; i++) {
+    const month = toLocalDateString(addMonths(today, i)).slice(0, 7);
+    const entries = transactions.filter(
+      (t) => t.installmentPlanId && t.type === 'expense' && t.date.startsWith(month)
+    );
+    result.push({ month, total: entries.reduce((sum, t) => sum + t.amount, 0), entries });
+  }
+  return result;
+}
@@ -0,0 +1,74 @@
+import { subMonths } from 'date-fns';
+import { IncomeType, Investment, InvestmentMovement, InvestmentType } from '@/types/investment';
+import { getMovementCash, getPosition } from '@/lib/investments';
+import { toLocalDateString } from '@/lib/utils';
+
+/** IR withheld at source on juros sobre capital próprio. */
+export const JCP_WITHHOLDING_RATE = 0.15;
+
+/** Income movements recorded before proventos had a kind. */
+export type IncomeKey = IncomeType | 'other';
+
+export interface MonthlyIncome {
+  month: string; // YYYY-MM
+  total: number;
+  byType: Partial<Record<IncomeKey, number>>;
+}
+
+/** The provento most likely for a new income on `type`, to preselect in forms. */
+export function getDefaultIncomeType(type: InvestmentType): IncomeType {
+  if (type === 'fundos') return 'fii';
+  if (type === 'tesouro_direto' || type === 'renda_fixa') return 'coupon';
+  return 'dividend';
+}
+
+/** Start (exclusive) of the 12 months ending on `date`. */
+function getTrailingStart(date: string): string {
+  return toLocalDateString(subMonths(new Date(date + 'T12:00:00'), 12));
+}
+
+/** Net income (after withholding) an investment paid in the 12 months up to `date`. */
+export function getTrailingIncome(
+  investmentId: string,
+  movements: InvestmentMovement[],
+  date: string = toLocalDateString()
+): number {
+  const from = getTrailingStart(date);
+  return movements
+    .filter((m) => m.investmentId === investmentId && m.type === 'income' && m.date > from && m.date <= date)
+    .reduce((sum, m) => sum + getMovementCash(m), 0);
+}
+
+/** Trailing 12-month income over the cost of what is still held; null when nothing is. */
+export function getYieldOnCost(
+  investment: Investment,
+  movements: InvestmentMovement[],
+  date: string = toLocalDateString()
+): number | null {
+  const cost = getPosition(investment, movements).invested;
+  return cost > 0 ? getTrailingIncome(investment.id, movements, date) / cost : null;
+}
+
+/** Net income received in each of the `months` months up to `date`, oldest first. */
+export function getMonthlyIncome(
+  movements: InvestmentMovement[],
+  months = 12,
+  date: string = toLocalDateString()
+): MonthlyIncome[] {
+  const today = new Date(date + 'T12:00:00');
+  const result: MonthlyIncome[] = [];
+  for (let i = months - 1; i >= 0; i--) {
+    result.push({ month: toLocalDateString(subMonths(today, i)).slice(0, 7), total: 0, byType: {} });
+  }
+
+  for (const m of movements) {
+    if (m.type !== 'income' || m.date > date) continue;
+    const entry = result.find((r) => r.month === m.date.slice(0, 7));
+    if (!entry) continue;
+    const key: IncomeKey = m.incomeType ?? 'other';
+    const net = getMovementCash(m);
+    entry.total += net;
+    entry.byType[key] = (entry.byType[key] || 0) + net;
+  }
+  return result;
+}
@@ -0,0 +1,175 @@
+import { differenceInCalendarDays, lastDayOfMonth, subDays } from 'date-fns';
+import { FundosDetails, Investment, InvestmentMovement, InvestmentValuation, RendaFixaDetails } from '@/types/investment';
+import { getCurrentValue, getMovements, getPosition, getValueOn } from '@/lib/investments';
+import { isBusinessDay } from '@/lib/fixedIncome';
+import { toLocalDateString } from '@/lib/utils';
+
+/**
+ * How an investment's gains are taxed on redemption:
+ * - regressive: IR from 22.5% down to 15% by holding period, plus IOF in the first 30 days
+ * - fund: the regressive table with come-cotas withheld every May and November
+ * - equityFund: a flat 15%, no come-cotas
+ * - exempt: LCI, LCA and poupança
+ * - notEstimated: ações, cripto and others, taxed on sales under rules not modelled here
+ */
+export type TaxRegime = 'regressive' | 'fund' | 'equityFund' | 'exempt' | 'notEstimated';
+
+export interface TaxEstimate {
+  regime: TaxRegime;
+  gross: number;
+  gain: number; // before any tax, come-cotas included
+  iof: number;
+  comeCotas: number; // already withheld from the fund's quotas
+  ir: number; // still due on redemption
+  net: number;
+}
+
+/** Come-cotas rate for long-term funds. */
+const COME_COTAS_RATE = 0.15;
+
+/** IOF on gains by calendar days held, from day 1 (96%) to day 29 (3%); none from day 30. */
+const IOF_TABLE = [
+  96, 93, 90, 86, 83, 80, 76, 73, 70, 66, 63, 60, 56, 53, 50, 46, 43, 40, 36, 33, 30, 26, 23, 20, 16, 13, 10, 6, 3,
+];
+
+export function getTaxRegime(investment: Investment): TaxRegime {
+  switch (investment.tipo) {
+    case 'tesouro_direto':
+      return 'regressive';
+    case 'renda_fixa': {
+      const produto = (investment.detalhesEspecificos as RendaFixaDetails | undefined)?.produto;
+      return produto === 'lci' || produto === 'lca' ? 'exempt' : 'regressive';
+    }
+    case 'poupanca':
+      return 'exempt';
+    case 'fundos': {
+      const tipoFundo = (investment.detalhesEspecificos as FundosDetails | undefined)?.tipoFundo || '';
+      return /a[cç][õo]es/i.test(tipoFundo) ? 'equityFund' : 'fund';
+    }
+    default:
+      return 'notEstimated';
+  }
+}
+
+/** IR rate of the regressive table for gains held `days` calendar days. */
+export function getIncomeTaxRate(days: number): number {
+  if (days <= 180) return 0.225;
+  if (days <= 360) return 0.2;
+  if (days <= 720) return 0.175;
+  return 0.15;
+}
+
+export function getIofRate(days: number): number {
+  return days >= 1 && days < 30 ? IOF_TABLE[days - 1] / 100 : 0;
+}
+
+/**
+ * Amounts still held, each with the date it went in: the opening application
+ * and later contributions, with withdrawals taken from the oldest first.
+ */
+function getLots(investment: Investment, movements: InvestmentMovement[]): { date: string; amount: number }[] {
+  const lots = [{ date: investment.dataInvestimento, amount: investment.valorInvestido }];
+  for (const m of getMovements(movements, investment.id)) {
+    if (m.type === 'contribution') lots.push({ date: m.date, amount: m.amount });
+    if (m.type !== 'withdrawal') continue;
+    let left = m.amount;
+    for (const lot of lots) {
+      const taken = Math.min(lot.amount, left);
+      lot.amount -= taken;
+      left -= taken;
+    }
+  }
+  return lots.filter((lot) => lot.amount > 0);
+}
+
+/** Last business day of May and November between `from` (exclusive) and `to`. */
+export function getComeCotasDates(from: string, to: string): string[] {
+  const dates: string[] = [];
+  for (let year = Number(from.slice(0, 4)); year <= Number(to.slice(0, 4)); year++) {
+    for (const month of [4, 10]) {
+      let day = lastDayOfMonth(new Date(year, month, 1));
+      while (!isBusinessDay(toLocalDateString(day))) day = subDays(day, 1);
+      const date = toLocalDateString(day);
+      if (date > from && date <= to) dates.push(date);
+    }
+  }
+  return dates;
+}
+
+/**
+ * Come-cotas withheld so far: 15% of what the fund gained in each half-year,
+ * read from its valuations. Values recorded are taken as already net of it.
+ */
+function estimateComeCotas(
+  investment: Investment,
+  movements: InvestmentMovement[],
+  valuations: InvestmentValuation[],
+  date: string
+): number {
+  let base = investment.valorInvestido;
+  let previous = investment.dataInvestimento;
+  let withheld = 0;
+  for (const cutoff of getComeCotasDates(investment.dataInvestimento, date)) {
+    base += getMovements(movements, investment.id)
+      .filter((m) => m.date > previous && m.date <= cutoff)
+      .reduce((sum, m) => sum + (m.type === 'contribution' ? m.amount : m.type === 'withdrawal' ? -m.amount : 0), 0);
+    const value = getValueOn(investment, valuations, movements, cutoff);
+    withheld += Math.max(0, value - base) * COME_COTAS_RATE;
+    base = value;
+    previous = cutoff;
+  }
+  return withheld;
+}
+
+/**
+ * What redeeming `gross` on `date` would leave after IOF and IR. The gain is
+ * spread over the lots still held by amount and time held, and each lot pays
+ * the rate of its own holding period. Losses pay nothing.
+ */
+export function estimateTax(
+  investment: Investment,
+  movements: InvestmentMovement[],
+  valuations: InvestmentValuation[],
+  gross: number,
+  date: string = toLocalDateString()
+): TaxEstimate {
+  const regime = getTaxRegime(investment);
+  const comeCotas = regime === 'fund' ? estimateComeCotas(investment, movements, valuations, date) : 0;
+  const gain = gross + comeCotas - getPosition(investment, movements).invested;
+  const untaxed = { regime, gross, gain, iof: 0, comeCotas, ir: 0, net: gross };
+  if (gain <= 0 || regime === 'exempt' || regime === 'notEstimated') return untaxed;
+
+  if (regime === 'equityFund') {
+    const ir = gain * 0.15;
+    return { ...untaxed, ir, net: gross - ir };
+  }
+
+  const lots = getLots(investment, movements).map((lot) => ({
+    ...lot,
+    days: Math.max(1, differenceInCalendarDays(new Date(date + 'T12:00:00'), new Date(lot.date + 'T12:00:00'))),
+  }));
+  const weight = lots.reduce((sum, lot) => sum + lot.amount * lot.days, 0);
+  let iof = 0;
+  let totalIr = 0;
+  for (const lot of lots) {
+    const lotGain = weight > 0 ? (gain * lot.amount * lot.days) / weight : 0;
+    const lotIof = lotGain * getIofRate(lot.days);
+    iof += lotIof;
+    totalIr += (lotGain - lotIof) * getIncomeTaxRate(lot.days);
+  }
+
+  const ir = Math.max(0, totalIr - comeCotas);
+  return { ...untaxed, iof, ir, net: gross - iof - ir };
+}
+
+/** Net value of the investments already made if all were redeemed on `date`. */
+export function getPortfolioNetValue(
+  investments: Investment[],
+  movements: InvestmentMovement[],
+  valuations: InvestmentValuation[],
+  date: string = toLocalDateString()
+): number {
+  return investments
+    .filter((i) => i.jaInvestido)
+    .reduce((sum, i) => sum + estimateTax(i, movements, valuations, getCurrentValue(i), date).net, 0);
+}
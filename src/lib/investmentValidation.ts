@@ -25,6 +25,7 @@ const rendaFixaSchema = z.object({
   taxa: z.number().min(0).max(200).default(0),
   tipoTaxa: z.enum(['cdi', 'ipca', 'prefixado']).default('cdi'),
   vencimento: z.string().max(20).default(''),
+  produto: z.enum(['cdb', 'lci', 'lca']).optional(),
 });
 
 const poupancaSchema = z.object({
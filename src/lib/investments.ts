@@ -0,0 +1,156 @@
+import {
+  AcoesDetails,
+  CriptoDetails,
+  FundosDetails,
+  Investment,
+  InvestmentMovement,
+  InvestmentType,
+  InvestmentValuation,
+} from '@/types/investment';
+
+export interface InvestmentReturn {
+  invested: number;
+  current: number;
+  profit: number; // includes gains already taken out and income received
+  ratio: number; // profit / invested
+}
+
+export interface InvestmentPosition {
+  invested: number; // cost of what is still held, fees included
+  quantity?: number; // only for assets held in units
+  averagePrice?: number;
+  realized: number; // gains on withdrawals plus income received
+}
+
+const unitTypes: InvestmentType[] = ['acoes', 'cripto', 'fundos'];
+
+export function isHeldInUnits(type: InvestmentType): boolean {
+  return unitTypes.includes(type);
+}
+
+export function getCurrentValue(investment: Investment): number {
+  return investment.valorAtual ?? investment.valorInvestido;
+}
+
+/** Movements of one investment, oldest first. */
+export function getMovements(movements: InvestmentMovement[], investmentId: string): InvestmentMovement[] {
+  return movements
+    .filter((m) => m.investmentId === investmentId)
+    .sort((a, b) => a.date.localeCompare(b.date) || a.createdAt.localeCompare(b.createdAt));
+}
+
+/** What left (contributions, fees) or reached (withdrawals, income) the account for a movement. */
+export function getMovementCash(movement: Pick<InvestmentMovement, 'type' | 'amount' | 'fees' | 'taxWithheld'>): number {
+  switch (movement.type) {
+    case 'contribution':
+      return movement.amount + (movement.fees ?? 0);
+    case 'withdrawal':
+      return movement.amount - (movement.fees ?? 0);
+    case 'income':
+      return movement.amount - (movement.taxWithheld ?? 0);
+    default:
+      return movement.amount;
+  }
+}
+
+/**
+ * What is held after the opening lot (the investment itself) and its movements,
+ * at average cost, fees on buys included. Withdrawals with a quantity take out
+ * their share of the cost, net of their fees; without one they are taken at
+ * cost, so gains stay with what is left.
+ */
+export function getPosition(investment: Investment, movements: InvestmentMovement[]): InvestmentPosition {
+  const inUnits = isHeldInUnits(investment.tipo);
+  const opening = investment.detalhesEspecificos as AcoesDetails | CriptoDetails | FundosDetails | undefined;
+  let invested = investment.valorInvestido;
+  let quantity = inUnits ? opening?.quantidade ?? 0 : 0;
+  let realized = 0;
+
+  for (const m of getMovements(movements, investment.id)) {
+    if (m.type === 'contribution') {
+      invested += m.amount + (m.fees ?? 0);
+      if (inUnits) quantity += m.quantity ?? 0;
+    } else if (m.type === 'withdrawal') {
+      const cost = inUnits && m.quantity && quantity > 0
+        ? invested * Math.min(1, m.quantity / quantity)
+        : Math.min(invested, m.amount);
+      invested -= cost;
+      realized += m.amount - (m.fees ?? 0) - cost;
+      if (inUnits) quantity = Math.max(0, quantity - (m.quantity ?? 0));
+    } else if (m.type === 'fee') {
+      invested += m.amount;
+    } else {
+      realized += m.amount - (m.taxWithheld ?? 0);
+    }
+  }
+
+  return {
+    invested,
+    quantity: inUnits ? quantity : undefined,
+    averagePrice: inUnits && quantity > 0 ? invested / quantity : undefined,
+    realized,
+  };
+}
+
+function toReturn(invested: number, current: number, realized: number): InvestmentReturn {
+  const profit = current - invested + realized;
+  return { invested, current, profit, ratio: invested > 0 ? profit / invested : 0 };
+}
+
+export function getInvestmentReturn(investment: Investment, movements: InvestmentMovement[]): InvestmentReturn {
+  const position = getPosition(investment, movements);
+  return toReturn(position.invested, getCurrentValue(investment), position.realized);
+}
+
+/** Combined return of the investments already made (planned ones are left out). */
+export function getPortfolioReturn(investments: Investment[], movements: InvestmentMovement[]): InvestmentReturn {
+  const positions = investments.filter((i) => i.jaInvestido).map((i) => ({ i, p: getPosition(i, movements) }));
+  return toReturn(
+    positions.reduce((sum, { p }) => sum + p.invested, 0),
+    positions.reduce((sum, { i }) => sum + getCurrentValue(i), 0),
+    positions.reduce((sum, { p }) => sum + p.realized, 0)
+  );
+}
+
+export function getReturnsByType(
+  investments: Investment[],
+  movements: InvestmentMovement[]
+): Partial<Record<InvestmentType, InvestmentReturn>> {
+  const byType: Partial<Record<InvestmentType, InvestmentReturn>> = {};
+  for (const type of new Set(investments.filter((i) => i.jaInvestido).map((i) => i.tipo))) {
+    byType[type] = getPortfolioReturn(investments.filter((i) => i.tipo === type), movements);
+  }
+  return byType;
+}
+
+/** Valuations of one investment, newest first. */
+export function getValuations(valuations: InvestmentValuation[], investmentId: string): InvestmentValuation[] {
+  return valuations
+    .filter((v) => v.investmentId === investmentId)
+    .sort((a, b) => b.date.localeCompare(a.date) || b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * Value of an investment at the end of `date`: its latest valuation up to then,
+ * or the amount invested before the first one, plus contributions and minus
+ * withdrawals made after it. Fees and income are paid apart from the position.
+ */
+export function getValueOn(
+  investment: Investment,
+  valuations: InvestmentValuation[],
+  movements: InvestmentMovement[],
+  date: string
+): number {
+  const latest = getValuations(valuations, investment.id).find((v) => v.date <= date);
+  const since = latest?.date ?? '';
+  const moved = getMovements(movements, investment.id)
+    .filter((m) => m.date > since && m.date <= date)
+    .reduce((sum, m) => sum + (m.type === 'contribution' ? m.amount : m.type === 'withdrawal' ? -m.amount : 0), 0);
+  return Math.max(0, (latest?.value ?? investment.valorInvestido) + moved);
+}
+
+/** Signed percentage in the pt-BR format, e.g. "+12,5%". */
+export function formatPercent(ratio: number, digits = 1): string {
+  const value = (ratio * 100).toLocaleString('pt-BR', { minimumFractionDigits: digits, maximumFractionDigits: digits });
+  return ratio > 0 ? `+${value}%` : `${value}%`;
+}
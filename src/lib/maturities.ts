@@ -0,0 +1,84 @@
+import { differenceInCalendarDays } from 'date-fns';
+import {
+  Investment,
+  InvestmentMovement,
+  InvestmentValuation,
+  RendaFixaDetails,
+  TesouroDiretoDetails,
+} from '@/types/investment';
+import { IndexRate } from '@/types/marketIndex';
+import { projectFixedIncome } from '@/lib/fixedIncome';
+import { estimateTax } from '@/lib/investmentTax';
+import { getCurrentValue, getMovements } from '@/lib/investments';
+import { toLocalDateString } from '@/lib/utils';
+
+/** Days before a maturity it starts showing in Lembretes, unless the user picks otherwise. */
+export const DEFAULT_MATURITY_REMINDER_DAYS = 30;
+
+export interface Maturity {
+  investment: Investment;
+  date: string;
+  daysLeft: number; // negative once matured
+  gross: number; // projected at maturity, or the current value when it cannot be projected
+  net: number; // after IOF and IR on that date
+  isProjected: boolean;
+  isMatured: boolean; // past maturity with no redemption recorded
+}
+
+/** Maturity date of a Tesouro title or a CDB/LCI/LCA; null for other types or when it is missing. */
+export function getMaturityDate(investment: Investment): string | null {
+  const details = investment.detalhesEspecificos;
+  if (!details) return null;
+  if (investment.tipo === 'renda_fixa') return (details as RendaFixaDetails).vencimento || null;
+  if (investment.tipo === 'tesouro_direto') return (details as TesouroDiretoDetails).vencimento || null;
+  return null;
+}
+
+/**
+ * Maturity of a position still held: null when it has no maturity, is not
+ * invested yet, or was already redeemed (emptied, or withdrawn from on or
+ * after the maturity date).
+ */
+export function getMaturity(
+  investment: Investment,
+  movements: InvestmentMovement[],
+  valuations: InvestmentValuation[],
+  rates: IndexRate[],
+  today: string = toLocalDateString()
+): Maturity | null {
+  const date = getMaturityDate(investment);
+  if (!date || !investment.jaInvestido || getCurrentValue(investment) < 0.01) return null;
+  const redeemed = getMovements(movements, investment.id).some((m) => m.type === 'withdrawal' && m.date >= date);
+  if (redeemed) return null;
+
+  const projection = projectFixedIncome(investment, movements, rates, today);
+  const gross = projection?.atMaturity ?? getCurrentValue(investment);
+  return {
+    investment,
+    date,
+    daysLeft: differenceInCalendarDays(new Date(date + 'T12:00:00'), new Date(today + 'T12:00:00')),
+    gross,
+    net: estimateTax(investment, movements, valuations, gross, date).net,
+    isProjected: !!projection,
+    isMatured: date <= today,
+  };
+}
+
+/** Maturities of the positions still held, soonest (or longest overdue) first. */
+export function getMaturities(
+  investments: Investment[],
+  movements: InvestmentMovement[],
+  valuations: InvestmentValuation[],
+  rates: IndexRate[],
+  today: string = toLocalDateString()
+): Maturity[] {
+  return investments
+    .map((i) => getMaturity(i, movements, valuations, rates, today))
+    .filter((m): m is Maturity => m !== null)
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/** Maturities to remind about: those already matured and those up to `days` ahead. */
+export function getMaturityReminders(maturities: Maturity[], days: number): Maturity[] {
+  return maturities.filter((m) => m.isMatured || m.daysLeft <= days);
+}
@@ -0,0 +1,108 @@
+import { endOfMonth } from 'date-fns';
+import { Account } from '@/types/account';
+import { CurrencyCode, ExchangeRate } from '@/types/currency';
+import { Investment, InvestmentMovement, InvestmentValuation } from '@/types/investment';
+import { NetWorthBreakdown, NetWorthSnapshot } from '@/types/netWorth';
+import { Transaction } from '@/types/transaction';
+import { convertToday, convertTransactions } from '@/lib/currency';
+import { isCreditCard } from '@/lib/creditCard';
+import { getMonthKey } from '@/lib/budgets';
+import { getValueOn } from '@/lib/investments';
+import { getBalanceEffect } from '@/lib/transactions';
+import { shiftMonth, toLocalDateString } from '@/lib/utils';
+
+export interface NetWorthInput {
+  accounts: Account[];
+  transactions: Transaction[]; // as stored, each in its own currency
+  investments: Investment[];
+  investmentValuations: InvestmentValuation[];
+  investmentMovements: InvestmentMovement[];
+  baseCurrency: CurrencyCode;
+  exchangeRates: ExchangeRate[];
+}
+
+export function getNetWorthTotal(b: NetWorthBreakdown): number {
+  return b.accounts + b.investments + b.receivables - b.payables - b.cardDebt;
+}
+
+/** Last day of a 'YYYY-MM' month. */
+export function getMonthEndDate(month: string): string {
+  return toLocalDateString(endOfMonth(new Date(month + '-01T12:00:00')));
+}
+
+/** The entry as it stood on `date`: a loan settled later was still pending then. */
+function asOf(t: Transaction, date: string): Transaction {
+  if (t.isLoan && t.loanStatus !== 'pending' && t.loanSettledDate && t.loanSettledDate > date) {
+    return { ...t, loanStatus: 'pending' };
+  }
+  return t;
+}
+
+/**
+ * Net worth at the end of `date`: account balances (entries with no account
+ * included), investments made, and pending loans both ways, minus what is owed
+ * on credit cards. Balances in other currencies use today's rate, also for past
+ * dates. Investments count at their latest valuation up to the date, moved by
+ * the contributions and withdrawals since.
+ */
+export function getNetWorth(input: NetWorthInput, date = toLocalDateString()): NetWorthBreakdown {
+  const { accounts, transactions, investments, investmentValuations, investmentMovements, baseCurrency, exchangeRates } = input;
+  const entries = transactions.filter((t) => t.date <= date).map((t) => asOf(t, date));
+  const baseEntries = convertTransactions(entries, baseCurrency, exchangeRates);
+  const accountIds = new Set(accounts.map((a) => a.id));
+
+  let cash = 0;
+  let cardDebt = 0;
+  for (const account of accounts) {
+    const balance = entries
+      .filter((t) => t.accountId === account.id)
+      .reduce((sum, t) => sum + getBalanceEffect(t), account.initialBalance);
+    const converted = convertToday(balance, account.currency, baseCurrency, exchangeRates) ?? balance;
+    if (isCreditCard(account) && converted < 0) cardDebt -= converted;
+    else cash += converted;
+  }
+  cash += baseEntries
+    .filter((t) => !t.accountId || !accountIds.has(t.accountId))
+    .reduce((sum, t) => sum + getBalanceEffect(t), 0);
+
+  const pendingLoans = baseEntries.filter((t) => t.isLoan && t.loanStatus === 'pending');
+
+  return {
+    accounts: cash,
+    investments: investments
+      .filter((i) => i.jaInvestido && i.dataInvestimento <= date)
+      .reduce((sum, i) => sum + getValueOn(i, investmentValuations, investmentMovements, date), 0),
+    receivables: pendingLoans.filter((t) => t.type === 'expense').reduce((sum, t) => sum + t.amount, 0),
+    payables: pendingLoans.filter((t) => t.type === 'income').reduce((sum, t) => sum + t.amount, 0),
+    cardDebt,
+  };
+}
+
+/** Whether two breakdowns differ by at least a cent in any part. */
+export function hasNetWorthChanged(a: NetWorthBreakdown, b: NetWorthBreakdown): boolean {
+  return (['accounts', 'investments', 'receivables', 'payables', 'cardDebt'] as const).some(
+    (key) => Math.abs(a[key] - b[key]) >= 0.01
+  );
+}
+
+/**
+ * Past months, from the first entry or investment up to last month, that have
+ * no snapshot yet. They can be rebuilt from the ledger with {@link getNetWorth}.
+ */
+export function getMissingSnapshotMonths(
+  snapshots: NetWorthSnapshot[],
+  transactions: Transaction[],
+  investments: Investment[],
+  today = new Date()
+): string[] {
+  const dates = [...transactions.map((t) => t.date), ...investments.map((i) => i.dataInvestimento)];
+  if (dates.length === 0) return [];
+
+  const recorded = new Set(snapshots.map((s) => s.month));
+  const current = getMonthKey(today);
+  const missing: string[] = [];
+  for (let month = getMonthKey(dates.reduce((a, b) => (a < b ? a : b))); month < current; month = shiftMonth(month, 1)) {
+    if (!recorded.has(month)) missing.push(month);
+  }
+  return missing;
+}
@@ -0,0 +1,162 @@
+import { differenceInCalendarDays, startOfYear, subDays, subMonths } from 'date-fns';
+import { Investment, InvestmentMovement, InvestmentValuation } from '@/types/investment';
+import { getMovementCash, getValueOn } from '@/lib/investments';
+import { toLocalDateString } from '@/lib/utils';
+
+export type PerformanceWindow = '6m' | 'ytd' | '12m' | 'all';
+
+export const performanceWindowLabels: Record<PerformanceWindow, string> = {
+  '6m': '6 meses',
+  ytd: 'No ano',
+  '12m': '12 meses',
+  all: 'Tudo',
+};
+
+/** Money in (negative) or out (positive) of the investor's pocket on a date. */
+export interface CashFlow {
+  date: string;
+  amount: number;
+}
+
+export interface Performance {
+  start: string;
+  end: string;
+  startValue: number;
+  endValue: number;
+  twr: number | null; // time-weighted, over the whole window
+  xirr: number | null; // money-weighted, a year
+}
+
+function parseDate(date: string): Date {
+  return new Date(date + 'T12:00:00');
+}
+
+/** First day of `window` ending on `today`; 'all' starts with the oldest investment made. */
+export function getWindowStart(window: PerformanceWindow, investments: Investment[], today: string = toLocalDateString()): string {
+  const end = parseDate(today);
+  if (window === '6m') return toLocalDateString(subMonths(end, 6));
+  if (window === '12m') return toLocalDateString(subMonths(end, 12));
+  if (window === 'ytd') return toLocalDateString(startOfYear(end));
+  const dates = investments.filter((i) => i.jaInvestido).map((i) => i.dataInvestimento).sort();
+  return dates[0] ?? today;
+}
+
+/** Annual rate of a growth over `days` calendar days. */
+export function annualize(ratio: number, days: number): number {
+  return days > 0 ? Math.pow(1 + ratio, 365 / days) - 1 : 0;
+}
+
+/**
+ * Annual rate at which the flows' present value is zero (Excel's XIRR).
+ * Found by bisection, so any sign pattern works; null when there is none.
+ */
+export function xirr(flows: CashFlow[]): number | null {
+  if (!flows.some((f) => f.amount < 0) || !flows.some((f) => f.amount > 0)) return null;
+  const first = parseDate(flows[0].date);
+  const years = flows.map((f) => differenceInCalendarDays(parseDate(f.date), first) / 365);
+  const npv = (rate: number) => flows.reduce((sum, f, i) => sum + f.amount / Math.pow(1 + rate, years[i]), 0);
+
+  let low = -0.9999;
+  let high = 1000;
+  if (Math.sign(npv(low)) === Math.sign(npv(high))) return null;
+  for (let i = 0; i < 200; i++) {
+    const mid = (low + high) / 2;
+    if (Math.sign(npv(mid)) === Math.sign(npv(low))) low = mid;
+    else high = mid;
+  }
+  return (low + high) / 2;
+}
+
+function getValueAt(
+  investments: Investment[],
+  valuations: InvestmentValuation[],
+  movements: InvestmentMovement[],
+  date: string
+): number {
+  return investments
+    .filter((i) => i.dataInvestimento <= date)
+    .reduce((sum, i) => sum + getValueOn(i, valuations, movements, date), 0);
+}
+
+/** Money put in (positive) and taken out (positive) on each date after `from` up to `to`. */
+function getFlowsByDate(
+  investments: Investment[],
+  movements: InvestmentMovement[],
+  from: string,
+  to: string
+): Map<string, { cashIn: number; cashOut: number }> {
+  const byDate = new Map<string, { cashIn: number; cashOut: number }>();
+  const add = (date: string, cashIn: number, cashOut: number) => {
+    if (date <= from || date > to) return;
+    const entry = byDate.get(date) ?? { cashIn: 0, cashOut: 0 };
+    entry.cashIn += cashIn;
+    entry.cashOut += cashOut;
+    byDate.set(date, entry);
+  };
+
+  const ids = new Set(investments.map((i) => i.id));
+  for (const investment of investments) add(investment.dataInvestimento, investment.valorInvestido, 0);
+  for (const m of movements.filter((m) => ids.has(m.investmentId))) {
+    const cash = getMovementCash(m);
+    if (m.type === 'withdrawal' || m.type === 'income') add(m.date, 0, cash);
+    else add(m.date, cash, 0);
+  }
+  return byDate;
+}
+
+/**
+ * Returns of a group of investments (one asset, one type or the whole
+ * portfolio) from the start of `start` to the end of `end`, read from their
+ * valuations and movements. The time-weighted return chains the growth
+ * between flows, so it shows how the assets did; XIRR weighs it by the money
+ * that was in, so it shows how the investor did. Null when nothing was held.
+ */
+export function getPerformance(
+  investments: Investment[],
+  movements: InvestmentMovement[],
+  valuations: InvestmentValuation[],
+  start: string,
+  end: string = toLocalDateString()
+): Performance | null {
+  const made = investments.filter((i) => i.jaInvestido && i.dataInvestimento <= end);
+  if (made.length === 0 || start > end) return null;
+
+  const before = toLocalDateString(subDays(parseDate(start), 1));
+  const startValue = getValueAt(made, valuations, movements, before);
+  const endValue = getValueAt(made, valuations, movements, end);
+  const flows = getFlowsByDate(made, movements, before, end);
+  const dates = [...flows.keys()].sort();
+
+  // Flows are taken at the end of their day: the value that day, less what
+  // came in and plus what went out, is what the previous value grew into
+  let growth = 1;
+  let hasPeriod = false;
+  let last = startValue;
+  for (const date of dates[dates.length - 1] === end ? dates : [...dates, end]) {
+    const { cashIn, cashOut } = flows.get(date) ?? { cashIn: 0, cashOut: 0 };
+    const value = getValueAt(made, valuations, movements, date);
+    if (last > 0) {
+      growth *= (value - cashIn + cashOut) / last;
+      hasPeriod = true;
+    }
+    last = value;
+  }
+
+  const cashFlows: CashFlow[] = [
+    ...(startValue > 0 ? [{ date: before, amount: -startValue }] : []),
+    ...dates.map((date) => {
+      const { cashIn, cashOut } = flows.get(date) ?? { cashIn: 0, cashOut: 0 };
+      return { date, amount: cashOut - cashIn };
+    }),
+    { date: end, amount: endValue },
+  ];
+
+  return {
+    start,
+    end,
+    startValue,
+    endValue,
+    twr: hasPeriod ? growth - 1 : null,
+    xirr: xirr(cashFlows),
+  };
+}
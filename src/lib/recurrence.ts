@@ -0,0 +1,179 @@
+import { addDays, differenceInCalendarDays } from 'date-fns';
+import { Transaction } from '@/types/transaction';
+import { RecurringRule } from '@/types/recurrence';
+import { toLocalDateString } from '@/lib/utils';
+
+/** How far ahead of today occurrences are written as real transactions. */
+export const MATERIALIZE_DAYS_AHEAD = 31;
+
+export interface Occurrence {
+  index: number;
+  date: string;
+}
+
+type Schedule = Pick<
+  RecurringRule,
+  'frequency' | 'interval' | 'startDate' | 'endDate' | 'occurrenceCount' | 'dayOfMonth'
+>;
+
+function parseDate(date: string): Date {
+  return new Date(date + 'T12:00:00');
+}
+
+/** Same day in another month, clamped to that month's last day (31 → 28/29/30). */
+function clampedDate(year: number, monthIndex: number, day: number): Date {
+  const lastDay = new Date(year, monthIndex + 1, 0).getDate();
+  return new Date(year, monthIndex, Math.min(day, lastDay), 12);
+}
+
+/** Date of the n-th occurrence (0 = start date). */
+export function getOccurrenceDate(schedule: Schedule, index: number): string {
+  const start = parseDate(schedule.startDate);
+  const interval = Math.max(1, schedule.interval);
+
+  switch (schedule.frequency) {
+    case 'weekly':
+      return toLocalDateString(addDays(start, 7 * interval * index));
+    case 'biweekly':
+      return toLocalDateString(addDays(start, 14 * interval * index));
+    case 'monthly': {
+      const day = schedule.dayOfMonth || start.getDate();
+      return toLocalDateString(clampedDate(start.getFullYear(), start.getMonth() + interval * index, day));
+    }
+    case 'yearly': {
+      const day = schedule.dayOfMonth || start.getDate();
+      return toLocalDateString(clampedDate(start.getFullYear() + interval * index, start.getMonth(), day));
+    }
+  }
+}
+
+/**
+ * Occurrences dated within [from, to], honouring the end date and the
+ * occurrence count. Indexes are stable, so they identify an occurrence even
+ * after its date was edited.
+ */
+export function getOccurrences(schedule: Schedule, from: string, to: string): Occurrence[] {
+  const result: Occurrence[] = [];
+  for (let index = 0; ; index++) {
+    if (schedule.occurrenceCount !== undefined && index >= schedule.occurrenceCount) break;
+    const date = getOccurrenceDate(schedule, index);
+    if (date > to) break;
+    if (schedule.endDate && date > schedule.endDate) break;
+    if (date >= from) result.push({ index, date });
+  }
+  return result;
+}
+
+export function getMaterializationHorizon(today = new Date()): string {
+  return toLocalDateString(addDays(today, MATERIALIZE_DAYS_AHEAD));
+}
+
+/** Occurrences of a rule not yet written as transactions, up to the horizon. */
+export function getPendingOccurrences(rule: RecurringRule, today = new Date()): Occurrence[] {
+  const from = rule.materializedUntil
+    ? toLocalDateString(addDays(parseDate(rule.materializedUntil), 1))
+    : rule.startDate;
+  return getOccurrences(rule, from, getMaterializationHorizon(today));
+}
+
+/**
+ * Occurrences to write after a materialized series moved from `previous` to
+ * `schedule`: the `replaced` indexes at their new dates, and indexes the move
+ * brought into the materialized range. Other indexes already materialized stay
+ * as they are, so those deleted on their own do not come back. `materializedUntil`
+ * is the end of that range under the new schedule.
+ */
+export function getRescheduledOccurrences(
+  previous: RecurringRule,
+  schedule: Schedule,
+  replaced: Set<number>
+): { occurrences: Occurrence[]; materializedUntil?: string } {
+  if (!previous.materializedUntil) return { occurrences: [], materializedUntil: undefined };
+  const lastIndex = getOccurrences(previous, previous.startDate, previous.materializedUntil).pop()?.index ?? -1;
+  const lastDate = lastIndex >= 0 ? getOccurrenceDate(schedule, lastIndex) : previous.materializedUntil;
+  const materializedUntil = lastDate > previous.materializedUntil ? lastDate : previous.materializedUntil;
+  return {
+    occurrences: getOccurrences(schedule, schedule.startDate, materializedUntil).filter(
+      (o) => replaced.has(o.index) || o.index > lastIndex
+    ),
+    materializedUntil,
+  };
+}
+
+/** Whether the series can still produce occurrences after `date`. */
+export function hasOccurrencesAfter(schedule: Schedule, date: string): boolean {
+  for (let index = 0; ; index++) {
+    if (schedule.occurrenceCount !== undefined && index >= schedule.occurrenceCount) return false;
+    const occurrenceDate = getOccurrenceDate(schedule, index);
+    if (schedule.endDate && occurrenceDate > schedule.endDate) return false;
+    if (occurrenceDate > date) return true;
+  }
+}
+
+/** End date that stops a series right before its occurrence `index`. */
+export function getEndDateBefore(schedule: Schedule, index: number): string {
+  return toLocalDateString(addDays(parseDate(getOccurrenceDate(schedule, index)), -1));
+}
+
+/**
+ * Moves a whole series so that occurrence `index` lands on `date`; monthly and
+ * yearly series take the new day of the month.
+ */
+export function shiftSchedule<T extends Schedule>(schedule: T, index: number, date: string): T {
+  const days = differenceInCalendarDays(parseDate(date), parseDate(getOccurrenceDate(schedule, index)));
+  const startDate = toLocalDateString(addDays(parseDate(schedule.startDate), days));
+  const usesDay = schedule.frequency === 'monthly' || schedule.frequency === 'yearly';
+  return { ...schedule, startDate, dayOfMonth: usesDay ? parseDate(date).getDate() : schedule.dayOfMonth };
+}
+
+export function buildOccurrence(rule: RecurringRule, occurrence: Occurrence): Omit<Transaction, 'id' | 'createdAt'> {
+  return {
+    type: rule.type,
+    category: rule.category,
+    amount: rule.amount,
+    description: rule.description,
+    date: occurrence.date,
+    accountId: rule.accountId,
+    recurringRuleId: rule.id,
+    recurrenceIndex: occurrence.index,
+  };
+}
+
+/**
+ * Whether an occurrence was changed on its own ("Só esta") since it was
+ * generated: it no longer matches what the rule would write for its index.
+ */
+export function isOccurrenceEdited(rule: RecurringRule, transaction: Transaction): boolean {
+  const index = transaction.recurrenceIndex ?? 0;
+  const expected = buildOccurrence(rule, { index, date: getOccurrenceDate(rule, index) });
+  return (
+    transaction.date !== expected.date ||
+    transaction.amount !== expected.amount ||
+    transaction.description !== expected.description ||
+    transaction.type !== expected.type ||
+    transaction.category !== expected.category ||
+    (transaction.accountId || undefined) !== (expected.accountId || undefined) ||
+    !!transaction.splits?.length ||
+    !!transaction.tagIds?.length
+  );
+}
+
+/** Human description of the schedule, e.g. "Mensal, dia 5, até 10/2026". */
+export function describeSchedule(schedule: Schedule): string {
+  const parts: string[] = [];
+  const interval = Math.max(1, schedule.interval);
+  const every: Record<RecurringRule['frequency'], [string, string]> = {
+    weekly: ['Semanal', `A cada ${interval} semanas`],
+    biweekly: ['Quinzenal', `A cada ${interval * 2} semanas`],
+    monthly: ['Mensal', `A cada ${interval} meses`],
+    yearly: ['Anual', `A cada ${interval} anos`],
+  };
+  parts.push(every[schedule.frequency][interval === 1 ? 0 : 1]);
+  if (schedule.frequency === 'monthly' && schedule.dayOfMonth) parts.push(`dia ${schedule.dayOfMonth}`);
+  if (schedule.occurrenceCount) parts.push(`${schedule.occurrenceCount}x`);
+  if (schedule.endDate) {
+    const [y, m, d] = schedule.endDate.split('-');
+    parts.push(`até ${d}/${m}/${y}`);
+  }
+  return parts.join(', ');
+}
@@ -0,0 +1,93 @@
+import { z } from 'zod';
+import { Json } from '@/integrations/supabase/types';
+import { Transaction, TransactionCategory, TransactionSplit } from '@/types/transaction';
+import { CurrencyCode } from '@/types/currency';
+import { DEFAULT_CURRENCY, formatMoney } from '@/lib/currency';
+
+const splitSchema = z.object({
+  category: z.string().min(1).max(100),
+  amount: z.number().positive(),
+  note: z.string().max(255).optional(),
+});
+
+const splitsSchema = z.array(splitSchema).min(2);
+
+function roundCents(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/** A split line being edited; the amount stays as typed until the form is saved. */
+export interface SplitLineDraft {
+  category: TransactionCategory;
+  amount: string;
+  note: string;
+}
+
+export function toSplitDraft(split: TransactionSplit): SplitLineDraft {
+  return {
+    category: split.category,
+    amount: split.amount.toString().replace('.', ','),
+    note: split.note || '',
+  };
+}
+
+export function parseSplitDrafts(drafts: SplitLineDraft[]): TransactionSplit[] {
+  return drafts.map((d) => ({
+    category: d.category,
+    amount: parseFloat(d.amount.replace(',', '.')),
+    note: d.note.trim() || undefined,
+  }));
+}
+
+/** Split lines stored in `transactions.splits`, or undefined when absent or malformed. */
+export function parseSplits(value: unknown): TransactionSplit[] | undefined {
+  const result = splitsSchema.safeParse(value);
+  return result.success ? (result.data as TransactionSplit[]) : undefined;
+}
+
+export function toSplitsJson(splits?: TransactionSplit[]): Json | null {
+  if (!splits?.length) return null;
+  return splits.map((s) => ({
+    category: s.category,
+    amount: roundCents(s.amount),
+    ...(s.note ? { note: s.note } : {}),
+  }));
+}
+
+/** What is left to distribute: positive when the lines add up to less than `amount`. */
+export function getSplitRemainder(splits: TransactionSplit[], amount: number): number {
+  return roundCents(amount - splits.reduce((sum, s) => sum + s.amount, 0));
+}
+
+/** Why the lines can't be saved for `amount`, or null when they can. */
+export function validateSplits(
+  splits: TransactionSplit[],
+  amount: number,
+  currency: CurrencyCode = DEFAULT_CURRENCY
+): string | null {
+  if (splits.length < 2) return 'Divida o valor em pelo menos duas categorias.';
+  if (splits.some((s) => isNaN(s.amount) || s.amount <= 0)) {
+    return 'Cada linha precisa de um valor maior que zero.';
+  }
+  if (!splitsSchema.safeParse(splits).success) return 'Confira as categorias e observações das linhas.';
+  const remainder = getSplitRemainder(splits, amount);
+  if (remainder !== 0) {
+    return remainder > 0
+      ? `Faltam ${formatMoney(remainder, currency)} para fechar o valor da transação.`
+      : `As linhas passam ${formatMoney(Math.abs(remainder), currency)} do valor da transação.`;
+  }
+  return null;
+}
+
+/** Category kept on the transaction itself: the one with the largest line. */
+export function getMainCategory(splits: TransactionSplit[]): TransactionCategory {
+  return splits.reduce((largest, s) => (s.amount > largest.amount ? s : largest)).category;
+}
+
+/**
+ * Amount per category of a transaction: its split lines, or the whole amount
+ * under its category. Anything grouping money by category should use this.
+ */
+export function getCategoryAmounts(t: Transaction): TransactionSplit[] {
+  return t.splits?.length ? t.splits : [{ category: t.category, amount: t.amount }];
+}
@@ -0,0 +1,268 @@
+import { addMonths, lastDayOfMonth, subDays } from 'date-fns';
+import { AcoesDetails, Investment, InvestmentMovement } from '@/types/investment';
+import { getMovements } from '@/lib/investments';
+import { isBusinessDay } from '@/lib/fixedIncome';
+import { toLocalDateString } from '@/lib/utils';
+
+/** Monthly sales of stocks up to this amount have their gains exempt (swing trade). */
+export const MONTHLY_EXEMPTION_LIMIT = 20000;
+
+/** Rate on swing-trade gains; day trades (20%) are not told apart. */
+export const STOCK_GAIN_TAX_RATE = 0.15;
+
+/** Smallest DARF the Receita accepts; less than this carries on to the next month. */
+export const MINIMUM_DARF = 10;
+
+/** Revenue code of the DARF for gains on stock sales by individuals. */
+export const DARF_CODE = '6015';
+
+export interface StockTrade {
+  investmentId: string;
+  ticker: string;
+  side: 'buy' | 'sell';
+  date: string;
+  quantity?: number;
+  amount: number; // quantity x price, fees apart
+  fees: number;
+}
+
+export interface StockSale {
+  investmentId: string;
+  ticker: string;
+  date: string;
+  quantity: number;
+  amount: number; // gross sale value, what counts towards the R$ 20.000
+  fees: number;
+  cost: number; // at the average price of the ticker
+  gain: number; // amount - fees - cost
+}
+
+export interface StockHolding {
+  ticker: string;
+  quantity: number;
+  cost: number;
+  averagePrice: number;
+}
+
+export interface StockTaxMonth {
+  month: string; // YYYY-MM
+  sales: number;
+  result: number; // gains minus losses of the month's sales
+  exempt: boolean;
+  exemptGain: number;
+  lossUsed: number; // earlier losses taken off this month's gain
+  lossCarried: number; // left to take off later gains
+  taxableGain: number;
+  tax: number;
+  carriedTax: number; // from earlier months whose tax was under the minimum
+  darf: number; // due this month; 0 when under the minimum
+  dueDate: string; // last business day of the following month
+}
+
+export function getTicker(investment: Investment): string {
+  const ticker = (investment.detalhesEspecificos as AcoesDetails | undefined)?.ticker?.trim().toUpperCase();
+  return ticker || investment.nome.trim().toUpperCase();
+}
+
+/**
+ * Buys and sells of the stocks already bought, oldest first: the opening lot
+ * of each investment, then its contributions (buys) and withdrawals (sells).
+ */
+export function getStockTrades(investments: Investment[], movements: InvestmentMovement[]): StockTrade[] {
+  const trades: StockTrade[] = [];
+  for (const investment of investments.filter((i) => i.tipo === 'acoes' && i.jaInvestido)) {
+    const ticker = getTicker(investment);
+    trades.push({
+      investmentId: investment.id,
+      ticker,
+      side: 'buy',
+      date: investment.dataInvestimento,
+      quantity: (investment.detalhesEspecificos as AcoesDetails | undefined)?.quantidade,
+      amount: investment.valorInvestido,
+      fees: 0,
+    });
+    for (const m of getMovements(movements, investment.id)) {
+      if (m.type !== 'contribution' && m.type !== 'withdrawal') continue;
+      trades.push({
+        investmentId: investment.id,
+        ticker,
+        side: m.type === 'contribution' ? 'buy' : 'sell',
+        date: m.date,
+        quantity: m.quantity,
+        amount: m.amount,
+        fees: m.fees ?? 0,
+      });
+    }
+  }
+  // Buys first on the same day, so a sale never finds the position empty
+  return trades.sort((a, b) => a.date.localeCompare(b.date) || (a.side === b.side ? 0 : a.side === 'buy' ? -1 : 1));
+}
+
+/**
+ * Walks the trades up to `until` with one average price per ticker, however
+ * many investments (brokers) hold it, as the Receita requires. Buys add their
+ * fees to the cost; sells take out the average cost of the quantity sold, or
+ * at most their amount when no quantity was given.
+ */
+function walkTrades(trades: StockTrade[], until?: string): { sales: StockSale[]; holdings: StockHolding[] } {
+  const positions = new Map<string, { quantity: number; cost: number }>();
+  const sales: StockSale[] = [];
+
+  for (const trade of trades) {
+    if (until && trade.date > until) break;
+    const position = positions.get(trade.ticker) ?? { quantity: 0, cost: 0 };
+    positions.set(trade.ticker, position);
+
+    if (trade.side === 'buy') {
+      position.quantity += trade.quantity ?? 0;
+      position.cost += trade.amount + trade.fees;
+      continue;
+    }
+
+    const averagePrice = position.quantity > 0 ? position.cost / position.quantity : 0;
+    const quantity = trade.quantity ?? (averagePrice > 0 ? Math.min(position.quantity, trade.amount / averagePrice) : 0);
+    const cost = trade.quantity !== undefined && position.quantity > 0
+      ? position.cost * Math.min(1, trade.quantity / position.quantity)
+      : Math.min(position.cost, trade.amount);
+    position.quantity = Math.max(0, position.quantity - quantity);
+    position.cost = position.quantity > 0 ? Math.max(0, position.cost - cost) : 0;
+    sales.push({
+      investmentId: trade.investmentId,
+      ticker: trade.ticker,
+      date: trade.date,
+      quantity,
+      amount: trade.amount,
+      fees: trade.fees,
+      cost,
+      gain: trade.amount - trade.fees - cost,
+    });
+  }
+
+  const holdings = [...positions.entries()]
+    .filter(([, p]) => p.quantity > 0)
+    .map(([ticker, p]) => ({ ticker, quantity: p.quantity, cost: p.cost, averagePrice: p.cost / p.quantity }))
+    .sort((a, b) => a.ticker.localeCompare(b.ticker));
+  return { sales, holdings };
+}
+
+export function getStockSales(investments: Investment[], movements: InvestmentMovement[]): StockSale[] {
+  return walkTrades(getStockTrades(investments, movements)).sales;
+}
+
+/** Stocks held at the end of `date` at their average cost, as declared in "Bens e Direitos". */
+export function getStockHoldings(investments: Investment[], movements: InvestmentMovement[], date: string): StockHolding[] {
+  return walkTrades(getStockTrades(investments, movements), date).holdings;
+}
+
+function getDarfDueDate(month: string): string {
+  let day = lastDayOfMonth(addMonths(new Date(month + '-01T12:00:00'), 1));
+  while (!isBusinessDay(toLocalDateString(day))) day = subDays(day, 1);
+  return toLocalDateString(day);
+}
+
+/**
+ * Monthly tax on stock sales. Months selling up to R$ 20.000 have their gains
+ * exempt; losses of any month carry forward and are taken off later taxable
+ * gains, never exempt ones. Tax under R$ 10 is added to the next month's DARF.
+ */
+export function getStockTaxMonths(sales: StockSale[]): StockTaxMonth[] {
+  const byMonth = new Map<string, StockSale[]>();
+  for (const sale of sales) {
+    const month = sale.date.slice(0, 7);
+    byMonth.set(month, [...(byMonth.get(month) ?? []), sale]);
+  }
+
+  const months: StockTaxMonth[] = [];
+  let loss = 0;
+  let carriedTax = 0;
+  for (const month of [...byMonth.keys()].sort()) {
+    const monthSales = byMonth.get(month) ?? [];
+    const total = monthSales.reduce((sum, s) => sum + s.amount, 0);
+    const result = monthSales.reduce((sum, s) => sum + s.gain, 0);
+    const exempt = total <= MONTHLY_EXEMPTION_LIMIT;
+
+    let lossUsed = 0;
+    let taxableGain = 0;
+    if (result < 0) {
+      loss += -result;
+    } else if (!exempt) {
+      lossUsed = Math.min(loss, result);
+      loss -= lossUsed;
+      taxableGain = result - lossUsed;
+    }
+
+    const tax = taxableGain * STOCK_GAIN_TAX_RATE;
+    const due = tax + carriedTax;
+    const darf = due >= MINIMUM_DARF ? due : 0;
+    months.push({
+      month,
+      sales: total,
+      result,
+      exempt,
+      exemptGain: exempt && result > 0 ? result : 0,
+      lossUsed,
+      lossCarried: loss,
+      taxableGain,
+      tax,
+      carriedTax,
+      darf,
+      dueDate: getDarfDueDate(month),
+    });
+    carriedTax = darf > 0 ? 0 : due;
+  }
+  return months;
+}
+
+function formatCsvNumber(value: number, digits = 2): string {
+  return value.toFixed(digits).replace('.', ',');
+}
+
+/**
+ * One year of stock sales for the annual declaration, in a CSV that opens in
+ * spreadsheets set to pt-BR: the monthly summary ("Renda Variável"), the sales
+ * and the holdings on December 31 ("Bens e Direitos").
+ */
+export function buildStockTaxCsv(year: number, months: StockTaxMonth[], sales: StockSale[], holdings: StockHolding[]): string {
+  const lines: string[][] = [
+    [`Renda variável - operações comuns - ${year}`],
+    ['Mês', 'Vendas', 'Resultado', 'Isento', 'Prejuízo compensado', 'Prejuízo a compensar', 'Base de cálculo', 'Imposto', 'DARF', 'Vencimento'],
+    ...months
+      .filter((m) => m.month.startsWith(`${year}-`))
+      .map((m) => [
+        m.month,
+        formatCsvNumber(m.sales),
+        formatCsvNumber(m.result),
+        formatCsvNumber(m.exemptGain),
+        formatCsvNumber(m.lossUsed),
+        formatCsvNumber(m.lossCarried),
+        formatCsvNumber(m.taxableGain),
+        formatCsvNumber(m.tax),
+        formatCsvNumber(m.darf),
+        m.darf > 0 ? m.dueDate : '',
+      ]),
+    [],
+    ['Vendas'],
+    ['Data', 'Ativo', 'Quantidade', 'Valor de venda', 'Taxas', 'Custo médio', 'Resultado'],
+    ...sales
+      .filter((s) => s.date.startsWith(`${year}-`))
+      .map((s) => [
+        s.date,
+        s.ticker,
+        formatCsvNumber(s.quantity, 8).replace(/,?0+$/, ''),
+        formatCsvNumber(s.amount),
+        formatCsvNumber(s.fees),
+        formatCsvNumber(s.cost),
+        formatCsvNumber(s.gain),
+      ]),
+    [],
+    [`Posição em 31/12/${year}`],
+    ['Ativo', 'Quantidade', 'Preço médio', 'Custo total'],
+    ...holdings.map((h) => [
+      h.ticker,
+      formatCsvNumber(h.quantity, 8).replace(/,?0+$/, ''),
+      formatCsvNumber(h.averagePrice),
+      formatCsvNumber(h.cost),
+    ]),
+  ];
+  return lines.map((cells) => cells.map((c) => (/[;"\n]/.test(c) ? `"${c.replace(/"/g, '""')}"` : c)).join(';')).join('\n');
+}
@@ -0,0 +1,43 @@
+import { Tag } from '@/types/tag';
+import { Transaction } from '@/types/transaction';
+import { countsAsExpense, countsAsIncome } from '@/lib/transactions';
+
+export interface TagTotal {
+  tag: Tag;
+  income: number;
+  expense: number;
+  count: number;
+}
+
+/** "Viagem 2026 " → "viagem-2026", so the same tag isn't created twice. */
+export function normalizeTagName(name: string): string {
+  return name.trim().toLowerCase().replace(/\s+/g, '-').slice(0, 40);
+}
+
+export function hasTag(transaction: Transaction, tagId: string): boolean {
+  return !!transaction.tagIds?.includes(tagId);
+}
+
+export function getTransactionTags(transaction: Transaction, tags: Tag[]): Tag[] {
+  if (!transaction.tagIds?.length) return [];
+  return tags.filter((tag) => transaction.tagIds!.includes(tag.id));
+}
+
+/**
+ * Income and expense per tag, with the same rules as the summary cards
+ * (transfers never count). A transaction with two tags counts in both.
+ */
+export function getTagTotals(transactions: Transaction[], tags: Tag[]): TagTotal[] {
+  return tags
+    .map((tag) => {
+      const tagged = transactions.filter((t) => hasTag(t, tag.id));
+      return {
+        tag,
+        income: tagged.filter((t) => countsAsIncome(t)).reduce((sum, t) => sum + t.amount, 0),
+        expense: tagged.filter((t) => countsAsExpense(t)).reduce((sum, t) => sum + t.amount, 0),
+        count: tagged.length,
+      };
+    })
+    .filter((total) => total.count > 0)
+    .sort((a, b) => b.expense + b.income - (a.expense + a.income));
+}
@@ -0,0 +1,67 @@
+import { Transaction } from '@/types/transaction';
+import { Account } from '@/types/account';
+
+export interface CashFlowOptions {
+  includeInvestments?: boolean;
+  includeLoans?: boolean;
+}
+
+/** One leg of a transfer between the user's own accounts. */
+export function isTransfer(t: Transaction): boolean {
+  return !!t.transferId;
+}
+
+/**
+ * Whether an entry counts as income in period totals. Transfers only move money
+ * between accounts, and a loan taken that was already paid back nets to zero.
+ */
+export function countsAsIncome(t: Transaction, { includeLoans = true }: CashFlowOptions = {}): boolean {
+  if (t.type !== 'income' || isTransfer(t)) return false;
+  if (t.isLoan && t.loanStatus === 'paid') return false;
+  if (!includeLoans && t.isLoan) return false;
+  return true;
+}
+
+/** Whether an entry counts as expense in period totals (see {@link countsAsIncome}). */
+export function countsAsExpense(
+  t: Transaction,
+  { includeInvestments = true, includeLoans = true }: CashFlowOptions = {}
+): boolean {
+  if (t.type !== 'expense' || isTransfer(t)) return false;
+  if (t.isLoan && t.loanStatus === 'received') return false;
+  if (!includeInvestments && t.category === 'investment') return false;
+  if (!includeLoans && t.isLoan) return false;
+  return true;
+}
+
+/**
+ * Signed effect of a transaction on the money actually held.
+ * Settled loans cancel out: a loan given that was received back (or a loan
+ * taken that was paid) no longer moves the balance.
+ */
+export function getBalanceEffect(t: Transaction): number {
+  if (t.isLoan && t.type === 'expense' && t.loanStatus === 'received') return 0;
+  if (t.isLoan && t.type === 'income' && t.loanStatus === 'paid') return 0;
+  return t.type === 'income' ? t.amount : -t.amount;
+}
+
+/** Current balance of an account: opening balance plus every entry booked on it. */
+export function getAccountBalance(account: Account, transactions: Transaction[]): number {
+  return transactions
+    .filter((t) => t.accountId === account.id)
+    .reduce((sum, t) => sum + getBalanceEffect(t), account.initialBalance);
+}
+
+/** Net effect of entries not linked to any (existing) account. */
+export function getUnassignedBalance(accounts: Account[], transactions: Transaction[]): number {
+  const ids = new Set(accounts.map((a) => a.id));
+  return transactions
+    .filter((t) => !t.accountId || !ids.has(t.accountId))
+    .reduce((sum, t) => sum + getBalanceEffect(t), 0);
+}
+
+/** The other leg of a transfer (the entry on the opposite account), if loaded. */
+export function getTransferCounterpart(t: Transaction, transactions: Transaction[]): Transaction | undefined {
+  if (!t.transferId) return undefined;
+  return transactions.find((other) => other.transferId === t.transferId && other.id !== t.id);
+}
@@ -0,0 +1,358 @@
+import { useState, useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import { format } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { ChevronLeft, ChevronRight, PiggyBank, Plus, Pencil, Trash2, Repeat, Mail } from 'lucide-react';
+import { useTransactions } from '@/contexts/TransactionContext';
+import { useToast } from '@/hooks/use-toast';
+import { Budget } from '@/types/budget';
+import { TransactionCategory } from '@/types/transaction';
+import { BudgetProgress, getBudgetProgress, getMonthKey } from '@/lib/budgets';
+import { getCategory, getCategoryPath, getCategoriesForType } from '@/lib/categories';
+import { getCategoryIcon } from '@/lib/categoryIcons';
+import { convertTransactions, countUnconverted, getCurrencySymbol } from '@/lib/currency';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Progress } from '@/components/ui/progress';
+import { PrivacyValue } from '@/components/ui/PrivacyValue';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { cn, shiftMonth } from '@/lib/utils';
+
+const statusColors: Record<BudgetProgress['status'], string> = {
+  ok: '[&>div]:bg-income',
+  warning: '[&>div]:bg-amber-500',
+  exceeded: '[&>div]:bg-expense',
+};
+
+export default function Budgets() {
+  const { budgets, transactions, categories, baseCurrency, exchangeRates, addBudget, updateBudget, deleteBudget } =
+    useTransactions();
+  const { toast } = useToast();
+
+  const [month, setMonth] = useState(getMonthKey(new Date()));
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editingBudget, setEditingBudget] = useState<Budget | null>(null);
+
+  // Form state
+  const [category, setCategory] = useState<TransactionCategory>('food');
+  const [limit, setLimit] = useState('');
+  const [rollover, setRollover] = useState(false);
+
+  // Limits are in the base currency, so spending is converted before it's compared
+  const baseTransactions = useMemo(
+    () => convertTransactions(transactions, baseCurrency, exchangeRates),
+    [transactions, baseCurrency, exchangeRates]
+  );
+
+  const monthBudgets = useMemo(
+    () =>
+      budgets
+        .filter((b) => b.month === month)
+        .map((b) => getBudgetProgress(b, budgets, baseTransactions, categories))
+        .sort((a, b) => b.ratio - a.ratio),
+    [budgets, month, baseTransactions, categories]
+  );
+
+  const totals = monthBudgets.reduce(
+    (acc, p) => ({ spent: acc.spent + p.spent, available: acc.available + p.available }),
+    { spent: 0, available: 0 }
+  );
+
+  const unconvertedCount = countUnconverted(
+    baseTransactions.filter((t) => getMonthKey(t.date) === month),
+    baseCurrency
+  );
+
+  const expenseCategories = getCategoriesForType(categories, 'expense');
+  const previousMonthBudgets = budgets.filter((b) => b.month === shiftMonth(month, -1));
+
+  const openForm = (budget?: Budget) => {
+    setEditingBudget(budget || null);
+    setCategory(
+      budget?.category ||
+        expenseCategories.find((c) => !monthBudgets.some((p) => p.budget.category === c.key))?.key ||
+        'other'
+    );
+    setLimit(budget ? budget.limit.toString().replace('.', ',') : '');
+    setRollover(budget?.rollover || false);
+    setIsFormOpen(true);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const parsedLimit = parseFloat(limit.replace(',', '.'));
+    if (isNaN(parsedLimit) || parsedLimit <= 0) {
+      toast({
+        title: 'Valor inválido',
+        description: 'Digite um limite maior que zero.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    const duplicate = monthBudgets.find((p) => p.budget.category === category && p.budget.id !== editingBudget?.id);
+    if (duplicate) {
+      toast({
+        title: 'Orçamento já existe',
+        description: `${getCategoryPath(categories, category)} já tem orçamento neste mês.`,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    if (editingBudget) {
+      await updateBudget(editingBudget.id, { category, limit: parsedLimit, rollover });
+      toast({ title: 'Orçamento atualizado', description: `${getCategory(categories, category).name} foi salvo.` });
+    } else {
+      const id = await addBudget({ category, month, limit: parsedLimit, rollover });
+      if (!id) return;
+      toast({ title: 'Orçamento criado', description: `${getCategory(categories, category).name} foi adicionado.` });
+    }
+    setIsFormOpen(false);
+  };
+
+  const handleDelete = (budget: Budget) => {
+    deleteBudget(budget.id);
+    toast({ title: 'Orçamento excluído', description: getCategoryPath(categories, budget.category) });
+  };
+
+  /** Repeats last month's limits in the selected month, skipping categories already budgeted. */
+  const copyPreviousMonth = async () => {
+    const missing = previousMonthBudgets.filter((b) => !monthBudgets.some((p) => p.budget.category === b.category));
+    for (const b of missing) {
+      await addBudget({ category: b.category, month, limit: b.limit, rollover: b.rollover });
+    }
+    toast({ title: 'Orçamentos copiados', description: `${missing.length} categoria(s) do mês anterior.` });
+  };
+
+  const renderBudget = ({ budget, spent, carriedOver, available, remaining, ratio, status }: BudgetProgress, index: number) => {
+    const info = getCategory(categories, budget.category);
+    const Icon = getCategoryIcon(info.icon);
+    return (
+      <motion.div
+        key={budget.id}
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: index * 0.05 }}
+        className="glass-card rounded-xl p-4 sm:p-5 space-y-3"
+      >
+        <div className="flex items-start gap-3">
+          <div
+            className="w-10 h-10 rounded-lg flex items-center justify-center shrink-0"
+            style={{ backgroundColor: `${info.color}20` }}
+          >
+            <Icon className="w-5 h-5" style={{ color: info.color }} />
+          </div>
+          <div className="flex-1 min-w-0">
+            <h3 className="font-semibold text-sm sm:text-base truncate">{getCategoryPath(categories, budget.category)}</h3>
+            <p className="text-xs text-muted-foreground truncate">
+              Limite <PrivacyValue value={budget.limit} />
+              {carriedOver > 0 && (
+                <>
+                  {' + '}
+                  <PrivacyValue value={carriedOver} /> do mês anterior
+                </>
+              )}
+              {budget.rollover && carriedOver === 0 && (
+                <>
+                  {' • '}
+                  <Repeat className="w-3 h-3 inline" /> acumula sobra
+                </>
+              )}
+            </p>
+          </div>
+          <div className="flex gap-1 shrink-0">
+            <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => openForm(budget)}>
+              <Pencil className="w-4 h-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8 text-destructive hover:text-destructive"
+              onClick={() => handleDelete(budget)}
+            >
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          </div>
+        </div>
+
+        <div className="space-y-1">
+          <div className="flex justify-between text-xs text-muted-foreground">
+            <span>
+              <PrivacyValue value={spent} className="font-semibold text-foreground" /> de{' '}
+              <PrivacyValue value={available} />
+            </span>
+            <span className={cn(status === 'exceeded' && 'text-expense', status === 'warning' && 'text-amber-600 dark:text-amber-400')}>
+              {Math.round(ratio * 100)}%
+            </span>
+          </div>
+          <Progress value={Math.min(ratio, 1) * 100} className={cn('h-2', statusColors[status])} />
+        </div>
+
+        <p className={cn('text-xs', remaining < 0 ? 'text-expense' : 'text-muted-foreground')}>
+          {remaining < 0 ? 'Estourou em ' : 'Disponível: '}
+          <PrivacyValue value={Math.abs(remaining)} />
+        </p>
+      </motion.div>
+    );
+  };
+
+  return (
+    <div className="space-y-4 sm:space-y-6 max-w-full overflow-hidden pb-4">
+      {/* Header */}
+      <div className="flex items-center justify-between gap-2">
+        <motion.div
+          initial={{ opacity: 0, y: -20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="flex-1 min-w-0"
+        >
+          <h1 className="text-xl sm:text-2xl lg:text-3xl font-display font-bold">Orçamentos</h1>
+          <p className="text-sm text-muted-foreground truncate">
+            Limites de gasto por categoria
+          </p>
+        </motion.div>
+
+        <Link
+          to="/envelopes"
+          className="flex items-center gap-1.5 text-xs text-muted-foreground hover:text-foreground transition-colors min-h-[36px] px-2 shrink-0"
+        >
+          <Mail className="w-4 h-4" />
+          Envelopes
+        </Link>
+        <Button onClick={() => openForm()} className="min-h-[44px] shrink-0">
+          <Plus className="w-4 h-4 sm:mr-2" />
+          <span className="hidden sm:inline">Novo Orçamento</span>
+        </Button>
+      </div>
+
+      {/* Month navigator */}
+      <div className="flex items-center justify-between glass-card rounded-xl p-2">
+        <Button variant="ghost" size="icon" onClick={() => setMonth(shiftMonth(month, -1))} aria-label="Mês anterior">
+          <ChevronLeft className="w-5 h-5" />
+        </Button>
+        <div className="text-center">
+          <p className="font-semibold capitalize">
+            {format(new Date(`${month}-01T12:00:00`), 'MMMM yyyy', { locale: ptBR })}
+          </p>
+          {monthBudgets.length > 0 && (
+            <p className="text-xs text-muted-foreground">
+              <PrivacyValue value={totals.spent} /> de <PrivacyValue value={totals.available} />
+            </p>
+          )}
+        </div>
+        <Button variant="ghost" size="icon" onClick={() => setMonth(shiftMonth(month, 1))} aria-label="Próximo mês">
+          <ChevronRight className="w-5 h-5" />
+        </Button>
+      </div>
+
+      {unconvertedCount > 0 && (
+        <p className="text-xs px-3 py-2 rounded-lg bg-amber-500/10 text-amber-600 dark:text-amber-400">
+          {unconvertedCount} lançamento(s) sem cotação para {baseCurrency} entraram nos gastos sem conversão.
+        </p>
+      )}
+
+      {monthBudgets.length === 0 ? (
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="glass-card rounded-xl p-6 sm:p-8 text-center"
+        >
+          <PiggyBank className="w-10 h-10 sm:w-12 sm:h-12 text-muted-foreground mx-auto mb-3 sm:mb-4" />
+          <h3 className="text-base sm:text-lg font-semibold mb-2">Nenhum orçamento neste mês</h3>
+          <p className="text-sm text-muted-foreground">
+            Defina um limite para as categorias em que quer controlar os gastos
+          </p>
+          {previousMonthBudgets.length > 0 && (
+            <Button variant="outline" className="mt-4" onClick={copyPreviousMonth}>
+              Copiar do mês anterior
+            </Button>
+          )}
+        </motion.div>
+      ) : (
+        <div className="grid gap-3 sm:gap-4 sm:grid-cols-2 lg:grid-cols-3">
+          {monthBudgets.map(renderBudget)}
+        </div>
+      )}
+
+      {/* Form Modal */}
+      <Dialog open={isFormOpen} onOpenChange={setIsFormOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingBudget ? 'Editar Orçamento' : 'Novo Orçamento'}</DialogTitle>
+          </DialogHeader>
+
+          <form onSubmit={handleSave} className="space-y-4">
+            <div className="space-y-2">
+              <Label>Categoria</Label>
+              <Select value={category} onValueChange={(v) => setCategory(v as TransactionCategory)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="z-[70]">
+                  {expenseCategories.map((c) => (
+                    <SelectItem key={c.key} value={c.key}>
+                      {getCategoryPath(categories, c.key)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                O orçamento de uma categoria inclui os gastos das subcategorias dela.
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Limite no mês</Label>
+              <div className="relative">
+                <span className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground text-sm">
+                  {getCurrencySymbol(baseCurrency)}
+                </span>
+                <Input
+                  type="text"
+                  inputMode="decimal"
+                  value={limit}
+                  onChange={(e) => setLimit(e.target.value)}
+                  placeholder="0,00"
+                  className={getCurrencySymbol(baseCurrency).length > 2 ? 'pl-12' : 'pl-9'}
+                  autoFocus
+                />
+              </div>
+            </div>
+
+            <div className="flex items-start space-x-3 p-4 bg-muted/50 rounded-xl">
+              <Checkbox id="rollover" checked={rollover} onCheckedChange={(checked) => setRollover(checked as boolean)} />
+              <div className="flex-1">
+                <label htmlFor="rollover" className="text-sm font-medium leading-none cursor-pointer">
+                  Acumular sobra
+                </label>
+                <p className="text-xs text-muted-foreground mt-1">
+                  O que não for gasto do orçamento do mês anterior soma ao limite deste mês
+                </p>
+              </div>
+            </div>
+
+            <Button type="submit" className="w-full">
+              {editingBudget ? 'Salvar Alterações' : 'Criar Orçamento'}
+            </Button>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
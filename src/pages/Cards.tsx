@@ -0,0 +1,241 @@
+import { useState, useMemo } from 'react';
+import { motion } from 'framer-motion';
+import { format } from 'date-fns';
+import { CreditCard, Plus, Calendar, ChevronDown, ChevronUp, CheckCircle2 } from 'lucide-react';
+import { useTransactions } from '@/contexts/TransactionContext';
+import { Account } from '@/types/account';
+import {
+  Invoice,
+  InvoiceStatus,
+  formatInvoiceMonth,
+  getAvailableCredit,
+  getCardInvoices,
+  invoiceStatusLabels,
+  isCreditCard,
+} from '@/lib/creditCard';
+import { getCategory } from '@/lib/categories';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { PrivacyValue } from '@/components/ui/PrivacyValue';
+import AccountsModal from '@/components/modals/AccountsModal';
+import PayInvoiceModal from '@/components/modals/PayInvoiceModal';
+import { cn } from '@/lib/utils';
+
+const statusStyles: Record<InvoiceStatus, string> = {
+  open: 'border-primary text-primary',
+  closed: 'border-warning text-warning',
+  overdue: 'border-expense text-expense',
+  paid: 'border-income text-income',
+};
+
+const formatDay = (date: string) => format(new Date(date + 'T12:00:00'), 'dd/MM');
+
+interface InvoiceRowProps {
+  invoice: Invoice;
+  onPay: () => void;
+}
+
+function InvoiceRow({ invoice, onPay }: InvoiceRowProps) {
+  const { categories } = useTransactions();
+  const [isExpanded, setIsExpanded] = useState(false);
+  const canPay = invoice.remaining >= 0.01 && invoice.status !== 'open';
+
+  return (
+    <div className="rounded-xl bg-muted/40">
+      <button
+        type="button"
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="w-full flex items-center gap-3 p-3 text-left"
+      >
+        <div className="flex-1 min-w-0">
+          <div className="flex items-center gap-2">
+            <span className="text-sm font-semibold capitalize">{formatInvoiceMonth(invoice.month)}</span>
+            <Badge variant="outline" className={cn('text-[10px] px-1.5 py-0', statusStyles[invoice.status])}>
+              {invoiceStatusLabels[invoice.status]}
+            </Badge>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Fecha {formatDay(invoice.closingDate)} • Vence {formatDay(invoice.dueDate)}
+          </p>
+        </div>
+        <div className="text-right shrink-0">
+          <PrivacyValue value={invoice.total} className="text-sm font-bold" />
+          {invoice.paid > 0 && invoice.remaining >= 0.01 && (
+            <p className="text-[10px] text-muted-foreground">
+              Falta <PrivacyValue value={invoice.remaining} />
+            </p>
+          )}
+        </div>
+        {isExpanded ? (
+          <ChevronUp className="w-4 h-4 text-muted-foreground shrink-0" />
+        ) : (
+          <ChevronDown className="w-4 h-4 text-muted-foreground shrink-0" />
+        )}
+      </button>
+
+      {isExpanded && (
+        <div className="px-3 pb-3 space-y-2">
+          {invoice.purchases.length === 0 ? (
+            <p className="text-xs text-muted-foreground text-center py-2">Nenhuma compra nesta fatura</p>
+          ) : (
+            invoice.purchases
+              .slice()
+              .sort((a, b) => b.date.localeCompare(a.date))
+              .map((t) => (
+                <div key={t.id} className="flex items-center gap-2 text-xs">
+                  <span className="text-muted-foreground w-10 shrink-0">{formatDay(t.date)}</span>
+                  <span className="flex-1 truncate">
+                    {t.description}
+                    <span className="text-muted-foreground"> • {getCategory(categories, t.category).name}</span>
+                  </span>
+                  <PrivacyValue
+                    value={t.type === 'income' ? -t.amount : t.amount}
+                    className={cn('font-medium', t.type === 'income' && 'text-income')}
+                  />
+                </div>
+              ))
+          )}
+
+          {invoice.payments.map((t) => (
+            <div key={t.id} className="flex items-center gap-2 text-xs text-income">
+              <span className="w-10 shrink-0">{formatDay(t.date)}</span>
+              <span className="flex-1 truncate flex items-center gap-1">
+                <CheckCircle2 className="w-3 h-3" />
+                Pagamento
+              </span>
+              <PrivacyValue value={t.amount} className="font-medium" />
+            </div>
+          ))}
+
+          {canPay && (
+            <Button size="sm" className="w-full mt-1" onClick={onPay}>
+              Pagar fatura
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function Cards() {
+  const { accounts, transactions } = useTransactions();
+  const [isAccountsModalOpen, setIsAccountsModalOpen] = useState(false);
+  const [payment, setPayment] = useState<{ card: Account; invoice: Invoice } | null>(null);
+
+  const cards = useMemo(
+    () => accounts.filter((a) => isCreditCard(a) && !a.isArchived),
+    [accounts]
+  );
+
+  const cardInvoices = useMemo(
+    () => cards.map((card) => ({ card, invoices: getCardInvoices(card, transactions) })),
+    [cards, transactions]
+  );
+
+  return (
+    <div className="space-y-4 sm:space-y-6 max-w-full overflow-hidden pb-4">
+      {/* Header */}
+      <div className="flex items-center justify-between gap-2">
+        <motion.div
+          initial={{ opacity: 0, y: -20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="flex-1 min-w-0"
+        >
+          <h1 className="text-xl sm:text-2xl lg:text-3xl font-display font-bold">Cartões</h1>
+          <p className="text-sm text-muted-foreground truncate">
+            Faturas e pagamentos
+          </p>
+        </motion.div>
+
+        <Button onClick={() => setIsAccountsModalOpen(true)} className="min-h-[44px] shrink-0">
+          <Plus className="w-4 h-4 sm:mr-2" />
+          <span className="hidden sm:inline">Novo Cartão</span>
+        </Button>
+      </div>
+
+      {cards.length === 0 ? (
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="glass-card rounded-xl p-6 sm:p-8 text-center"
+        >
+          <CreditCard className="w-10 h-10 sm:w-12 sm:h-12 text-muted-foreground mx-auto mb-3 sm:mb-4" />
+          <h3 className="text-base sm:text-lg font-semibold mb-2">Nenhum cartão</h3>
+          <p className="text-sm text-muted-foreground mb-4">
+            Cadastre uma conta do tipo Cartão de Crédito com os dias de fechamento e vencimento
+          </p>
+          <Button onClick={() => setIsAccountsModalOpen(true)} className="min-h-[44px]">
+            <Plus className="w-4 h-4 mr-2" />
+            Adicionar Cartão
+          </Button>
+        </motion.div>
+      ) : (
+        <div className="grid gap-4 lg:grid-cols-2">
+          {cardInvoices.map(({ card, invoices }, index) => {
+            const available = getAvailableCredit(card, transactions);
+            const current = invoices.find((inv) => inv.status === 'open');
+            return (
+              <motion.div
+                key={card.id}
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ delay: index * 0.05 }}
+                className="glass-card rounded-xl p-4 sm:p-5 space-y-4"
+              >
+                <div className="flex items-start gap-3">
+                  <div className="w-10 h-10 rounded-lg bg-expense/10 flex items-center justify-center shrink-0">
+                    <CreditCard className="w-5 h-5 text-expense" />
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <h3 className="font-semibold truncate">{card.name}</h3>
+                    <p className="text-xs text-muted-foreground">
+                      <Calendar className="w-3 h-3 inline mr-1" />
+                      Fecha dia {card.closingDay ?? '-'} • Vence dia {card.dueDay ?? '-'}
+                    </p>
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-2 gap-3">
+                  <div className="p-3 rounded-xl bg-muted/50">
+                    <p className="text-xs text-muted-foreground">Fatura atual</p>
+                    <PrivacyValue value={current?.total ?? 0} className="text-base font-bold text-expense" />
+                  </div>
+                  <div className="p-3 rounded-xl bg-muted/50">
+                    <p className="text-xs text-muted-foreground">Limite disponível</p>
+                    {available !== undefined ? (
+                      <PrivacyValue
+                        value={available}
+                        showSign={available < 0}
+                        className={cn('text-base font-bold', available < 0 && 'text-expense')}
+                      />
+                    ) : (
+                      <p className="text-base font-bold text-muted-foreground">-</p>
+                    )}
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  {invoices.map((invoice) => (
+                    <InvoiceRow
+                      key={invoice.month}
+                      invoice={invoice}
+                      onPay={() => setPayment({ card, invoice })}
+                    />
+                  ))}
+                </div>
+              </motion.div>
+            );
+          })}
+        </div>
+      )}
+
+      <AccountsModal isOpen={isAccountsModalOpen} onClose={() => setIsAccountsModalOpen(false)} />
+      <PayInvoiceModal
+        card={payment?.card ?? null}
+        invoice={payment?.invoice ?? null}
+        onClose={() => setPayment(null)}
+      />
+    </div>
+  );
+}
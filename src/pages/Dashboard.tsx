@@ -5,15 +5,23 @@ import { useTransactions } from '@/contexts/TransactionContext';
 import { useAuth } from '@/contexts/AuthContext';
 import { useNavigate } from 'react-router-dom';
 import { useToast } from '@/hooks/use-toast';
+import { RecurrenceScope } from '@/types/recurrence';
 import { isToday, subDays, startOfMonth, startOfYear, isWithinInterval, startOfDay, endOfDay } from 'date-fns';
 import SummaryCards from '@/components/dashboard/SummaryCards';
 import CategoryChart from '@/components/dashboard/CategoryChart';
 import EvolutionChart from '@/components/dashboard/EvolutionChart';
 import TransactionList from '@/components/dashboard/TransactionList';
 import InvestmentSummary from '@/components/dashboard/InvestmentSummary';
+import AccountBalances from '@/components/dashboard/AccountBalances';
+import TagTotals from '@/components/dashboard/TagTotals';
+import BudgetAlerts from '@/components/dashboard/BudgetAlerts';
+import EnvelopeStatus from '@/components/dashboard/EnvelopeStatus';
 import ReportModal from '@/components/modals/ReportModal';
 import { Button } from '@/components/ui/button';
 import { cn } from '@/lib/utils';
+import { countsAsIncome, countsAsExpense, isTransfer } from '@/lib/transactions';
+import { hasTag } from '@/lib/tags';
+import { convertTransactions, countUnconverted, formatMoney } from '@/lib/currency';
 import { Check, Landmark, Handshake } from 'lucide-react';
 
 type PeriodFilter = 'today' | 'week' | 'month' | 'year' | 'all';
@@ -34,25 +42,49 @@ const typeLabels: Record<TypeFilter, string> = {
 };
 
 export default function Dashboard() {
-  const { transactions, investments, deleteTransaction, pendingTransactionIds } = useTransactions();
+  const {
+    transactions,
+    investments,
+    investmentMovements,
+    accounts,
+    tags,
+    categories,
+    budgets,
+    goals,
+    envelopeStartDate,
+    envelopes,
+    envelopeMovements,
+    baseCurrency,
+    exchangeRates,
+    deleteTransaction,
+    deleteRecurringOccurrence,
+    pendingTransactionIds,
+  } = useTransactions();
   const { user } = useAuth();
   const navigate = useNavigate();
   const { toast } = useToast();
   
   const [periodFilter, setPeriodFilter] = useState<PeriodFilter>('month');
   const [typeFilter, setTypeFilter] = useState<TypeFilter>('all');
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
   const [showCharts, setShowCharts] = useState(false);
   const [isReportOpen, setIsReportOpen] = useState(false);
   const [includeInvestments, setIncludeInvestments] = useState(true);
   const [includeLoans, setIncludeLoans] = useState(true);
 
-  const filteredTransactions = useMemo(() => {
-    return transactions.filter((t) => {
+  // Everything summed on this page is in the base currency, at the rate of each entry's date
+  const baseTransactions = useMemo(
+    () => convertTransactions(transactions, baseCurrency, exchangeRates),
+    [transactions, baseCurrency, exchangeRates]
+  );
+
+  const periodTransactions = useMemo(() => {
+    return baseTransactions.filter((t) => {
       const tDate = new Date(t.date + 'T12:00:00');
       const now = new Date();
 
-      // Filtro por tipo
-      if (typeFilter !== 'all' && t.type !== typeFilter) {
+      // Filtro por tipo (transferências não são receita nem despesa)
+      if (typeFilter !== 'all' && (t.type !== typeFilter || isTransfer(t))) {
         return false;
       }
 
@@ -79,26 +111,32 @@ export default function Dashboard() {
           return true;
       }
     });
-  }, [transactions, periodFilter, typeFilter]);
+  }, [baseTransactions, periodFilter, typeFilter]);
+
+  const filteredTransactions = useMemo(
+    () => (tagFilter ? periodTransactions.filter((t) => hasTag(t, tagFilter)) : periodTransactions),
+    [periodTransactions, tagFilter]
+  );
+
+  // The list shows each entry as recorded, in its own currency
+  const listTransactions = useMemo(() => {
+    const originals = new Map(transactions.map((t) => [t.id, t]));
+    return filteredTransactions.map((t) => originals.get(t.id) || t);
+  }, [transactions, filteredTransactions]);
+
+  const unconvertedCount = countUnconverted(filteredTransactions, baseCurrency);
+
+  const activeTag = tags.find((t) => t.id === tagFilter);
+
+  const toggleTagFilter = (tagId: string) => setTagFilter((current) => (current === tagId ? null : tagId));
 
   const stats = useMemo(() => {
     const income = filteredTransactions
-      .filter((t) => {
-        if (t.type !== 'income') return false;
-        if (t.isLoan && t.loanStatus === 'paid') return false;
-        if (!includeLoans && t.isLoan) return false;
-        return true;
-      })
+      .filter((t) => countsAsIncome(t, { includeLoans }))
       .reduce((sum, t) => sum + t.amount, 0);
 
     const expense = filteredTransactions
-      .filter((t) => {
-        if (t.type !== 'expense') return false;
-        if (t.isLoan && t.loanStatus === 'received') return false;
-        if (!includeInvestments && t.category === 'investment') return false;
-        if (!includeLoans && t.isLoan) return false;
-        return true;
-      })
+      .filter((t) => countsAsExpense(t, { includeInvestments, includeLoans }))
       .reduce((sum, t) => sum + t.amount, 0);
 
     // Calcula valores excluídos para exibir info
@@ -128,8 +166,12 @@ export default function Dashboard() {
     navigate(`/transacoes/editar/${id}`);
   };
 
-  const handleDelete = (id: string) => {
-    deleteTransaction(id);
+  const handleDelete = (id: string, scope?: RecurrenceScope) => {
+    if (scope) {
+      deleteRecurringOccurrence(id, scope);
+    } else {
+      deleteTransaction(id);
+    }
     toast({
       title: 'Transação excluída',
       description: 'A transação foi removida.',
@@ -215,6 +257,31 @@ export default function Dashboard() {
         ))}
       </motion.div>
 
+      {/* Tag Filter Pills */}
+      {tags.length > 0 && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          transition={{ delay: 0.05 }}
+          className="flex gap-2 overflow-x-auto pb-1 scrollbar-hide"
+        >
+          {tags.map((tag) => (
+            <button
+              key={tag.id}
+              onClick={() => toggleTagFilter(tag.id)}
+              className={cn(
+                'px-3 py-1.5 rounded-full text-xs font-medium whitespace-nowrap transition-all min-h-[36px] active:scale-95 border',
+                tagFilter === tag.id
+                  ? 'bg-primary/10 text-primary border-primary/30'
+                  : 'bg-muted text-muted-foreground border-transparent'
+              )}
+            >
+              #{tag.name}
+            </button>
+          ))}
+        </motion.div>
+      )}
+
       {/* Summary Cards */}
       <SummaryCards
         income={stats.income}
@@ -225,6 +292,13 @@ export default function Dashboard() {
         onExpenseClick={() => setTypeFilter('expense')}
       />
 
+      {unconvertedCount > 0 && (
+        <p className="text-xs px-3 py-2 rounded-lg bg-amber-500/10 text-amber-600 dark:text-amber-400">
+          {unconvertedCount} lançamento(s) sem cotação para {baseCurrency} entraram nos totais sem conversão.
+          Cadastre as cotações em Moedas e cotações.
+        </p>
+      )}
+
       {/* Filtros de visualização */}
       <motion.div
         initial={{ opacity: 0 }}
@@ -258,15 +332,50 @@ export default function Dashboard() {
         </button>
         {(!includeInvestments || !includeLoans) && (
           <span className="text-[10px] text-muted-foreground self-center ml-1">
-            {!includeInvestments && stats.excludedInvestments > 0 && `-R$ ${stats.excludedInvestments.toLocaleString('pt-BR', { minimumFractionDigits: 2 })} invest.`}
+            {!includeInvestments && stats.excludedInvestments > 0 && `-${formatMoney(stats.excludedInvestments, baseCurrency)} invest.`}
             {!includeInvestments && !includeLoans && stats.excludedInvestments > 0 && stats.excludedLoans > 0 && ' | '}
-            {!includeLoans && stats.excludedLoans > 0 && `-R$ ${stats.excludedLoans.toLocaleString('pt-BR', { minimumFractionDigits: 2 })} emprést.`}
+            {!includeLoans && stats.excludedLoans > 0 && `-${formatMoney(stats.excludedLoans, baseCurrency)} emprést.`}
           </span>
         )}
       </motion.div>
 
+      {/* Envelope mode: money to assign and envelopes in the red, independent of the filters */}
+      {envelopeStartDate && (
+        <EnvelopeStatus
+          startDate={envelopeStartDate}
+          envelopes={envelopes}
+          movements={envelopeMovements}
+          transactions={baseTransactions}
+          categories={categories}
+        />
+      )}
+
+      {/* Current month's budgets, independent of the filters */}
+      <BudgetAlerts budgets={budgets} transactions={baseTransactions} categories={categories} />
+
+      {/* Per-account balances (all-time, independent of the period filter) */}
+      <AccountBalances
+        accounts={accounts}
+        transactions={transactions}
+        baseCurrency={baseCurrency}
+        exchangeRates={exchangeRates}
+      />
+
+      {/* Per-tag totals for the period, ignoring the tag filter itself */}
+      <TagTotals
+        transactions={periodTransactions}
+        tags={tags}
+        selectedTagId={tagFilter}
+        onSelect={toggleTagFilter}
+      />
+
       {/* Investment Summary - Compact */}
-      <InvestmentSummary investments={investments} />
+      <InvestmentSummary
+        investments={investments}
+        investmentMovements={investmentMovements}
+        goals={goals}
+        transactions={baseTransactions}
+      />
 
       {/* Charts - Collapsible on mobile */}
       <div className="space-y-4">
@@ -294,7 +403,7 @@ export default function Dashboard() {
               className="lg:hidden overflow-hidden space-y-4"
             >
               <CategoryChart transactions={filteredTransactions} compact />
-              <EvolutionChart transactions={transactions} compact />
+              <EvolutionChart transactions={baseTransactions} compact />
             </motion.div>
           )}
         </AnimatePresence>
@@ -302,13 +411,13 @@ export default function Dashboard() {
         {/* Desktop Charts */}
         <div className="hidden lg:grid lg:grid-cols-2 gap-6">
           <CategoryChart transactions={filteredTransactions} />
-          <EvolutionChart transactions={transactions} />
+          <EvolutionChart transactions={baseTransactions} />
         </div>
       </div>
 
       {/* Transaction List */}
       <TransactionList
-        transactions={filteredTransactions}
+        transactions={listTransactions}
         onEdit={handleEdit}
         onDelete={handleDelete}
         pendingIds={pendingTransactionIds}
@@ -320,7 +429,7 @@ export default function Dashboard() {
         onClose={() => setIsReportOpen(false)}
         transactions={filteredTransactions}
         stats={stats}
-        period={periodLabels[periodFilter]}
+        period={[periodLabels[periodFilter], activeTag && `#${activeTag.name}`].filter(Boolean).join(' • ')}
       />
     </div>
   );
@@ -0,0 +1,508 @@
+import { useState, useMemo } from 'react';
+import { motion } from 'framer-motion';
+import { format, startOfMonth } from 'date-fns';
+import { ArrowRight, Mail, Pencil, Plus, Trash2, ArrowLeftRight, Inbox } from 'lucide-react';
+import { useTransactions } from '@/contexts/TransactionContext';
+import { useToast } from '@/hooks/use-toast';
+import { Envelope } from '@/types/envelope';
+import { TransactionCategory } from '@/types/transaction';
+import { EnvelopeBalance, getEnvelopeSummary } from '@/lib/envelopes';
+import { getCategoryPath, getCategoriesForType } from '@/lib/categories';
+import { convertTransactions, countUnconverted, getCurrencySymbol } from '@/lib/currency';
+import { cn, toLocalDateString } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { PrivacyValue } from '@/components/ui/PrivacyValue';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+
+// Select values can't be empty, so the pool gets a name of its own
+const POOL = 'pool';
+
+/** How many movements are listed before "Mostrar todas". */
+const VISIBLE_MOVEMENTS = 10;
+
+export default function Envelopes() {
+  const {
+    transactions,
+    categories,
+    baseCurrency,
+    exchangeRates,
+    envelopeStartDate,
+    envelopes,
+    envelopeMovements,
+    updateEnvelopeMode,
+    addEnvelope,
+    updateEnvelope,
+    deleteEnvelope,
+    addEnvelopeMovement,
+    deleteEnvelopeMovement,
+  } = useTransactions();
+  const { toast } = useToast();
+
+  const [startDate, setStartDate] = useState(toLocalDateString(startOfMonth(new Date())));
+  const [showAllMovements, setShowAllMovements] = useState(false);
+
+  // Envelope form
+  const [isEnvelopeFormOpen, setIsEnvelopeFormOpen] = useState(false);
+  const [editingEnvelope, setEditingEnvelope] = useState<Envelope | null>(null);
+  const [name, setName] = useState('');
+  const [selectedCategories, setSelectedCategories] = useState<TransactionCategory[]>([]);
+
+  // Movement form
+  const [isMovementFormOpen, setIsMovementFormOpen] = useState(false);
+  const [from, setFrom] = useState(POOL);
+  const [to, setTo] = useState(POOL);
+  const [amount, setAmount] = useState('');
+  const [movementDate, setMovementDate] = useState(toLocalDateString());
+  const [note, setNote] = useState('');
+
+  // Envelopes are kept in the base currency, like every total
+  const baseTransactions = useMemo(
+    () => convertTransactions(transactions, baseCurrency, exchangeRates),
+    [transactions, baseCurrency, exchangeRates]
+  );
+
+  const summary = useMemo(
+    () =>
+      envelopeStartDate
+        ? getEnvelopeSummary(envelopes, envelopeMovements, baseTransactions, categories, envelopeStartDate)
+        : undefined,
+    [envelopes, envelopeMovements, baseTransactions, categories, envelopeStartDate]
+  );
+
+  const unconvertedCount = envelopeStartDate
+    ? countUnconverted(baseTransactions.filter((t) => t.date >= envelopeStartDate), baseCurrency)
+    : 0;
+
+  const envelopeName = (id?: string) => (id ? envelopes.find((e) => e.id === id)?.name || 'Envelope' : 'A distribuir');
+  const visibleMovements = showAllMovements ? envelopeMovements : envelopeMovements.slice(0, VISIBLE_MOVEMENTS);
+  const expenseCategories = getCategoriesForType(categories, 'expense');
+
+  const openEnvelopeForm = (envelope?: Envelope) => {
+    setEditingEnvelope(envelope || null);
+    setName(envelope?.name || '');
+    setSelectedCategories(envelope?.categories || []);
+    setIsEnvelopeFormOpen(true);
+  };
+
+  const openMovementForm = (fromId?: string, toId?: string) => {
+    setFrom(fromId || POOL);
+    setTo(toId || (fromId ? POOL : envelopes[0]?.id || POOL));
+    setAmount('');
+    setMovementDate(toLocalDateString());
+    setNote('');
+    setIsMovementFormOpen(true);
+  };
+
+  const toggleCategory = (key: TransactionCategory, checked: boolean) =>
+    setSelectedCategories((prev) => (checked ? [...prev, key] : prev.filter((k) => k !== key)));
+
+  const handleSaveEnvelope = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!name.trim()) {
+      toast({ title: 'Nome obrigatório', description: 'Digite o nome do envelope.', variant: 'destructive' });
+      return;
+    }
+
+    if (editingEnvelope) {
+      await updateEnvelope(editingEnvelope.id, { name: name.trim(), categories: selectedCategories });
+      toast({ title: 'Envelope atualizado', description: `${name.trim()} foi salvo.` });
+    } else {
+      await addEnvelope({ name: name.trim(), categories: selectedCategories });
+      toast({ title: 'Envelope criado', description: `${name.trim()} foi adicionado.` });
+    }
+    setIsEnvelopeFormOpen(false);
+  };
+
+  const handleSaveMovement = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const parsedAmount = parseFloat(amount.replace(',', '.'));
+    if (isNaN(parsedAmount) || parsedAmount <= 0) {
+      toast({ title: 'Valor inválido', description: 'Digite um valor maior que zero.', variant: 'destructive' });
+      return;
+    }
+    if (from === to) {
+      toast({ title: 'Mesmo envelope', description: 'Escolha origem e destino diferentes.', variant: 'destructive' });
+      return;
+    }
+
+    await addEnvelopeMovement({
+      fromEnvelopeId: from === POOL ? undefined : from,
+      toEnvelopeId: to === POOL ? undefined : to,
+      amount: parsedAmount,
+      date: movementDate,
+      note: note.trim() || undefined,
+    });
+    toast({
+      title: from === POOL ? 'Dinheiro distribuído' : 'Dinheiro movido',
+      description: `${envelopeName(from === POOL ? undefined : from)} → ${envelopeName(to === POOL ? undefined : to)}`,
+    });
+    setIsMovementFormOpen(false);
+  };
+
+  const handleDeleteEnvelope = (envelope: Envelope) => {
+    deleteEnvelope(envelope.id);
+    toast({ title: 'Envelope excluído', description: 'O que estava nele voltou para "A distribuir".' });
+  };
+
+  const renderEnvelope = ({ envelope, assigned, spent, balance }: EnvelopeBalance, index: number) => (
+    <motion.div
+      key={envelope.id}
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: index * 0.05 }}
+      className={cn('glass-card rounded-xl p-4 sm:p-5 space-y-3', balance < 0 && 'border border-expense/40 bg-expense/5')}
+    >
+      <div className="flex items-start gap-3">
+        <div
+          className={cn(
+            'w-10 h-10 rounded-lg flex items-center justify-center shrink-0',
+            balance < 0 ? 'bg-expense/10' : 'bg-primary/10'
+          )}
+        >
+          <Mail className={cn('w-5 h-5', balance < 0 ? 'text-expense' : 'text-primary')} />
+        </div>
+        <div className="flex-1 min-w-0">
+          <h3 className="font-semibold text-sm sm:text-base truncate">{envelope.name}</h3>
+          <p className="text-xs text-muted-foreground truncate">
+            {envelope.categories.length > 0
+              ? envelope.categories.map((key) => getCategoryPath(categories, key)).join(', ')
+              : 'Nenhuma categoria'}
+          </p>
+        </div>
+        <div className="flex gap-1 shrink-0">
+          <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => openEnvelopeForm(envelope)}>
+            <Pencil className="w-4 h-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8 text-destructive hover:text-destructive"
+            onClick={() => handleDeleteEnvelope(envelope)}
+          >
+            <Trash2 className="w-4 h-4" />
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex items-end justify-between gap-2">
+        <div className="text-xs text-muted-foreground space-y-0.5">
+          <p>
+            Recebeu <PrivacyValue value={assigned} />
+          </p>
+          <p>
+            Gastou <PrivacyValue value={spent} />
+          </p>
+        </div>
+        <PrivacyValue
+          value={balance}
+          showSign={balance < 0}
+          className={cn('text-lg font-bold', balance < 0 ? 'text-expense' : 'text-income')}
+        />
+      </div>
+
+      <div className="flex gap-2">
+        <Button variant="outline" size="sm" className="flex-1" onClick={() => openMovementForm(undefined, envelope.id)}>
+          <Plus className="w-4 h-4 mr-1" />
+          Colocar
+        </Button>
+        <Button variant="outline" size="sm" className="flex-1" onClick={() => openMovementForm(envelope.id)}>
+          <ArrowLeftRight className="w-4 h-4 mr-1" />
+          Mover
+        </Button>
+      </div>
+    </motion.div>
+  );
+
+  const envelopeOptions = (
+    <>
+      <SelectItem value={POOL}>A distribuir</SelectItem>
+      {envelopes.map((e) => (
+        <SelectItem key={e.id} value={e.id}>
+          {e.name}
+        </SelectItem>
+      ))}
+    </>
+  );
+
+  return (
+    <div className="space-y-4 sm:space-y-6 max-w-full overflow-hidden pb-4">
+      {/* Header */}
+      <div className="flex items-center justify-between gap-2">
+        <motion.div
+          initial={{ opacity: 0, y: -20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="flex-1 min-w-0"
+        >
+          <h1 className="text-xl sm:text-2xl lg:text-3xl font-display font-bold">Envelopes</h1>
+          <p className="text-sm text-muted-foreground truncate">
+            Cada real recebido com um destino antes de ser gasto
+          </p>
+        </motion.div>
+
+        {envelopeStartDate && (
+          <Button onClick={() => openEnvelopeForm()} className="min-h-[44px] shrink-0">
+            <Plus className="w-4 h-4 sm:mr-2" />
+            <span className="hidden sm:inline">Novo Envelope</span>
+          </Button>
+        )}
+      </div>
+
+      {!envelopeStartDate || !summary ? (
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="glass-card rounded-xl p-6 sm:p-8 text-center space-y-4"
+        >
+          <Mail className="w-10 h-10 sm:w-12 sm:h-12 text-muted-foreground mx-auto" />
+          <div>
+            <h3 className="text-base sm:text-lg font-semibold mb-2">Modo envelope desativado</h3>
+            <p className="text-sm text-muted-foreground">
+              As receitas a partir da data de início ficam em "A distribuir" até você colocá-las em envelopes.
+              As despesas saem do envelope da categoria delas.
+            </p>
+          </div>
+          <div className="flex flex-col sm:flex-row gap-2 justify-center items-center">
+            <Input
+              type="date"
+              value={startDate}
+              onChange={(e) => setStartDate(e.target.value)}
+              className="h-10 sm:w-44"
+              aria-label="Data de início"
+            />
+            <Button onClick={() => updateEnvelopeMode(startDate)} disabled={!startDate}>
+              Ativar modo envelope
+            </Button>
+          </div>
+        </motion.div>
+      ) : (
+        <>
+          {/* To be assigned */}
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            className={cn(
+              'rounded-xl p-4 sm:p-5 flex items-center gap-4',
+              summary.toBeAssigned < 0
+                ? 'bg-expense/10 border border-expense/30'
+                : summary.toBeAssigned > 0
+                  ? 'bg-income/10 border border-income/30'
+                  : 'glass-card'
+            )}
+          >
+            <Inbox
+              className={cn('w-8 h-8 shrink-0', summary.toBeAssigned < 0 ? 'text-expense' : 'text-income')}
+            />
+            <div className="flex-1 min-w-0">
+              <p className="text-sm text-muted-foreground">A distribuir</p>
+              <PrivacyValue
+                value={summary.toBeAssigned}
+                showSign={summary.toBeAssigned < 0}
+                className={cn('text-2xl font-bold', summary.toBeAssigned < 0 ? 'text-expense' : 'text-income')}
+              />
+              <p className="text-xs text-muted-foreground">
+                Receitas desde {format(new Date(envelopeStartDate + 'T12:00:00'), 'dd/MM/yyyy')}:{' '}
+                <PrivacyValue value={summary.income} />
+                {summary.unenvelopedSpending > 0 && (
+                  <>
+                    {' • '}gastos sem envelope: <PrivacyValue value={summary.unenvelopedSpending} />
+                  </>
+                )}
+              </p>
+            </div>
+            <Button onClick={() => openMovementForm()} disabled={envelopes.length === 0} className="shrink-0">
+              Distribuir
+            </Button>
+          </motion.div>
+
+          {unconvertedCount > 0 && (
+            <p className="text-xs px-3 py-2 rounded-lg bg-amber-500/10 text-amber-600 dark:text-amber-400">
+              {unconvertedCount} lançamento(s) sem cotação para {baseCurrency} entraram nos envelopes sem conversão.
+            </p>
+          )}
+
+          {envelopes.length === 0 ? (
+            <div className="glass-card rounded-xl p-6 text-center">
+              <p className="text-sm text-muted-foreground">
+                Crie envelopes para as categorias em que você gasta, como Mercado, Contas ou Lazer
+              </p>
+            </div>
+          ) : (
+            <div className="grid gap-3 sm:gap-4 sm:grid-cols-2 lg:grid-cols-3">
+              {[...summary.envelopes].sort((a, b) => a.balance - b.balance).map(renderEnvelope)}
+            </div>
+          )}
+
+          {/* Movement history */}
+          {envelopeMovements.length > 0 && (
+            <div className="space-y-2">
+              <h3 className="text-sm font-semibold text-muted-foreground">Movimentações</h3>
+              <div className="space-y-1">
+                {visibleMovements.map((m) => (
+                  <div key={m.id} className="flex items-center gap-3 px-3 py-2 rounded-lg bg-muted/50 text-sm">
+                    <span className="text-muted-foreground w-12 shrink-0">
+                      {format(new Date(m.date + 'T12:00:00'), 'dd/MM')}
+                    </span>
+                    <span className="flex-1 min-w-0 truncate">
+                      {envelopeName(m.fromEnvelopeId)} <ArrowRight className="w-3 h-3 inline" /> {envelopeName(m.toEnvelopeId)}
+                      {m.note && <span className="text-muted-foreground"> • {m.note}</span>}
+                    </span>
+                    <PrivacyValue value={m.amount} className="font-medium shrink-0" />
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 text-destructive hover:text-destructive shrink-0"
+                      onClick={() => deleteEnvelopeMovement(m.id)}
+                      aria-label="Desfazer movimentação"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                ))}
+                {envelopeMovements.length > VISIBLE_MOVEMENTS && (
+                  <Button variant="ghost" size="sm" className="w-full" onClick={() => setShowAllMovements((v) => !v)}>
+                    {showAllMovements ? 'Mostrar menos' : `Mostrar todas (${envelopeMovements.length})`}
+                  </Button>
+                )}
+              </div>
+            </div>
+          )}
+
+          <Button variant="ghost" size="sm" className="text-muted-foreground" onClick={() => updateEnvelopeMode(undefined)}>
+            Desativar modo envelope
+          </Button>
+        </>
+      )}
+
+      {/* Envelope Form */}
+      <Dialog open={isEnvelopeFormOpen} onOpenChange={setIsEnvelopeFormOpen}>
+        <DialogContent className="max-w-[calc(100vw-2rem)] sm:max-w-lg max-h-[85vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingEnvelope ? 'Editar Envelope' : 'Novo Envelope'}</DialogTitle>
+          </DialogHeader>
+
+          <form onSubmit={handleSaveEnvelope} className="space-y-4">
+            <div className="space-y-2">
+              <Label>Nome</Label>
+              <Input value={name} onChange={(e) => setName(e.target.value)} placeholder="Ex: Mercado, Lazer" autoFocus />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Categorias</Label>
+              <p className="text-xs text-muted-foreground -mt-1">
+                Despesas nessas categorias (e nas subcategorias delas) saem deste envelope.
+              </p>
+              <div className="space-y-1 max-h-60 overflow-y-auto">
+                {expenseCategories.map((c) => {
+                  const owner = envelopes.find((e) => e.id !== editingEnvelope?.id && e.categories.includes(c.key));
+                  return (
+                    <label
+                      key={c.key}
+                      className={cn(
+                        'flex items-center gap-3 px-3 py-2 rounded-lg bg-muted/50 text-sm',
+                        owner ? 'opacity-50' : 'cursor-pointer'
+                      )}
+                    >
+                      <Checkbox
+                        checked={selectedCategories.includes(c.key)}
+                        onCheckedChange={(checked) => toggleCategory(c.key, checked as boolean)}
+                        disabled={!!owner}
+                      />
+                      <span className="flex-1 min-w-0 truncate">{getCategoryPath(categories, c.key)}</span>
+                      {owner && <span className="text-xs text-muted-foreground shrink-0">{owner.name}</span>}
+                    </label>
+                  );
+                })}
+              </div>
+            </div>
+
+            <Button type="submit" className="w-full">
+              {editingEnvelope ? 'Salvar Alterações' : 'Criar Envelope'}
+            </Button>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Movement Form */}
+      <Dialog open={isMovementFormOpen} onOpenChange={setIsMovementFormOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{from === POOL ? 'Distribuir dinheiro' : 'Mover dinheiro'}</DialogTitle>
+          </DialogHeader>
+
+          <form onSubmit={handleSaveMovement} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>De</Label>
+                <Select value={from} onValueChange={setFrom}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="z-[70]">{envelopeOptions}</SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Para</Label>
+                <Select value={to} onValueChange={setTo}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="z-[70]">{envelopeOptions}</SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Valor</Label>
+                <div className="relative">
+                  <span className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground text-sm">
+                    {getCurrencySymbol(baseCurrency)}
+                  </span>
+                  <Input
+                    type="text"
+                    inputMode="decimal"
+                    value={amount}
+                    onChange={(e) => setAmount(e.target.value)}
+                    placeholder="0,00"
+                    className={getCurrencySymbol(baseCurrency).length > 2 ? 'pl-12' : 'pl-9'}
+                    autoFocus
+                  />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label>Data</Label>
+                <Input type="date" value={movementDate} onChange={(e) => setMovementDate(e.target.value)} />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Observação (opcional)</Label>
+              <Input value={note} onChange={(e) => setNote(e.target.value)} />
+            </div>
+
+            <Button type="submit" className="w-full">
+              Confirmar
+            </Button>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,263 @@
+import { useMemo } from 'react';
+import { motion } from 'framer-motion';
+import { format } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import {
+  AreaChart,
+  Area,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  ReferenceLine,
+  ReferenceDot,
+} from 'recharts';
+import {
+  LineChart as LineChartIcon,
+  AlertTriangle,
+  TrendingDown,
+  Wallet,
+  CalendarClock,
+  Receipt,
+  Repeat,
+  Bell,
+  HandCoins,
+  TrendingUp,
+  CreditCard,
+} from 'lucide-react';
+import { useTransactions } from '@/contexts/TransactionContext';
+import { FORECAST_DAYS, ForecastSource, getCashForecast } from '@/lib/forecast';
+import { formatMoney } from '@/lib/currency';
+import { PrivacyValue } from '@/components/ui/PrivacyValue';
+import { cn } from '@/lib/utils';
+
+const sourceIcons: Record<ForecastSource, React.ElementType> = {
+  transaction: Receipt,
+  recurring: Repeat,
+  reminder: Bell,
+  loan: HandCoins,
+  investment: TrendingUp,
+  invoice: CreditCard,
+};
+
+const sourceLabels: Record<ForecastSource, string> = {
+  transaction: 'Lançamento futuro',
+  recurring: 'Recorrente',
+  reminder: 'Lembrete',
+  loan: 'Empréstimo',
+  investment: 'Investimento planejado',
+  invoice: 'Fatura',
+};
+
+const formatDay = (date: string, pattern: string) => format(new Date(date + 'T12:00:00'), pattern, { locale: ptBR });
+
+export default function Forecast() {
+  const { accounts, transactions, recurringRules, reminders, investments, baseCurrency, exchangeRates } = useTransactions();
+
+  const forecast = useMemo(
+    () => getCashForecast({ accounts, transactions, recurringRules, reminders, investments, baseCurrency, exchangeRates }),
+    [accounts, transactions, recurringRules, reminders, investments, baseCurrency, exchangeRates]
+  );
+
+  const { startBalance, days, lowest, firstNegative } = forecast;
+  const endBalance = days[days.length - 1].balance;
+  const eventDays = days.filter((d) => d.events.length > 0);
+  const chartData = days.map((d) => ({ name: formatDay(d.date, 'dd/MM'), Saldo: d.balance }));
+
+  return (
+    <div className="space-y-4 sm:space-y-6 max-w-full overflow-hidden pb-4">
+      {/* Header */}
+      <motion.div initial={{ opacity: 0, y: -20 }} animate={{ opacity: 1, y: 0 }}>
+        <h1 className="text-xl sm:text-2xl lg:text-3xl font-display font-bold">Previsão</h1>
+        <p className="text-sm text-muted-foreground truncate">
+          Saldo em conta projetado para os próximos {FORECAST_DAYS} dias
+        </p>
+      </motion.div>
+
+      {firstNegative && (
+        <div className="flex items-start gap-2 text-sm px-3 py-2 rounded-lg bg-expense/10 text-expense">
+          <AlertTriangle className="w-4 h-4 shrink-0 mt-0.5" />
+          <span>
+            O saldo fica negativo em {formatDay(firstNegative.date, "dd 'de' MMMM")}
+            {firstNegative.events.length > 0 && ` (${firstNegative.events.map((e) => e.description).join(', ')})`}.
+          </span>
+        </div>
+      )}
+
+      {/* Summary Cards */}
+      <div className="grid grid-cols-3 gap-2 sm:gap-3">
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="glass-card rounded-xl p-3 sm:p-4"
+        >
+          <div className="flex items-center gap-1.5 text-muted-foreground mb-1">
+            <Wallet className="w-3.5 h-3.5" />
+            <span className="text-xs">Hoje</span>
+          </div>
+          <PrivacyValue value={startBalance} showSign={startBalance < 0} className="text-sm sm:text-lg font-bold block truncate" />
+        </motion.div>
+
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.05 }}
+          className={cn('glass-card rounded-xl p-3 sm:p-4', lowest.balance < 0 && 'border border-expense/40')}
+        >
+          <div className="flex items-center gap-1.5 text-muted-foreground mb-1">
+            <TrendingDown className="w-3.5 h-3.5" />
+            <span className="text-xs">Menor saldo</span>
+          </div>
+          <PrivacyValue
+            value={lowest.balance}
+            showSign={lowest.balance < 0}
+            className={cn('text-sm sm:text-lg font-bold block truncate', lowest.balance < 0 && 'text-expense')}
+          />
+          <span className="text-[11px] text-muted-foreground">{formatDay(lowest.date, 'dd/MM')}</span>
+        </motion.div>
+
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.1 }}
+          className="glass-card rounded-xl p-3 sm:p-4"
+        >
+          <div className="flex items-center gap-1.5 text-muted-foreground mb-1">
+            <CalendarClock className="w-3.5 h-3.5" />
+            <span className="text-xs">Em {FORECAST_DAYS} dias</span>
+          </div>
+          <PrivacyValue
+            value={endBalance}
+            showSign={endBalance < 0}
+            className={cn('text-sm sm:text-lg font-bold block truncate', endBalance < 0 && 'text-expense')}
+          />
+        </motion.div>
+      </div>
+
+      {/* Projected balance */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.1 }}
+        className="glass-card rounded-xl p-4 sm:p-6"
+      >
+        <h3 className="font-semibold text-sm sm:text-lg mb-3 sm:mb-4">Saldo projetado</h3>
+        <div className="h-56 sm:h-72">
+          <ResponsiveContainer width="100%" height="100%">
+            <AreaChart data={chartData}>
+              <defs>
+                <linearGradient id="forecastFill" x1="0" y1="0" x2="0" y2="1">
+                  <stop offset="5%" stopColor="hsl(200 84% 50%)" stopOpacity={0.3} />
+                  <stop offset="95%" stopColor="hsl(200 84% 50%)" stopOpacity={0} />
+                </linearGradient>
+              </defs>
+              <CartesianGrid strokeDasharray="3 3" stroke="hsl(217 33% 22%)" vertical={false} />
+              <XAxis
+                dataKey="name"
+                axisLine={false}
+                tickLine={false}
+                tick={{ fill: 'hsl(215 20% 65%)', fontSize: 11 }}
+                minTickGap={24}
+              />
+              <YAxis
+                axisLine={false}
+                tickLine={false}
+                tick={{ fill: 'hsl(215 20% 65%)', fontSize: 11 }}
+                tickFormatter={(value) => `${value / 1000}k`}
+                width={40}
+              />
+              <Tooltip
+                formatter={(value: number) => formatMoney(value, baseCurrency)}
+                contentStyle={{
+                  backgroundColor: 'hsl(var(--card))',
+                  border: '1px solid hsl(var(--border))',
+                  borderRadius: '8px',
+                  color: 'hsl(var(--card-foreground))',
+                }}
+                itemStyle={{ color: 'hsl(var(--card-foreground))' }}
+                labelStyle={{ color: 'hsl(var(--card-foreground))' }}
+              />
+              <ReferenceLine y={0} stroke="hsl(0 84% 60%)" strokeDasharray="4 4" />
+              <Area
+                type="stepAfter"
+                dataKey="Saldo"
+                stroke="hsl(200 84% 50%)"
+                strokeWidth={2}
+                fill="url(#forecastFill)"
+              />
+              <ReferenceDot
+                x={formatDay(lowest.date, 'dd/MM')}
+                y={lowest.balance}
+                r={5}
+                fill={lowest.balance < 0 ? 'hsl(0 84% 60%)' : 'hsl(38 92% 50%)'}
+                stroke="hsl(var(--card))"
+                strokeWidth={2}
+              />
+            </AreaChart>
+          </ResponsiveContainer>
+        </div>
+      </motion.div>
+
+      {/* Events */}
+      {eventDays.length === 0 ? (
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="glass-card rounded-xl p-6 sm:p-8 text-center"
+        >
+          <LineChartIcon className="w-10 h-10 sm:w-12 sm:h-12 text-muted-foreground mx-auto mb-3 sm:mb-4" />
+          <h3 className="text-base sm:text-lg font-semibold mb-2">Nada previsto</h3>
+          <p className="text-sm text-muted-foreground">
+            Lembretes, recorrências, faturas, empréstimos com data prevista e investimentos planejados aparecem aqui
+          </p>
+        </motion.div>
+      ) : (
+        <div className="space-y-3">
+          <h3 className="text-sm font-semibold text-muted-foreground">O que move o saldo</h3>
+          {eventDays.map((day) => (
+            <div
+              key={day.date}
+              className={cn(
+                'glass-card rounded-xl p-3 sm:p-4 space-y-2',
+                day.date === lowest.date && 'border border-amber-500/40',
+                day.balance < 0 && 'border border-expense/40'
+              )}
+            >
+              <div className="flex items-center justify-between text-xs text-muted-foreground">
+                <span className="font-medium capitalize">{formatDay(day.date, "EEE, dd 'de' MMM")}</span>
+                <span>
+                  Saldo:{' '}
+                  <PrivacyValue
+                    value={day.balance}
+                    showSign={day.balance < 0}
+                    className={cn('font-semibold', day.balance < 0 ? 'text-expense' : 'text-foreground')}
+                  />
+                </span>
+              </div>
+              {day.events.map((event, index) => {
+                const Icon = sourceIcons[event.source];
+                return (
+                  <div key={index} className="flex items-center gap-3">
+                    <div className="w-8 h-8 rounded-lg bg-muted/50 flex items-center justify-center shrink-0">
+                      <Icon className="w-4 h-4 text-muted-foreground" />
+                    </div>
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm truncate">{event.description}</p>
+                      <p className="text-xs text-muted-foreground">{sourceLabels[event.source]}</p>
+                    </div>
+                    <PrivacyValue
+                      value={event.amount}
+                      showSign
+                      className={cn('text-sm font-semibold shrink-0', event.amount >= 0 ? 'text-income' : 'text-expense')}
+                    />
+                  </div>
+                );
+              })}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,407 @@
+import { useState, useMemo } from 'react';
+import { motion } from 'framer-motion';
+import { format } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { Target, Plus, Pencil, Trash2, Calendar, TrendingUp, CheckCircle2 } from 'lucide-react';
+import { useTransactions } from '@/contexts/TransactionContext';
+import { useToast } from '@/hooks/use-toast';
+import { Goal } from '@/types/goal';
+import { GoalProgress, getGoalProgress } from '@/lib/goals';
+import { categoryIconOptions, getCategoryIcon } from '@/lib/categoryIcons';
+import { convertTransactions, getCurrencySymbol } from '@/lib/currency';
+import { cn, toLocalDateString } from '@/lib/utils';
+import AccountSelect from '@/components/AccountSelect';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { PrivacyValue } from '@/components/ui/PrivacyValue';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+
+const formatMonth = (date: string) => format(new Date(date + 'T12:00:00'), 'MMM/yyyy', { locale: ptBR });
+
+export default function Goals() {
+  const {
+    goals,
+    investments,
+    investmentMovements,
+    transactions,
+    accounts,
+    baseCurrency,
+    exchangeRates,
+    addGoal,
+    updateGoal,
+    deleteGoal,
+    addTransaction,
+  } = useTransactions();
+  const { toast } = useToast();
+
+  // Goal form
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editingGoal, setEditingGoal] = useState<Goal | null>(null);
+  const [name, setName] = useState('');
+  const [targetAmount, setTargetAmount] = useState('');
+  const [deadline, setDeadline] = useState('');
+  const [icon, setIcon] = useState('PiggyBank');
+
+  // Contribution form
+  const [contributingGoal, setContributingGoal] = useState<Goal | null>(null);
+  const [amount, setAmount] = useState('');
+  const [date, setDate] = useState(toLocalDateString());
+  const [accountId, setAccountId] = useState<string | undefined>();
+
+  const symbol = getCurrencySymbol(baseCurrency);
+
+  // Targets are in the base currency
+  const baseTransactions = useMemo(
+    () => convertTransactions(transactions, baseCurrency, exchangeRates),
+    [transactions, baseCurrency, exchangeRates]
+  );
+
+  const progressList = useMemo(
+    () => goals.map((goal) => getGoalProgress(goal, investments, investmentMovements, baseTransactions)),
+    [goals, investments, investmentMovements, baseTransactions]
+  );
+  const activeGoals = progressList.filter((p) => !p.isComplete);
+  const completedGoals = progressList.filter((p) => p.isComplete);
+
+  const openForm = (goal?: Goal) => {
+    setEditingGoal(goal || null);
+    setName(goal?.name || '');
+    setTargetAmount(goal ? goal.targetAmount.toString().replace('.', ',') : '');
+    setDeadline(goal?.deadline || '');
+    setIcon(goal?.icon || 'PiggyBank');
+    setIsFormOpen(true);
+  };
+
+  const openContribution = (goal: Goal) => {
+    setContributingGoal(goal);
+    setAmount('');
+    setDate(toLocalDateString());
+    setAccountId(accounts.find((a) => !a.isArchived && a.currency === baseCurrency)?.id);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!name.trim()) {
+      toast({ title: 'Nome obrigatório', description: 'Digite o nome da meta.', variant: 'destructive' });
+      return;
+    }
+    const parsedTarget = parseFloat(targetAmount.replace(',', '.'));
+    if (isNaN(parsedTarget) || parsedTarget <= 0) {
+      toast({ title: 'Valor inválido', description: 'Digite um valor maior que zero.', variant: 'destructive' });
+      return;
+    }
+
+    const data = { name: name.trim(), targetAmount: parsedTarget, deadline: deadline || undefined, icon };
+    if (editingGoal) {
+      await updateGoal(editingGoal.id, data);
+      toast({ title: 'Meta atualizada', description: `${data.name} foi salva.` });
+    } else {
+      await addGoal(data);
+      toast({ title: 'Meta criada', description: `${data.name} foi adicionada.` });
+    }
+    setIsFormOpen(false);
+  };
+
+  /** A contribution is an expense linked to the goal, so it leaves the account like any other. */
+  const handleContribute = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!contributingGoal) return;
+
+    const parsedAmount = parseFloat(amount.replace(',', '.'));
+    if (isNaN(parsedAmount) || parsedAmount <= 0) {
+      toast({ title: 'Valor inválido', description: 'Digite um valor maior que zero.', variant: 'destructive' });
+      return;
+    }
+
+    await addTransaction({
+      type: 'expense',
+      category: 'investment',
+      amount: parsedAmount,
+      description: `Aporte: ${contributingGoal.name}`,
+      date,
+      currency: baseCurrency,
+      accountId,
+      goalId: contributingGoal.id,
+    });
+    toast({ title: 'Aporte registrado', description: contributingGoal.name });
+    setContributingGoal(null);
+  };
+
+  const handleDelete = (goal: Goal) => {
+    deleteGoal(goal.id);
+    toast({ title: 'Meta excluída', description: 'Investimentos e aportes foram mantidos, sem meta vinculada.' });
+  };
+
+  const renderGoal = (progress: GoalProgress, index: number) => {
+    const { goal, saved, planned, remaining, ratio, isComplete, isOverdue, monthlyNeeded, projectedDate } = progress;
+    const Icon = getCategoryIcon(goal.icon);
+    const linkedInvestments = investments.filter((i) => i.goalId === goal.id).length;
+    const linkedEntries = transactions.filter((t) => t.goalId === goal.id).length;
+    const lateProjection = !!goal.deadline && !!projectedDate && projectedDate > goal.deadline;
+
+    return (
+      <motion.div
+        key={goal.id}
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: index * 0.05 }}
+        className="glass-card rounded-xl p-4 sm:p-5 space-y-3"
+      >
+        <div className="flex items-start gap-3">
+          <div className="w-10 h-10 rounded-lg bg-primary/10 flex items-center justify-center shrink-0">
+            <Icon className="w-5 h-5 text-primary" />
+          </div>
+          <div className="flex-1 min-w-0">
+            <h3 className="font-semibold text-sm sm:text-base truncate">{goal.name}</h3>
+            <p className="text-xs text-muted-foreground truncate">
+              {linkedInvestments} investimento(s) • {linkedEntries} aporte(s)
+              {goal.deadline && ` • até ${format(new Date(goal.deadline + 'T12:00:00'), 'dd/MM/yyyy')}`}
+            </p>
+          </div>
+          <div className="flex gap-1 shrink-0">
+            <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => openForm(goal)}>
+              <Pencil className="w-4 h-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8 text-destructive hover:text-destructive"
+              onClick={() => handleDelete(goal)}
+            >
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          </div>
+        </div>
+
+        <div className="space-y-1">
+          <div className="flex justify-between text-xs text-muted-foreground">
+            <span>
+              <PrivacyValue value={saved} className="font-semibold text-foreground" /> de{' '}
+              <PrivacyValue value={goal.targetAmount} />
+            </span>
+            <span>{Math.round(ratio * 100)}%</span>
+          </div>
+          <Progress value={Math.min(ratio, 1) * 100} className={cn('h-2', isComplete && '[&>div]:bg-income')} />
+          {planned > 0 && (
+            <p className="text-xs text-muted-foreground">
+              + <PrivacyValue value={planned} /> em investimentos planejados
+            </p>
+          )}
+        </div>
+
+        {isComplete ? (
+          <p className="text-xs text-income flex items-center gap-1">
+            <CheckCircle2 className="w-3 h-3" />
+            Meta alcançada
+          </p>
+        ) : (
+          <div className="space-y-1 text-xs text-muted-foreground">
+            <p>
+              Faltam <PrivacyValue value={remaining} className="font-medium text-foreground" />
+              {monthlyNeeded !== undefined && (
+                <>
+                  {' • '}
+                  <PrivacyValue value={monthlyNeeded} className={cn('font-medium', isOverdue ? 'text-expense' : 'text-foreground')} />
+                  {isOverdue ? ' (prazo vencido)' : '/mês até o prazo'}
+                </>
+              )}
+            </p>
+            <p className={cn('flex items-center gap-1', lateProjection && 'text-amber-600 dark:text-amber-400')}>
+              <Calendar className="w-3 h-3" />
+              {projectedDate
+                ? `No ritmo atual, termina em ${formatMonth(projectedDate)}`
+                : 'Sem aportes para estimar o término'}
+            </p>
+          </div>
+        )}
+
+        {!isComplete && (
+          <Button variant="outline" size="sm" className="w-full" onClick={() => openContribution(goal)}>
+            <TrendingUp className="w-4 h-4 mr-1" />
+            Registrar aporte
+          </Button>
+        )}
+      </motion.div>
+    );
+  };
+
+  return (
+    <div className="space-y-4 sm:space-y-6 max-w-full overflow-hidden pb-4">
+      {/* Header */}
+      <div className="flex items-center justify-between gap-2">
+        <motion.div
+          initial={{ opacity: 0, y: -20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="flex-1 min-w-0"
+        >
+          <h1 className="text-xl sm:text-2xl lg:text-3xl font-display font-bold">Metas</h1>
+          <p className="text-sm text-muted-foreground truncate">
+            Objetivos de economia e quanto falta para cada um
+          </p>
+        </motion.div>
+
+        <Button onClick={() => openForm()} className="min-h-[44px] shrink-0">
+          <Plus className="w-4 h-4 sm:mr-2" />
+          <span className="hidden sm:inline">Nova Meta</span>
+        </Button>
+      </div>
+
+      {goals.length === 0 ? (
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="glass-card rounded-xl p-6 sm:p-8 text-center"
+        >
+          <Target className="w-10 h-10 sm:w-12 sm:h-12 text-muted-foreground mx-auto mb-3 sm:mb-4" />
+          <h3 className="text-base sm:text-lg font-semibold mb-2">Nenhuma meta</h3>
+          <p className="text-sm text-muted-foreground">
+            Crie uma meta e vincule investimentos a ela ou registre aportes
+          </p>
+        </motion.div>
+      ) : (
+        <>
+          {activeGoals.length > 0 && (
+            <div className="grid gap-3 sm:gap-4 sm:grid-cols-2 lg:grid-cols-3">
+              {activeGoals.map(renderGoal)}
+            </div>
+          )}
+
+          {completedGoals.length > 0 && (
+            <div className="space-y-3">
+              <h3 className="text-sm font-semibold text-muted-foreground">Alcançadas</h3>
+              <div className="grid gap-3 sm:gap-4 sm:grid-cols-2 lg:grid-cols-3 opacity-70">
+                {completedGoals.map(renderGoal)}
+              </div>
+            </div>
+          )}
+        </>
+      )}
+
+      {/* Goal Form */}
+      <Dialog open={isFormOpen} onOpenChange={setIsFormOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingGoal ? 'Editar Meta' : 'Nova Meta'}</DialogTitle>
+          </DialogHeader>
+
+          <form onSubmit={handleSave} className="space-y-4">
+            <div className="space-y-2">
+              <Label>Nome</Label>
+              <Input
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Ex: Reserva de emergência, Viagem"
+                autoFocus
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Valor da meta</Label>
+                <div className="relative">
+                  <span className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground text-sm">
+                    {symbol}
+                  </span>
+                  <Input
+                    type="text"
+                    inputMode="decimal"
+                    value={targetAmount}
+                    onChange={(e) => setTargetAmount(e.target.value)}
+                    placeholder="0,00"
+                    className={symbol.length > 2 ? 'pl-12' : 'pl-9'}
+                  />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label>Prazo (opcional)</Label>
+                <Input type="date" value={deadline} onChange={(e) => setDeadline(e.target.value)} />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Ícone</Label>
+              <div className="grid grid-cols-7 gap-2">
+                {Object.entries(categoryIconOptions).map(([key, OptionIcon]) => (
+                  <button
+                    key={key}
+                    type="button"
+                    onClick={() => setIcon(key)}
+                    className={cn(
+                      'h-10 rounded-lg flex items-center justify-center transition-colors',
+                      icon === key ? 'bg-primary/15 text-primary ring-1 ring-primary/40' : 'bg-muted/50 text-muted-foreground'
+                    )}
+                    aria-label={key}
+                  >
+                    <OptionIcon className="w-4 h-4" />
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <Button type="submit" className="w-full">
+              {editingGoal ? 'Salvar Alterações' : 'Criar Meta'}
+            </Button>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Contribution Form */}
+      <Dialog open={!!contributingGoal} onOpenChange={(open) => !open && setContributingGoal(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Aporte em {contributingGoal?.name}</DialogTitle>
+          </DialogHeader>
+
+          <form onSubmit={handleContribute} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Valor</Label>
+                <div className="relative">
+                  <span className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground text-sm">
+                    {symbol}
+                  </span>
+                  <Input
+                    type="text"
+                    inputMode="decimal"
+                    value={amount}
+                    onChange={(e) => setAmount(e.target.value)}
+                    placeholder="0,00"
+                    className={symbol.length > 2 ? 'pl-12' : 'pl-9'}
+                    autoFocus
+                  />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label>Data</Label>
+                <Input type="date" value={date} onChange={(e) => setDate(e.target.value)} />
+              </div>
+            </div>
+
+            {accounts.some((a) => a.currency === baseCurrency) && (
+              <div className="space-y-2">
+                <Label>Conta</Label>
+                <AccountSelect value={accountId} onChange={setAccountId} className="h-10" />
+              </div>
+            )}
+
+            <p className="text-xs text-muted-foreground">
+              O aporte entra como despesa de investimento vinculada à meta.
+            </p>
+
+            <Button type="submit" className="w-full">
+              Registrar Aporte
+            </Button>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,328 @@
+import { useState, useMemo } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import { format } from 'date-fns';
+import { Layers, Plus, Pencil, XCircle, Calendar } from 'lucide-react';
+import { useTransactions } from '@/contexts/TransactionContext';
+import { useToast } from '@/hooks/use-toast';
+import { InstallmentPlan } from '@/types/installment';
+import { TransactionCategory } from '@/types/transaction';
+import { getPlanProgress } from '@/lib/installments';
+import { getCategory, getCategoryPath, getCategoriesForType } from '@/lib/categories';
+import FutureCommitmentsChart from '@/components/dashboard/FutureCommitmentsChart';
+import AccountSelect from '@/components/AccountSelect';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { PrivacyValue } from '@/components/ui/PrivacyValue';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+
+export default function Installments() {
+  const { installmentPlans, transactions, accounts, categories, updateInstallmentPlan, deleteInstallmentPlan } = useTransactions();
+  const { toast } = useToast();
+  const navigate = useNavigate();
+
+  const [editingPlan, setEditingPlan] = useState<InstallmentPlan | null>(null);
+  const [cancellingPlan, setCancellingPlan] = useState<InstallmentPlan | null>(null);
+
+  // Edit form state
+  const [description, setDescription] = useState('');
+  const [totalAmount, setTotalAmount] = useState('');
+  const [installmentCount, setInstallmentCount] = useState('');
+  const [firstDate, setFirstDate] = useState('');
+  const [category, setCategory] = useState<TransactionCategory>('shopping');
+  const [accountId, setAccountId] = useState<string | undefined>();
+
+  const plans = useMemo(
+    () => installmentPlans.map((plan) => ({ plan, progress: getPlanProgress(plan, transactions) })),
+    [installmentPlans, transactions]
+  );
+  const activePlans = plans.filter(({ progress }) => progress.nextEntry);
+  const finishedPlans = plans.filter(({ progress }) => !progress.nextEntry);
+
+  const openEdit = (plan: InstallmentPlan) => {
+    setEditingPlan(plan);
+    setDescription(plan.description);
+    setTotalAmount(plan.totalAmount.toString().replace('.', ','));
+    setInstallmentCount(plan.installmentCount.toString());
+    setFirstDate(plan.firstDate);
+    setCategory(plan.category);
+    setAccountId(plan.accountId);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editingPlan) return;
+
+    const parsedTotal = parseFloat(totalAmount.replace(',', '.'));
+    if (isNaN(parsedTotal) || parsedTotal <= 0) {
+      toast({
+        title: 'Valor inválido',
+        description: 'Digite um valor maior que zero.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    const parsedCount = parseInt(installmentCount);
+    if (isNaN(parsedCount) || parsedCount < 2 || parsedCount > 120) {
+      toast({
+        title: 'Parcelas inválidas',
+        description: 'Informe entre 2 e 120 parcelas.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    await updateInstallmentPlan(editingPlan.id, {
+      description: description.trim() || getCategory(categories, category).name,
+      totalAmount: parsedTotal,
+      installmentCount: parsedCount,
+      firstDate,
+      category,
+      accountId,
+    });
+    toast({ title: 'Parcelamento atualizado', description: 'Todas as parcelas foram recalculadas.' });
+    setEditingPlan(null);
+  };
+
+  const handleCancel = async (keepPast: boolean) => {
+    if (!cancellingPlan) return;
+    await deleteInstallmentPlan(cancellingPlan.id, { keepPast });
+    toast({
+      title: keepPast ? 'Parcelas futuras canceladas' : 'Parcelamento excluído',
+      description: keepPast
+        ? 'As parcelas já vencidas foram mantidas.'
+        : 'Todas as parcelas foram removidas.',
+    });
+    setCancellingPlan(null);
+  };
+
+  const renderPlan = ({ plan, progress }: (typeof plans)[number], index: number) => {
+    const account = accounts.find((a) => a.id === plan.accountId);
+    const installmentValue = plan.totalAmount / plan.installmentCount;
+    return (
+      <motion.div
+        key={plan.id}
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: index * 0.05 }}
+        className="glass-card rounded-xl p-4 sm:p-5 space-y-3"
+      >
+        <div className="flex items-start gap-3">
+          <div className="w-10 h-10 rounded-lg bg-expense/10 flex items-center justify-center shrink-0">
+            <Layers className="w-5 h-5 text-expense" />
+          </div>
+          <div className="flex-1 min-w-0">
+            <h3 className="font-semibold text-sm sm:text-base truncate">{plan.description}</h3>
+            <p className="text-xs text-muted-foreground truncate">
+              {plan.installmentCount}x de <PrivacyValue value={installmentValue} />
+              {' • '}
+              {getCategoryPath(categories, plan.category)}
+              {account && ` • ${account.name}`}
+            </p>
+          </div>
+          <div className="flex gap-1 shrink-0">
+            <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => openEdit(plan)}>
+              <Pencil className="w-4 h-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8 text-destructive hover:text-destructive"
+              onClick={() => setCancellingPlan(plan)}
+            >
+              <XCircle className="w-4 h-4" />
+            </Button>
+          </div>
+        </div>
+
+        <div className="space-y-1">
+          <div className="flex justify-between text-xs text-muted-foreground">
+            <span>
+              {progress.paidCount}/{progress.entries.length} parcelas
+            </span>
+            <span>
+              Restante: <PrivacyValue value={progress.remainingAmount} className="font-semibold text-foreground" />
+            </span>
+          </div>
+          <Progress value={progress.entries.length ? (progress.paidCount / progress.entries.length) * 100 : 0} className="h-2" />
+        </div>
+
+        {progress.nextEntry && (
+          <p className="text-xs text-muted-foreground">
+            <Calendar className="w-3 h-3 inline mr-1" />
+            Próxima: {format(new Date(progress.nextEntry.date + 'T12:00:00'), 'dd/MM/yyyy')} •{' '}
+            <PrivacyValue value={progress.nextEntry.amount} />
+          </p>
+        )}
+      </motion.div>
+    );
+  };
+
+  return (
+    <div className="space-y-4 sm:space-y-6 max-w-full overflow-hidden pb-4">
+      {/* Header */}
+      <div className="flex items-center justify-between gap-2">
+        <motion.div
+          initial={{ opacity: 0, y: -20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="flex-1 min-w-0"
+        >
+          <h1 className="text-xl sm:text-2xl lg:text-3xl font-display font-bold">Parcelamentos</h1>
+          <p className="text-sm text-muted-foreground truncate">
+            Compras parceladas e compromissos futuros
+          </p>
+        </motion.div>
+
+        <Button onClick={() => navigate('/transacoes/nova')} className="min-h-[44px] shrink-0">
+          <Plus className="w-4 h-4 sm:mr-2" />
+          <span className="hidden sm:inline">Nova Compra</span>
+        </Button>
+      </div>
+
+      <FutureCommitmentsChart transactions={transactions} />
+
+      {plans.length === 0 ? (
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="glass-card rounded-xl p-6 sm:p-8 text-center"
+        >
+          <Layers className="w-10 h-10 sm:w-12 sm:h-12 text-muted-foreground mx-auto mb-3 sm:mb-4" />
+          <h3 className="text-base sm:text-lg font-semibold mb-2">Nenhuma compra parcelada</h3>
+          <p className="text-sm text-muted-foreground">
+            Marque "Compra parcelada" ao adicionar uma despesa
+          </p>
+        </motion.div>
+      ) : (
+        <>
+          {activePlans.length > 0 && (
+            <div className="grid gap-3 sm:gap-4 sm:grid-cols-2 lg:grid-cols-3">
+              {activePlans.map(renderPlan)}
+            </div>
+          )}
+
+          {finishedPlans.length > 0 && (
+            <div className="space-y-3">
+              <h3 className="text-sm font-semibold text-muted-foreground">Quitados</h3>
+              <div className="grid gap-3 sm:gap-4 sm:grid-cols-2 lg:grid-cols-3 opacity-70">
+                {finishedPlans.map(renderPlan)}
+              </div>
+            </div>
+          )}
+        </>
+      )}
+
+      {/* Edit Modal */}
+      <Dialog open={!!editingPlan} onOpenChange={(open) => !open && setEditingPlan(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Editar Parcelamento</DialogTitle>
+          </DialogHeader>
+
+          <form onSubmit={handleSave} className="space-y-4">
+            <div className="space-y-2">
+              <Label>Descrição</Label>
+              <Input value={description} onChange={(e) => setDescription(e.target.value)} />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Valor total</Label>
+                <div className="relative">
+                  <span className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground text-sm">
+                    R$
+                  </span>
+                  <Input
+                    type="text"
+                    inputMode="decimal"
+                    value={totalAmount}
+                    onChange={(e) => setTotalAmount(e.target.value)}
+                    className="pl-9"
+                  />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label>Parcelas</Label>
+                <Input
+                  type="number"
+                  min="2"
+                  max="120"
+                  value={installmentCount}
+                  onChange={(e) => setInstallmentCount(e.target.value)}
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Primeira parcela</Label>
+                <Input type="date" value={firstDate} onChange={(e) => setFirstDate(e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label>Categoria</Label>
+                <Select value={category} onValueChange={(v) => setCategory(v as TransactionCategory)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="z-[70]">
+                    {getCategoriesForType(categories, 'expense').map((c) => (
+                      <SelectItem key={c.key} value={c.key}>
+                        {getCategoryPath(categories, c.key)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {accounts.length > 0 && (
+              <div className="space-y-2">
+                <Label>Conta</Label>
+                <AccountSelect value={accountId} onChange={setAccountId} className="h-10" />
+              </div>
+            )}
+
+            <Button type="submit" className="w-full">
+              Salvar Alterações
+            </Button>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Cancel Modal */}
+      <Dialog open={!!cancellingPlan} onOpenChange={(open) => !open && setCancellingPlan(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Cancelar parcelamento</DialogTitle>
+          </DialogHeader>
+          <p className="text-sm text-muted-foreground">
+            {cancellingPlan?.description}: escolha se as parcelas já vencidas devem continuar registradas.
+          </p>
+          <div className="space-y-2">
+            <Button variant="outline" className="w-full" onClick={() => handleCancel(true)}>
+              Cancelar só as parcelas futuras
+            </Button>
+            <Button variant="destructive" className="w-full" onClick={() => handleCancel(false)}>
+              Excluir todas as parcelas
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
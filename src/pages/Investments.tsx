@@ -15,7 +15,12 @@ import {
   Coins,
   Calendar,
   Trash2,
+  Target,
+  Percent,
+  FileText,
+  FileUp,
 } from 'lucide-react';
+import { Link } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { useTransactions } from '@/contexts/TransactionContext';
@@ -26,17 +31,27 @@ import {
   investmentTypeLabels,
   investmentTypeColors,
   TesouroDiretoDetails,
-  AcoesDetails,
   CriptoDetails,
   RendaFixaDetails,
   PoupancaDetails,
 } from '@/types/investment';
+import { formatPercent, getCurrentValue, getInvestmentReturn, getPortfolioReturn, getPosition } from '@/lib/investments';
+import { getPortfolioNetValue } from '@/lib/investmentTax';
+import { getTrailingIncome, getYieldOnCost } from '@/lib/investmentIncome';
+import { getMaturity } from '@/lib/maturities';
 import { cn } from '@/lib/utils';
 import { format, parseISO, isThisMonth } from 'date-fns';
 import { ptBR } from 'date-fns/locale';
 import NewInvestmentModal from '@/components/modals/NewInvestmentModal';
+import IndexRatesModal from '@/components/modals/IndexRatesModal';
 import InvestmentDetailsModal from '@/components/dashboard/InvestmentDetailsModal';
 import InvestmentDistributionChart from '@/components/dashboard/InvestmentDistributionChart';
+import InvestmentIncomeChart from '@/components/dashboard/InvestmentIncomeChart';
+import AllocationCard from '@/components/dashboard/AllocationCard';
+import PerformanceCard from '@/components/dashboard/PerformanceCard';
+import MaturityTimeline from '@/components/dashboard/MaturityTimeline';
+import AllocationTargetsModal from '@/components/modals/AllocationTargetsModal';
+import BrokerageNoteImportModal from '@/components/modals/BrokerageNoteImportModal';
 import {
   AlertDialog,
   AlertDialogAction,
@@ -62,9 +77,20 @@ type StatusFilter = 'all' | 'pending' | 'invested';
 type TypeFilter = InvestmentType | 'all';
 
 export default function Investments() {
-  const { investments, markInvestmentAsDone, deleteInvestment } = useTransactions();
+  const {
+    investments,
+    investmentMovements,
+    investmentValuations,
+    allocationTargets,
+    indexRates,
+    markInvestmentAsDone,
+    deleteInvestment,
+  } = useTransactions();
   const { toast } = useToast();
   const [isModalOpen, setIsModalOpen] = useState(false);
+  const [isIndexModalOpen, setIsIndexModalOpen] = useState(false);
+  const [isAllocationModalOpen, setIsAllocationModalOpen] = useState(false);
+  const [isNoteImportOpen, setIsNoteImportOpen] = useState(false);
   const [statusFilter, setStatusFilter] = useState<StatusFilter>('all');
   const [typeFilter, setTypeFilter] = useState<TypeFilter>('all');
   const [investmentToDelete, setInvestmentToDelete] = useState<Investment | null>(null);
@@ -72,25 +98,27 @@ export default function Investments() {
   const [editingInvestment, setEditingInvestment] = useState<Investment | null>(null);
 
   const stats = useMemo(() => {
-    const total = investments
-      .filter((i) => i.jaInvestido)
-      .reduce((sum, i) => sum + i.valorInvestido, 0);
+    const result = getPortfolioReturn(investments, investmentMovements);
+    const net = getPortfolioNetValue(investments, investmentMovements, investmentValuations);
     const pending = investments
       .filter((i) => !i.jaInvestido)
       .reduce((sum, i) => sum + i.valorInvestido, 0);
     const thisMonth = investments
       .filter((i) => i.jaInvestido && isThisMonth(parseISO(i.dataInvestimento)))
       .reduce((sum, i) => sum + i.valorInvestido, 0);
+    const contributedThisMonth = investmentMovements
+      .filter((m) => m.type === 'contribution' && isThisMonth(parseISO(m.date)))
+      .reduce((sum, m) => sum + m.amount, 0);
 
     const byType = investments.reduce((acc, inv) => {
       if (inv.jaInvestido) {
-        acc[inv.tipo] = (acc[inv.tipo] || 0) + inv.valorInvestido;
+        acc[inv.tipo] = (acc[inv.tipo] || 0) + getCurrentValue(inv);
       }
       return acc;
     }, {} as Record<InvestmentType, number>);
 
-    return { total, pending, thisMonth, byType };
-  }, [investments]);
+    return { total: result.current, net, result, pending, thisMonth: thisMonth + contributedThisMonth, byType };
+  }, [investments, investmentMovements, investmentValuations]);
 
   const filteredInvestments = useMemo(() => {
     return investments.filter((i) => {
@@ -124,12 +152,17 @@ export default function Investments() {
     try {
       const date = parseISO(dateStr);
       if (isNaN(date.getTime())) return '-';
-      return format(date, 'MM/yyyy');
+      return format(date, 'dd/MM/yyyy');
     } catch {
       return '-';
     }
   };
 
+  const renderMatured = (investment: Investment) =>
+    getMaturity(investment, investmentMovements, investmentValuations, indexRates)?.isMatured && (
+      <span className="text-warning font-medium"> | Vencido</span>
+    );
+
   const renderDetails = (investment: Investment) => {
     const details = investment.detalhesEspecificos;
     if (!details) return null;
@@ -141,24 +174,26 @@ export default function Investments() {
         return (
           <p className="text-xs text-muted-foreground mt-1 truncate">
             {d.titulo || '-'} | Taxa: {d.taxa ?? '-'}% | Venc: {formatDate(d.vencimento)}
+            {renderMatured(investment)}
           </p>
         );
       }
       case 'acoes': {
-        const d = details as AcoesDetails;
-        if (!d.quantidade && !d.precoMedio) return null;
+        const { quantity, averagePrice } = getPosition(investment, investmentMovements);
+        if (!quantity && !averagePrice) return null;
         return (
           <p className="text-xs text-muted-foreground mt-1">
-            {d.quantidade ?? 0} ações @ R$ {(d.precoMedio ?? 0).toFixed(2)}
+            {quantity ?? 0} ações @ R$ {(averagePrice ?? 0).toFixed(2)}
           </p>
         );
       }
       case 'cripto': {
         const d = details as CriptoDetails;
-        if (!d.quantidade && !d.moeda) return null;
+        const { quantity, averagePrice } = getPosition(investment, investmentMovements);
+        if (!quantity && !d.moeda) return null;
         return (
           <p className="text-xs text-muted-foreground mt-1">
-            {d.quantidade ?? 0} {d.moeda || '-'} @ R$ {(d.precoMedio ?? 0).toFixed(2)}
+            {quantity ?? 0} {d.moeda || '-'} @ R$ {(averagePrice ?? 0).toFixed(2)}
           </p>
         );
       }
@@ -168,6 +203,7 @@ export default function Investments() {
         return (
           <p className="text-xs text-muted-foreground mt-1 truncate">
             {d.instituicao || '-'} | {d.taxa ?? '-'}% {(d.tipoTaxa || 'cdi').toUpperCase()} | Venc: {formatDate(d.vencimento)}
+            {renderMatured(investment)}
           </p>
         );
       }
@@ -203,6 +239,38 @@ export default function Investments() {
           </p>
         </motion.div>
 
+        <Link
+          to="/metas"
+          className="flex items-center gap-1.5 text-xs text-muted-foreground hover:text-foreground transition-colors min-h-[36px] px-2 shrink-0"
+        >
+          <Target className="w-4 h-4" />
+          Metas
+        </Link>
+
+        <Link
+          to="/investimentos/ir"
+          className="flex items-center gap-1.5 text-xs text-muted-foreground hover:text-foreground transition-colors min-h-[36px] px-2 shrink-0"
+        >
+          <FileText className="w-4 h-4" />
+          IR
+        </Link>
+
+        <button
+          onClick={() => setIsIndexModalOpen(true)}
+          className="flex items-center gap-1.5 text-xs text-muted-foreground hover:text-foreground transition-colors min-h-[36px] px-2 shrink-0"
+        >
+          <Percent className="w-4 h-4" />
+          Índices
+        </button>
+
+        <button
+          onClick={() => setIsNoteImportOpen(true)}
+          className="flex items-center gap-1.5 text-xs text-muted-foreground hover:text-foreground transition-colors min-h-[36px] px-2 shrink-0"
+        >
+          <FileUp className="w-4 h-4" />
+          Nota
+        </button>
+
         <Button 
           onClick={() => setIsModalOpen(true)} 
           size="sm" 
@@ -229,6 +297,16 @@ export default function Investments() {
           <p className="text-sm sm:text-lg font-bold text-income truncate">
             R$ {stats.total.toLocaleString('pt-BR', { minimumFractionDigits: 0, maximumFractionDigits: 0 })}
           </p>
+          {stats.result.invested > 0 && (
+            <p className={cn('text-[10px] font-medium truncate', stats.result.profit >= 0 ? 'text-income' : 'text-expense')}>
+              {formatPercent(stats.result.ratio)}
+            </p>
+          )}
+          {stats.net !== stats.total && (
+            <p className="text-[10px] text-muted-foreground truncate">
+              Líquido R$ {stats.net.toLocaleString('pt-BR', { minimumFractionDigits: 0, maximumFractionDigits: 0 })}
+            </p>
+          )}
         </motion.div>
 
         <motion.div
@@ -267,7 +345,34 @@ export default function Investments() {
       </div>
 
       {/* Distribution Chart */}
-      <InvestmentDistributionChart investments={investments} />
+      <InvestmentDistributionChart investments={investments} movements={investmentMovements} />
+
+      {/* Target allocation */}
+      <AllocationCard
+        investments={investments}
+        targets={allocationTargets}
+        onEditTargets={() => setIsAllocationModalOpen(true)}
+      />
+
+      {/* Returns against a benchmark */}
+      <PerformanceCard
+        investments={investments}
+        movements={investmentMovements}
+        valuations={investmentValuations}
+        indexRates={indexRates}
+      />
+
+      {/* Fixed-income and Tesouro maturities */}
+      <MaturityTimeline
+        investments={investments}
+        movements={investmentMovements}
+        valuations={investmentValuations}
+        indexRates={indexRates}
+        onSelect={setSelectedInvestment}
+      />
+
+      {/* Proventos */}
+      <InvestmentIncomeChart investments={investments} movements={investmentMovements} />
 
       {/* Filters */}
       <div className="flex flex-wrap gap-2 items-center">
@@ -331,7 +436,10 @@ export default function Investments() {
             filteredInvestments.map((investment, index) => {
               const Icon = iconMap[investment.tipo];
               const color = investmentTypeColors[investment.tipo];
-              
+              const result = getInvestmentReturn(investment, investmentMovements);
+              const trailingIncome = getTrailingIncome(investment.id, investmentMovements);
+              const yieldOnCost = trailingIncome > 0 ? getYieldOnCost(investment, investmentMovements) : null;
+
               return (
                 <motion.div
                   key={investment.id}
@@ -387,9 +495,22 @@ export default function Investments() {
                       </div>
 
                       <div className="flex items-center justify-between mt-2 sm:mt-3 pt-2 sm:pt-3 border-t border-border/50">
-                        <p className="text-base sm:text-lg font-bold">
-                          R$ {investment.valorInvestido.toLocaleString('pt-BR', { minimumFractionDigits: 2 })}
-                        </p>
+                        <div className="min-w-0">
+                          <p className="text-base sm:text-lg font-bold">
+                            R$ {(investment.jaInvestido ? result.current : investment.valorInvestido).toLocaleString('pt-BR', { minimumFractionDigits: 2 })}
+                          </p>
+                          {investment.jaInvestido && result.current !== result.invested && (
+                            <p className={cn('text-[10px] sm:text-xs font-medium', result.profit >= 0 ? 'text-income' : 'text-expense')}>
+                              {result.profit >= 0 ? '+' : '-'}R$ {Math.abs(result.profit).toLocaleString('pt-BR', { minimumFractionDigits: 2 })} ({formatPercent(result.ratio)})
+                            </p>
+                          )}
+                          {trailingIncome > 0 && (
+                            <p className="text-[10px] sm:text-xs text-muted-foreground">
+                              Proventos 12m R$ {trailingIncome.toLocaleString('pt-BR', { minimumFractionDigits: 2 })}
+                              {yieldOnCost !== null && ` · YoC ${(yieldOnCost * 100).toLocaleString('pt-BR', { maximumFractionDigits: 1 })}%`}
+                            </p>
+                          )}
+                        </div>
 
                         <div className="flex items-center gap-1.5 sm:gap-2">
                           {investment.jaInvestido ? (
@@ -441,6 +562,12 @@ export default function Investments() {
         editingInvestment={editingInvestment}
       />
 
+      <IndexRatesModal isOpen={isIndexModalOpen} onClose={() => setIsIndexModalOpen(false)} />
+
+      <AllocationTargetsModal isOpen={isAllocationModalOpen} onClose={() => setIsAllocationModalOpen(false)} />
+
+      <BrokerageNoteImportModal isOpen={isNoteImportOpen} onClose={() => setIsNoteImportOpen(false)} />
+
       {/* Delete Confirmation Dialog */}
       <AlertDialog open={!!investmentToDelete} onOpenChange={() => setInvestmentToDelete(null)}>
         <AlertDialogContent className="max-w-[calc(100vw-2rem)] sm:max-w-lg mx-auto">
@@ -18,12 +18,13 @@ import {
   DialogHeader,
   DialogTitle,
 } from '@/components/ui/dialog';
-import { cn } from '@/lib/utils';
+import { cn, toLocalDateString } from '@/lib/utils';
 import TransactionDetailsModal from '@/components/dashboard/TransactionDetailsModal';
+import AttachmentPicker from '@/components/AttachmentPicker';
 import { Transaction } from '@/types/transaction';
 
 export default function Loans() {
-  const { transactions, addTransaction, updateTransaction } = useTransactions();
+  const { transactions, addTransaction, updateTransaction, addAttachment } = useTransactions();
   const { toast } = useToast();
 
   const [isModalOpen, setIsModalOpen] = useState(false);
@@ -33,6 +34,8 @@ export default function Loans() {
   const [amount, setAmount] = useState('');
   const [description, setDescription] = useState('');
   const [loanDate, setLoanDate] = useState<Date>(new Date());
+  const [dueDate, setDueDate] = useState<Date | undefined>();
+  const [contractFiles, setContractFiles] = useState<File[]>([]);
 
   const loans = useMemo(() => {
     return transactions.filter((t) => t.isLoan);
@@ -79,6 +82,7 @@ export default function Loans() {
       return;
     }
 
+    const files = contractFiles;
     addTransaction({
       type: loanType === 'given' ? 'expense' : 'income',
       category: 'loan',
@@ -88,6 +92,10 @@ export default function Loans() {
       isLoan: true,
       loanPerson: person,
       loanStatus: 'pending',
+      loanDueDate: dueDate ? toLocalDateString(dueDate) : undefined,
+    }).then(async (loanId) => {
+      if (!loanId) return;
+      for (const file of files) await addAttachment(loanId, file);
     });
 
     toast({
@@ -100,6 +108,8 @@ export default function Loans() {
     setAmount('');
     setDescription('');
     setLoanDate(new Date());
+    setDueDate(undefined);
+    setContractFiles([]);
   };
 
   const handleStatusChange = (id: string, type: TransactionType, amount: number) => {
@@ -196,6 +206,34 @@ export default function Loans() {
             <CalendarIcon className="w-3 h-3" />
             {isGiven ? 'Emprestado' : 'Pego'} em: {format(new Date(loan.date + 'T12:00:00'), "dd/MM/yyyy")}
           </p>
+          {isPending && (
+            <Popover>
+              <PopoverTrigger asChild>
+                <button
+                  type="button"
+                  onClick={(e) => e.stopPropagation()}
+                  className={cn(
+                    'flex items-center gap-1 hover:text-foreground transition-colors',
+                    loan.loanDueDate && loan.loanDueDate < toLocalDateString() && 'text-expense'
+                  )}
+                >
+                  <Clock className="w-3 h-3" />
+                  {loan.loanDueDate
+                    ? `Previsto para: ${format(new Date(loan.loanDueDate + 'T12:00:00'), 'dd/MM/yyyy')}`
+                    : 'Definir previsão de acerto'}
+                </button>
+              </PopoverTrigger>
+              <PopoverContent className="w-auto p-0" align="start" onClick={(e) => e.stopPropagation()}>
+                <Calendar
+                  mode="single"
+                  selected={loan.loanDueDate ? new Date(loan.loanDueDate + 'T12:00:00') : undefined}
+                  onSelect={(date) => updateTransaction(loan.id, { loanDueDate: date ? toLocalDateString(date) : undefined })}
+                  locale={ptBR}
+                  initialFocus
+                />
+              </PopoverContent>
+            </Popover>
+          )}
           {isSettled && loan.loanSettledDate && (
             <p className="flex items-center gap-1 text-income">
               <Check className="w-3 h-3" />
@@ -463,6 +501,27 @@ export default function Loans() {
               </Popover>
             </div>
 
+            <div className="space-y-2">
+              <Label>Previsão de acerto (opcional)</Label>
+              <Popover>
+                <PopoverTrigger asChild>
+                  <Button variant="outline" className={cn('w-full justify-start text-left font-normal', !dueDate && 'text-muted-foreground')}>
+                    <CalendarIcon className="mr-2 h-4 w-4" />
+                    {dueDate ? format(dueDate, "dd 'de' MMMM 'de' yyyy", { locale: ptBR }) : 'Sem data prevista'}
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent className="w-auto p-0 z-[70]" align="start">
+                  <Calendar
+                    mode="single"
+                    selected={dueDate}
+                    onSelect={setDueDate}
+                    locale={ptBR}
+                    initialFocus
+                  />
+                </PopoverContent>
+              </Popover>
+            </div>
+
             <div className="space-y-2">
               <Label>Descrição (opcional)</Label>
               <Textarea
@@ -473,6 +532,11 @@ export default function Loans() {
               />
             </div>
 
+            <div className="space-y-2">
+              <Label>Comprovantes e contrato (opcional)</Label>
+              <AttachmentPicker value={contractFiles} onChange={setContractFiles} />
+            </div>
+
             <Button type="submit" className="w-full min-h-[44px]">
               Adicionar Empréstimo
             </Button>
@@ -0,0 +1,322 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { motion } from 'framer-motion';
+import { format } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import {
+  AreaChart,
+  Area,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+} from 'recharts';
+import {
+  Landmark,
+  Wallet,
+  TrendingUp,
+  ArrowUpRight,
+  ArrowDownLeft,
+  CreditCard,
+  History,
+  Trash2,
+} from 'lucide-react';
+import { useTransactions } from '@/contexts/TransactionContext';
+import { useToast } from '@/hooks/use-toast';
+import { NetWorthBreakdown } from '@/types/netWorth';
+import {
+  getMissingSnapshotMonths,
+  getMonthEndDate,
+  getNetWorth,
+  getNetWorthTotal,
+  hasNetWorthChanged,
+} from '@/lib/netWorth';
+import { getMonthKey } from '@/lib/budgets';
+import { formatMoney } from '@/lib/currency';
+import { Button } from '@/components/ui/button';
+import { PrivacyValue } from '@/components/ui/PrivacyValue';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { cn } from '@/lib/utils';
+
+const parts: { key: keyof NetWorthBreakdown; label: string; icon: React.ElementType; sign: 1 | -1 }[] = [
+  { key: 'accounts', label: 'Contas', icon: Wallet, sign: 1 },
+  { key: 'investments', label: 'Investimentos', icon: TrendingUp, sign: 1 },
+  { key: 'receivables', label: 'A receber (empréstimos)', icon: ArrowUpRight, sign: 1 },
+  { key: 'payables', label: 'A pagar (empréstimos)', icon: ArrowDownLeft, sign: -1 },
+  { key: 'cardDebt', label: 'Faturas de cartão', icon: CreditCard, sign: -1 },
+];
+
+const formatMonth = (month: string) => format(new Date(month + '-01T12:00:00'), 'MMM/yy', { locale: ptBR });
+
+export default function NetWorth() {
+  const {
+    accounts,
+    transactions,
+    investments,
+    investmentValuations,
+    investmentMovements,
+    baseCurrency,
+    exchangeRates,
+    netWorthSnapshots,
+    loading,
+    saveNetWorthSnapshots,
+    deleteNetWorthSnapshot,
+  } = useTransactions();
+  const { toast } = useToast();
+  const [isRebuilding, setIsRebuilding] = useState(false);
+  const lastSavedRef = useRef<string>();
+
+  const input = useMemo(
+    () => ({ accounts, transactions, investments, investmentValuations, investmentMovements, baseCurrency, exchangeRates }),
+    [accounts, transactions, investments, investmentValuations, investmentMovements, baseCurrency, exchangeRates]
+  );
+  const current = useMemo(() => getNetWorth(input), [input]);
+  const total = getNetWorthTotal(current);
+  const month = getMonthKey(new Date());
+
+  const currentSnapshot = netWorthSnapshots.find((s) => s.month === month);
+  const previousSnapshot = [...netWorthSnapshots].reverse().find((s) => s.month < month);
+  const change = previousSnapshot ? total - getNetWorthTotal(previousSnapshot) : undefined;
+  const missingMonths = getMissingSnapshotMonths(netWorthSnapshots, transactions, investments);
+
+  // Keep this month's snapshot in step with the live figures; the ref stops repeats while a save is in flight
+  useEffect(() => {
+    if (loading) return;
+    if (currentSnapshot && currentSnapshot.currency === baseCurrency && !hasNetWorthChanged(currentSnapshot, current)) return;
+    const snapshot = { month, ...current, currency: baseCurrency };
+    const key = JSON.stringify(snapshot);
+    if (lastSavedRef.current === key) return;
+    lastSavedRef.current = key;
+    saveNetWorthSnapshots([snapshot]);
+  }, [loading, currentSnapshot, current, month, baseCurrency, saveNetWorthSnapshots]);
+
+  const handleRebuild = async () => {
+    setIsRebuilding(true);
+    const saved = await saveNetWorthSnapshots(
+      missingMonths.map((m) => ({ month: m, ...getNetWorth(input, getMonthEndDate(m)), currency: baseCurrency }))
+    );
+    setIsRebuilding(false);
+    toast(
+      saved > 0
+        ? { title: 'Histórico preenchido', description: `${saved} mês(es) reconstruído(s) a partir dos lançamentos.` }
+        : { title: 'Não foi possível preencher', description: 'Verifique sua conexão e tente novamente.', variant: 'destructive' }
+    );
+  };
+
+  const history = netWorthSnapshots.filter((s) => s.month !== month);
+  const chartData = [
+    ...history.map((s) => ({ name: formatMonth(s.month), Patrimônio: getNetWorthTotal(s) })),
+    { name: formatMonth(month), Patrimônio: total },
+  ];
+
+  return (
+    <div className="space-y-4 sm:space-y-6 max-w-full overflow-hidden pb-4">
+      {/* Header */}
+      <motion.div initial={{ opacity: 0, y: -20 }} animate={{ opacity: 1, y: 0 }}>
+        <h1 className="text-xl sm:text-2xl lg:text-3xl font-display font-bold">Patrimônio</h1>
+        <p className="text-sm text-muted-foreground truncate">Tudo o que você tem menos o que deve</p>
+      </motion.div>
+
+      {/* Total and breakdown */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="glass-card rounded-xl p-4 sm:p-6 space-y-4"
+      >
+        <div className="flex items-center gap-3">
+          <div className="w-10 h-10 rounded-lg bg-primary/10 flex items-center justify-center shrink-0">
+            <Landmark className="w-5 h-5 text-primary" />
+          </div>
+          <div className="flex-1 min-w-0">
+            <p className="text-xs text-muted-foreground">Patrimônio líquido</p>
+            <PrivacyValue
+              value={total}
+              showSign={total < 0}
+              className={cn('text-2xl sm:text-3xl font-bold', total < 0 && 'text-expense')}
+            />
+          </div>
+          {change !== undefined && previousSnapshot && (
+            <div className="text-right shrink-0">
+              <PrivacyValue
+                value={change}
+                showSign
+                className={cn('text-sm font-semibold', change >= 0 ? 'text-income' : 'text-expense')}
+              />
+              <p className="text-[11px] text-muted-foreground">desde {formatMonth(previousSnapshot.month)}</p>
+            </div>
+          )}
+        </div>
+
+        <div className="space-y-2 pt-3 border-t border-border/50">
+          {parts
+            .filter((p) => p.key !== 'cardDebt' || current.cardDebt >= 0.01)
+            .map(({ key, label, icon: Icon, sign }) => (
+              <div key={key} className="flex items-center gap-3">
+                <div className="w-8 h-8 rounded-lg bg-muted/50 flex items-center justify-center shrink-0">
+                  <Icon className="w-4 h-4 text-muted-foreground" />
+                </div>
+                <span className="flex-1 text-sm truncate">{label}</span>
+                <PrivacyValue
+                  value={sign * current[key]}
+                  showSign={sign * current[key] < 0}
+                  className={cn('text-sm font-semibold', sign < 0 && current[key] > 0 && 'text-expense')}
+                />
+              </div>
+            ))}
+        </div>
+        <p className="text-[11px] text-muted-foreground">
+          Investimentos pelo último valor informado. Saldos em outras moedas pela cotação de hoje.
+        </p>
+      </motion.div>
+
+      {missingMonths.length > 0 && (
+        <div className="flex items-center gap-3 text-sm px-3 py-2 rounded-lg bg-muted/50">
+          <History className="w-4 h-4 shrink-0 text-muted-foreground" />
+          <span className="flex-1 text-muted-foreground">
+            {missingMonths.length} mês(es) sem registro desde {formatMonth(missingMonths[0])}.
+          </span>
+          <Button size="sm" variant="outline" onClick={handleRebuild} disabled={isRebuilding}>
+            Reconstruir
+          </Button>
+        </div>
+      )}
+
+      {/* Evolution */}
+      {history.length > 0 && (
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.1 }}
+          className="glass-card rounded-xl p-4 sm:p-6"
+        >
+          <h3 className="font-semibold text-sm sm:text-lg mb-3 sm:mb-4">Evolução</h3>
+          <div className="h-56 sm:h-72">
+            <ResponsiveContainer width="100%" height="100%">
+              <AreaChart data={chartData}>
+                <defs>
+                  <linearGradient id="netWorthFill" x1="0" y1="0" x2="0" y2="1">
+                    <stop offset="5%" stopColor="hsl(160 84% 39%)" stopOpacity={0.3} />
+                    <stop offset="95%" stopColor="hsl(160 84% 39%)" stopOpacity={0} />
+                  </linearGradient>
+                </defs>
+                <CartesianGrid strokeDasharray="3 3" stroke="hsl(217 33% 22%)" vertical={false} />
+                <XAxis
+                  dataKey="name"
+                  axisLine={false}
+                  tickLine={false}
+                  tick={{ fill: 'hsl(215 20% 65%)', fontSize: 11 }}
+                  minTickGap={16}
+                />
+                <YAxis
+                  axisLine={false}
+                  tickLine={false}
+                  tick={{ fill: 'hsl(215 20% 65%)', fontSize: 11 }}
+                  tickFormatter={(value) => `${value / 1000}k`}
+                  width={40}
+                />
+                <Tooltip
+                  formatter={(value: number) => formatMoney(value, baseCurrency)}
+                  contentStyle={{
+                    backgroundColor: 'hsl(var(--card))',
+                    border: '1px solid hsl(var(--border))',
+                    borderRadius: '8px',
+                    color: 'hsl(var(--card-foreground))',
+                  }}
+                  itemStyle={{ color: 'hsl(var(--card-foreground))' }}
+                  labelStyle={{ color: 'hsl(var(--card-foreground))' }}
+                />
+                <Area
+                  type="monotone"
+                  dataKey="Patrimônio"
+                  stroke="hsl(160 84% 39%)"
+                  strokeWidth={2}
+                  fill="url(#netWorthFill)"
+                />
+              </AreaChart>
+            </ResponsiveContainer>
+          </div>
+        </motion.div>
+      )}
+
+      {/* Monthly snapshots */}
+      {netWorthSnapshots.length > 0 && (
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.15 }}
+          className="glass-card rounded-xl p-2 sm:p-4"
+        >
+          <h3 className="font-semibold text-sm sm:text-lg px-2 pt-2 mb-2">Fechamento mensal</h3>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Mês</TableHead>
+                <TableHead className="text-right hidden sm:table-cell">Contas</TableHead>
+                <TableHead className="text-right hidden sm:table-cell">Investimentos</TableHead>
+                <TableHead className="text-right hidden md:table-cell">Empréstimos</TableHead>
+                <TableHead className="text-right hidden md:table-cell">Cartões</TableHead>
+                <TableHead className="text-right">Total</TableHead>
+                <TableHead className="w-10" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {[...netWorthSnapshots].reverse().map((snapshot) => {
+                const snapshotTotal = getNetWorthTotal(snapshot);
+                const loans = snapshot.receivables - snapshot.payables;
+                return (
+                  <TableRow key={snapshot.id}>
+                    <TableCell className="font-medium capitalize whitespace-nowrap">
+                      {formatMonth(snapshot.month)}
+                      {snapshot.currency !== baseCurrency && (
+                        <span className="ml-1 text-[10px] text-muted-foreground">({snapshot.currency})</span>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right hidden sm:table-cell">
+                      <PrivacyValue value={snapshot.accounts} currency={snapshot.currency} showSign={snapshot.accounts < 0} />
+                    </TableCell>
+                    <TableCell className="text-right hidden sm:table-cell">
+                      <PrivacyValue value={snapshot.investments} currency={snapshot.currency} />
+                    </TableCell>
+                    <TableCell className="text-right hidden md:table-cell">
+                      <PrivacyValue value={loans} currency={snapshot.currency} showSign={loans < 0} />
+                    </TableCell>
+                    <TableCell className="text-right hidden md:table-cell">
+                      <PrivacyValue value={-snapshot.cardDebt} currency={snapshot.currency} showSign={snapshot.cardDebt > 0} />
+                    </TableCell>
+                    <TableCell className="text-right font-semibold">
+                      <PrivacyValue
+                        value={snapshotTotal}
+                        currency={snapshot.currency}
+                        showSign={snapshotTotal < 0}
+                        className={cn(snapshotTotal < 0 && 'text-expense')}
+                      />
+                    </TableCell>
+                    <TableCell className="p-1">
+                      {snapshot.month !== month && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                          onClick={() => deleteNetWorthSnapshot(snapshot.id)}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </motion.div>
+      )}
+    </div>
+  );
+}
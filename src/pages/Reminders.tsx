@@ -1,9 +1,17 @@
-import { useState } from 'react';
+import { useState, useMemo } from 'react';
 import { motion } from 'framer-motion';
-import { Plus, Bell, Calendar, Pencil, Trash2, AlertTriangle, Clock, CheckCircle2 } from 'lucide-react';
+import { Plus, Bell, Calendar, Pencil, Trash2, AlertTriangle, Clock, CheckCircle2, CreditCard, Landmark } from 'lucide-react';
 import { useTransactions } from '@/contexts/TransactionContext';
 import { useToast } from '@/hooks/use-toast';
-import { categoryLabels, TransactionCategory, Reminder } from '@/types/transaction';
+import { TransactionCategory, Reminder } from '@/types/transaction';
+import { Account } from '@/types/account';
+import { Investment, investmentTypeLabels } from '@/types/investment';
+import { Invoice, formatInvoiceMonth, getCardInvoices, invoiceStatusLabels, isCreditCard } from '@/lib/creditCard';
+import { getCategoryPath, sortCategoryTree } from '@/lib/categories';
+import { getMaturities, getMaturityReminders } from '@/lib/maturities';
+import { formatMoney } from '@/lib/currency';
+import PayInvoiceModal from '@/components/modals/PayInvoiceModal';
+import InvestmentDetailsModal from '@/components/dashboard/InvestmentDetailsModal';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -25,11 +33,28 @@ import {
 import { cn } from '@/lib/utils';
 
 export default function Reminders() {
-  const { reminders, addReminder, updateReminder, deleteReminder, markReminderAsPaid } = useTransactions();
+  const {
+    reminders,
+    accounts,
+    transactions,
+    categories,
+    investments,
+    investmentMovements,
+    investmentValuations,
+    indexRates,
+    maturityReminderDays,
+    addReminder,
+    updateReminder,
+    deleteReminder,
+    markReminderAsPaid,
+    updateMaturityReminderDays,
+  } = useTransactions();
   const { toast } = useToast();
 
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [editingId, setEditingId] = useState<string | null>(null);
+  const [payment, setPayment] = useState<{ card: Account; invoice: Invoice } | null>(null);
+  const [redeeming, setRedeeming] = useState<Investment | null>(null);
 
   // Form state
   const [title, setTitle] = useState('');
@@ -151,6 +176,32 @@ export default function Reminders() {
 
   const activeReminders = reminders.filter((r) => r.isActive);
 
+  // Next invoice to pay on each card: the oldest unpaid closed one, or the one still open
+  const cardDues = useMemo(() => {
+    return accounts
+      .filter((a) => isCreditCard(a) && !a.isArchived)
+      .map((card) => {
+        const invoices = getCardInvoices(card, transactions);
+        const unpaid = invoices.filter((inv) => inv.status === 'closed' || inv.status === 'overdue');
+        const invoice = unpaid[unpaid.length - 1] || invoices.find((inv) => inv.status === 'open');
+        return invoice ? { card, invoice } : null;
+      })
+      .filter((due): due is { card: Account; invoice: Invoice } => due !== null && due.invoice.remaining >= 0.01);
+  }, [accounts, transactions]);
+
+  // Fixed-income and Tesouro positions maturing soon, or matured with no redemption recorded
+  const maturities = useMemo(
+    () => getMaturities(investments, investmentMovements, investmentValuations, indexRates),
+    [investments, investmentMovements, investmentValuations, indexRates]
+  );
+  const maturityDues = getMaturityReminders(maturities, maturityReminderDays);
+
+  const getDaysUntilDate = (date: string) => {
+    const today = new Date();
+    today.setHours(12, 0, 0, 0);
+    return Math.round((new Date(date + 'T12:00:00').getTime() - today.getTime()) / 86400000);
+  };
+
   return (
     <div className="space-y-4 sm:space-y-6 max-w-full overflow-hidden pb-4">
       {/* Header */}
@@ -172,6 +223,168 @@ export default function Reminders() {
         </Button>
       </div>
 
+      {/* Card invoices */}
+      {cardDues.length > 0 && (
+        <div className="grid gap-3 sm:gap-4 sm:grid-cols-2 lg:grid-cols-3">
+          {cardDues.map(({ card, invoice }, index) => {
+            const days = getDaysUntilDate(invoice.dueDate);
+            const isOverdue = invoice.status === 'overdue';
+            return (
+              <motion.div
+                key={card.id}
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ delay: index * 0.05 }}
+                className="glass-card rounded-xl p-4 sm:p-5"
+              >
+                <div className="flex items-start justify-between mb-2 sm:mb-3">
+                  <div className="flex items-center gap-2 sm:gap-3 flex-1 min-w-0">
+                    <div className="w-8 h-8 sm:w-10 sm:h-10 rounded-lg bg-expense/10 flex items-center justify-center shrink-0">
+                      <CreditCard className="w-4 h-4 sm:w-5 sm:h-5 text-expense" />
+                    </div>
+                    <div className="min-w-0 flex-1">
+                      <h3 className="font-semibold text-sm sm:text-base truncate">Fatura {card.name}</h3>
+                      <p className="text-xs sm:text-sm text-muted-foreground truncate capitalize">
+                        {formatInvoiceMonth(invoice.month)} • {invoiceStatusLabels[invoice.status]}
+                      </p>
+                    </div>
+                  </div>
+                  <div
+                    className={cn(
+                      'px-2 py-1 rounded-full text-xs font-medium shrink-0',
+                      isOverdue || days <= 3 ? 'bg-expense/10 text-expense' : 'bg-income/10 text-income'
+                    )}
+                  >
+                    {isOverdue ? (
+                      <AlertTriangle className="w-3 h-3 inline mr-1" />
+                    ) : (
+                      <Clock className="w-3 h-3 inline mr-1" />
+                    )}
+                    {isOverdue ? 'Vencida' : days === 0 ? 'Hoje' : `${days} dias`}
+                  </div>
+                </div>
+
+                <div className="flex items-center justify-between pt-2 sm:pt-3 border-t border-border">
+                  <div className="min-w-0 flex-1">
+                    <p className="text-base sm:text-lg font-bold text-expense">
+                      {formatMoney(invoice.remaining, card.currency)}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      <Calendar className="w-3 h-3 inline mr-1" />
+                      Vence {new Date(invoice.dueDate + 'T12:00:00').toLocaleDateString('pt-BR')}
+                    </p>
+                  </div>
+                  {invoice.status !== 'open' && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => setPayment({ card, invoice })}
+                      className="text-income hover:text-income min-h-[36px] min-w-[36px] sm:min-h-[40px] sm:min-w-[40px]"
+                      title="Pagar fatura"
+                    >
+                      <CheckCircle2 className="w-4 h-4" />
+                    </Button>
+                  )}
+                </div>
+              </motion.div>
+            );
+          })}
+        </div>
+      )}
+
+      {/* Investment maturities */}
+      {maturities.length > 0 && (
+        <div className="space-y-3">
+          <div className="flex items-center justify-between gap-2">
+            <h2 className="text-sm font-semibold text-muted-foreground">Vencimentos de investimentos</h2>
+            <select
+              value={maturityReminderDays}
+              onChange={(e) => updateMaturityReminderDays(parseInt(e.target.value))}
+              className="text-xs bg-muted/50 border-0 rounded-md px-2 py-1.5 focus:ring-1 focus:ring-primary"
+              aria-label="Avisar antes do vencimento"
+            >
+              {[...new Set([7, 15, 30, 60, 90, maturityReminderDays])]
+                .sort((a, b) => a - b)
+                .map((days) => (
+                  <option key={days} value={days}>
+                    Avisar {days} dias antes
+                  </option>
+                ))}
+            </select>
+          </div>
+
+          {maturityDues.length === 0 ? (
+            <p className="text-xs text-muted-foreground">
+              Nenhum vencimento nos próximos {maturityReminderDays} dias. O próximo é{' '}
+              {maturities[0].investment.nome} em {new Date(maturities[0].date + 'T12:00:00').toLocaleDateString('pt-BR')}.
+            </p>
+          ) : (
+            <div className="grid gap-3 sm:gap-4 sm:grid-cols-2 lg:grid-cols-3">
+              {maturityDues.map(({ investment, date, daysLeft, gross, net, isMatured }, index) => (
+                <motion.div
+                  key={investment.id}
+                  initial={{ opacity: 0, y: 20 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  transition={{ delay: index * 0.05 }}
+                  className="glass-card rounded-xl p-4 sm:p-5"
+                >
+                  <div className="flex items-start justify-between mb-2 sm:mb-3">
+                    <div className="flex items-center gap-2 sm:gap-3 flex-1 min-w-0">
+                      <div className="w-8 h-8 sm:w-10 sm:h-10 rounded-lg bg-income/10 flex items-center justify-center shrink-0">
+                        <Landmark className="w-4 h-4 sm:w-5 sm:h-5 text-income" />
+                      </div>
+                      <div className="min-w-0 flex-1">
+                        <h3 className="font-semibold text-sm sm:text-base truncate">{investment.nome}</h3>
+                        <p className="text-xs sm:text-sm text-muted-foreground truncate">
+                          {investmentTypeLabels[investment.tipo]}
+                        </p>
+                      </div>
+                    </div>
+                    <div
+                      className={cn(
+                        'px-2 py-1 rounded-full text-xs font-medium shrink-0',
+                        isMatured ? 'bg-warning/10 text-warning' : 'bg-income/10 text-income'
+                      )}
+                    >
+                      {isMatured ? (
+                        <AlertTriangle className="w-3 h-3 inline mr-1" />
+                      ) : (
+                        <Clock className="w-3 h-3 inline mr-1" />
+                      )}
+                      {isMatured ? 'Vencido' : daysLeft === 0 ? 'Hoje' : `${daysLeft} dias`}
+                    </div>
+                  </div>
+
+                  <div className="flex items-center justify-between pt-2 sm:pt-3 border-t border-border">
+                    <div className="min-w-0 flex-1">
+                      <p className="text-base sm:text-lg font-bold text-income">
+                        {formatMoney(gross)}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        <Calendar className="w-3 h-3 inline mr-1" />
+                        Vence {new Date(date + 'T12:00:00').toLocaleDateString('pt-BR')}
+                        {net !== gross && ` • líquido ${formatMoney(net)}`}
+                      </p>
+                    </div>
+                    {isMatured && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => setRedeeming(investment)}
+                        className="text-income hover:text-income min-h-[36px] min-w-[36px] sm:min-h-[40px] sm:min-w-[40px]"
+                        title="Registrar resgate"
+                      >
+                        <CheckCircle2 className="w-4 h-4" />
+                      </Button>
+                    )}
+                  </div>
+                </motion.div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Reminders List */}
       {activeReminders.length === 0 ? (
         <motion.div
@@ -209,7 +422,7 @@ export default function Reminders() {
                     <div className="min-w-0 flex-1">
                       <h3 className="font-semibold text-sm sm:text-base truncate">{reminder.title}</h3>
                       <p className="text-xs sm:text-sm text-muted-foreground truncate">
-                        {categoryLabels[reminder.category]}
+                        {getCategoryPath(categories, reminder.category)}
                       </p>
                     </div>
                   </div>
@@ -269,6 +482,14 @@ export default function Reminders() {
         </div>
       )}
 
+      <PayInvoiceModal
+        card={payment?.card ?? null}
+        invoice={payment?.invoice ?? null}
+        onClose={() => setPayment(null)}
+      />
+
+      <InvestmentDetailsModal investment={redeeming} onClose={() => setRedeeming(null)} />
+
       {/* Modal */}
       <Dialog open={isModalOpen} onOpenChange={setIsModalOpen}>
         <DialogContent>
@@ -352,9 +573,9 @@ export default function Reminders() {
                     <SelectValue />
                   </SelectTrigger>
                   <SelectContent>
-                    {Object.entries(categoryLabels).map(([key, label]) => (
-                      <SelectItem key={key} value={key}>
-                        {label}
+                    {sortCategoryTree(categories).filter((c) => c.key !== 'transfer').map((c) => (
+                      <SelectItem key={c.key} value={c.key}>
+                        {getCategoryPath(categories, c.key)}
                       </SelectItem>
                     ))}
                   </SelectContent>
@@ -0,0 +1,306 @@
+import { useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import { format } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { ArrowLeft, ChevronLeft, ChevronRight, Download, FileText, AlertTriangle } from 'lucide-react';
+import { useTransactions } from '@/contexts/TransactionContext';
+import {
+  DARF_CODE,
+  MONTHLY_EXEMPTION_LIMIT,
+  buildStockTaxCsv,
+  getStockHoldings,
+  getStockSales,
+  getStockTaxMonths,
+} from '@/lib/stockTax';
+import { formatMoney } from '@/lib/currency';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { PrivacyValue } from '@/components/ui/PrivacyValue';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { cn, toLocalDateString } from '@/lib/utils';
+
+const formatMonth = (month: string) => format(new Date(month + '-01T12:00:00'), 'MMM/yy', { locale: ptBR });
+const formatDay = (date: string) => new Date(date + 'T12:00:00').toLocaleDateString('pt-BR');
+
+export default function StockTax() {
+  const { investments, investmentMovements } = useTransactions();
+  const [year, setYear] = useState(new Date().getFullYear());
+
+  const sales = useMemo(() => getStockSales(investments, investmentMovements), [investments, investmentMovements]);
+  const months = useMemo(() => getStockTaxMonths(sales), [sales]);
+  const holdings = useMemo(
+    () => getStockHoldings(investments, investmentMovements, `${year}-12-31`),
+    [investments, investmentMovements, year]
+  );
+
+  const yearMonths = months.filter((m) => m.month.startsWith(`${year}-`));
+  const yearSales = sales.filter((s) => s.date.startsWith(`${year}-`)).reverse();
+  const totals = {
+    sales: yearMonths.reduce((sum, m) => sum + m.sales, 0),
+    result: yearMonths.reduce((sum, m) => sum + m.result, 0),
+    exemptGain: yearMonths.reduce((sum, m) => sum + m.exemptGain, 0),
+    darf: yearMonths.reduce((sum, m) => sum + m.darf, 0),
+  };
+  const lastMonth = months[months.length - 1];
+  // DARFs whose due date has not passed yet
+  const today = toLocalDateString();
+  const pending = months.filter((m) => m.darf > 0 && m.dueDate >= today);
+
+  const handleExport = () => {
+    const csv = buildStockTaxCsv(year, months, sales, holdings);
+    // BOM so spreadsheets read the accents as UTF-8
+    const url = URL.createObjectURL(new Blob(['\uFEFF' + csv], { type: 'text/csv;charset=utf-8' }));
+    const link = document.createElement('a');
+    link.download = `ir-acoes-${year}.csv`;
+    link.href = url;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="space-y-4 sm:space-y-6 max-w-full overflow-hidden pb-4">
+      {/* Header */}
+      <div className="flex items-start justify-between gap-3">
+        <motion.div initial={{ opacity: 0, y: -20 }} animate={{ opacity: 1, y: 0 }} className="flex-1 min-w-0">
+          <h1 className="text-xl sm:text-2xl lg:text-3xl font-display font-bold">IR sobre ações</h1>
+          <p className="text-sm text-muted-foreground truncate">Vendas, lucros e DARF mês a mês</p>
+        </motion.div>
+
+        <Link
+          to="/investimentos"
+          className="flex items-center gap-1.5 text-xs text-muted-foreground hover:text-foreground transition-colors min-h-[36px] px-2 shrink-0"
+        >
+          <ArrowLeft className="w-4 h-4" />
+          Investimentos
+        </Link>
+        <Button onClick={handleExport} size="sm" variant="outline" className="gap-1.5 shrink-0 h-9">
+          <Download className="w-4 h-4" />
+          <span className="hidden sm:inline">Exportar</span>
+        </Button>
+      </div>
+
+      {pending.map((m) => (
+        <div
+          key={m.month}
+          className="flex items-center gap-3 text-sm px-3 py-2 rounded-lg bg-amber-500/10 text-amber-600 dark:text-amber-400"
+        >
+          <AlertTriangle className="w-4 h-4 shrink-0" />
+          <span className="flex-1">
+            DARF de {formatMonth(m.month)} (código {DARF_CODE}): {formatMoney(m.darf)} até {formatDay(m.dueDate)}.
+          </span>
+        </div>
+      ))}
+
+      {/* Year navigator */}
+      <div className="flex items-center justify-between glass-card rounded-xl p-2">
+        <Button variant="ghost" size="icon" onClick={() => setYear(year - 1)} aria-label="Ano anterior">
+          <ChevronLeft className="w-5 h-5" />
+        </Button>
+        <p className="font-semibold">{year}</p>
+        <Button variant="ghost" size="icon" onClick={() => setYear(year + 1)} aria-label="Próximo ano">
+          <ChevronRight className="w-5 h-5" />
+        </Button>
+      </div>
+
+      {/* Year totals */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="glass-card rounded-xl p-4 sm:p-6 grid grid-cols-2 sm:grid-cols-4 gap-4"
+      >
+        <div>
+          <p className="text-xs text-muted-foreground">Vendas</p>
+          <PrivacyValue value={totals.sales} className="text-lg font-bold" />
+        </div>
+        <div>
+          <p className="text-xs text-muted-foreground">Resultado</p>
+          <PrivacyValue
+            value={totals.result}
+            showSign
+            className={cn('text-lg font-bold', totals.result >= 0 ? 'text-income' : 'text-expense')}
+          />
+        </div>
+        <div>
+          <p className="text-xs text-muted-foreground">Lucro isento</p>
+          <PrivacyValue value={totals.exemptGain} className="text-lg font-bold" />
+        </div>
+        <div>
+          <p className="text-xs text-muted-foreground">DARFs</p>
+          <PrivacyValue value={totals.darf} className="text-lg font-bold" />
+        </div>
+        <p className="col-span-2 sm:col-span-4 text-[11px] text-muted-foreground">
+          Lucro isento em meses com vendas até {formatMoney(MONTHLY_EXEMPTION_LIMIT)}. Prejuízos são compensados
+          nos meses tributados seguintes
+          {lastMonth && lastMonth.lossCarried > 0 && <> (a compensar hoje: {formatMoney(lastMonth.lossCarried)})</>}.
+          Day trade não é separado.
+        </p>
+      </motion.div>
+
+      {/* Monthly summary */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.1 }}
+        className="glass-card rounded-xl p-2 sm:p-4"
+      >
+        <h3 className="font-semibold text-sm sm:text-lg px-2 pt-2 mb-2">Apuração mensal</h3>
+        {yearMonths.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-6">Nenhuma venda de ações em {year}.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Mês</TableHead>
+                <TableHead className="text-right">Vendas</TableHead>
+                <TableHead className="text-right">Resultado</TableHead>
+                <TableHead className="text-right hidden sm:table-cell">Prejuízo usado</TableHead>
+                <TableHead className="text-right hidden md:table-cell">A compensar</TableHead>
+                <TableHead className="text-right">DARF</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {yearMonths.map((m) => (
+                <TableRow key={m.month}>
+                  <TableCell className="font-medium capitalize whitespace-nowrap">
+                    {formatMonth(m.month)}
+                    {m.exempt && m.result > 0 && (
+                      <Badge variant="secondary" className="ml-1 text-[10px]">Isento</Badge>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <PrivacyValue value={m.sales} />
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <PrivacyValue
+                      value={m.result}
+                      showSign
+                      className={cn(m.result >= 0 ? 'text-income' : 'text-expense')}
+                    />
+                  </TableCell>
+                  <TableCell className="text-right hidden sm:table-cell">
+                    <PrivacyValue value={m.lossUsed} />
+                  </TableCell>
+                  <TableCell className="text-right hidden md:table-cell">
+                    <PrivacyValue value={m.lossCarried} />
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {m.darf > 0 ? (
+                      <div>
+                        <PrivacyValue value={m.darf} className="font-semibold" />
+                        <p className="text-[10px] text-muted-foreground">até {formatDay(m.dueDate)}</p>
+                      </div>
+                    ) : m.tax + m.carriedTax > 0 ? (
+                      <span className="text-[10px] text-muted-foreground">abaixo de R$ 10, acumula</span>
+                    ) : (
+                      <span className="text-muted-foreground">—</span>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </motion.div>
+
+      {/* Sales */}
+      {yearSales.length > 0 && (
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.15 }}
+          className="glass-card rounded-xl p-2 sm:p-4"
+        >
+          <h3 className="font-semibold text-sm sm:text-lg px-2 pt-2 mb-2">Vendas</h3>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Data</TableHead>
+                <TableHead>Ativo</TableHead>
+                <TableHead className="text-right hidden sm:table-cell">Qtd.</TableHead>
+                <TableHead className="text-right">Valor</TableHead>
+                <TableHead className="text-right hidden md:table-cell">Custo médio</TableHead>
+                <TableHead className="text-right">Resultado</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {yearSales.map((s, index) => (
+                <TableRow key={`${s.investmentId}-${s.date}-${index}`}>
+                  <TableCell className="whitespace-nowrap">{formatDay(s.date)}</TableCell>
+                  <TableCell className="font-medium">{s.ticker}</TableCell>
+                  <TableCell className="text-right hidden sm:table-cell">
+                    {s.quantity.toLocaleString('pt-BR', { maximumFractionDigits: 8 })}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <PrivacyValue value={s.amount} />
+                  </TableCell>
+                  <TableCell className="text-right hidden md:table-cell">
+                    <PrivacyValue value={s.cost} />
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <PrivacyValue
+                      value={s.gain}
+                      showSign
+                      className={cn(s.gain >= 0 ? 'text-income' : 'text-expense')}
+                    />
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </motion.div>
+      )}
+
+      {/* Holdings at year end */}
+      {holdings.length > 0 && (
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.2 }}
+          className="glass-card rounded-xl p-2 sm:p-4"
+        >
+          <h3 className="font-semibold text-sm sm:text-lg px-2 pt-2 mb-2 flex items-center gap-2">
+            <FileText className="w-4 h-4 text-muted-foreground" />
+            Posição em 31/12/{year}
+          </h3>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Ativo</TableHead>
+                <TableHead className="text-right">Qtd.</TableHead>
+                <TableHead className="text-right hidden sm:table-cell">Preço médio</TableHead>
+                <TableHead className="text-right">Custo</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {holdings.map((h) => (
+                <TableRow key={h.ticker}>
+                  <TableCell className="font-medium">{h.ticker}</TableCell>
+                  <TableCell className="text-right">
+                    {h.quantity.toLocaleString('pt-BR', { maximumFractionDigits: 8 })}
+                  </TableCell>
+                  <TableCell className="text-right hidden sm:table-cell">
+                    <PrivacyValue value={h.averagePrice} />
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <PrivacyValue value={h.cost} />
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+          <p className="text-[11px] text-muted-foreground px-2 pt-2">
+            Em "Bens e Direitos" as ações são declaradas pelo custo de aquisição, não pelo valor de mercado.
+          </p>
+        </motion.div>
+      )}
+    </div>
+  );
+}
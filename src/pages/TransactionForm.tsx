@@ -1,34 +1,50 @@
 import { useState, useEffect } from 'react';
-import { useNavigate, useParams } from 'react-router-dom';
+import { useNavigate, useParams, Link } from 'react-router-dom';
 import { motion } from 'framer-motion';
-import { ArrowLeft, Check, TrendingUp, TrendingDown, RefreshCw } from 'lucide-react';
+import { ArrowLeft, ArrowLeftRight, Check, TrendingUp, TrendingDown, RefreshCw, Layers } from 'lucide-react';
 import { useTransactions } from '@/contexts/TransactionContext';
 import { useToast } from '@/hooks/use-toast';
-import { TransactionCategory, TransactionType, categoryLabels } from '@/types/transaction';
+import { Transaction, TransactionCategory, TransactionType } from '@/types/transaction';
+import { RecurrenceFrequency, RecurrenceScope, frequencyLabels } from '@/types/recurrence';
+import { CurrencyCode, currencyLabels } from '@/types/currency';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import AccountSelect from '@/components/AccountSelect';
+import RecurringScopeDialog from '@/components/modals/RecurringScopeDialog';
+import CategoriesModal from '@/components/modals/CategoriesModal';
+import TagInput from '@/components/TagInput';
+import SplitLinesInput from '@/components/SplitLinesInput';
+import AttachmentPicker from '@/components/AttachmentPicker';
+import AttachmentGallery from '@/components/AttachmentGallery';
+import { getTransferCounterpart } from '@/lib/transactions';
+import { installmentLabel, splitInstallmentAmounts } from '@/lib/installments';
+import { describeSchedule } from '@/lib/recurrence';
+import { getCategory, getCategoriesForType } from '@/lib/categories';
+import { getCategoryIcon } from '@/lib/categoryIcons';
+import { getTransactionTags } from '@/lib/tags';
+import { SplitLineDraft, getMainCategory, parseSplitDrafts, toSplitDraft, validateSplits } from '@/lib/splits';
+import { DEFAULT_CURRENCY, formatMoney, getAccountCurrency, getCurrencySymbol } from '@/lib/currency';
 import { cn, toLocalDateString } from '@/lib/utils';
 
-const categoryEmojis: Record<TransactionCategory, string> = {
-  salary: '💰',
-  food: '🍔',
-  transport: '🚗',
-  shopping: '🛍️',
-  health: '💊',
-  entertainment: '🎮',
-  bills: '📄',
-  education: '📚',
-  investment: '📈',
-  loan: '🤝',
-  other: '📦',
-};
+type RecurrenceEnd = 'never' | 'date' | 'count';
 
 export default function TransactionForm() {
   const { id } = useParams();
   const navigate = useNavigate();
-  const { transactions, addTransaction, updateTransaction } = useTransactions();
+  const {
+    transactions, accounts, installmentPlans, recurringRules, categories, tags, baseCurrency,
+    addTransaction, updateTransaction, addTransfer, addInstallmentPlan,
+    addRecurringRule, updateRecurringOccurrence, ensureTags, addAttachment,
+  } = useTransactions();
   const { toast } = useToast();
 
   const [isLoading, setIsLoading] = useState(false);
@@ -37,9 +53,44 @@ export default function TransactionForm() {
   const [amount, setAmount] = useState('');
   const [description, setDescription] = useState('');
   const [date, setDate] = useState(toLocalDateString());
+  const [currency, setCurrency] = useState<CurrencyCode>(baseCurrency);
+  const [tagNames, setTagNames] = useState<string[]>([]);
+  const [isSplit, setIsSplit] = useState(false);
+  const [splitLines, setSplitLines] = useState<SplitLineDraft[]>([]);
+  const [pendingFiles, setPendingFiles] = useState<File[]>([]);
   const [isRecurring, setIsRecurring] = useState(false);
+  const [frequency, setFrequency] = useState<RecurrenceFrequency>('monthly');
+  const [recurrenceInterval, setRecurrenceInterval] = useState('1');
+  const [recurrenceEnd, setRecurrenceEnd] = useState<RecurrenceEnd>('never');
+  const [endDate, setEndDate] = useState('');
+  const [occurrenceCount, setOccurrenceCount] = useState('12');
+  const [pendingOccurrenceUpdate, setPendingOccurrenceUpdate] = useState<Partial<Transaction> | null>(null);
+  const [isCategoriesOpen, setIsCategoriesOpen] = useState(false);
+  const [isInstallment, setIsInstallment] = useState(false);
+  const [installmentCount, setInstallmentCount] = useState('2');
+  const [accountId, setAccountId] = useState<string | undefined>(
+    () => accounts.find((a) => !a.isArchived)?.id
+  );
+  const [isTransferMode, setIsTransferMode] = useState(false);
+  const [toAccountId, setToAccountId] = useState<string | undefined>();
 
   const isEditing = !!id;
+  const editingTransaction = id ? transactions.find((t) => t.id === id) : undefined;
+  const counterpart = editingTransaction ? getTransferCounterpart(editingTransaction, transactions) : undefined;
+  const editingPlan = editingTransaction?.installmentPlanId
+    ? installmentPlans.find((p) => p.id === editingTransaction.installmentPlanId)
+    : undefined;
+  const editingRule = editingTransaction?.recurringRuleId
+    ? recurringRules.find((r) => r.id === editingTransaction.recurringRuleId)
+    : undefined;
+  // New series and installment plans don't carry tags or splits, only single entries do
+  const isSingleEntry = !isTransferMode && (isEditing || (!isRecurring && !(isInstallment && type === 'expense')));
+  // Entries are in their account's currency; only entries without an account pick one
+  const entryCurrency = accountId ? getAccountCurrency(accounts, accountId, baseCurrency) : currency;
+  const currencySymbol = getCurrencySymbol(entryCurrency);
+  const canTransfer = isEditing
+    ? !!editingTransaction?.transferId
+    : accounts.filter((a) => !a.isArchived).length >= 2;
 
   useEffect(() => {
     if (id) {
@@ -50,9 +101,67 @@ export default function TransactionForm() {
         setAmount(transaction.amount.toString());
         setDescription(transaction.description);
         setDate(transaction.date);
+        setCurrency(transaction.currency || DEFAULT_CURRENCY);
+        setAccountId(transaction.accountId);
+        setTagNames(getTransactionTags(transaction, tags).map((t) => t.name));
+        setIsSplit(!!transaction.splits);
+        setSplitLines(transaction.splits?.map(toSplitDraft) || []);
+
+        if (transaction.transferId) {
+          // The form always edits a transfer from the origin account's point of view
+          const other = getTransferCounterpart(transaction, transactions);
+          setIsTransferMode(true);
+          setAccountId(transaction.type === 'expense' ? transaction.accountId : other?.accountId);
+          setToAccountId(transaction.type === 'expense' ? other?.accountId : transaction.accountId);
+        }
+      }
+    }
+  }, [id, transactions, tags]);
+
+  const handleTransferSubmit = async (parsedAmount: number) => {
+    if (!accountId || !toAccountId || accountId === toAccountId) {
+      toast({
+        title: 'Contas inválidas',
+        description: 'Escolha contas de origem e destino diferentes.',
+        variant: 'destructive',
+      });
+      return false;
+    }
+    if (getAccountCurrency(accounts, accountId, baseCurrency) !== getAccountCurrency(accounts, toAccountId, baseCurrency)) {
+      toast({
+        title: 'Moedas diferentes',
+        description: 'Transferências só podem ser feitas entre contas na mesma moeda.',
+        variant: 'destructive',
+      });
+      return false;
+    }
+
+    const transferDescription = description || getCategory(categories, 'transfer').name;
+
+    if (isEditing && editingTransaction) {
+      const isOutLeg = editingTransaction.type === 'expense';
+      await updateTransaction(id!, {
+        amount: parsedAmount,
+        description: transferDescription,
+        date,
+        accountId: isOutLeg ? accountId : toAccountId,
+      });
+      if (counterpart) {
+        await updateTransaction(counterpart.id, { accountId: isOutLeg ? toAccountId : accountId });
       }
+      toast({ title: 'Atualizada!', description: 'Transferência salva.' });
+    } else {
+      await addTransfer({
+        fromAccountId: accountId,
+        toAccountId,
+        amount: parsedAmount,
+        description: transferDescription,
+        date,
+      });
+      toast({ title: '🔁 Transferência!', description: formatMoney(parsedAmount, entryCurrency) });
     }
-  }, [id, transactions]);
+    return true;
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -67,61 +176,187 @@ export default function TransactionForm() {
       return;
     }
 
+    const splits = isSplit && isSingleEntry ? parseSplitDrafts(splitLines) : undefined;
+    const splitError = splits && validateSplits(splits, parsedAmount, entryCurrency);
+    if (splitError) {
+      toast({
+        title: 'Divisão inválida',
+        description: splitError,
+        variant: 'destructive',
+      });
+      return;
+    }
+
     setIsLoading(true);
 
+    if (isTransferMode) {
+      const saved = await handleTransferSubmit(parsedAmount);
+      setIsLoading(false);
+      if (saved) navigate('/');
+      return;
+    }
+
+    if (isInstallment && !isEditing && type === 'expense') {
+      const parsedCount = parseInt(installmentCount);
+      if (isNaN(parsedCount) || parsedCount < 2 || parsedCount > 120) {
+        toast({
+          title: 'Parcelas inválidas',
+          description: 'Informe entre 2 e 120 parcelas.',
+          variant: 'destructive',
+        });
+        setIsLoading(false);
+        return;
+      }
+
+      await addInstallmentPlan({
+        description: description || getCategory(categories, category).name,
+        totalAmount: parsedAmount,
+        installmentCount: parsedCount,
+        firstDate: date,
+        category,
+        accountId,
+      });
+      toast({
+        title: '💳 Compra parcelada!',
+        description: `${parsedCount}x de ${formatMoney(parsedAmount / parsedCount, entryCurrency)}`,
+      });
+      setIsLoading(false);
+      navigate('/');
+      return;
+    }
+
     const transactionData = {
       type,
-      category,
+      category: splits ? getMainCategory(splits) : category,
+      splits,
       amount: parsedAmount,
-      description: description || categoryLabels[category],
+      description: description || getCategory(categories, category).name,
       date,
+      currency: entryCurrency,
+      accountId,
+      tagIds: isEditing || tagNames.length > 0 ? await ensureTags(tagNames) : undefined,
     };
 
+    if (isEditing && editingRule) {
+      // Saved once the user picks which occurrences the change applies to
+      setPendingOccurrenceUpdate(transactionData);
+      setIsLoading(false);
+      return;
+    }
+
     if (isEditing) {
       await updateTransaction(id!, transactionData);
       toast({
         title: 'Atualizada!',
         description: 'Transação salva.',
       });
-    } else {
-      // Add the main transaction
-      await addTransaction(transactionData);
-      
-      // If recurring, create transactions for the next 11 months
-      if (isRecurring) {
-        const baseDate = new Date(date);
-        for (let i = 1; i <= 11; i++) {
-          const futureDate = new Date(baseDate);
-          futureDate.setMonth(futureDate.getMonth() + i);
-          
-          await addTransaction({
-            ...transactionData,
-            date: toLocalDateString(futureDate),
-            description: `${description || categoryLabels[category]} (Recorrente)`,
-          });
-        }
+    } else if (isRecurring) {
+      const parsedInterval = parseInt(recurrenceInterval);
+      const parsedOccurrences = parseInt(occurrenceCount);
+      if (isNaN(parsedInterval) || parsedInterval < 1 || parsedInterval > 99) {
         toast({
-          title: type === 'income' ? '💰 Receita recorrente!' : '💸 Despesa recorrente!',
-          description: `12 lançamentos criados de R$ ${parsedAmount.toFixed(2)}`,
+          title: 'Intervalo inválido',
+          description: 'Informe um intervalo entre 1 e 99.',
+          variant: 'destructive',
         });
-      } else {
+        setIsLoading(false);
+        return;
+      }
+      if (recurrenceEnd === 'count' && (isNaN(parsedOccurrences) || parsedOccurrences < 2 || parsedOccurrences > 600)) {
         toast({
-          title: type === 'income' ? '💰 Receita!' : '💸 Despesa!',
-          description: `R$ ${parsedAmount.toFixed(2)}`,
+          title: 'Repetições inválidas',
+          description: 'Informe entre 2 e 600 repetições.',
+          variant: 'destructive',
         });
+        setIsLoading(false);
+        return;
+      }
+      if (recurrenceEnd === 'date' && (!endDate || endDate <= date)) {
+        toast({
+          title: 'Data final inválida',
+          description: 'A data final deve ser depois da primeira ocorrência.',
+          variant: 'destructive',
+        });
+        setIsLoading(false);
+        return;
+      }
+
+      const schedule = {
+        frequency,
+        interval: parsedInterval,
+        startDate: date,
+        endDate: recurrenceEnd === 'date' ? endDate : undefined,
+        occurrenceCount: recurrenceEnd === 'count' ? parsedOccurrences : undefined,
+        // Kept so a series started on the 31st returns to it after shorter months
+        dayOfMonth: frequency === 'monthly' || frequency === 'yearly'
+          ? new Date(date + 'T12:00:00').getDate()
+          : undefined,
+      };
+      await addRecurringRule({ ...transactionData, ...schedule });
+      toast({
+        title: type === 'income' ? '💰 Receita recorrente!' : '💸 Despesa recorrente!',
+        description: `${describeSchedule(schedule)} • ${formatMoney(parsedAmount, entryCurrency)}`,
+      });
+    } else {
+      const newId = await addTransaction(transactionData);
+      if (newId) {
+        for (const file of pendingFiles) await addAttachment(newId, file);
       }
+      toast({
+        title: type === 'income' ? '💰 Receita!' : '💸 Despesa!',
+        description: formatMoney(parsedAmount, entryCurrency),
+      });
     }
 
     setIsLoading(false);
     navigate('/');
   };
 
-  const filteredCategories = Object.entries(categoryLabels).filter(([key]) => {
-    if (type === 'income') {
-      return ['salary', 'investment', 'other'].includes(key);
+  const handleOccurrenceScope = async (scope: RecurrenceScope) => {
+    if (!pendingOccurrenceUpdate) return;
+    setPendingOccurrenceUpdate(null);
+    setIsLoading(true);
+    await updateRecurringOccurrence(id!, pendingOccurrenceUpdate, scope);
+    toast({
+      title: 'Atualizada!',
+      description: scope === 'this' ? 'Transação salva.' : 'Ocorrências da série atualizadas.',
+    });
+    setIsLoading(false);
+    navigate('/');
+  };
+
+  const filteredCategories = getCategoriesForType(categories, type);
+
+  const startTransfer = () => {
+    const active = accounts.filter((a) => !a.isArchived);
+    const from = accountId || active[0]?.id;
+    setAccountId(from);
+    setToAccountId((current) => current || active.find((a) => a.id !== from)?.id);
+    setIsTransferMode(true);
+  };
+
+  const parsedTotal = parseFloat(amount.replace(',', '.'));
+  const parsedInstallmentCount = parseInt(installmentCount);
+  const installmentValue = !isNaN(parsedTotal) && parsedInstallmentCount >= 2
+    ? splitInstallmentAmounts(parsedTotal, parsedInstallmentCount)[parsedInstallmentCount - 1]
+    : undefined;
+
+  const selectType = (newType: TransactionType) => {
+    if (newType !== type) setIsSplit(false);
+    setType(newType);
+    setIsTransferMode(false);
+  };
+
+  const toggleSplit = () => {
+    if (!isSplit && splitLines.length === 0) {
+      // Starts from the chosen category holding the whole amount
+      setSplitLines([
+        { category, amount, note: '' },
+        { category: filteredCategories.find((c) => c.key !== category)?.key || 'other', amount: '', note: '' },
+      ]);
     }
-    return key !== 'salary';
-  });
+    setIsSplit(!isSplit);
+  };
 
   return (
     <motion.div
@@ -140,14 +375,46 @@ export default function TransactionForm() {
       </div>
 
       <form onSubmit={handleSubmit} className="space-y-6">
+        {/* Installment notice */}
+        {editingTransaction?.installmentPlanId && (
+          <div className="flex items-center gap-3 p-4 bg-muted/50 rounded-xl">
+            <Layers className="w-5 h-5 text-primary shrink-0" />
+            <div className="flex-1 min-w-0">
+              <p className="text-sm font-medium">
+                Parcela {installmentLabel(editingTransaction.installmentNumber || 1, editingPlan?.installmentCount || 1)}
+              </p>
+              <p className="text-xs text-muted-foreground">
+                As alterações valem só para esta parcela.
+              </p>
+            </div>
+            <Link to="/parcelamentos" className="text-xs font-medium text-primary shrink-0">
+              Editar todas
+            </Link>
+          </div>
+        )}
+
+        {/* Recurring notice */}
+        {editingRule && (
+          <div className="flex items-center gap-3 p-4 bg-muted/50 rounded-xl">
+            <RefreshCw className="w-5 h-5 text-primary shrink-0" />
+            <div className="flex-1 min-w-0">
+              <p className="text-sm font-medium">Lançamento recorrente</p>
+              <p className="text-xs text-muted-foreground truncate">
+                {describeSchedule(editingRule)}
+              </p>
+            </div>
+          </div>
+        )}
+
         {/* Type Toggle */}
         <div className="flex gap-2 p-1 bg-muted rounded-xl">
           <button
             type="button"
-            onClick={() => setType('expense')}
+            onClick={() => selectType('expense')}
+            disabled={isEditing && isTransferMode}
             className={cn(
               'flex-1 flex items-center justify-center gap-2 py-3.5 rounded-lg font-semibold transition-all',
-              type === 'expense'
+              !isTransferMode && type === 'expense'
                 ? 'bg-expense text-white shadow-md'
                 : 'text-muted-foreground'
             )}
@@ -157,10 +424,11 @@ export default function TransactionForm() {
           </button>
           <button
             type="button"
-            onClick={() => setType('income')}
+            onClick={() => selectType('income')}
+            disabled={isEditing && isTransferMode}
             className={cn(
               'flex-1 flex items-center justify-center gap-2 py-3.5 rounded-lg font-semibold transition-all',
-              type === 'income'
+              !isTransferMode && type === 'income'
                 ? 'bg-income text-white shadow-md'
                 : 'text-muted-foreground'
             )}
@@ -168,14 +436,29 @@ export default function TransactionForm() {
             <TrendingUp className="w-5 h-5" />
             Receita
           </button>
+          {canTransfer && (
+            <button
+              type="button"
+              onClick={startTransfer}
+              className={cn(
+                'flex-1 flex items-center justify-center gap-2 py-3.5 rounded-lg font-semibold transition-all',
+                isTransferMode
+                  ? 'bg-primary text-primary-foreground shadow-md'
+                  : 'text-muted-foreground'
+              )}
+            >
+              <ArrowLeftRight className="w-5 h-5" />
+              Transferir
+            </button>
+          )}
         </div>
 
         {/* Amount */}
         <div className="space-y-2">
-          <Label className="text-sm">Valor</Label>
+          <Label className="text-sm">{isInstallment && !isEditing ? 'Valor total' : 'Valor'}</Label>
           <div className="relative">
             <span className="absolute left-4 top-1/2 -translate-y-1/2 text-xl text-muted-foreground font-medium">
-              R$
+              {currencySymbol}
             </span>
             <Input
               type="text"
@@ -183,7 +466,7 @@ export default function TransactionForm() {
               value={amount}
               onChange={(e) => setAmount(e.target.value)}
               placeholder="0,00"
-              className="pl-12 h-14 text-2xl font-bold"
+              className={cn('h-14 text-2xl font-bold', currencySymbol.length > 2 ? 'pl-16' : 'pl-12')}
               autoFocus
             />
           </div>
@@ -201,27 +484,99 @@ export default function TransactionForm() {
         </div>
 
         {/* Category Grid */}
-        <div className="space-y-2">
-          <Label className="text-sm">Categoria</Label>
-          <div className="grid grid-cols-3 gap-2">
-            {filteredCategories.map(([key, label]) => (
-              <button
-                key={key}
-                type="button"
-                onClick={() => setCategory(key as TransactionCategory)}
-                className={cn(
-                  'flex flex-col items-center justify-center gap-1 p-3 rounded-xl transition-all text-center',
-                  category === key
-                    ? 'bg-primary/10 border-2 border-primary'
-                    : 'bg-muted/50 border-2 border-transparent'
+        {!isTransferMode && (
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label className="text-sm">Categoria</Label>
+              <div className="flex gap-3">
+                {isSingleEntry && (
+                  <button type="button" onClick={toggleSplit} className="text-xs font-medium text-primary">
+                    {isSplit ? 'Categoria única' : 'Dividir'}
+                  </button>
                 )}
-              >
-                <span className="text-xl">{categoryEmojis[key as TransactionCategory]}</span>
-                <span className="text-xs font-medium truncate w-full">{label}</span>
-              </button>
-            ))}
+                <button
+                  type="button"
+                  onClick={() => setIsCategoriesOpen(true)}
+                  className="text-xs font-medium text-primary"
+                >
+                  Gerenciar
+                </button>
+              </div>
+            </div>
+            {isSplit && isSingleEntry ? (
+              <SplitLinesInput
+                value={splitLines}
+                onChange={setSplitLines}
+                type={type}
+                total={parseFloat(amount.replace(',', '.'))}
+                currency={entryCurrency}
+              />
+            ) : (
+              <div className="grid grid-cols-3 gap-2">
+                {filteredCategories.map((c) => {
+                  const Icon = getCategoryIcon(c.icon);
+                  return (
+                    <button
+                      key={c.key}
+                      type="button"
+                      onClick={() => setCategory(c.key)}
+                      className={cn(
+                        'flex flex-col items-center justify-center gap-1 p-3 rounded-xl transition-all text-center',
+                        category === c.key
+                          ? 'bg-primary/10 border-2 border-primary'
+                          : 'bg-muted/50 border-2 border-transparent'
+                      )}
+                    >
+                      <Icon className="w-5 h-5" style={{ color: c.color }} />
+                      <span className="text-xs font-medium truncate w-full">{c.name}</span>
+                    </button>
+                  );
+                })}
+              </div>
+            )}
           </div>
-        </div>
+        )}
+
+        {/* Transfer accounts */}
+        {isTransferMode && (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label className="text-sm">De</Label>
+              <AccountSelect value={accountId} onChange={setAccountId} allowEmpty={false} excludeId={toAccountId} />
+            </div>
+            <div className="space-y-2">
+              <Label className="text-sm">Para</Label>
+              <AccountSelect value={toAccountId} onChange={setToAccountId} allowEmpty={false} excludeId={accountId} />
+            </div>
+          </div>
+        )}
+
+        {/* Account */}
+        {!isTransferMode && accounts.length > 0 && (
+          <div className="space-y-2">
+            <Label className="text-sm">Conta</Label>
+            <AccountSelect value={accountId} onChange={setAccountId} />
+          </div>
+        )}
+
+        {/* Currency - only entries without an account choose it */}
+        {isSingleEntry && !accountId && (
+          <div className="space-y-2">
+            <Label className="text-sm">Moeda</Label>
+            <Select value={currency} onValueChange={setCurrency}>
+              <SelectTrigger className="h-12">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="z-[70]">
+                {Array.from(new Set([currency, ...Object.keys(currencyLabels)])).map((code) => (
+                  <SelectItem key={code} value={code}>
+                    {code} • {currencyLabels[code] || code}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
 
         {/* Date */}
         <div className="space-y-2">
@@ -234,26 +589,151 @@ export default function TransactionForm() {
           />
         </div>
 
-        {/* Recurring Checkbox - Only for new transactions */}
-        {!isEditing && (
-          <div className="flex items-center space-x-3 p-4 bg-muted/50 rounded-xl">
-            <Checkbox
-              id="recurring"
-              checked={isRecurring}
-              onCheckedChange={(checked) => setIsRecurring(checked as boolean)}
-            />
-            <div className="flex-1">
-              <label
-                htmlFor="recurring"
-                className="text-sm font-medium leading-none cursor-pointer flex items-center gap-2"
-              >
-                <RefreshCw className="w-4 h-4 text-primary" />
-                Repetir mensalmente
-              </label>
-              <p className="text-xs text-muted-foreground mt-1">
-                Cria automaticamente nos próximos 12 meses
-              </p>
+        {/* Tags */}
+        {isSingleEntry && (
+          <div className="space-y-2">
+            <Label className="text-sm">Tags</Label>
+            <TagInput value={tagNames} onChange={setTagNames} />
+          </div>
+        )}
+
+        {/* Attachments: uploaded right away when editing, after saving when new */}
+        {isSingleEntry && (
+          <div className="space-y-2">
+            <Label className="text-sm">Anexos</Label>
+            {isEditing ? (
+              <AttachmentGallery transactionId={id!} editable />
+            ) : (
+              <AttachmentPicker value={pendingFiles} onChange={setPendingFiles} />
+            )}
+          </div>
+        )}
+
+        {/* Installment Checkbox - Only for new expenses */}
+        {!isEditing && !isTransferMode && type === 'expense' && (
+          <div className="p-4 bg-muted/50 rounded-xl space-y-3">
+            <div className="flex items-center space-x-3">
+              <Checkbox
+                id="installment"
+                checked={isInstallment}
+                onCheckedChange={(checked) => {
+                  setIsInstallment(checked as boolean);
+                  if (checked) setIsRecurring(false);
+                }}
+              />
+              <div className="flex-1">
+                <label
+                  htmlFor="installment"
+                  className="text-sm font-medium leading-none cursor-pointer flex items-center gap-2"
+                >
+                  <Layers className="w-4 h-4 text-primary" />
+                  Compra parcelada
+                </label>
+                <p className="text-xs text-muted-foreground mt-1">
+                  Divide o valor total em parcelas mensais a partir da data
+                </p>
+              </div>
             </div>
+            {isInstallment && (
+              <div className="flex items-center gap-3">
+                <Input
+                  type="number"
+                  min="2"
+                  max="120"
+                  value={installmentCount}
+                  onChange={(e) => setInstallmentCount(e.target.value)}
+                  className="h-10 w-24"
+                />
+                <span className="text-sm text-muted-foreground">
+                  {installmentValue !== undefined
+                    ? `parcelas de ${formatMoney(installmentValue, entryCurrency)}`
+                    : 'parcelas'}
+                </span>
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Recurrence - Only for new transactions */}
+        {!isEditing && !isTransferMode && !isInstallment && (
+          <div className="p-4 bg-muted/50 rounded-xl space-y-3">
+            <div className="flex items-center space-x-3">
+              <Checkbox
+                id="recurring"
+                checked={isRecurring}
+                onCheckedChange={(checked) => setIsRecurring(checked as boolean)}
+              />
+              <div className="flex-1">
+                <label
+                  htmlFor="recurring"
+                  className="text-sm font-medium leading-none cursor-pointer flex items-center gap-2"
+                >
+                  <RefreshCw className="w-4 h-4 text-primary" />
+                  Repetir
+                </label>
+                <p className="text-xs text-muted-foreground mt-1">
+                  Os lançamentos são criados automaticamente conforme as datas chegam
+                </p>
+              </div>
+            </div>
+            {isRecurring && (
+              <div className="space-y-3">
+                <div className="flex items-center gap-2">
+                  <span className="text-sm text-muted-foreground shrink-0">A cada</span>
+                  <Input
+                    type="number"
+                    min="1"
+                    max="99"
+                    value={recurrenceInterval}
+                    onChange={(e) => setRecurrenceInterval(e.target.value)}
+                    className="h-10 w-16"
+                  />
+                  <Select value={frequency} onValueChange={(v) => setFrequency(v as RecurrenceFrequency)}>
+                    <SelectTrigger className="h-10 flex-1">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(frequencyLabels) as RecurrenceFrequency[]).map((key) => (
+                        <SelectItem key={key} value={key}>
+                          {frequencyLabels[key]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Select value={recurrenceEnd} onValueChange={(v) => setRecurrenceEnd(v as RecurrenceEnd)}>
+                    <SelectTrigger className="h-10 flex-1">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="never">Sem data final</SelectItem>
+                      <SelectItem value="date">Até uma data</SelectItem>
+                      <SelectItem value="count">Número de vezes</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  {recurrenceEnd === 'date' && (
+                    <Input
+                      type="date"
+                      value={endDate}
+                      min={date}
+                      onChange={(e) => setEndDate(e.target.value)}
+                      className="h-10 flex-1"
+                    />
+                  )}
+                  {recurrenceEnd === 'count' && (
+                    <Input
+                      type="number"
+                      min="2"
+                      max="600"
+                      value={occurrenceCount}
+                      onChange={(e) => setOccurrenceCount(e.target.value)}
+                      className="h-10 w-24"
+                    />
+                  )}
+                </div>
+              </div>
+            )}
           </div>
         )}
 
@@ -267,6 +747,15 @@ export default function TransactionForm() {
           {isEditing ? 'Salvar' : 'Adicionar'}
         </Button>
       </form>
+
+      <RecurringScopeDialog
+        open={!!pendingOccurrenceUpdate}
+        action="edit"
+        onSelect={handleOccurrenceScope}
+        onClose={() => setPendingOccurrenceUpdate(null)}
+      />
+
+      <CategoriesModal isOpen={isCategoriesOpen} onClose={() => setIsCategoriesOpen(false)} />
     </motion.div>
   );
 }
@@ -1,7 +1,9 @@
 import { useState, useMemo } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useNavigate, Link } from 'react-router-dom';
+import { Layers } from 'lucide-react';
 import { useTransactions } from '@/contexts/TransactionContext';
 import { useToast } from '@/hooks/use-toast';
+import { RecurrenceScope } from '@/types/recurrence';
 import TransactionList from '@/components/dashboard/TransactionList';
 import { motion } from 'framer-motion';
 import { cn } from '@/lib/utils';
@@ -15,7 +17,7 @@ const filterLabels: Record<FilterType, string> = {
 };
 
 export default function Transactions() {
-  const { transactions, deleteTransaction, pendingTransactionIds } = useTransactions();
+  const { transactions, deleteTransaction, deleteRecurringOccurrence, pendingTransactionIds } = useTransactions();
   const navigate = useNavigate();
   const { toast } = useToast();
   const [activeFilter, setActiveFilter] = useState<FilterType>('all');
@@ -29,8 +31,12 @@ export default function Transactions() {
     navigate(`/transacoes/editar/${id}`);
   };
 
-  const handleDelete = (id: string) => {
-    deleteTransaction(id);
+  const handleDelete = (id: string, scope?: RecurrenceScope) => {
+    if (scope) {
+      deleteRecurringOccurrence(id, scope);
+    } else {
+      deleteTransaction(id);
+    }
     toast({
       title: 'Excluída',
       description: 'Transação removida.',
@@ -42,11 +48,21 @@ export default function Transactions() {
       <motion.div
         initial={{ opacity: 0, y: -10 }}
         animate={{ opacity: 1, y: 0 }}
+        className="flex items-start justify-between gap-2"
       >
-        <h1 className="text-xl lg:text-2xl font-display font-bold">Transações</h1>
-        <p className="text-sm text-muted-foreground">
-          Todas as suas movimentações
-        </p>
+        <div>
+          <h1 className="text-xl lg:text-2xl font-display font-bold">Transações</h1>
+          <p className="text-sm text-muted-foreground">
+            Todas as suas movimentações
+          </p>
+        </div>
+        <Link
+          to="/parcelamentos"
+          className="flex items-center gap-1.5 text-xs text-muted-foreground hover:text-foreground transition-colors min-h-[36px] px-2 shrink-0"
+        >
+          <Layers className="w-4 h-4" />
+          Parcelamentos
+        </Link>
       </motion.div>
 
       {/* Filter Pills */}
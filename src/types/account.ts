@@ -0,0 +1,39 @@
+export type AccountType = 'checking' | 'savings' | 'cash' | 'wallet' | 'credit_card';
+
+export interface Account {
+  id: string;
+  name: string;
+  type: AccountType;
+  initialBalance: number;
+  currency: string; // ISO code of initialBalance and of the account's entries
+  color?: string;
+  isArchived: boolean;
+  closingDay?: number; // credit cards only
+  dueDay?: number; // credit cards only
+  creditLimit?: number; // credit cards only
+  createdAt: string;
+}
+
+export const accountTypeLabels: Record<AccountType, string> = {
+  checking: 'Conta Corrente',
+  savings: 'Poupança',
+  cash: 'Dinheiro',
+  wallet: 'Carteira Digital',
+  credit_card: 'Cartão de Crédito',
+};
+
+export const accountTypeIcons: Record<AccountType, string> = {
+  checking: 'Landmark',
+  savings: 'PiggyBank',
+  cash: 'Banknote',
+  wallet: 'Smartphone',
+  credit_card: 'CreditCard',
+};
+
+export const accountTypeColors: Record<AccountType, string> = {
+  checking: 'hsl(200 84% 50%)',
+  savings: 'hsl(140 70% 45%)',
+  cash: 'hsl(38 92% 50%)',
+  wallet: 'hsl(263 70% 50%)',
+  credit_card: 'hsl(350 80% 55%)',
+};
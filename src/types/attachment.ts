@@ -0,0 +1,11 @@
+/** File kept with a transaction or loan: receipt photo, boleto, contract. */
+export interface Attachment {
+  id: string;
+  transactionId: string;
+  storagePath: string; // path inside the attachments bucket
+  fileName: string;
+  mimeType: string;
+  size: number; // bytes
+  localDataUrl?: string; // captured offline, not uploaded yet
+  createdAt: string;
+}
@@ -0,0 +1,10 @@
+import { TransactionCategory } from '@/types/transaction';
+
+export interface Budget {
+  id: string;
+  category: TransactionCategory; // a parent category's budget covers its subcategories
+  month: string; // YYYY-MM
+  limit: number; // in the base currency
+  rollover: boolean; // adds what was left of the previous month's budget
+  createdAt: string;
+}
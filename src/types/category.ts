@@ -0,0 +1,21 @@
+import { TransactionCategory } from '@/types/transaction';
+
+/** Which transaction type a category is offered for. */
+export type CategoryKind = 'income' | 'expense' | 'both';
+
+export interface Category {
+  id: string;
+  key: TransactionCategory; // value stored in transactions.category
+  name: string;
+  parentId?: string;
+  icon: string; // lucide icon name, see categoryIconOptions
+  color: string;
+  kind: CategoryKind;
+  createdAt: string;
+}
+
+export const categoryKindLabels: Record<CategoryKind, string> = {
+  expense: 'Despesa',
+  income: 'Receita',
+  both: 'Ambos',
+};
@@ -0,0 +1,25 @@
+/** ISO 4217 code, e.g. "BRL", "USD". */
+export type CurrencyCode = string;
+
+/** On `date`, 1 unit of `currency` was worth `rate` units of `quoteCurrency`. */
+export interface ExchangeRate {
+  id: string;
+  currency: CurrencyCode;
+  quoteCurrency: CurrencyCode;
+  date: string;
+  rate: number;
+  createdAt: string;
+}
+
+export const currencyLabels: Record<CurrencyCode, string> = {
+  BRL: 'Real',
+  USD: 'Dólar americano',
+  EUR: 'Euro',
+  GBP: 'Libra esterlina',
+  ARS: 'Peso argentino',
+  CLP: 'Peso chileno',
+  UYU: 'Peso uruguaio',
+  CAD: 'Dólar canadense',
+  JPY: 'Iene',
+  CHF: 'Franco suíço',
+};
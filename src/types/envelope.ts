@@ -0,0 +1,19 @@
+import { TransactionCategory } from '@/types/transaction';
+
+export interface Envelope {
+  id: string;
+  name: string;
+  categories: TransactionCategory[]; // expenses in these (and their subcategories) draw the envelope down
+  createdAt: string;
+}
+
+/** Money assigned to, moved between or given back from envelopes, in the base currency. */
+export interface EnvelopeMovement {
+  id: string;
+  fromEnvelopeId?: string; // undefined = the "to be assigned" pool
+  toEnvelopeId?: string; // undefined = back to the pool
+  amount: number;
+  date: string;
+  note?: string;
+  createdAt: string;
+}
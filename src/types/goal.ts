@@ -0,0 +1,8 @@
+export interface Goal {
+  id: string;
+  name: string;
+  targetAmount: number; // in the base currency
+  deadline?: string; // YYYY-MM-DD
+  icon: string; // lucide name, from categoryIconOptions
+  createdAt: string;
+}
@@ -0,0 +1,12 @@
+import { TransactionCategory } from '@/types/transaction';
+
+export interface InstallmentPlan {
+  id: string;
+  description: string;
+  totalAmount: number;
+  installmentCount: number;
+  firstDate: string;
+  category: TransactionCategory;
+  accountId?: string;
+  createdAt: string;
+}
@@ -28,16 +28,19 @@ export interface CriptoDetails {
   precoMedio: number;
 }
 
+export type RendaFixaProduct = 'cdb' | 'lci' | 'lca';
+
 export interface RendaFixaDetails {
   instituicao: string;
   taxa: number;
   tipoTaxa: 'cdi' | 'ipca' | 'prefixado';
   vencimento: string;
+  produto?: RendaFixaProduct; // entries from before it was asked are taken as CDB
 }
 
 export interface PoupancaDetails {
   instituicao: string;
-  objetivo?: string;
+  objetivo?: string; // free text from before goals; new investments link a Goal instead
 }
 
 export interface FundosDetails {
@@ -61,14 +64,92 @@ export interface Investment {
   nome: string;
   tipo: InvestmentType;
   valorInvestido: number;
+  valorAtual?: number; // latest market value; the amount invested until it is first valued
   dataInvestimento: string;
   jaInvestido: boolean;
   descricao?: string;
   detalhesEspecificos?: InvestmentDetails;
   transactionId?: string;
+  goalId?: string;
+  classe?: string; // custom asset class for target allocation; grouped by tipo when unset
+  notaCorretagem?: string; // brokerage note the opening lot was imported from (see getNoteKey)
+  createdAt: string;
+}
+
+/** Target share of the portfolio in percent, keyed by asset class (an InvestmentType or a custom classe). */
+export type AllocationTargets = Record<string, number>;
+
+export type ValuationSource = 'manual' | 'import' | 'computed';
+
+/** Market value of an investment on a date. */
+export interface InvestmentValuation {
+  id: string;
+  investmentId: string;
+  date: string;
+  value: number;
+  source: ValuationSource;
   createdAt: string;
 }
 
+export type InvestmentMovementType = 'contribution' | 'withdrawal' | 'fee' | 'income';
+
+/** Kinds of provento an 'income' movement can be. */
+export type IncomeType = 'dividend' | 'jcp' | 'fii' | 'coupon';
+
+/**
+ * Money put into or taken out of an investment after it was made. Quantity and
+ * unit price apply to assets held in units (ações, cripto, fundos).
+ */
+export interface InvestmentMovement {
+  id: string;
+  investmentId: string;
+  type: InvestmentMovementType;
+  date: string;
+  amount: number; // always positive; the type gives the direction
+  quantity?: number;
+  unitPrice?: number;
+  fees?: number; // brokerage and exchange fees on a buy or sell, on top of amount
+  incomeType?: IncomeType; // only for 'income'
+  taxWithheld?: number; // withheld at source from an income's amount (JCP)
+  note?: string;
+  brokerageNote?: string; // brokerage note it was imported from (see getNoteKey)
+  transactionId?: string; // matching cash entry, when one was created
+  createdAt: string;
+}
+
+export const movementTypeLabels: Record<InvestmentMovementType, string> = {
+  contribution: 'Aporte',
+  withdrawal: 'Resgate',
+  fee: 'Taxa',
+  income: 'Rendimento',
+};
+
+export const incomeTypeLabels: Record<IncomeType, string> = {
+  dividend: 'Dividendo',
+  jcp: 'JCP',
+  fii: 'Rendimento FII',
+  coupon: 'Cupom',
+};
+
+export const incomeTypeColors: Record<IncomeType, string> = {
+  dividend: '#10B981',
+  jcp: '#3B82F6',
+  fii: '#F59E0B',
+  coupon: '#8B5CF6',
+};
+
+export const valuationSourceLabels: Record<ValuationSource, string> = {
+  manual: 'Manual',
+  import: 'Importado',
+  computed: 'Calculado',
+};
+
+export const rendaFixaProductLabels: Record<RendaFixaProduct, string> = {
+  cdb: 'CDB',
+  lci: 'LCI',
+  lca: 'LCA',
+};
+
 export const investmentTypeLabels: Record<InvestmentType, string> = {
   tesouro_direto: 'Tesouro Direto',
   renda_fixa: 'Renda Fixa',
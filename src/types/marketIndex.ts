@@ -0,0 +1,20 @@
+/** Reference rates fixed-income investments are indexed to. */
+export type MarketIndex = 'cdi' | 'selic' | 'ipca';
+
+/**
+ * Published value of an index: for CDI and Selic the annual rate (252 business
+ * days) in effect from `date`, for IPCA the percent change of the month `date` is in.
+ */
+export interface IndexRate {
+  id: string;
+  index: MarketIndex;
+  date: string;
+  rate: number; // percent, e.g. 10.65
+  createdAt: string;
+}
+
+export const marketIndexLabels: Record<MarketIndex, string> = {
+  cdi: 'CDI',
+  selic: 'Selic',
+  ipca: 'IPCA',
+};
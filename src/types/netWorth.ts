@@ -0,0 +1,15 @@
+/** What makes up the net worth on a date, in the base currency. */
+export interface NetWorthBreakdown {
+  accounts: number; // balances outside credit cards
+  investments: number;
+  receivables: number; // loans given not yet received back
+  payables: number; // loans taken not yet paid
+  cardDebt: number; // owed on credit cards
+}
+
+export interface NetWorthSnapshot extends NetWorthBreakdown {
+  id: string;
+  month: string; // YYYY-MM; values as of the end of the month
+  currency: string; // base currency when recorded
+  createdAt: string;
+}
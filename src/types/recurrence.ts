@@ -0,0 +1,36 @@
+import { TransactionCategory, TransactionType } from '@/types/transaction';
+
+export type RecurrenceFrequency = 'weekly' | 'biweekly' | 'monthly' | 'yearly';
+
+/** Which occurrences an edit or delete on a recurring entry applies to. */
+export type RecurrenceScope = 'this' | 'following' | 'all';
+
+export interface RecurringRule {
+  id: string;
+  description: string;
+  amount: number;
+  type: TransactionType;
+  category: TransactionCategory;
+  accountId?: string;
+  frequency: RecurrenceFrequency;
+  interval: number;
+  startDate: string;
+  endDate?: string;
+  occurrenceCount?: number;
+  dayOfMonth?: number; // monthly/yearly; clamped to the last day of shorter months
+  materializedUntil?: string;
+  createdAt: string;
+}
+
+export const frequencyLabels: Record<RecurrenceFrequency, string> = {
+  weekly: 'Semanal',
+  biweekly: 'Quinzenal',
+  monthly: 'Mensal',
+  yearly: 'Anual',
+};
+
+export const recurrenceScopeLabels: Record<RecurrenceScope, string> = {
+  this: 'Só esta',
+  following: 'Esta e as seguintes',
+  all: 'Todas',
+};
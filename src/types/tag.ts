@@ -0,0 +1,5 @@
+export interface Tag {
+  id: string;
+  name: string; // normalized: lowercase, no spaces (see normalizeTagName)
+  createdAt: string;
+}
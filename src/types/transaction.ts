@@ -1,6 +1,7 @@
 export type TransactionType = 'income' | 'expense';
 
-export type TransactionCategory = 
+/** Keys of the categories every user starts with (see `categories` table). */
+export type DefaultCategory = 
   | 'salary' 
   | 'food' 
   | 'transport' 
@@ -11,8 +12,19 @@ export type TransactionCategory =
   | 'education' 
   | 'investment' 
   | 'loan' 
+  | 'transfer'
   | 'other';
 
+/** Key of one of the user's categories: a DefaultCategory or a generated key. */
+export type TransactionCategory = string;
+
+/** Part of a transaction attributed to its own category. */
+export interface TransactionSplit {
+  category: TransactionCategory;
+  amount: number;
+  note?: string;
+}
+
 export interface Transaction {
   id: string;
   type: TransactionType;
@@ -20,13 +32,35 @@ export interface Transaction {
   amount: number;
   description: string;
   date: string;
+  currency?: string; // ISO code; new entries default to their account's currency
+  accountId?: string;
+  transferId?: string;
+  invoiceMonth?: string; // YYYY-MM of the card invoice an invoice payment settles
+  installmentPlanId?: string;
+  installmentNumber?: number; // 1-based position within the installment plan
+  recurringRuleId?: string;
+  recurrenceIndex?: number; // 0-based position within the recurring series
+  tagIds?: string[];
+  splits?: TransactionSplit[]; // lines adding up to amount; category then holds the largest line's
   isLoan?: boolean;
   loanPerson?: string;
   loanStatus?: 'pending' | 'paid' | 'received';
   loanSettledDate?: string;
+  loanDueDate?: string; // when a pending loan is expected to be settled
+  goalId?: string; // contribution to (expense) or withdrawal from (income) a savings goal
   createdAt: string;
 }
 
+/** Money moved between two of the user's accounts, stored as a linked expense/income pair. */
+export interface TransferInput {
+  fromAccountId: string;
+  toAccountId: string;
+  amount: number;
+  date: string;
+  description: string;
+  invoiceMonth?: string;
+}
+
 export interface Reminder {
   id: string;
   title: string;
@@ -39,7 +73,8 @@ export interface Reminder {
   createdAt: string;
 }
 
-export const categoryLabels: Record<TransactionCategory, string> = {
+/** Seed for each user's categories; read names, icons and colors from the table. */
+export const categoryLabels: Record<DefaultCategory, string> = {
   salary: 'Salário',
   food: 'Alimentação',
   transport: 'Transporte',
@@ -50,10 +85,11 @@ export const categoryLabels: Record<TransactionCategory, string> = {
   education: 'Educação',
   investment: 'Investimento',
   loan: 'Empréstimo',
+  transfer: 'Transferência',
   other: 'Outros',
 };
 
-export const categoryIcons: Record<TransactionCategory, string> = {
+export const categoryIcons: Record<DefaultCategory, string> = {
   salary: 'Wallet',
   food: 'UtensilsCrossed',
   transport: 'Car',
@@ -64,10 +100,11 @@ export const categoryIcons: Record<TransactionCategory, string> = {
   education: 'GraduationCap',
   investment: 'TrendingUp',
   loan: 'HandCoins',
+  transfer: 'ArrowLeftRight',
   other: 'MoreHorizontal',
 };
 
-export const categoryColors: Record<TransactionCategory, string> = {
+export const categoryColors: Record<DefaultCategory, string> = {
   salary: 'hsl(160 84% 39%)',
   food: 'hsl(38 92% 50%)',
   transport: 'hsl(200 84% 50%)',
@@ -78,5 +115,6 @@ export const categoryColors: Record<TransactionCategory, string> = {
   education: 'hsl(180 70% 45%)',
   investment: 'hsl(140 70% 45%)',
   loan: 'hsl(30 90% 55%)',
+  transfer: 'hsl(215 25% 55%)',
   other: 'hsl(215 20% 65%)',
 };
\ No newline at end of file
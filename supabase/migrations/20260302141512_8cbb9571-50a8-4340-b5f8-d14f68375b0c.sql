@@ -0,0 +1,41 @@
+-- Create accounts table (checking, savings, cash, digital wallet)
+CREATE TABLE public.accounts (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  name TEXT NOT NULL,
+  type TEXT NOT NULL CHECK (type IN ('checking', 'savings', 'cash', 'wallet')),
+  initial_balance DECIMAL(12,2) NOT NULL DEFAULT 0,
+  color TEXT,
+  is_archived BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.accounts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own accounts" 
+ON public.accounts FOR SELECT 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own accounts" 
+ON public.accounts FOR INSERT 
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own accounts" 
+ON public.accounts FOR UPDATE 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own accounts" 
+ON public.accounts FOR DELETE 
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_accounts_updated_at
+BEFORE UPDATE ON public.accounts
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Link transactions to an account (nullable for entries created before accounts existed)
+ALTER TABLE public.transactions
+ADD COLUMN account_id UUID REFERENCES public.accounts(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_transactions_account_id ON public.transactions(account_id);
@@ -0,0 +1,6 @@
+-- Transfers between accounts: two legs (expense on the source, income on the
+-- destination) sharing the same transfer_id
+ALTER TABLE public.transactions
+ADD COLUMN transfer_id UUID DEFAULT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_transactions_transfer_id ON public.transactions(transfer_id) WHERE transfer_id IS NOT NULL;
@@ -0,0 +1,15 @@
+-- Credit cards are accounts with a billing cycle: purchases made up to the
+-- closing day go to the invoice due on due_day
+ALTER TABLE public.accounts DROP CONSTRAINT IF EXISTS accounts_type_check;
+ALTER TABLE public.accounts
+ADD CONSTRAINT accounts_type_check CHECK (type IN ('checking', 'savings', 'cash', 'wallet', 'credit_card'));
+
+ALTER TABLE public.accounts
+ADD COLUMN closing_day SMALLINT CHECK (closing_day BETWEEN 1 AND 31),
+ADD COLUMN due_day SMALLINT CHECK (due_day BETWEEN 1 AND 31),
+ADD COLUMN credit_limit DECIMAL(12,2);
+
+-- Invoice payments are transfers into the card account; invoice_month (YYYY-MM,
+-- the month the invoice is due) records which invoice the payment settles
+ALTER TABLE public.transactions
+ADD COLUMN invoice_month TEXT CHECK (invoice_month ~ '^\d{4}-\d{2}$');
@@ -0,0 +1,43 @@
+-- Installment purchases (compras parceladas): one plan, one transaction per installment
+CREATE TABLE public.installment_plans (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  description TEXT NOT NULL,
+  total_amount DECIMAL(12,2) NOT NULL CHECK (total_amount > 0),
+  installment_count INTEGER NOT NULL CHECK (installment_count BETWEEN 2 AND 120),
+  first_date DATE NOT NULL,
+  category TEXT NOT NULL,
+  account_id UUID REFERENCES public.accounts(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.installment_plans ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own installment plans" 
+ON public.installment_plans FOR SELECT 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own installment plans" 
+ON public.installment_plans FOR INSERT 
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own installment plans" 
+ON public.installment_plans FOR UPDATE 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own installment plans" 
+ON public.installment_plans FOR DELETE 
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_installment_plans_updated_at
+BEFORE UPDATE ON public.installment_plans
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Each generated installment points back to its plan (removed together with it)
+ALTER TABLE public.transactions
+ADD COLUMN installment_plan_id UUID REFERENCES public.installment_plans(id) ON DELETE CASCADE,
+ADD COLUMN installment_number INTEGER CHECK (installment_number >= 1);
+
+CREATE INDEX IF NOT EXISTS idx_transactions_installment_plan_id ON public.transactions(installment_plan_id) WHERE installment_plan_id IS NOT NULL;
@@ -0,0 +1,53 @@
+-- Recurrence rules: one row per series; occurrences are materialized as
+-- transactions on demand, up to a short horizon ahead of today
+CREATE TABLE public.recurring_rules (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  description TEXT NOT NULL,
+  amount DECIMAL(12,2) NOT NULL CHECK (amount > 0),
+  type TEXT NOT NULL CHECK (type IN ('income', 'expense')),
+  category TEXT NOT NULL,
+  account_id UUID REFERENCES public.accounts(id) ON DELETE SET NULL,
+  frequency TEXT NOT NULL CHECK (frequency IN ('weekly', 'biweekly', 'monthly', 'yearly')),
+  interval INTEGER NOT NULL DEFAULT 1 CHECK (interval >= 1),
+  start_date DATE NOT NULL,
+  end_date DATE,
+  occurrence_count INTEGER CHECK (occurrence_count >= 1),
+  day_of_month SMALLINT CHECK (day_of_month BETWEEN 1 AND 31),
+  materialized_until DATE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.recurring_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own recurring rules" 
+ON public.recurring_rules FOR SELECT 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own recurring rules" 
+ON public.recurring_rules FOR INSERT 
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own recurring rules" 
+ON public.recurring_rules FOR UPDATE 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own recurring rules" 
+ON public.recurring_rules FOR DELETE 
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_recurring_rules_updated_at
+BEFORE UPDATE ON public.recurring_rules
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Occurrences know their series and position in it; the unique index makes
+-- materialization idempotent when several devices generate the same occurrence.
+-- It is not partial so upserts can target it (NULLs never conflict anyway)
+ALTER TABLE public.transactions
+ADD COLUMN recurring_rule_id UUID REFERENCES public.recurring_rules(id) ON DELETE CASCADE,
+ADD COLUMN recurrence_index INTEGER CHECK (recurrence_index >= 0);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_transactions_recurrence
+ON public.transactions(recurring_rule_id, recurrence_index);
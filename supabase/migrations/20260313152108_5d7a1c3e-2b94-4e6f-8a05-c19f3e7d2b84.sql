@@ -0,0 +1,38 @@
+-- User-defined categories. Transactions keep storing the category key, so the
+-- built-in keys ('food', 'bills', ...) stay valid once they are seeded here
+CREATE TABLE public.categories (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  key TEXT NOT NULL,
+  name TEXT NOT NULL,
+  parent_id UUID REFERENCES public.categories(id) ON DELETE SET NULL,
+  icon TEXT NOT NULL DEFAULT 'MoreHorizontal',
+  color TEXT NOT NULL DEFAULT 'hsl(215 20% 65%)',
+  kind TEXT NOT NULL DEFAULT 'expense' CHECK (kind IN ('income', 'expense', 'both')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, key)
+);
+
+ALTER TABLE public.categories ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own categories" 
+ON public.categories FOR SELECT 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own categories" 
+ON public.categories FOR INSERT 
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own categories" 
+ON public.categories FOR UPDATE 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own categories" 
+ON public.categories FOR DELETE 
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_categories_updated_at
+BEFORE UPDATE ON public.categories
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
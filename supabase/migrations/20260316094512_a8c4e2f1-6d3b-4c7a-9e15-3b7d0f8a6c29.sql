@@ -0,0 +1,51 @@
+-- Free-form tags that cut across categories ("viagem-2026", "reembolsável")
+CREATE TABLE public.tags (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  name TEXT NOT NULL CHECK (length(name) BETWEEN 1 AND 40),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, name)
+);
+
+ALTER TABLE public.tags ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own tags" 
+ON public.tags FOR SELECT 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own tags" 
+ON public.tags FOR INSERT 
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own tags" 
+ON public.tags FOR UPDATE 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own tags" 
+ON public.tags FOR DELETE 
+USING (auth.uid() = user_id);
+
+-- Many-to-many link; rows go away with either side
+CREATE TABLE public.transaction_tags (
+  transaction_id UUID NOT NULL REFERENCES public.transactions(id) ON DELETE CASCADE,
+  tag_id UUID NOT NULL REFERENCES public.tags(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (transaction_id, tag_id)
+);
+
+ALTER TABLE public.transaction_tags ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own transaction tags" 
+ON public.transaction_tags FOR SELECT 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own transaction tags" 
+ON public.transaction_tags FOR INSERT 
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own transaction tags" 
+ON public.transaction_tags FOR DELETE 
+USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_transaction_tags_tag_id ON public.transaction_tags(tag_id);
@@ -0,0 +1,5 @@
+-- Optional split of a transaction across several categories.
+-- Array of {category, amount, note?}; the amounts add up to the transaction amount.
+ALTER TABLE public.transactions
+ADD COLUMN splits JSONB
+CHECK (splits IS NULL OR jsonb_typeof(splits) = 'array');
@@ -0,0 +1,51 @@
+-- Receipts, boletos and contracts kept next to a transaction or loan.
+-- Files live in the private "attachments" bucket under <user_id>/<transaction_id>/.
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'attachments',
+  'attachments',
+  false,
+  10485760,
+  ARRAY['image/jpeg', 'image/png', 'image/webp', 'image/gif', 'image/heic', 'application/pdf']
+)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Users can view their own attachment files"
+ON storage.objects FOR SELECT
+USING (bucket_id = 'attachments' AND auth.uid()::text = (storage.foldername(name))[1]);
+
+CREATE POLICY "Users can upload their own attachment files"
+ON storage.objects FOR INSERT
+WITH CHECK (bucket_id = 'attachments' AND auth.uid()::text = (storage.foldername(name))[1]);
+
+CREATE POLICY "Users can delete their own attachment files"
+ON storage.objects FOR DELETE
+USING (bucket_id = 'attachments' AND auth.uid()::text = (storage.foldername(name))[1]);
+
+CREATE TABLE public.transaction_attachments (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  transaction_id UUID NOT NULL REFERENCES public.transactions(id) ON DELETE CASCADE,
+  storage_path TEXT NOT NULL,
+  file_name TEXT NOT NULL,
+  mime_type TEXT NOT NULL,
+  size_bytes INTEGER NOT NULL CHECK (size_bytes > 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.transaction_attachments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own transaction attachments" 
+ON public.transaction_attachments FOR SELECT 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own transaction attachments" 
+ON public.transaction_attachments FOR INSERT 
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own transaction attachments" 
+ON public.transaction_attachments FOR DELETE 
+USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_transaction_attachments_transaction_id
+ON public.transaction_attachments(transaction_id);
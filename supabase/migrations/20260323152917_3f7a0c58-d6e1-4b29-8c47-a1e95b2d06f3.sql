@@ -0,0 +1,64 @@
+-- Multi-currency: every amount is in the currency of its row (ISO 4217 code)
+ALTER TABLE public.transactions
+ADD COLUMN currency TEXT NOT NULL DEFAULT 'BRL' CHECK (currency ~ '^[A-Z]{3}$');
+
+ALTER TABLE public.accounts
+ADD COLUMN currency TEXT NOT NULL DEFAULT 'BRL' CHECK (currency ~ '^[A-Z]{3}$');
+
+-- Per-user preferences; totals are shown in base_currency
+CREATE TABLE public.user_settings (
+  user_id UUID NOT NULL PRIMARY KEY,
+  base_currency TEXT NOT NULL DEFAULT 'BRL' CHECK (base_currency ~ '^[A-Z]{3}$'),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.user_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own settings" 
+ON public.user_settings FOR SELECT 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own settings" 
+ON public.user_settings FOR INSERT 
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own settings" 
+ON public.user_settings FOR UPDATE 
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_user_settings_updated_at
+BEFORE UPDATE ON public.user_settings
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Exchange rates kept by the user (typed in or imported from a file):
+-- on `date`, 1 unit of `currency` was worth `rate` units of `quote_currency`
+CREATE TABLE public.exchange_rates (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  currency TEXT NOT NULL CHECK (currency ~ '^[A-Z]{3}$'),
+  quote_currency TEXT NOT NULL CHECK (quote_currency ~ '^[A-Z]{3}$'),
+  date DATE NOT NULL,
+  rate DECIMAL(18,8) NOT NULL CHECK (rate > 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, currency, quote_currency, date)
+);
+
+ALTER TABLE public.exchange_rates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own exchange rates" 
+ON public.exchange_rates FOR SELECT 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own exchange rates" 
+ON public.exchange_rates FOR INSERT 
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own exchange rates" 
+ON public.exchange_rates FOR UPDATE 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own exchange rates" 
+ON public.exchange_rates FOR DELETE 
+USING (auth.uid() = user_id);
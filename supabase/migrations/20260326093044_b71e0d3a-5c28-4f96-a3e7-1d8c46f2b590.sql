@@ -0,0 +1,36 @@
+-- Monthly spending limit per category; month is 'YYYY-MM'.
+-- With rollover, what was left of the previous month's limit is added to this one.
+CREATE TABLE public.budgets (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  category TEXT NOT NULL,
+  month TEXT NOT NULL CHECK (month ~ '^\d{4}-(0[1-9]|1[0-2])$'),
+  amount_limit DECIMAL(12,2) NOT NULL CHECK (amount_limit > 0),
+  rollover BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, category, month)
+);
+
+ALTER TABLE public.budgets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own budgets" 
+ON public.budgets FOR SELECT 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own budgets" 
+ON public.budgets FOR INSERT 
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own budgets" 
+ON public.budgets FOR UPDATE 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own budgets" 
+ON public.budgets FOR DELETE 
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_budgets_updated_at
+BEFORE UPDATE ON public.budgets
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
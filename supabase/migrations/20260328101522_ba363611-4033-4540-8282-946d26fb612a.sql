@@ -0,0 +1,71 @@
+-- Envelope (zero-based) budgeting: while envelope_start_date is set, income from
+-- that date on goes to a "to be assigned" pool and is handed out to envelopes
+ALTER TABLE public.user_settings
+ADD COLUMN envelope_start_date DATE;
+
+-- An envelope covers a set of expense categories (keys); a parent category
+-- includes its subcategories
+CREATE TABLE public.envelopes (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  name TEXT NOT NULL,
+  categories TEXT[] NOT NULL DEFAULT '{}',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.envelopes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own envelopes" 
+ON public.envelopes FOR SELECT 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own envelopes" 
+ON public.envelopes FOR INSERT 
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own envelopes" 
+ON public.envelopes FOR UPDATE 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own envelopes" 
+ON public.envelopes FOR DELETE 
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_envelopes_updated_at
+BEFORE UPDATE ON public.envelopes
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Money assigned or moved, in the base currency. A null side is the
+-- "to be assigned" pool: null → envelope assigns, envelope → null gives back.
+-- Deleting an envelope returns what it held to the pool along with its movements.
+CREATE TABLE public.envelope_movements (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  from_envelope_id UUID REFERENCES public.envelopes(id) ON DELETE CASCADE,
+  to_envelope_id UUID REFERENCES public.envelopes(id) ON DELETE CASCADE,
+  amount DECIMAL(12,2) NOT NULL CHECK (amount > 0),
+  date DATE NOT NULL DEFAULT CURRENT_DATE,
+  note TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (from_envelope_id IS DISTINCT FROM to_envelope_id)
+);
+
+ALTER TABLE public.envelope_movements ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own envelope movements" 
+ON public.envelope_movements FOR SELECT 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own envelope movements" 
+ON public.envelope_movements FOR INSERT 
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own envelope movements" 
+ON public.envelope_movements FOR UPDATE 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own envelope movements" 
+ON public.envelope_movements FOR DELETE 
+USING (auth.uid() = user_id);
@@ -0,0 +1,45 @@
+-- Savings goals, funded by linked investments and by contribution entries
+-- (expenses put money into a goal, incomes take it back out)
+CREATE TABLE public.goals (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  name TEXT NOT NULL,
+  target_amount DECIMAL(12,2) NOT NULL CHECK (target_amount > 0),
+  deadline DATE,
+  icon TEXT NOT NULL DEFAULT 'PiggyBank',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.goals ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own goals" 
+ON public.goals FOR SELECT 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own goals" 
+ON public.goals FOR INSERT 
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own goals" 
+ON public.goals FOR UPDATE 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own goals" 
+ON public.goals FOR DELETE 
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_goals_updated_at
+BEFORE UPDATE ON public.goals
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Deleting a goal keeps what funded it, unlinked
+ALTER TABLE public.investments
+ADD COLUMN goal_id UUID REFERENCES public.goals(id) ON DELETE SET NULL;
+
+ALTER TABLE public.transactions
+ADD COLUMN goal_id UUID REFERENCES public.goals(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_investments_goal_id ON public.investments(goal_id);
+CREATE INDEX IF NOT EXISTS idx_transactions_goal_id ON public.transactions(goal_id);
@@ -0,0 +1,3 @@
+-- Expected settlement date of a pending loan, used by the cash-flow forecast
+ALTER TABLE public.transactions
+ADD COLUMN loan_due_date DATE;
@@ -0,0 +1,39 @@
+-- Net worth at the end of each month ('YYYY-MM'), in the base currency.
+-- The current month is overwritten as values change; past months stay as recorded.
+CREATE TABLE public.net_worth_snapshots (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  month TEXT NOT NULL CHECK (month ~ '^\d{4}-(0[1-9]|1[0-2])$'),
+  accounts DECIMAL(14,2) NOT NULL DEFAULT 0,
+  investments DECIMAL(14,2) NOT NULL DEFAULT 0,
+  receivables DECIMAL(14,2) NOT NULL DEFAULT 0,
+  payables DECIMAL(14,2) NOT NULL DEFAULT 0,
+  card_debt DECIMAL(14,2) NOT NULL DEFAULT 0,
+  currency TEXT NOT NULL DEFAULT 'BRL',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, month)
+);
+
+ALTER TABLE public.net_worth_snapshots ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own net worth snapshots" 
+ON public.net_worth_snapshots FOR SELECT 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own net worth snapshots" 
+ON public.net_worth_snapshots FOR INSERT 
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own net worth snapshots" 
+ON public.net_worth_snapshots FOR UPDATE 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own net worth snapshots" 
+ON public.net_worth_snapshots FOR DELETE 
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_net_worth_snapshots_updated_at
+BEFORE UPDATE ON public.net_worth_snapshots
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
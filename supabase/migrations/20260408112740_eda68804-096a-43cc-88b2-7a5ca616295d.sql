@@ -0,0 +1,37 @@
+-- Market value of an investment on a date: typed in, imported or computed.
+-- The latest one is mirrored in investments.current_value.
+CREATE TABLE public.investment_valuations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  investment_id UUID NOT NULL REFERENCES public.investments(id) ON DELETE CASCADE,
+  date DATE NOT NULL,
+  value DECIMAL(14,2) NOT NULL CHECK (value >= 0),
+  source TEXT NOT NULL DEFAULT 'manual' CHECK (source IN ('manual', 'import', 'computed')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.investment_valuations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own investment valuations" 
+ON public.investment_valuations FOR SELECT 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own investment valuations" 
+ON public.investment_valuations FOR INSERT 
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own investment valuations" 
+ON public.investment_valuations FOR UPDATE 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own investment valuations" 
+ON public.investment_valuations FOR DELETE 
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_investment_valuations_updated_at
+BEFORE UPDATE ON public.investment_valuations
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX IF NOT EXISTS idx_investment_valuations_investment_id ON public.investment_valuations(investment_id);
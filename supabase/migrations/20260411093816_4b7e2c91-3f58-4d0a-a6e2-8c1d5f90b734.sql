@@ -0,0 +1,41 @@
+-- Contributions, withdrawals, fees and income of an investment after it was made.
+-- The investment row keeps the opening lot; positions are worked out from both.
+CREATE TABLE public.investment_movements (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  investment_id UUID NOT NULL REFERENCES public.investments(id) ON DELETE CASCADE,
+  type TEXT NOT NULL CHECK (type IN ('contribution', 'withdrawal', 'fee', 'income')),
+  date DATE NOT NULL,
+  amount DECIMAL(14,2) NOT NULL CHECK (amount > 0),
+  quantity DECIMAL(20,8) CHECK (quantity > 0),
+  unit_price DECIMAL(20,8) CHECK (unit_price >= 0),
+  note TEXT,
+  transaction_id UUID REFERENCES public.transactions(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.investment_movements ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own investment movements" 
+ON public.investment_movements FOR SELECT 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own investment movements" 
+ON public.investment_movements FOR INSERT 
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own investment movements" 
+ON public.investment_movements FOR UPDATE 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own investment movements" 
+ON public.investment_movements FOR DELETE 
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_investment_movements_updated_at
+BEFORE UPDATE ON public.investment_movements
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX IF NOT EXISTS idx_investment_movements_investment_id ON public.investment_movements(investment_id);
@@ -0,0 +1,30 @@
+-- CDI, Selic and IPCA series kept by the user (typed in or imported from a file),
+-- used to project fixed-income investments. CDI and Selic are annual rates on a
+-- 252 business-day basis in effect from `date`; IPCA is the month's percent change.
+CREATE TABLE public.index_rates (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  index TEXT NOT NULL CHECK (index IN ('cdi', 'selic', 'ipca')),
+  date DATE NOT NULL,
+  rate DECIMAL(10,6) NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, index, date)
+);
+
+ALTER TABLE public.index_rates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own index rates" 
+ON public.index_rates FOR SELECT 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own index rates" 
+ON public.index_rates FOR INSERT 
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own index rates" 
+ON public.index_rates FOR UPDATE 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own index rates" 
+ON public.index_rates FOR DELETE 
+USING (auth.uid() = user_id);
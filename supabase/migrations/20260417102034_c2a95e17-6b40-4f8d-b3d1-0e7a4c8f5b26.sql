@@ -0,0 +1,4 @@
+-- Brokerage and exchange fees paid on a buy or sell, kept apart from its amount
+-- (quantity x unit price) so they go into the average cost and the realized gain
+ALTER TABLE public.investment_movements
+ADD COLUMN fees DECIMAL(14,2) NOT NULL DEFAULT 0 CHECK (fees >= 0);
@@ -0,0 +1,5 @@
+-- Proventos: what kind of income an 'income' movement is, and the tax withheld
+-- at source (15% on JCP), so the amount stays gross and the cash entry net
+ALTER TABLE public.investment_movements
+ADD COLUMN income_type TEXT CHECK (income_type IN ('dividend', 'jcp', 'fii', 'coupon')),
+ADD COLUMN tax_withheld DECIMAL(14,2) NOT NULL DEFAULT 0 CHECK (tax_withheld >= 0);
@@ -0,0 +1,8 @@
+-- Optional asset class grouping investments for target allocation (e.g. "Exterior");
+-- investments without one are grouped by their type
+ALTER TABLE public.investments
+ADD COLUMN asset_class TEXT;
+
+-- Target share of the portfolio per class, in percent: { "acoes": 30, "Exterior": 10 }
+ALTER TABLE public.user_settings
+ADD COLUMN allocation_targets JSONB NOT NULL DEFAULT '{}'::jsonb;
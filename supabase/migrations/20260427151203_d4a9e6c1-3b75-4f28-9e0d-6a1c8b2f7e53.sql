@@ -0,0 +1,3 @@
+-- Days before a fixed-income or Tesouro maturity to start reminding the user
+ALTER TABLE public.user_settings
+ADD COLUMN maturity_reminder_days INTEGER NOT NULL DEFAULT 30 CHECK (maturity_reminder_days >= 0 AND maturity_reminder_days <= 365);
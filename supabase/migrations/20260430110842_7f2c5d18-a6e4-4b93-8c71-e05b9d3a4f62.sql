@@ -0,0 +1,9 @@
+-- Number of the brokerage note (nota de corretagem) a trade was imported from,
+-- on the opening lot or on the movement, so a note is not imported twice
+ALTER TABLE public.investments
+ADD COLUMN brokerage_note TEXT;
+
+ALTER TABLE public.investment_movements
+ADD COLUMN brokerage_note TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_investment_movements_brokerage_note ON public.investment_movements(brokerage_note);
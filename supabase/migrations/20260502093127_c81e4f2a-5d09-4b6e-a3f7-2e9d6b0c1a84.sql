@@ -0,0 +1,3 @@
+-- Expense entry created when an investment was made, so the link survives a reload
+ALTER TABLE public.investments
+ADD COLUMN transaction_id UUID REFERENCES public.transactions(id) ON DELETE SET NULL;